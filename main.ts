@@ -10,6 +10,7 @@
  *
  * 1. **Conexión a la Base de Datos:** Establece una conexión a MongoDB utilizando las configuraciones proporcionadas.
  * 2. **Sincronización de Índices:** Recorre todos los modelos registrados en Mongoose y sincroniza sus índices.
+ *    Después reanuda los trabajos de renombrado de carpetas que quedaron sin terminar.
  * 3. **Manejo de Señales de Terminación:** Añade escuchadores para señales como `SIGINT` y `SIGBREAK` para asegurar
  *    que la conexión a la base de datos se cierre correctamente al finalizar la ejecución.
  * 4. **Servidor Web:** Inicia un servidor web utilizando Deno que maneja las solicitudes entrantes a través de `app.fetch`.
@@ -22,6 +23,7 @@
  * - Finaliza la ejecución del proceso con un código de error.
  */
 import { setup } from 'config';
+import { RenameJobModel } from 'models';
 import mongoose, { connect, model, modelNames } from 'mongoose';
 
 import { api } from './src/app.ts';
@@ -80,6 +82,13 @@ try {
     console.log(`Índices sincronizados para el modelo: ${model_name}`);
   }
 
+  /**
+   * Reanudar los trabajos de renombrado que quedaron en `pending` o `running` al
+   * detener el servidor; se ejecutan en segundo plano, uno a la vez.
+   */
+  const resumed = await RenameJobModel.resume();
+  if (resumed) console.info(`Trabajos de renombrado reanudados: ${resumed}`);
+
   /**
    * Añadir escuchadores de señales para manejar el cierre limpio de la aplicación.
    *
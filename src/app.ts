@@ -2,13 +2,18 @@ import { cors, Hono } from 'deps';
 import { factory } from 'factory';
 // import { methodNotAllowedMiddleware, notFoundMiddleware } from 'middlewares';
 import {
-    brandRoutes, imageRoutes, itemRoutes, keyRoutes, lineRoutes, updateRoutes, userRoutes
+    apiKeyRoutes, auditRoutes, brandRoutes, fitmentRoutes, imageRoutes, itemRoutes, keyRoutes,
+    lineRoutes, renameRoutes, roleRoutes, updateRoutes, userRoutes, vehicleRoutes, wellKnownRoutes
 } from 'routers';
 
 const api = new Hono();
 
 // { origin: "http://localhost:4200", credentials: true }
-api.use(cors({ origin: "http://localhost:1420", credentials: true }));
+api.use(cors({
+  origin: "http://localhost:1420",
+  credentials: true,
+  exposeHeaders: ["ETag"],
+}));
 
 const app = factory.createApp();
 
@@ -19,8 +24,15 @@ app.route("/key", keyRoutes);
 app.route("/item", itemRoutes);
 app.route("/image", imageRoutes);
 app.route("/update", updateRoutes);
+app.route("/apikey", apiKeyRoutes);
+app.route("/audit", auditRoutes);
+app.route("/role", roleRoutes);
+app.route("/rename", renameRoutes);
+app.route("/vehicle", vehicleRoutes);
+app.route("/fitment", fitmentRoutes);
 
 api.route("/api", app);
+api.route("/.well-known", wellKnownRoutes);
 // api.use("*", methodNotAllowedMiddleware);
 // api.use("*", notFoundMiddleware);
 
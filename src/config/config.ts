@@ -32,11 +32,76 @@ interface SetupConfig {
     readonly SECRET: string;
     /** Algoritmo de cifrado para firmar tokens. */
     readonly ALG: Algorithm;
+    /** Identificador (`kid`) de la llave con la que se firman los tokens nuevos. */
+    readonly KID: string;
+    /** Llave privada (PEM PKCS#8 o JWK) para los algoritmos asimétricos. */
+    readonly PRIVATE?: string;
+    /**
+     * Llaves públicas (PEM SPKI o JWK) aceptadas al verificar, indexadas por `kid`.
+     * Incluye la llave vigente y las retiradas que siguen en rotación.
+     */
+    readonly PUBLIC: Record<string, string>;
     /** Valor absoluto para propósitos específicos de cifrado o hashing. */
     readonly ABSOLUTE: string;
   };
+  /** Vigencia de los tokens emitidos en cada sesión. */
+  readonly TOKEN: {
+    /** Duración del token de acceso, en segundos. */
+    readonly ACCESS: number;
+    /** Duración del token de refresco, en segundos. */
+    readonly REFRESH: number;
+    /**
+     * Intervalo, en segundos, con que `authMiddleware` vuelve a consultar la sesión en la
+     * base de datos y actualiza su último uso. Acota cuánto tarda otra instancia en
+     * rechazar una sesión revocada.
+     */
+    readonly SEEN: number;
+  };
+  /** Límites de intentos fallidos de inicio de sesión. */
+  readonly THROTTLE: {
+    /** Dónde se guardan los contadores de intentos: en MongoDB o en memoria. */
+    readonly STORE: "mongo" | "memory";
+    /** Intentos fallidos tolerados antes de empezar a bloquear. */
+    readonly FREE: number;
+    /** Bloqueo inicial, en segundos; se duplica con cada intento fallido adicional. */
+    readonly DELAY: number;
+    /** Bloqueo máximo, en segundos. */
+    readonly LOCKOUT: number;
+    /** Tiempo sin intentos fallidos tras el cual se olvida el contador, en segundos. */
+    readonly WINDOW: number;
+  };
+  /** Autenticación de dos factores con códigos TOTP (RFC 6238). */
+  readonly TOTP: {
+    /** Emisor que muestran las aplicaciones autenticadoras. */
+    readonly ISSUER: string;
+    /** Duración de cada código, en segundos. */
+    readonly PERIOD: number;
+    /** Dígitos de cada código. */
+    readonly DIGITS: number;
+    /** Periodos aceptados antes y después del actual, por desfase de relojes. */
+    readonly DRIFT: number;
+    /** Vigencia del token de reto emitido tras validar la contraseña, en segundos. */
+    readonly CHALLENGE: number;
+    /** Cantidad de códigos de recuperación que se emiten. */
+    readonly RECOVERY: number;
+  };
+  /** Política que deben cumplir las contraseñas nuevas. */
+  readonly PASSWORD: {
+    /** Longitud mínima. */
+    readonly MIN: number;
+    /** Longitud máxima. */
+    readonly MAX: number;
+    /** Clases de caracteres distintas requeridas (minúsculas, mayúsculas, dígitos y símbolos). */
+    readonly CLASSES: number;
+    /** Contraseñas prohibidas, en minúsculas. */
+    readonly BANNED: readonly string[];
+  };
   /** Mapeo de permisos definidos o configurables vía entorno. */
   readonly AUTH: Record<string, number>;
+  /** Permisos finos con que se arman los roles personalizados (colección `Role`). */
+  readonly PERMISSIONS: readonly string[];
+  /** Permisos que otorga cada rol predefinido de `AUTH`; `"*"` concede todos. */
+  readonly ROLE_PERMISSIONS: Record<string, readonly string[]>;
   /** Límites establecidos en la lógica de la aplicación. */
   readonly LIMIT: {
     /** Límite para la cantidad de ítems permitidos. */
@@ -49,6 +114,16 @@ interface SetupConfig {
     readonly BRAND: number;
     /** Límite para documentos PDF o procesos relacionados. */
     readonly PDF: number;
+    /** Límite para la cantidad de registros de auditoría por página. */
+    readonly AUDIT: number;
+    /** Límite para la cantidad de vehículos por página. */
+    readonly VEHICLE: number;
+    /** Límite para la cantidad de filas de un archivo de importación. */
+    readonly IMPORT: number;
+    /** Cantidad de ítems que se insertan por lote al importar. */
+    readonly BATCH: number;
+    /** Límite para la cantidad de trabajos de renombrado por página. */
+    readonly RENAME: number;
   };
   /** Configuración global de imágenes. */
   readonly IMAGE: {
@@ -150,6 +225,51 @@ const ENV = Deno.env.get("ENV") || "development";
  */
 const SECRET = Deno.env.get("SECRET") || "itssecret";
 
+/**
+ * Lee una llave desde la variable de entorno indicada o, si no existe, desde el
+ * archivo al que apunta la variable con el sufijo `_FILE`.
+ *
+ * @param env - Nombre de la variable de entorno (por ejemplo, "PRIVATE_KEY").
+ * @returns El contenido de la llave, o `undefined` si no se configuró.
+ */
+function readKey(env: string): string | undefined {
+  const value = Deno.env.get(env);
+  if (value) return value;
+  const file = Deno.env.get(`${env}_FILE`);
+  return file ? Deno.readTextFileSync(file) : undefined;
+}
+
+/**
+ * Identificador de la llave vigente; viaja en el encabezado `kid` de cada token.
+ * Por defecto es "default".
+ */
+const KID = Deno.env.get("KID") || "default";
+
+/**
+ * Llave privada para firmar con algoritmos asimétricos (RS, PS, ES, EdDSA).
+ * Se lee de `PRIVATE_KEY` o del archivo indicado en `PRIVATE_KEY_FILE`.
+ */
+const PRIVATE = readKey("PRIVATE_KEY");
+
+/**
+ * Llaves públicas aceptadas al verificar tokens. La vigente se lee de `PUBLIC_KEY`
+ * (o `PUBLIC_KEY_FILE`); las retiradas, de un archivo JSON `{ "<kid>": "<llave>" }`
+ * indicado en `RETIRED_KEYS_FILE`, para que los tokens firmados antes de una
+ * rotación sigan siendo válidos hasta caducar.
+ */
+const RETIRED_KEYS_FILE = Deno.env.get("RETIRED_KEYS_FILE");
+const PUBLIC: Record<string, string> = RETIRED_KEYS_FILE
+  ? JSON.parse(Deno.readTextFileSync(RETIRED_KEYS_FILE))
+  : {};
+const CURRENT_PUBLIC = readKey("PUBLIC_KEY");
+if (CURRENT_PUBLIC) PUBLIC[KID] = CURRENT_PUBLIC;
+
+if (!ALG.startsWith("HS") && (!PRIVATE || !PUBLIC[KID])) {
+  throw new Error(
+    `El algoritmo ${ALG} requiere PRIVATE_KEY y PUBLIC_KEY (o sus variantes _FILE)`,
+  );
+}
+
 /**
  * Valor absoluto que puede usarse para algún ajuste de cifrado o hashing.
  * Por defecto es "itssecret".
@@ -162,6 +282,87 @@ const ABSOLUTE = Deno.env.get("ABSOLUTE") || "itssecret";
  */
 const PORT = Number(Deno.env.get("PORT")) || 8000;
 
+/**
+ * Duración del token de acceso (JWT) en minutos. Se mantiene corta porque el token
+ * no puede invalidarse por sí mismo; la sesión se extiende con el token de refresco.
+ * Por defecto son 15 minutos.
+ */
+const ACCESS_TTL = Number(Deno.env.get("ACCESS_TTL")) || 15;
+
+/**
+ * Duración del token de refresco en días.
+ * Si no está definido en el entorno, se utilizan 30 días.
+ */
+const REFRESH_TTL = Number(Deno.env.get("REFRESH_TTL")) || 30;
+
+/**
+ * Almacenamiento de los contadores de intentos de inicio de sesión.
+ * Con "memory" los contadores se pierden al reiniciar el servidor.
+ * Por defecto se usa "mongo".
+ */
+const THROTTLE_STORE = Deno.env.get("THROTTLE_STORE") === "memory"
+  ? "memory"
+  : "mongo";
+
+/**
+ * Intentos fallidos de inicio de sesión tolerados antes de aplicar un bloqueo.
+ * Por defecto son 5.
+ */
+const THROTTLE_FREE = Number(Deno.env.get("THROTTLE_FREE")) || 5;
+
+/**
+ * Duración máxima del bloqueo por intentos fallidos, en minutos.
+ * Por defecto son 15 minutos.
+ */
+const LOCKOUT_TTL = Number(Deno.env.get("LOCKOUT_TTL")) || 15;
+
+/**
+ * Emisor de los códigos TOTP, visible en la aplicación autenticadora del usuario.
+ * Por defecto es "CPH".
+ */
+const TOTP_ISSUER = Deno.env.get("TOTP_ISSUER") || "CPH";
+
+/**
+ * Longitud mínima de las contraseñas. Por defecto son 8 caracteres.
+ */
+const PASSWORD_MIN = Number(Deno.env.get("PASSWORD_MIN")) || 8;
+
+/**
+ * Longitud máxima de las contraseñas. Por defecto son 128 caracteres.
+ */
+const PASSWORD_MAX = Number(Deno.env.get("PASSWORD_MAX")) || 128;
+
+/**
+ * Clases de caracteres distintas (de 1 a 4) que debe combinar una contraseña.
+ * Por defecto son 3.
+ */
+const PASSWORD_CLASSES = Math.min(
+  Math.max(Number(Deno.env.get("PASSWORD_CLASSES")) || 3, 1),
+  4,
+);
+
+/**
+ * Contraseñas prohibidas. Además de las más comunes, se agregan las del archivo
+ * indicado en `PASSWORD_BANNED_FILE` (una por línea).
+ */
+const PASSWORD_BANNED_FILE = Deno.env.get("PASSWORD_BANNED_FILE");
+const PASSWORD_BANNED = [
+  "12345678",
+  "123456789",
+  "1234567890",
+  "password",
+  "password1",
+  "password123",
+  "contraseña",
+  "contraseña1",
+  "qwerty123",
+  "admin123",
+  "iloveyou",
+  ...(PASSWORD_BANNED_FILE
+    ? Deno.readTextFileSync(PASSWORD_BANNED_FILE).split(/\r?\n/)
+    : []),
+].map((banned) => banned.trim().toLowerCase()).filter(Boolean);
+
 /**
  * Conjunto de valores por defecto para permisos de autenticación.
  * Se definen usando desplazamiento de bits (bit flags).
@@ -215,6 +416,82 @@ const AUTH = Object.fromEntries(
   ADMIN: number;
 };
 
+/**
+ * Catálogo de permisos finos. Cada ruta protegida exige uno de ellos mediante
+ * `permissionMiddleware`; los roles personalizados los combinan libremente.
+ */
+const PERMISSIONS = [
+  "item.read",
+  "item.create",
+  "item.update",
+  "item.status",
+  "item.delete",
+  "item.reset",
+  "item.image.upload",
+  "item.image.delete",
+  "key.read",
+  "key.create",
+  "key.update",
+  "key.delete",
+  "key.reset",
+  "line.read",
+  "line.create",
+  "line.update",
+  "line.delete",
+  "brand.read",
+  "brand.create",
+  "brand.update",
+  "brand.delete",
+  "vehicle.read",
+  "vehicle.create",
+  "vehicle.update",
+  "vehicle.delete",
+  "user.manage",
+  "role.manage",
+  "apikey.manage",
+  "audit.read",
+  "update.publish",
+] as const satisfies SetupConfig["PERMISSIONS"];
+
+const READ_PERMISSIONS = [
+  "item.read",
+  "key.read",
+  "line.read",
+  "brand.read",
+  "vehicle.read",
+] as const;
+
+const EDIT_PERMISSIONS = [
+  ...READ_PERMISSIONS,
+  "item.update",
+  "item.status",
+  "item.image.upload",
+  "key.update",
+  "line.update",
+  "brand.update",
+  "vehicle.update",
+] as const;
+
+/**
+ * Permisos de los roles predefinidos, equivalentes a las verificaciones que
+ * antes hacía cada controlador con `roleIncludes`.
+ */
+const ROLE_PERMISSIONS = {
+  READ: READ_PERMISSIONS,
+  WRITE: READ_PERMISSIONS,
+  EDIT: EDIT_PERMISSIONS,
+  GRANT: [
+    ...EDIT_PERMISSIONS,
+    "item.create",
+    "item.image.delete",
+    "key.create",
+    "line.create",
+    "brand.create",
+    "vehicle.create",
+  ],
+  ADMIN: ["*"],
+} as const satisfies SetupConfig["ROLE_PERMISSIONS"];
+
 /**
  * Límites de ciertos campos o ítems en la aplicación.
  * Se definen como `const` para no permitir cambios en tiempo de ejecución.
@@ -230,6 +507,16 @@ const LIMIT = {
   BRAND: 20,
   /** Límite para documentos PDF o procesos relacionados. */
   PDF: 25,
+  /** Límite para la cantidad de registros de auditoría por página. */
+  AUDIT: 50,
+  /** Límite para la cantidad de vehículos por página. */
+  VEHICLE: 50,
+  /** Límite para la cantidad de filas de un archivo de importación. */
+  IMPORT: 5000,
+  /** Cantidad de ítems que se insertan por lote al importar. */
+  BATCH: 500,
+  /** Límite para la cantidad de trabajos de renombrado por página. */
+  RENAME: 20,
 } as const satisfies SetupConfig["LIMIT"];
 
 /**
@@ -292,9 +579,40 @@ export const setup: SetupConfig = {
   KEY: {
     SECRET,
     ALG,
+    KID,
+    PRIVATE,
+    PUBLIC,
     ABSOLUTE,
   },
+  TOKEN: {
+    ACCESS: ACCESS_TTL * 60,
+    REFRESH: REFRESH_TTL * 24 * 60 * 60,
+    SEEN: 60,
+  },
+  THROTTLE: {
+    STORE: THROTTLE_STORE,
+    FREE: THROTTLE_FREE,
+    DELAY: 1,
+    LOCKOUT: LOCKOUT_TTL * 60,
+    WINDOW: 24 * 60 * 60,
+  },
+  TOTP: {
+    ISSUER: TOTP_ISSUER,
+    PERIOD: 30,
+    DIGITS: 6,
+    DRIFT: 1,
+    CHALLENGE: 5 * 60,
+    RECOVERY: 10,
+  },
+  PASSWORD: {
+    MIN: PASSWORD_MIN,
+    MAX: PASSWORD_MAX,
+    CLASSES: PASSWORD_CLASSES,
+    BANNED: PASSWORD_BANNED,
+  },
   AUTH,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
   LIMIT,
   IMAGE,
 };
@@ -24,8 +24,23 @@ interface Lookup<T = PipelineStage.Lookup["$lookup"]> {
 
   /** Relaciona la subpropiedad `key.brand` con la colección `brands`. */
   readonly KEY_BRAND: T;
+
+  /** Relaciona la colección `vehicles` con el campo local `vehicle` de una aplicación. */
+  readonly VEHICLE: T;
+
+  /**
+   * Agrega a cada ítem sus aplicaciones como `fitments`, con el nombre del vehículo
+   * (`name`, marca y modelo) y los años en que aplica.
+   */
+  readonly FITMENTS: T;
 }
 
+/**
+ * Omite los documentos en la papelera (ver `softDelete`). Requiere MongoDB 5.0 o
+ * posterior, que admite `pipeline` junto con `localField` y `foreignField`.
+ */
+const ACTIVE = [{ $match: { deleted_at: { $exists: false } } }];
+
 /**
  * Objeto de lookup que realiza "joins" entre colecciones de MongoDB.
  * Cada clave representa una asociación distinta.
@@ -36,18 +51,21 @@ const LOOKUP: Lookup = {
     localField: "line",
     foreignField: "_id",
     as: "line",
+    pipeline: ACTIVE,
   },
   BRAND: {
     from: "brands",
     localField: "brand",
     foreignField: "_id",
     as: "brand",
+    pipeline: ACTIVE,
   },
   KEY: {
     from: "keys",
     localField: "key",
     foreignField: "_id",
     as: "key",
+    pipeline: ACTIVE,
     // from: "keys",
     // let: { keyId: "$key" },
     // pipeline: [
@@ -65,6 +83,7 @@ const LOOKUP: Lookup = {
     localField: "key.line",
     foreignField: "_id",
     as: "key.line",
+    pipeline: ACTIVE,
     // from: "lines",
     // let: { lineId: "$key.line" },
     // pipeline: [
@@ -78,6 +97,7 @@ const LOOKUP: Lookup = {
     localField: "key.brand",
     foreignField: "_id",
     as: "key.brand",
+    pipeline: ACTIVE,
     // from: "brands",
     // let: { brandId: "$key.brand" },
     // pipeline: [
@@ -86,6 +106,37 @@ const LOOKUP: Lookup = {
     // ],
     // as: "key.brand",
   },
+  VEHICLE: {
+    from: "vehicles",
+    localField: "vehicle",
+    foreignField: "_id",
+    as: "vehicle",
+  },
+  FITMENTS: {
+    from: "fitments",
+    localField: "_id",
+    foreignField: "item",
+    as: "fitments",
+    pipeline: [
+      {
+        $lookup: {
+          from: "vehicles",
+          localField: "vehicle",
+          foreignField: "_id",
+          as: "vehicle",
+        },
+      },
+      { $unwind: "$vehicle" },
+      {
+        $project: {
+          _id: 0,
+          name: { $concat: ["$vehicle.make", " ", "$vehicle.model"] },
+          year_from: 1,
+          year_to: 1,
+        },
+      },
+    ],
+  },
 };
 
 export { LOOKUP };
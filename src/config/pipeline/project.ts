@@ -54,6 +54,7 @@ const PROJECT: Project = {
       $concat: ["$line.code", "$brand.code"],
     },
     desc: "$line.desc",
+    version: 1,
   },
   ITEM: {
     code: {
@@ -74,6 +75,8 @@ const PROJECT: Project = {
         },
       },
     },
+    attributes: 1,
+    version: 1,
   },
   STATUS: {
     code: {
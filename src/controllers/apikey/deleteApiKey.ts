@@ -0,0 +1,41 @@
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { ApiKeyModel } from "models";
+
+/**
+ * @api {delete} /api/apikey Revocar Llave de API
+ * @apiVersion 1.0.0
+ * @apiName DeleteApiKey
+ * @apiGroup ApiKey
+ * @apiPermission admin
+ *
+ * @apiDescription Este endpoint revoca una llave de API. La llave deja de aceptarse de inmediato, pero se conserva en el listado para consulta.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id Identificador único de la llave.
+ *
+ * @apiSuccess {Object} data Llave revocada.
+ * @apiSuccess {String} data.identifier Identificador único de la llave.
+ * @apiSuccess {String} data.name Nombre de la llave.
+ * @apiSuccess {Date} data.revoked_at Fecha de revocación.
+ *
+ * @apiError (400) BadRequest El ID no es válido.
+ * @apiError (401) Unauthorized El usuario que realiza la solicitud no tiene permisos de administrador.
+ * @apiError (404) NotFound No se encontró una llave vigente con ese ID.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X DELETE http://localhost:5885/api/apikey?id=65a1f0c2e4b0a1b2c3d4e5f6 \
+ *     -H "Authorization: Bearer <Admin_Token>"
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const data = await ApiKeyModel.findOneAndUpdate(
+    { _id: req.query("id"), revoked_at: { $exists: false } },
+    { revoked_at: new Date() },
+    { new: true },
+  );
+  if (!data) throw new NotFoundError("No se encontró la llave solicitada");
+
+  const { _id: identifier, name, revoked_at } = data;
+  return json({ data: { identifier, name, revoked_at } });
+});
@@ -0,0 +1,3 @@
+export { default as saveApiKey } from "./saveApiKey.ts";
+export { default as listApiKey } from "./listApiKey.ts";
+export { default as deleteApiKey } from "./deleteApiKey.ts";
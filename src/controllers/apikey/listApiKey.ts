@@ -0,0 +1,48 @@
+import { factory } from "factory";
+import { ApiKeyModel } from "models";
+
+import { intoRoles } from "@utils/roles.ts";
+
+/**
+ * @api {get} /api/apikey Listar Llaves de API
+ * @apiVersion 1.0.0
+ * @apiName ListApiKey
+ * @apiGroup ApiKey
+ * @apiPermission admin
+ *
+ * @apiDescription Este endpoint lista las llaves de API registradas, incluidas las revocadas. El valor de las llaves nunca se devuelve; solo su prefijo.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiSuccess {Object[]} data Arreglo de llaves.
+ * @apiSuccess {String} data.identifier Identificador único de la llave.
+ * @apiSuccess {String} data.name Nombre de la llave.
+ * @apiSuccess {String} data.prefix Primeros caracteres de la llave.
+ * @apiSuccess {String[]} data.roles Roles de la llave.
+ * @apiSuccess {String[]} data.routes Rutas permitidas.
+ * @apiSuccess {Date} [data.last_used_at] Último uso de la llave.
+ * @apiSuccess {Date} [data.revoked_at] Fecha en que se revocó la llave.
+ *
+ * @apiError (401) Unauthorized El usuario que realiza la solicitud no tiene permisos de administrador.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET http://localhost:5885/api/apikey \
+ *     -H "Authorization: Bearer <Admin_Token>"
+ */
+export default factory.createHandlers(async ({ json }) => {
+  const data = await ApiKeyModel.find().sort({ _id: -1 }).lean();
+
+  return json({
+    data: data.map((
+      { _id: identifier, name, prefix, role, routes, last_used_at, revoked_at },
+    ) => ({
+      identifier,
+      name,
+      prefix,
+      roles: intoRoles(role),
+      routes,
+      last_used_at,
+      revoked_at,
+    })),
+  });
+});
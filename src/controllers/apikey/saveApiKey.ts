@@ -0,0 +1,74 @@
+import type { LeanApiKey } from "@interfaces/apikey.interface.ts";
+import { UnauthorizedError } from "errors";
+import { factory } from "factory";
+import { ApiKeyModel } from "models";
+
+import { intoRole, intoRoles } from "@utils/roles.ts";
+
+/**
+ * @api {post} /api/apikey Crear Llave de API
+ * @apiVersion 1.0.0
+ * @apiName SaveApiKey
+ * @apiGroup ApiKey
+ * @apiPermission admin
+ *
+ * @apiDescription Este endpoint crea una llave de API de larga duración para clientes automatizados. La llave se envía en el encabezado `X-API-Key` y solo tiene los permisos indicados en `roles`; opcionalmente puede restringirse a una lista de rutas. El valor de la llave se devuelve una única vez.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Request body) {String} name Nombre descriptivo de la llave.
+ * @apiParam (Request body) {String[]} roles Arreglo de roles de la llave. Deben ser válidos.
+ * @apiParam (Request body) {String[]} [routes] Rutas permitidas con la forma `"[MÉTODO ]/api/ruta"`; un `*` final acepta cualquier subruta.
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     POST /api/apikey HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <Admin_Token>
+ *     {
+ *       "name": "ingesta-fotos",
+ *       "roles": ["READ", "EDIT"],
+ *       "routes": ["GET /api/item*", "/api/image/*"]
+ *     }
+ *
+ * @apiSuccess {Object} data Llave creada.
+ * @apiSuccess {String} data.identifier Identificador único de la llave.
+ * @apiSuccess {String} data.name Nombre de la llave.
+ * @apiSuccess {String} data.prefix Primeros caracteres de la llave.
+ * @apiSuccess {String[]} data.roles Roles de la llave.
+ * @apiSuccess {String[]} data.routes Rutas permitidas.
+ * @apiSuccess {String} data.key Llave en texto plano. No podrá consultarse de nuevo.
+ *
+ * @apiError (400) BadRequest Los parámetros obligatorios no fueron enviados o no son válidos.
+ * @apiError (401) Unauthorized El usuario no tiene permisos de administrador o la solicitud se hizo con una llave de API.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/apikey \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -d '{ "name": "ingesta-fotos", "roles": ["READ", "EDIT"] }'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  // Una llave de API no puede emitir otras llaves
+  if (get("api_key")) throw new UnauthorizedError();
+
+  const { name, roles, routes } = await req.json<LeanApiKey>();
+  const { data, key } = await ApiKeyModel.issue({
+    name,
+    role: intoRole(roles),
+    routes: routes ?? [],
+    created_by: user._id,
+  });
+
+  return json({
+    data: {
+      identifier: data._id,
+      name: data.name,
+      prefix: data.prefix,
+      roles: intoRoles(data.role),
+      routes: data.routes,
+      key,
+    },
+  });
+});
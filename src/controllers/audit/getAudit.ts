@@ -0,0 +1,89 @@
+import type { LeanAuditLog } from "@interfaces/audit.interface.ts";
+import { setup } from "config";
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel } from "models";
+import { isValidObjectId, Types } from "mongoose";
+
+import { buildPagePipeline, formatPage } from "@utils/pagination.ts";
+
+type Answer = {
+  data: LeanAuditLog[];
+  totalDocs: number;
+};
+
+/**
+ * Convierte un parámetro de fecha de la consulta; lanza un error si no es válido.
+ */
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new BadRequestError(`La fecha "${name}" no es válida`);
+  }
+  return date;
+}
+
+/**
+ * @api {get} /api/audit Consultar Auditoría
+ * @apiVersion 1.0.0
+ * @apiName GetAudit
+ * @apiGroup Audit
+ * @apiPermission admin
+ *
+ * @apiDescription Este endpoint devuelve, paginados y del más reciente al más antiguo, los registros de modificaciones del catálogo (marcas, líneas, claves, ítems e imágenes): quién hizo el cambio, la copia antes y después, y los archivos enviados a la papelera.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String="brand","line","key","item","image","vehicle","fitment"} [entity] Entidad modificada.
+ * @apiParam (Query string) {String="create","update","delete","reset","status","restore","move","revert","link","unlink","purge"} [action] Tipo de modificación.
+ * @apiParam (Query string) {String} [id] Identificador del documento modificado.
+ * @apiParam (Query string) {String} [user] Identificador del usuario que hizo el cambio.
+ * @apiParam (Query string) {String} [from] Fecha inicial (ISO 8601), inclusiva.
+ * @apiParam (Query string) {String} [to] Fecha final (ISO 8601), inclusiva.
+ * @apiParam (Query string) {Number} [page=1] Número de página.
+ *
+ * @apiSuccess {Object[]} data Registros de auditoría.
+ * @apiSuccess {String} data.nickname Usuario que hizo el cambio.
+ * @apiSuccess {String} data.action Tipo de modificación.
+ * @apiSuccess {String} data.entity Entidad modificada.
+ * @apiSuccess {Object} [data.before] Copia del documento antes del cambio.
+ * @apiSuccess {Object} [data.after] Copia del documento después del cambio.
+ * @apiSuccess {Object[]} data.trashed Archivos movidos a la papelera (`from`, `to`).
+ * @apiSuccess {Object} metadata Información de paginación.
+ *
+ * @apiError (400) BadRequest Algún filtro no es válido.
+ * @apiError (401) Unauthorized El usuario que realiza la solicitud no tiene permisos de administrador.
+ * @apiError (404) NotFound No se encontraron registros con los filtros indicados.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET "http://localhost:5885/api/audit?entity=line&action=delete&from=2025-01-01" \
+ *     -H "Authorization: Bearer <Admin_Token>"
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const { entity, action, id, user, from, to } = req.query();
+  const match: Record<string, unknown> = {};
+  if (entity) match.entity = entity;
+  if (action) match.action = action;
+  for (const [field, value] of [["entity_id", id], ["user", user]]) {
+    if (!value) continue;
+    if (!isValidObjectId(value)) {
+      throw new BadRequestError("El ID proporcionado no es válido");
+    }
+    match[field] = new Types.ObjectId(value);
+  }
+  if (from || to) {
+    match.created_at = {
+      ...(from && { $gte: parseDate(from, "from") }),
+      ...(to && { $lte: parseDate(to, "to") }),
+    };
+  }
+
+  const page = Number(req.query("page")) || 1;
+  const limit = setup.LIMIT.AUDIT;
+  const [{ data, totalDocs }] = await AuditLogModel.aggregate<Answer>()
+    .match(match)
+    .append(...buildPagePipeline(limit, page, { $sort: { created_at: -1 } }));
+  if (!data.length) throw new NotFoundError("No se encontraron registros");
+
+  return json(formatPage(data, limit, totalDocs, page));
+});
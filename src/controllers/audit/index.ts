@@ -0,0 +1 @@
+export { default as getAudit } from "./getAudit.ts";
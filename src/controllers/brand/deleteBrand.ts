@@ -1,6 +1,8 @@
-import { NotFoundError, UnauthorizedError } from "errors";
+import type { TrashedFile } from "@interfaces/audit.interface.ts";
+import { Types } from "deps";
+import { NotFoundError } from "errors";
 import { factory } from "factory";
-import { BrandModel, ItemModel, KeyModel } from "models";
+import { AuditLogModel, BrandModel, ItemModel, KeyModel } from "models";
 
 import { moveFilesToTrash } from "@utils/trash.ts";
 
@@ -11,7 +13,7 @@ import { moveFilesToTrash } from "@utils/trash.ts";
  * @apiGroup Brand
  * @apiPermission admin
  *
- * @apiDescription Este método elimina una marca del sistema y opcionalmente sus archivos relacionados. Solo puede ser ejecutado por usuarios con rol 'ADMIN'. El middleware `pathFile` se utiliza para manejar las rutas de los archivos asociados a la marca.
+ * @apiDescription Este método envía una marca a la papelera y opcionalmente sus claves, items y archivos relacionados. Solo puede ser ejecutado por usuarios con rol 'ADMIN'. El middleware `pathFile` se utiliza para manejar las rutas de los archivos asociados a la marca, que se mueven a la carpeta 'trash'. Todo se recupera junto con `/api/brand/restore`.
  *
  * @apiUse AuthHeader
  * @apiUse PathFileHeader
@@ -64,31 +66,42 @@ import { moveFilesToTrash } from "@utils/trash.ts";
  *     -H "location: /ruta/personalizada/al/directorio"
  */
 export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("ADMIN")) throw new UnauthorizedError();
-
+  const user = get("user");
   const _id = req.query("id");
   const data = await BrandModel.findOne({ _id }).select("code desc");
   if (!data) throw new NotFoundError("Documento no encontrado");
 
   const data_file = await ItemModel.getBackInfo("key.brand._id", _id!);
-  const { deletedCount } = await BrandModel.deleteOne({ _id });
-  if (!deletedCount) throw new NotFoundError("Documento no encontrado");
+  const deletion = { deleted_by: user._id, deletion: new Types.ObjectId() };
+  if (!await BrandModel.softDelete({ _id }, deletion)) {
+    throw new NotFoundError("Documento no encontrado");
+  }
 
   const location = get("location");
-  const force = req.query("force");
-  if (location && force === "delete") {
+  const cascade = !!location && req.query("force") === "delete";
+  const trashed: TrashedFile[] = [];
+  if (cascade) {
     for (const { _id: key, code, files } of data_file?.images) {
-      const key_deleted = await KeyModel.deleteOne({ _id: key });
-      if (!key_deleted.deletedCount) continue;
-
-      const items_deleted = await ItemModel.deleteMany({ key });
-      if (!items_deleted.deletedCount) continue;
+      if (!await KeyModel.softDelete({ _id: key }, deletion)) continue;
+      if (!await ItemModel.softDelete({ key }, deletion)) continue;
 
-      moveFilesToTrash(location, code, files);
+      trashed.push(...moveFilesToTrash(location, code, files));
     }
-
-    return json({ data, deletedStatus: data_file.status });
   }
+  if (trashed.length) {
+    await BrandModel.updateOne(
+      { _id, deleted_at: { $exists: true } },
+      { trashed },
+    );
+  }
+
+  await AuditLogModel.record(user, {
+    action: "delete",
+    entity: "brand",
+    entity_id: data._id,
+    before: data.toObject(),
+    trashed,
+  });
 
-  return json({ data });
+  return json(cascade ? { data, deletedStatus: data_file.status } : { data });
 });
@@ -1,10 +1,11 @@
 import type { LeanBrand } from "@interfaces/brand.interface.ts";
 import { setup } from "config";
 import { isValidObjectId } from "deps";
-import { NotFoundError, UnauthorizedError } from "errors";
+import { NotFoundError } from "errors";
 import { factory } from "factory";
 import { BrandModel } from "models";
 
+import { etag } from "@utils/etag.ts";
 import { buildPagePipeline, formatPage } from "@utils/pagination.ts";
 
 type Answer = {
@@ -19,7 +20,7 @@ type Answer = {
  * @apiGroup Brand
  * @apiPermission user
  *
- * @apiDescription Este endpoint permite obtener una lista de marcas o una marca específica. Requiere permisos de 'READ', 'WRITE', 'EDIT', 'GRANT' o 'ADMIN'.
+ * @apiDescription Este endpoint permite obtener una lista de marcas o una marca específica. Requiere permisos de 'READ', 'WRITE', 'EDIT', 'GRANT' o 'ADMIN'. Al pedir una marca por `id`, el encabezado `ETag` trae su versión para usarla en `If-Match`.
  *
  * @apiUse AuthHeader
  *
@@ -63,16 +64,16 @@ type Answer = {
  *     curl -X GET http://localhost:3000/api/brand?page=1 \
  *     -H "Authorization: Bearer <User_Token>"
  */
-export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("READ", "WRITE", "EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
+export default factory.createHandlers(async ({ req, get, header, json }) => {
+  const user = get("user");
+  const scope = user.scopeMatch({ brand: "_id" });
 
   const _page = req.query("page");
   if (_page) {
     const page = Number(_page) || 1;
     const limit = setup.LIMIT.BRAND;
     const [{ data, totalDocs }] = await BrandModel.aggregate<Answer>()
+      .match(scope)
       .project({ code: 1, desc: 1 })
       .sort("code")
       .append(...buildPagePipeline(limit, page));
@@ -84,13 +85,15 @@ export default factory.createHandlers(async ({ req, get, json }) => {
 
   const _id = req.query("id");
   if (isValidObjectId(_id)) {
-    const data = await BrandModel.findOne({ _id }).select("code desc").lean();
+    const data = await BrandModel.findOne({ _id, ...scope })
+      .select("code desc version").lean();
     if (!data) throw new NotFoundError("No se encontraron marcas");
 
+    header("ETag", etag(data.version));
     return json({ data });
   }
 
-  const data = await BrandModel.find().select("code desc").lean();
+  const data = await BrandModel.find(scope).select("code desc").lean();
   if (!data) throw new NotFoundError("No se encontraron marcas");
 
   return json({ data });
@@ -2,3 +2,6 @@ export { default as saveBrand } from "./saveBrand.ts";
 export { default as getBrand } from "./getBrand.ts";
 export { default as updateBrand } from "./updateBrand.ts";
 export { default as deleteBrand } from "./deleteBrand.ts";
+export { default as restoreBrand } from "./restoreBrand.ts";
+export { default as historyBrand } from "./historyBrand.ts";
+export { default as revertBrand } from "./revertBrand.ts";
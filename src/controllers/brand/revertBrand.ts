@@ -0,0 +1,85 @@
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import {
+  AuditLogModel,
+  BrandModel,
+  RenameJobModel,
+  RevisionModel,
+} from "models";
+
+import { nextVersion } from "@utils/etag.ts";
+
+/**
+ * @api {put} /api/brand/revert Revertir Marca
+ * @apiVersion 1.0.0
+ * @apiName RevertBrand
+ * @apiGroup Brand
+ * @apiPermission brand.update
+ *
+ * @apiDescription Este método devuelve el código y la descripción de la marca a los valores que tenían justo después de una revisión de `GET /api/brand/history`. La reversión se registra como una revisión nueva, por lo que también puede deshacerse.
+ *
+ * Si cambia el código, se crea el mismo trabajo de renombrado de carpetas que en `PUT /api/brand`.
+ *
+ * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ *
+ * @apiParam (Query string) {String} id ID único de la marca.
+ * @apiParam (Query string) {Number} rev Revisión a la que se vuelve; `0` es el estado anterior al primer cambio registrado.
+ *
+ * @apiSuccess (200) {Object} data Información de la marca revertida.
+ * @apiSuccess (200) {String} data.code Código de la marca.
+ * @apiSuccess (200) {String} data.desc Descripción de la marca.
+ * @apiSuccess (200) {Object} [job] Trabajo de renombrado, si cambió el código.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": { "code": "ORD", "desc": "Ordinaria" }
+ *     }
+ *
+ * @apiError (400) BadRequest El ID o la revisión no son válidos.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o la marca está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró el documento o la revisión, o el documento ya está en ella.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT "http://localhost:5885/api/brand/revert?id=5f4471326b54a216c46f1a6e&rev=2" \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -H "location: /ruta/personalizada/al/directorio"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  const rev = Number(req.query("rev"));
+  const before = await BrandModel.findById(_id).select("code desc").lean();
+  if (!before) {
+    throw new NotFoundError("No se encontró el documento solicitado");
+  }
+
+  const values = await RevisionModel.valuesAt("brand", before._id, rev);
+  const data = await BrandModel.findOneAndUpdate(
+    { _id },
+    nextVersion(values),
+    { new: true, fields: { code: 1, desc: 1, version: 1 } },
+  ).lean();
+  if (!data) throw new NotFoundError("No se modificó el documento solicitado");
+
+  await RevisionModel.record(user, "brand", before, data, rev);
+  await AuditLogModel.record(user, {
+    action: "revert",
+    entity: "brand",
+    entity_id: data._id,
+    before,
+    after: data,
+  });
+
+  if (data.code === before.code) return json({ data });
+  const job = await RenameJobModel.enqueue(user._id, {
+    entity: "brand",
+    entity_id: data._id,
+    from: before.code,
+    to: data.code,
+    location: get("location"),
+  });
+
+  return json({ data, job: { _id: job._id, status: job.status } });
+});
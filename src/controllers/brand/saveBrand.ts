@@ -1,7 +1,7 @@
 import type { LeanBrand } from "@interfaces/brand.interface.ts";
-import { UnauthorizedError } from "errors";
+import { BadRequestError, UnauthorizedError } from "errors";
 import { factory } from "factory";
-import { BrandModel } from "models";
+import { AuditLogModel, BrandModel } from "models";
 
 /**
  * @api {post} /api/brand Registrar Marca
@@ -43,6 +43,7 @@ import { BrandModel } from "models";
  *     }
  *
  * @apiError (400) BadRequest No se enviaron los parámetros necesarios o hay un error con los parámetros.
+ * @apiError (400) BadRequest El código pertenece a una marca de la papelera; hay que restaurarla.
  * @apiError (403) Forbidden Acceso denegado por falta de permisos.
  * @apiError (204) NoContent Se guardó la marca pero no se está devolviendo contenido.
  * @apiError (409) Conflict Error interno, probablemente relacionado con los parámetros.
@@ -60,15 +61,34 @@ import { BrandModel } from "models";
  *     -d '{"code": "BRD", "desc": "Marca de ejemplo"}'
  */
 export default factory.createHandlers(async ({ req, get, body, json }) => {
-  if (!get("user").roleIncludes("GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
+  const user = get("user");
+  // Un registro nuevo nunca forma parte de un alcance ya definido
+  if (user.scope?.brands?.length) {
+    throw new UnauthorizedError(
+      "Acceso denegado: no puedes registrar marcas fuera de tu alcance",
+    );
   }
 
   const brandData = await req.json<LeanBrand>();
-  const data = await new BrandModel(brandData).save();
+  const brand = new BrandModel(brandData);
+  // El índice único incluye la papelera; se compara el código ya normalizado
+  if (brand.code && await BrandModel.inTrash({ code: brand.code })) {
+    throw new BadRequestError(
+      "El código pertenece a una marca de la papelera; restáurala en lugar de registrarla",
+    );
+  }
+
+  const data = await brand.save();
   if (!data) {
     return body(null, 204);
   }
 
+  await AuditLogModel.record(user, {
+    action: "create",
+    entity: "brand",
+    entity_id: data._id,
+    after: data.toObject(),
+  });
+
   return json({ data });
 });
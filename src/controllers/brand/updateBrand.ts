@@ -1,7 +1,20 @@
 import type { LeanBrand } from "@interfaces/brand.interface.ts";
-import { NotFoundError, UnauthorizedError } from "errors";
+import { NotFoundError } from "errors";
 import { factory } from "factory";
-import { BrandModel } from "models";
+import {
+  AuditLogModel,
+  BrandModel,
+  RenameJobModel,
+  RevisionModel,
+} from "models";
+
+import {
+  assertVersion,
+  etag,
+  ifMatch,
+  matchVersion,
+  nextVersion,
+} from "@utils/etag.ts";
 
 /**
  * @api {put} /api/brand Actualizar Marca
@@ -12,7 +25,13 @@ import { BrandModel } from "models";
  *
  * @apiDescription Este endpoint actualiza una marca existente en el sistema. Solo puede ser ejecutado por usuarios con roles 'EDIT', 'GRANT' o 'ADMIN'.
  *
+ * Si cambia el código, se crea un trabajo en segundo plano que renombra las carpetas de las claves de la marca dentro de 'assets' y sus imágenes, y elimina las variantes obsoletas de `.cache`. Su avance y sus conflictos se consultan con `GET /api/rename`.
+ *
+ * El encabezado `ETag` de la respuesta identifica la nueva versión de la marca, para enviarlo en `If-Match` en el siguiente cambio.
+ *
  * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ * @apiUse IfMatchHeader
  *
  * @apiParam (Query string) {String} id Identificador único de la marca a actualizar.
  * @apiParam (Request body) {String} [code] Código único de la marca.
@@ -31,6 +50,9 @@ import { BrandModel } from "models";
  * @apiSuccess {Object} data Información de la marca actualizada.
  * @apiSuccess {String} data.code Código de la marca.
  * @apiSuccess {String} data.desc Descripción de la marca.
+ * @apiSuccess {Object} [job] Trabajo de renombrado, si cambió el código.
+ * @apiSuccess {String} job._id ID del trabajo.
+ * @apiSuccess {String} job.status Estado inicial del trabajo (`pending`).
  *
  * @apiSuccessExample {json} Respuesta exitosa:
  *     HTTP/1.1 200 OK
@@ -62,18 +84,49 @@ import { BrandModel } from "models";
  *     -H "Authorization: Bearer <Admin_Token>" \
  *     -d '{"code": "BRD", "desc": "Marca actualizada"}'
  */
-export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
+export default factory.createHandlers(async ({ req, get, header, json }) => {
+  const user = get("user");
   const _id = req.query("id");
+  const expected = ifMatch(req.header("If-Match"));
   const body = await req.json<LeanBrand>();
-  const data = await BrandModel.findOneAndUpdate({ _id }, body, {
-    new: true,
-    fields: { code: 1, desc: 1 },
-  }).lean();
-  if (!data) throw new NotFoundError("No se encontró la marca solicitada");
+  const before = await BrandModel.findById(_id)
+    .select("code desc version").lean();
+  if (!before) throw new NotFoundError("No se encontró la marca solicitada");
+  assertVersion(before, expected);
+
+  const data = await BrandModel.findOneAndUpdate(
+    { _id, ...matchVersion(expected) },
+    nextVersion(body),
+    { new: true, fields: { code: 1, desc: 1, version: 1 } },
+  ).lean();
+  if (!data) {
+    // Otra solicitud pudo modificarla entre la lectura y la escritura
+    const current = await BrandModel.findById(_id)
+      .select("code desc version").lean();
+    if (current) assertVersion(current, expected);
+    throw new NotFoundError("No se encontró la marca solicitada");
+  }
+
+  await RevisionModel.record(user, "brand", before, data);
+  await AuditLogModel.record(user, {
+    action: "update",
+    entity: "brand",
+    entity_id: data._id,
+    before,
+    after: data,
+  });
+
+  header("ETag", etag(data.version));
+
+  // Las carpetas y las imágenes de sus llaves llevan el código en el nombre
+  if (data.code === before.code) return json({ data });
+  const job = await RenameJobModel.enqueue(user._id, {
+    entity: "brand",
+    entity_id: data._id,
+    from: before.code,
+    to: data.code,
+    location: get("location"),
+  });
 
-  return json({ data });
+  return json({ data, job: { _id: job._id, status: job.status } });
 });
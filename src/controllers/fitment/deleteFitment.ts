@@ -0,0 +1,45 @@
+import { Types } from "deps";
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, FitmentModel } from "models";
+
+/**
+ * @api {delete} /api/fitment Eliminar Aplicación
+ * @apiVersion 1.0.0
+ * @apiName DeleteFitment
+ * @apiGroup Fitment
+ * @apiPermission item.update
+ *
+ * @apiDescription Este método elimina una aplicación de un item. No se puede recuperar.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id ID de la aplicación.
+ *
+ * @apiSuccess (200) {Object} data Aplicación eliminada (ver `POST /api/fitment`).
+ *
+ * @apiError (400) BadRequest El ID proporcionado no es válido.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o el item está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró la aplicación.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X DELETE http://localhost:5885/api/fitment?id=66b2f2a91d2a4b0f8c9e1a40 \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = new Types.ObjectId(req.query("id"));
+  const [data] = await FitmentModel.getPopulate({ _id });
+  if (!data) throw new NotFoundError("No se encontró la aplicación");
+  await user.assertScope("item", data.item);
+
+  await FitmentModel.deleteOne({ _id });
+  await AuditLogModel.record(user, {
+    action: "delete",
+    entity: "fitment",
+    entity_id: _id,
+    before: data,
+  });
+
+  return json({ data });
+});
@@ -0,0 +1,57 @@
+import { isValidObjectId, Types } from "deps";
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { FitmentModel, ItemModel } from "models";
+
+/**
+ * @api {get} /api/fitment Obtener Aplicación
+ * @apiVersion 1.0.0
+ * @apiName GetFitment
+ * @apiGroup Fitment
+ * @apiPermission item.read
+ *
+ * @apiDescription Este método obtiene una aplicación por `id` o las aplicaciones de un item, ordenadas por marca, modelo y año del vehículo.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} [id] ID de la aplicación.
+ * @apiParam (Query string) {String} [item] Código completo (por ejemplo, `GRAPVH0001`) o ID del item.
+ *
+ * @apiParamExample {json} Request-Example:
+ *     GET /api/fitment?item=GRAPVH0001 HTTP/1.1
+ *     Host: localhost:5885
+ *     Authorization: Bearer <User_Token>
+ *
+ * @apiSuccess (200) {Object[]} data Aplicaciones (un objeto si se envió `id`; ver `POST /api/fitment`).
+ *
+ * @apiError (400) BadRequest No se envió `id` ni `item`.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o el item está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró la aplicación o el item.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET http://localhost:5885/api/fitment?item=GRAPVH0001 \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  if (isValidObjectId(_id)) {
+    const [data] = await FitmentModel.getPopulate({
+      _id: new Types.ObjectId(_id),
+    });
+    if (!data) throw new NotFoundError("No se encontró la aplicación");
+    await user.assertScope("item", data.item);
+
+    return json({ data });
+  }
+
+  if (!req.query("item")) {
+    throw new BadRequestError("No se enviaron los parámetros obligatorios");
+  }
+  const item = await ItemModel.findByCode(req.query("item"));
+  if (!item) throw new NotFoundError("No se encontró el item");
+  await user.assertScope("item", item);
+
+  const data = await FitmentModel.getPopulate({ item });
+  return json({ data });
+});
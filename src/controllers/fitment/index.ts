@@ -0,0 +1,4 @@
+export { default as saveFitment } from "./saveFitment.ts";
+export { default as getFitment } from "./getFitment.ts";
+export { default as updateFitment } from "./updateFitment.ts";
+export { default as deleteFitment } from "./deleteFitment.ts";
@@ -0,0 +1,98 @@
+import type { LeanFitment } from "@interfaces/fitment.interface.ts";
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, FitmentModel, ItemModel } from "models";
+
+/**
+ * @api {post} /api/fitment Crear Aplicación
+ * @apiVersion 1.0.0
+ * @apiName SaveFitment
+ * @apiGroup Fitment
+ * @apiPermission item.update
+ *
+ * @apiDescription Este método registra que un item se monta en un vehículo del catálogo (`/api/vehicle`). Si no se envían años, la aplicación cubre todos los años de fabricación del vehículo. Las aplicaciones se muestran al consultar el item con `GET /api/item?id=` y permiten buscarlo con `veh:` y `year:`.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Request body) {String} item Código completo (por ejemplo, `GRAPVH0001`) o ID del item.
+ * @apiParam (Request body) {String} vehicle ID del vehículo.
+ * @apiParam (Request body) {Number} [year_from] Primer año en que aplica.
+ * @apiParam (Request body) {Number} [year_to] Último año en que aplica.
+ * @apiParam (Request body) {String} [note] Aclaración (por ejemplo, "con aire acondicionado").
+ *
+ * @apiParamExample {json} Request-Example:
+ *     POST /api/fitment HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <User_Token>
+ *     {
+ *       "item": "GRAPVH0001",
+ *       "vehicle": "66b2f0c41d2a4b0f8c9e1a23",
+ *       "year_from": 2012
+ *     }
+ *
+ * @apiSuccess (200) {Object} data Aplicación creada.
+ * @apiSuccess (200) {String} data._id ID de la aplicación.
+ * @apiSuccess (200) {String} data.item ID del item.
+ * @apiSuccess (200) {Object} data.vehicle Vehículo (ver `GET /api/vehicle`).
+ * @apiSuccess (200) {Number} data.year_from Primer año en que aplica.
+ * @apiSuccess (200) {Number} data.year_to Último año en que aplica.
+ * @apiSuccess (200) {String} [data.note] Aclaración.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "_id": "66b2f2a91d2a4b0f8c9e1a40",
+ *         "item": "5f4471326b54a216c46f1a6e",
+ *         "vehicle": {
+ *           "_id": "66b2f0c41d2a4b0f8c9e1a23",
+ *           "make": "MAZDA",
+ *           "model": "3",
+ *           "year_from": 2010,
+ *           "year_to": 2013
+ *         },
+ *         "year_from": 2012,
+ *         "year_to": 2013
+ *       }
+ *     }
+ *
+ * @apiError (400) BadRequest Parámetros no enviados, años fuera de los del vehículo o el item ya tiene ese vehículo.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o el item está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró el item o el vehículo.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/fitment \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -d '{"item": "GRAPVH0001", "vehicle": "66b2f0c41d2a4b0f8c9e1a23", "year_from": 2012}'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const body = await req.json<LeanFitment>();
+  const item = await ItemModel.findByCode(body.item);
+  if (!item) throw new NotFoundError("No se encontró el item");
+  await user.assertScope("item", item);
+
+  const range = await FitmentModel.parseRange(body.vehicle, body);
+  if (await FitmentModel.exists({ item, vehicle: range.vehicle })) {
+    throw new BadRequestError(
+      "El item ya tiene una aplicación en ese vehículo",
+    );
+  }
+
+  const fitment = await FitmentModel.create({
+    item,
+    ...range,
+    note: body.note,
+  });
+  const [data] = await FitmentModel.getPopulate({ _id: fitment._id });
+  await AuditLogModel.record(user, {
+    action: "create",
+    entity: "fitment",
+    entity_id: fitment._id,
+    after: data,
+  });
+
+  return json({ data });
+});
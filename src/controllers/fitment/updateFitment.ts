@@ -0,0 +1,73 @@
+import type { LeanFitment } from "@interfaces/fitment.interface.ts";
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, FitmentModel } from "models";
+
+/**
+ * @api {put} /api/fitment Actualizar Aplicación
+ * @apiVersion 1.0.0
+ * @apiName UpdateFitment
+ * @apiGroup Fitment
+ * @apiPermission item.update
+ *
+ * @apiDescription Este método modifica los años o la aclaración de una aplicación. Para cambiar el item o el vehículo se elimina la aplicación y se crea otra.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id ID de la aplicación.
+ * @apiParam (Request body) {Number} [year_from] Primer año en que aplica.
+ * @apiParam (Request body) {Number} [year_to] Último año en que aplica.
+ * @apiParam (Request body) {String} [note] Aclaración; una cadena vacía la elimina.
+ *
+ * @apiParamExample {json} Request-Example:
+ *     PUT /api/fitment?id=66b2f2a91d2a4b0f8c9e1a40 HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <User_Token>
+ *     {
+ *       "year_to": 2012,
+ *       "note": "Sedán"
+ *     }
+ *
+ * @apiSuccess (200) {Object} data Aplicación actualizada (ver `POST /api/fitment`).
+ *
+ * @apiError (400) BadRequest Años fuera de los del vehículo.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o el item está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró la aplicación.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/fitment?id=66b2f2a91d2a4b0f8c9e1a40 \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -d '{"year_to": 2012, "note": "Sedán"}'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const fitment = await FitmentModel.findById(req.query("id"));
+  if (!fitment) throw new NotFoundError("No se encontró la aplicación");
+  await user.assertScope("item", fitment.item);
+
+  const body = await req.json<Partial<LeanFitment>>();
+  const [before] = await FitmentModel.getPopulate({ _id: fitment._id });
+  const { year_from, year_to } = await FitmentModel.parseRange(
+    fitment.vehicle,
+    {
+      year_from: body.year_from ?? fitment.year_from,
+      year_to: body.year_to ?? fitment.year_to,
+    },
+  );
+  fitment.set({ year_from, year_to });
+  if (body.note !== undefined) fitment.set("note", body.note || undefined);
+  await fitment.save();
+
+  const [data] = await FitmentModel.getPopulate({ _id: fitment._id });
+  await AuditLogModel.record(user, {
+    action: "update",
+    entity: "fitment",
+    entity_id: fitment._id,
+    before,
+    after: data,
+  });
+
+  return json({ data });
+});
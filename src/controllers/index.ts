@@ -5,3 +5,10 @@ export * from "./key/index.ts";
 export * from "./item/index.ts";
 export * from "./image/index.ts";
 export * from "./update/index.ts";
+export * from "./apikey/index.ts";
+export * from "./wellknown/index.ts";
+export * from "./audit/index.ts";
+export * from "./role/index.ts";
+export * from "./rename/index.ts";
+export * from "./vehicle/index.ts";
+export * from "./fitment/index.ts";
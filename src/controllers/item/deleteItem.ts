@@ -1,6 +1,8 @@
-import { NotFoundError, UnauthorizedError } from 'errors';
+import type { TrashedFile } from "@interfaces/audit.interface.ts";
+import { Types } from 'deps';
+import { NotFoundError } from 'errors';
 import { factory } from 'factory';
-import { ItemModel } from 'models';
+import { AuditLogModel, ItemModel } from 'models';
 
 import { moveFilesToTrash } from '@utils/trash.ts';
 
@@ -11,7 +13,7 @@ import { moveFilesToTrash } from '@utils/trash.ts';
  * @apiGroup Item
  * @apiPermission admin
  *
- * @apiDescription Este método elimina un item específico del sistema. Solo puede ser ejecutado por usuarios con rol 'ADMIN'.
+ * @apiDescription Este método envía un item específico a la papelera. Solo puede ser ejecutado por usuarios con rol 'ADMIN'. El item deja de aparecer en las consultas y sus imágenes se mueven a la carpeta 'trash'; ambos pueden recuperarse con `/api/item/restore`. Sus relaciones con otros items (equivalentes, reemplazos y kits) se conservan y vuelven al restaurarlo. Para eliminarlo definitivamente, con sus relaciones, se usa `DELETE /api/item/purge`.
  *
  * @apiUse AuthHeader
  * @apiUse PathFileHeader
@@ -69,26 +71,39 @@ import { moveFilesToTrash } from '@utils/trash.ts';
  *     -H "location: /ruta/personalizada/al/directorio"
  */
 export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
+  const user = get("user");
   const _id = req.query("id");
   const [data] = await ItemModel.getPopulate(_id);
   if (!data) throw new NotFoundError("Documento no encontrado");
 
   const backup = await ItemModel.getBackInfo("_id", _id!);
-  const { deletedCount } = await ItemModel.deleteOne({ _id });
-  if (!deletedCount) throw new NotFoundError("Documento no encontrado");
+  const deleted = await ItemModel.softDelete({ _id }, {
+    deleted_by: user._id,
+    deletion: new Types.ObjectId(),
+  });
+  if (!deleted) throw new NotFoundError("Documento no encontrado");
 
   const location = get("location");
+  const trashed: TrashedFile[] = [];
   if (location) {
     for (const { code, files } of backup?.images) {
-      moveFilesToTrash(location, code, files);
+      trashed.push(...moveFilesToTrash(location, code, files));
     }
-
-    return json({ data, deletedStatus: backup.status });
   }
+  if (trashed.length) {
+    await ItemModel.updateOne(
+      { _id, deleted_at: { $exists: true } },
+      { trashed },
+    );
+  }
+
+  await AuditLogModel.record(user, {
+    action: "delete",
+    entity: "item",
+    entity_id: data._id,
+    before: data,
+    trashed,
+  });
 
-  return json({ data });
+  return json(location ? { data, deletedStatus: backup.status } : { data });
 });
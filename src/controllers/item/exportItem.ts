@@ -0,0 +1,159 @@
+import type { Image } from "@interfaces/item.interface.ts";
+import { pipeline } from "aggregate";
+import { setup } from "config";
+import { stream } from "deps";
+import { factory } from "factory";
+import { ItemModel } from "models";
+
+import { formatCsvRow } from "@utils/csv.ts";
+import { formatDateTime } from "@utils/formatDate.ts";
+import { ParserPipeline } from "@utils/pipeline_builder.ts";
+
+/**
+ * Tipo de contenido de cada formato de exportación.
+ */
+const FORMATS = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+} as const;
+
+/**
+ * Columnas del CSV; las de imagen se repiten para cada `idN` (1 a 3).
+ */
+const COLUMNS = [
+  "code",
+  "desc",
+  "line_desc",
+  "brand_desc",
+  ...[1, 2, 3].map((idN) => `status_${idN}`),
+  ...[1, 2, 3].map((idN) => `file_${idN}`),
+];
+
+type ExportItem = {
+  code: string;
+  desc: string;
+  line_desc: string;
+  brand_desc: string;
+  images: Image[];
+};
+
+/**
+ * @api {get} /api/item/export Exportar Items
+ * @apiVersion 1.0.0
+ * @apiName ExportItem
+ * @apiGroup Item
+ * @apiPermission item.read
+ *
+ * @apiDescription Este endpoint descarga todos los items que coinciden con la búsqueda, con el mismo lenguaje de búsqueda y filtro de estado que `GET /api/item`, respetando el alcance del usuario. La respuesta se envía por partes conforme se leen los items, sin cargar el resultado completo en memoria. Cada item incluye su código completo, su descripción, las descripciones de su línea y su marca y, por cada imagen, su estado y el nombre de su archivo.
+ *
+ * El formato `csv` usa las columnas `code`, `desc`, `line_desc`, `brand_desc`, `status_1` a `status_3` y `file_1` a `file_3`; `json` devuelve `{ "data": [...] }` y `ndjson` un item por línea.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} [search] Instrucción de búsqueda.
+ * @apiParam (Query string) {Number} [status] Estado de imagen por el que se filtra (0-5).
+ * @apiParam (Query string) {String="csv","json","ndjson"} [format=csv] Formato del archivo.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa (format=ndjson):
+ *     HTTP/1.1 200 OK
+ *     Content-Type: application/x-ndjson; charset=utf-8
+ *     Content-Disposition: attachment; filename="items-2024-05-24_18-40-03-120.ndjson"
+ *
+ *     {"code":"GRAPVH0001","desc":"Bomba de agua","line_desc":"gasolina","brand_desc":"pvh","images":[{"idN":1,"status":5,"file":"GRAPVH0001 1.avif"}]}
+ *
+ * @apiError (400) BadRequest El formato solicitado no es válido.
+ * @apiError (401) Unauthorized El usuario no tiene permisos para consultar items.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET "http://localhost:5885/api/item/export?search=GRA&format=csv" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -o items.csv
+ */
+export default factory.createHandlers(async (c) => {
+  const user = c.get("user");
+  const format = (c.req.query("format") ?? "csv") as keyof typeof FORMATS;
+  const aggregate = ItemModel.aggregate<ExportItem>();
+  const { parseResult, pipeline: search } = await ParserPipeline
+    .getPipelineForInstruction(c.req.query("search"));
+  if (parseResult.desc) {
+    aggregate.match({ $text: { $search: parseResult.desc } });
+    aggregate.addFields({ score: { $meta: "textScore" } });
+  }
+
+  const status = Number(c.req.query("status"));
+  if (!isNaN(status) && status >= 0 && status <= 5) {
+    aggregate.match({ "images.status": status });
+  }
+
+  const cursor = aggregate
+    .lookup(pipeline.LOOKUP.KEY).unwind("$key")
+    .lookup(pipeline.LOOKUP.KEY_LINE).unwind("$key.line")
+    .lookup(pipeline.LOOKUP.KEY_BRAND).unwind("$key.brand")
+    .match(user.scopeMatch())
+    .append(...search)
+    .sort(
+      parseResult.desc
+        ? { score: -1 }
+        : { "key.line.code": 1, "key.brand.code": 1, code: 1 },
+    )
+    .project({
+      ...pipeline.PROJECT.ITEM,
+      line_desc: "$key.line.desc",
+      brand_desc: "$key.brand.desc",
+    })
+    .allowDiskUse(true)
+    .cursor<ExportItem>({ batchSize: setup.LIMIT.BATCH });
+
+  c.header("Content-Type", FORMATS[format]);
+  c.header(
+    "Content-Disposition",
+    `attachment; filename="items-${formatDateTime()}.${format}"`,
+  );
+
+  return stream(c, async (output) => {
+    // Si el cliente cancela la descarga se deja de leer la base de datos
+    output.onAbort(() => void cursor.close());
+
+    if (format === "csv") await output.write(formatCsvRow(COLUMNS));
+    if (format === "json") await output.write('{"data":[');
+    let first = true;
+    for await (const { code, desc, line_desc, brand_desc, images } of cursor) {
+      if (output.aborted) break;
+
+      const files = images.map(({ idN, status, ext }) => ({
+        idN,
+        status,
+        file: ext ? `${code} ${idN}.${ext}` : null,
+      }));
+      if (format === "csv") {
+        const image = (idN: number) => files.find((file) => file.idN === idN);
+        await output.write(formatCsvRow([
+          code,
+          desc,
+          line_desc,
+          brand_desc,
+          ...[1, 2, 3].map((idN) => image(idN)?.status),
+          ...[1, 2, 3].map((idN) => image(idN)?.file),
+        ]));
+        continue;
+      }
+
+      const line = JSON.stringify({
+        code,
+        desc,
+        line_desc,
+        brand_desc,
+        images: files,
+      });
+      if (format === "ndjson") await output.write(`${line}\n`);
+      else await output.write(first ? line : `,${line}`);
+      first = false;
+    }
+    if (format === "json") await output.write("]}");
+  }, async (error) => {
+    // Los encabezados ya se enviaron, por lo que el error solo puede registrarse
+    console.error("Error al exportar los items", error);
+    await cursor.close();
+  });
+});
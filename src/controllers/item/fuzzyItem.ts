@@ -1,14 +1,11 @@
-import { BadRequestError, UnauthorizedError } from 'errors';
+import { BadRequestError } from 'errors';
 import { factory } from 'factory';
 import { ItemModel, KeyModel } from 'models';
 
 import { InstructionParser, ParsedResult, PatternType } from '@utils/parser.ts';
 
 export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("READ", "WRITE", "EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
+  const user = get("user");
   const { result } = new InstructionParser(req.query("search"));
   const itemsPatterns = filterValue(result, "items");
   const keyPatterns = filterValue(result, "keys");
@@ -25,14 +22,17 @@ export default factory.createHandlers(async ({ req, get, json }) => {
     const [_, key, code] = pattern.value.match(
       /^([A-Z0-9]{6}|[A-Z0-9]{5}\s)([A-Z0-9]{4})$/i,
     )!;
-    const docs = await ItemModel.getFuzzy(key, code);
+    const docs = await ItemModel.getFuzzy(key, code, user.scopeMatch());
     for (const { code } of docs) items.add(code);
   }
 
   for (const pattern of keyPatterns) {
     if (!("value" in pattern)) continue;
     const [_, key] = pattern.value.match(/^([A-Z0-9]{5,6})$/i)!;
-    const docs = await KeyModel.getFuzzy(key);
+    const docs = await KeyModel.getFuzzy(
+      key,
+      user.scopeMatch({ line: "line._id", brand: "brand._id" }),
+    );
     for (const { code } of docs) keys.add(code);
   }
 
@@ -1,12 +1,13 @@
 import type { PopulatedItem } from "@interfaces/item.interface.ts";
 import { pipeline } from 'aggregate';
 import { setup } from 'config';
-import { isValidObjectId } from 'deps';
-import { NotFoundError, UnauthorizedError } from 'errors';
+import { isValidObjectId, Types } from 'deps';
+import { NotFoundError } from 'errors';
 import { factory } from 'factory';
-import { ItemModel } from 'models';
+import { FitmentModel, ItemModel, RelationModel } from 'models';
 import { PipelineStage } from 'mongoose';
 
+import { etag } from '@utils/etag.ts';
 import { buildPagePipeline, formatPage } from '@utils/pagination.ts';
 import { ParserPipeline } from '@utils/pipeline_builder.ts';
 
@@ -25,12 +26,14 @@ type AnswerPage = {
  * @apiGroup Item
  * @apiPermission user
  *
- * @apiDescription Este método obtiene una lista de items o un item específico del sistema. Puede ser ejecutado por usuarios con permisos de lectura y escritura.
+ * @apiDescription Este método obtiene una lista de items o un item específico del sistema. Puede ser ejecutado por usuarios con permisos de lectura y escritura. Al pedir un item por `id`, el encabezado `ETag` trae su versión para usarla en `If-Match`. También incluye sus relaciones con otros items y sus aplicaciones en vehículos.
  *
  * @apiUse AuthHeader
  *
  * @apiParam (Query string) {String} [page] Número de página para la paginación de resultados.
  * @apiParam (Query string) {String} [search] Término de búsqueda para filtrar items por código o descripción.
+ * Acepta también atributos de la línea: `attr:nombre=valor` (sin distinguir mayúsculas, con comillas si el valor lleva espacios) y `attr:nombre>n`, `>=`, `<`, `<=` para comparar números.
+ * Y aplicaciones: `veh:"mazda 3"` (marca y modelo, por palabras completas) y `year:2012`; juntos deben cumplirse en la misma aplicación.
  * @apiParam (Query string) {String} [status] Estado de las imágenes para filtrar items (0-5).
  * @apiParam (Query string) {String} [id] ID del item específico a obtener.
  *
@@ -44,6 +47,8 @@ type AnswerPage = {
  * @apiSuccess (200) {String} data.code Código del item.
  * @apiSuccess (200) {String} data.desc Descripción del item.
  * @apiSuccess (200) {Object[]} data.images Imágenes asociadas al item.
+ * @apiSuccess (200) {Object[]} [data.relations] Solo al pedir un item por `id`: equivalentes, reemplazos y piezas de kit (ver `POST /api/item/relation`).
+ * @apiSuccess (200) {Object[]} [data.fitments] Solo al pedir un item por `id`: vehículos y años en que se monta (ver `POST /api/fitment`).
  *
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
@@ -78,11 +83,8 @@ type AnswerPage = {
  *     -H "Content-Type: application/json" \
  *     -H "Authorization: Bearer <User_Token>"
  */
-export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("READ", "WRITE", "EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
+export default factory.createHandlers(async ({ req, get, header, json }) => {
+  const user = get("user");
   const _page = req.query("page");
   if (_page) {
     const page = Number(_page) || 1;
@@ -112,6 +114,7 @@ export default factory.createHandlers(async ({ req, get, json }) => {
       .lookup(pipeline.LOOKUP.KEY).unwind("$key")
       .lookup(pipeline.LOOKUP.KEY_LINE).unwind("$key.line")
       .lookup(pipeline.LOOKUP.KEY_BRAND).unwind("$key.brand")
+      .match(user.scopeMatch())
       .append(...search)
       .append(...buildPagePipeline(limit, page, sort, project));
     if (data.length < 1) throw new NotFoundError("No se encontraron docs");
@@ -121,12 +124,17 @@ export default factory.createHandlers(async ({ req, get, json }) => {
 
   const _id = req.query("id");
   if (isValidObjectId(_id)) {
-    const [data] = await ItemModel.getPopulate(_id);
+    const [data] = await ItemModel.getPopulate(_id, user.scopeMatch());
     if (!data) throw new NotFoundError("No se encontraron líneas");
-    return json({ data });
+    const relations = await RelationModel.forItem(_id!, user.scopeMatch());
+    const fitments = await FitmentModel.getPopulate({
+      item: new Types.ObjectId(_id),
+    });
+    header("ETag", etag(data.version));
+    return json({ data: { ...data, relations, fitments } });
   }
 
-  const data = await ItemModel.getPopulate();
+  const data = await ItemModel.getPopulate(undefined, user.scopeMatch());
   if (data.length < 1) throw new NotFoundError("No se encontraron líneas");
   return json({ data });
 });
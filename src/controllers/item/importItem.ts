@@ -0,0 +1,108 @@
+import { setup } from "config";
+import { BadRequestError, UnauthorizedError } from "errors";
+import { factory } from "factory";
+import { ItemModel } from "models";
+
+import { parseCsvRecords } from "@utils/csv.ts";
+
+/**
+ * @api {post} /api/item/import Importar Items desde CSV
+ * @apiVersion 1.0.0
+ * @apiName ImportItem
+ * @apiGroup Item
+ * @apiPermission item.create
+ *
+ * @apiDescription Este endpoint registra varios items a partir de un archivo CSV, enviado como cuerpo `text/csv` o como el campo `file` de un formulario `multipart/form-data`. La primera fila debe contener los nombres de las columnas; el separador puede ser coma o punto y coma.
+ *
+ * Columnas reconocidas:
+ * - `code`: código completo del item (por ejemplo, `GRAPVH0001`).
+ * - `desc`: descripción del item.
+ * - `status` (opcional): estado inicial de las tres imágenes (0-4).
+ * - `line_desc` y `brand_desc` (opcionales): descripción de la línea o la marca, necesaria para crearlas con `create=true`.
+ *
+ * Con `dry_run=true` solo se valida el archivo y se devuelve el reporte, sin guardar nada. Las filas inválidas (código con formato incorrecto, repetido en el archivo, item existente (también en la papelera), llave inexistente o fuera del alcance del usuario) se reportan y no impiden guardar las demás. Los items se guardan por lotes y cada registro creado queda en la auditoría.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} [dry_run] Si es `true`, solo se valida el archivo.
+ * @apiParam (Query string) {String} [create] Si es `true`, se crean las líneas, marcas y llaves que no existan (requiere los permisos `line.create`, `brand.create` y `key.create`).
+ *
+ * @apiParamExample {text} Ejemplo de solicitud:
+ *     POST /api/item/import?dry_run=true HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: text/csv
+ *     Authorization: Bearer <User_Token>
+ *
+ *     code,desc,status
+ *     GRAPVH0001,Bomba de agua,1
+ *     GRAPVH0002,Termostato,
+ *
+ * @apiSuccess {Object} data Reporte de la importación.
+ * @apiSuccess {Number} data.total Filas recibidas, sin contar el encabezado.
+ * @apiSuccess {Number} data.valid Filas válidas.
+ * @apiSuccess {Number} data.inserted Items guardados (0 con `dry_run`).
+ * @apiSuccess {Object[]} data.errors Filas rechazadas.
+ * @apiSuccess {Number} data.errors.row Número de fila en el archivo (el encabezado es la fila 1).
+ * @apiSuccess {String} [data.errors.code] Código enviado en la fila.
+ * @apiSuccess {String[]} data.errors.errors Motivos del rechazo.
+ * @apiSuccess {Object} data.created Códigos de las líneas (`lines`), marcas (`brands`) y llaves (`keys`) creadas, o que se crearían con `dry_run`.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "total": 2,
+ *         "valid": 1,
+ *         "inserted": 0,
+ *         "errors": [
+ *           { "row": 3, "code": "GRAPVH0002", "errors": ["El ítem ya existe o está en la papelera"] }
+ *         ],
+ *         "created": { "lines": [], "brands": [], "keys": [] }
+ *       }
+ *     }
+ *
+ * @apiError (400) BadRequest El archivo está vacío, no tiene la columna `code`, tiene comillas sin cerrar o supera el límite de filas.
+ * @apiError (401) Unauthorized El usuario no tiene permisos para registrar items, o para crear líneas, marcas y llaves con `create=true`.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST "http://localhost:5885/api/item/import?create=true" \
+ *     -H "Content-Type: text/csv" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     --data-binary @items.csv
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const create = req.query("create") === "true";
+  if (create && !await user.can("line.create", "brand.create", "key.create")) {
+    throw new UnauthorizedError(
+      "Acceso denegado: no puedes crear líneas, marcas ni llaves",
+      { required: ["line.create", "brand.create", "key.create"] },
+    );
+  }
+
+  let text: string;
+  if (req.header("Content-Type")?.startsWith("multipart/form-data")) {
+    const file = (await req.formData()).get("file");
+    text = file instanceof File ? await file.text() : "";
+  } else text = await req.text();
+
+  const rows = parseCsvRecords(text);
+  if (!rows.length || !rows.some((row) => row.code)) {
+    throw new BadRequestError(
+      "El archivo no tiene filas o le falta la columna code",
+    );
+  }
+  if (rows.length > setup.LIMIT.IMPORT) {
+    throw new BadRequestError(
+      `El archivo supera el límite de ${setup.LIMIT.IMPORT} filas`,
+    );
+  }
+
+  const data = await ItemModel.importRows(rows, {
+    user,
+    create,
+    dry_run: req.query("dry_run") === "true",
+  });
+
+  return json({ data });
+});
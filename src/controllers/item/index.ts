@@ -8,3 +8,12 @@ export { default as navigateItem } from "./navigateItem.ts";
 export { default as fuzzyItem } from "./fuzzyItem.ts";
 export { default as statusItem } from "./statusItem.ts";
 export { default as summaryItem } from "./summaryItem.ts";
+export { default as importItem } from "./importItem.ts";
+export { default as exportItem } from "./exportItem.ts";
+export { default as restoreItem } from "./restoreItem.ts";
+export { default as purgeItem } from "./purgeItem.ts";
+export { default as moveItem } from "./moveItem.ts";
+export { default as historyItem } from "./historyItem.ts";
+export { default as revertItem } from "./revertItem.ts";
+export { default as linkItem } from "./linkItem.ts";
+export { default as unlinkItem } from "./unlinkItem.ts";
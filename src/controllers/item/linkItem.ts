@@ -0,0 +1,76 @@
+import type { RelationType } from "@interfaces/relation.interface.ts";
+import { factory } from "factory";
+import { AuditLogModel, ItemModel, RelationModel } from "models";
+
+/**
+ * @api {post} /api/item/relation Relacionar Item
+ * @apiVersion 1.0.0
+ * @apiName LinkItem
+ * @apiGroup Item
+ * @apiPermission item.update
+ *
+ * @apiDescription Este método relaciona el item con otro: equivalente, reemplazo o pieza de un kit. Cada par de items admite una sola relación, que se muestra en ambos al consultarlos con `GET /api/item?id=`.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id ID único del item.
+ * @apiParam (Request body) {String="equivalent","supersedes","superseded_by","kit_component"} type Tipo de relación desde el punto de vista del item: `equivalent` (intercambiable), `supersedes` (el item reemplaza al otro), `superseded_by` (el otro reemplaza al item) o `kit_component` (el otro es una pieza del kit).
+ * @apiParam (Request body) {String} target Código completo (por ejemplo, `GRAPVH0001`) o ID del otro item.
+ *
+ * @apiParamExample {json} Request-Example:
+ *     POST /api/item/relation?id=5f4471326b54a216c46f1a6e HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <User_Token>
+ *     {
+ *       "type": "superseded_by",
+ *       "target": "GRAPVH0002"
+ *     }
+ *
+ * @apiSuccess (200) {Object[]} data Relaciones del item después del cambio.
+ * @apiSuccess (200) {String="equivalent","supersedes","superseded_by","kit_component","kit"} data.type Tipo de relación; `kit` indica que el item es una pieza del otro.
+ * @apiSuccess (200) {String} data._id ID del otro item.
+ * @apiSuccess (200) {String} data.code Código completo del otro item.
+ * @apiSuccess (200) {String} data.desc Descripción del otro item.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": [
+ *         {
+ *           "type": "superseded_by",
+ *           "_id": "5f4471326b54a216c46f1a6f",
+ *           "code": "GRAPVH0002",
+ *           "desc": "Bomba de gasolina"
+ *         }
+ *       ]
+ *     }
+ *
+ * @apiError (400) BadRequest Tipo inválido, el item es el mismo o ya estaban relacionados.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o el otro item está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró alguno de los items.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/item/relation?id=5f4471326b54a216c46f1a6e \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -d '{"type": "superseded_by", "target": "GRAPVH0002"}'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id")!;
+  const body = await req.json<{ type: RelationType; target: string }>();
+  // Tampoco se puede relacionar con un ítem fuera del alcance
+  await user.assertScope("item", await ItemModel.findByCode(body.target));
+
+  const relation = await RelationModel.link(user, _id, body.target, body.type);
+  await AuditLogModel.record(user, {
+    action: "link",
+    entity: "item",
+    entity_id: _id,
+    after: relation.toObject(),
+  });
+
+  const data = await RelationModel.forItem(_id, user.scopeMatch());
+  return json({ data });
+});
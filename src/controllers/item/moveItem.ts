@@ -0,0 +1,104 @@
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, ItemModel, KeyModel, RevisionModel } from "models";
+
+/**
+ * @api {put} /api/item/move Mover Item
+ * @apiVersion 1.0.0
+ * @apiName MoveItem
+ * @apiGroup Item
+ * @apiPermission item.update
+ *
+ * @apiDescription Este método mueve un item a otra clave y, opcionalmente, le asigna otro código. Las imágenes guardadas se renombran y se mueven a la carpeta de la clave nueva junto con sus variantes en `.cache`. Si la actualización en la base de datos falla, los archivos regresan a su ubicación anterior. Los atributos del item se validan contra la línea de la clave destino.
+ *
+ * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ *
+ * @apiParam (Query string) {String} id ID único del item a mover.
+ * @apiParam (Request body) {String} key Clave destino (por ejemplo, `GRAPVH`) o su ID.
+ * @apiParam (Request body) {String} [code] Código nuevo del item (hasta 4 caracteres); por defecto conserva el actual.
+ * @apiParam (Request body) {Object} [attributes] Atributos del item en la línea destino; por defecto conserva los actuales.
+ *
+ * @apiParamExample {json} Request-Example:
+ *     PUT /api/item/move?id=5f4471326b54a216c46f1a6e HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <User_Token>
+ *     {
+ *       "key": "GRAPVH",
+ *       "code": "0007"
+ *     }
+ *
+ * @apiSuccess (200) {Object} data Item con su clave y código nuevos.
+ * @apiSuccess (200) {Object[]} moved Archivos renombrados, con su ruta anterior (`from`) y nueva (`to`).
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "code": "GRAPVH0007",
+ *         "desc": "Bomba de agua",
+ *         "images": [{ "idN": 1, "status": 5, "ext": "jpg" }]
+ *       },
+ *       "moved": [
+ *         { "from": "assets/GRAAC/GRAAC0001 1.jpg", "to": "assets/GRAPVH/GRAPVH0007 1.jpg" }
+ *       ]
+ *     }
+ *
+ * @apiError (400) BadRequest La clave destino no existe, el código no es válido, ya está ocupado, los atributos no son válidos en la línea destino o alguna imagen ya existe en la ubicación nueva.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o la clave destino está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró el item.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/item/move?id=5f4471326b54a216c46f1a6e \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -H "location: /ruta/personalizada/al/directorio" \
+ *     -d '{"key": "GRAPVH", "code": "0007"}'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  const item = await ItemModel.findById(_id);
+  if (!item) throw new NotFoundError("No se encontró el documento solicitado");
+
+  const body = await req.json<
+    { key: string; code?: string; attributes?: Record<string, unknown> }
+  >();
+  const key = await KeyModel.findByCode(body.key);
+  if (!key) throw new BadRequestError("La clave destino no existe");
+  await user.assertScope("key", key);
+
+  const code = String(body.code ?? item.code).trim().toUpperCase();
+  if (!/^[A-Z0-9]{1,4}$/.test(code)) {
+    throw new BadRequestError("El código debe tener de 1 a 4 caracteres");
+  }
+  const target = {
+    key,
+    code: code.padStart(4, "0"),
+    ...(body.attributes && {
+      attributes: await ItemModel.parseAttributes(key, body.attributes),
+    }),
+  };
+  if (key.equals(item.key) && target.code === item.code) {
+    throw new BadRequestError("El item ya tiene esa clave y código");
+  }
+
+  const [before] = await ItemModel.getPopulate(_id);
+  const moved = await ItemModel.relocate(item, target, get("location"));
+
+  const [data] = await ItemModel.getPopulate(_id);
+  await RevisionModel.record(user, "item", item.toObject(), {
+    ...item.toObject(),
+    ...target,
+  });
+  await AuditLogModel.record(user, {
+    action: "move",
+    entity: "item",
+    entity_id: item._id,
+    before,
+    after: data,
+  });
+
+  return json({ data, moved });
+});
@@ -1,16 +1,13 @@
 import type { PopulatedItem } from "@interfaces/item.interface.ts";
 import { pipeline } from 'aggregate';
-import { NotFoundError, UnauthorizedError } from 'errors';
+import { NotFoundError } from 'errors';
 import { factory } from 'factory';
 import { ItemModel } from 'models';
 
 import { ParserPipeline } from '@utils/pipeline_builder.ts';
 
 export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("READ", "WRITE", "EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
+  const user = get("user");
   const aggregate = ItemModel.aggregate<PopulatedItem>();
   const { parseResult: { desc }, pipeline: search } = await ParserPipeline
     .getPipelineForInstruction(req.query("search"));
@@ -27,6 +24,7 @@ export default factory.createHandlers(async ({ req, get, json }) => {
   aggregate.lookup(pipeline.LOOKUP.KEY).unwind("$key")
     .lookup(pipeline.LOOKUP.KEY_LINE).unwind("$key.line")
     .lookup(pipeline.LOOKUP.KEY_BRAND).unwind("$key.brand")
+    .match(user.scopeMatch())
     .append(...search)
     .addFields({
       sort_key: {
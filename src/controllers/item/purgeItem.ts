@@ -0,0 +1,74 @@
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, ItemModel, KeyModel } from "models";
+
+import { deleteFilesSafely } from "@utils/trash.ts";
+
+/**
+ * @api {delete} /api/item/purge Eliminar Item Definitivamente
+ * @apiVersion 1.0.0
+ * @apiName PurgeItem
+ * @apiGroup Item
+ * @apiPermission item.delete
+ *
+ * @apiDescription Este método elimina de forma definitiva un item que está en la papelera, junto con sus imágenes de la carpeta 'trash' y sus relaciones con otros items (equivalentes, reemplazos y kits). No se puede deshacer. La clave del item debe estar activa; si el item se eliminó en cascada junto con su clave, línea o marca, sus imágenes quedan registradas en esa eliminación.
+ *
+ * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ *
+ * @apiParam (Query string) {String} id ID único del item eliminado.
+ *
+ * @apiSuccess (200) {Object} data Item eliminado definitivamente.
+ * @apiSuccess (200) {Object} purged Cantidad de archivos (`files`) borrados de la papelera.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "code": "0001",
+ *         "desc": "descripción del item"
+ *       },
+ *       "purged": { "files": 1 }
+ *     }
+ *
+ * @apiError (400) BadRequest La clave del item está en la papelera.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o el item está fuera de su alcance.
+ * @apiError (404) NotFound El item no está en la papelera.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X DELETE http://localhost:5885/api/item/purge?id=5f4471326b54a216c46f1a6e \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -H "location: /ruta/personalizada/al/directorio"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  const filter = { _id, deleted_at: { $exists: true } };
+  const data = await ItemModel.findOne(filter)
+    .select("key code desc attributes +trashed").lean();
+  if (!data) {
+    throw new NotFoundError("No se encontró el documento en la papelera");
+  }
+  if (!await KeyModel.exists({ _id: data.key })) {
+    throw new BadRequestError(
+      "La clave del item está en la papelera; restáurala primero",
+    );
+  }
+  await user.assertScope("key", data.key);
+
+  // El hook `purgeRelations` del modelo elimina sus relaciones
+  await ItemModel.deleteOne(filter);
+  const location = get("location");
+  const files = (data.trashed ?? []).map(({ to }) => to);
+  if (location) deleteFilesSafely(location, files);
+
+  const { trashed: _, ...before } = data;
+  await AuditLogModel.record(user, {
+    action: "purge",
+    entity: "item",
+    entity_id: data._id,
+    before,
+  });
+
+  return json({ data: before, purged: { files: location ? files.length : 0 } });
+});
@@ -1,12 +1,12 @@
-import { NotFoundError, UnauthorizedError } from "errors";
+import type { TrashedFile } from "@interfaces/audit.interface.ts";
+import { NotFoundError } from "errors";
 import { factory } from "factory";
-import { ItemModel } from "models";
+import { AuditLogModel, ItemModel } from "models";
 
+import { nextVersion } from "@utils/etag.ts";
 import { moveFilesToTrash } from "@utils/trash.ts";
 
 export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("ADMIN")) throw new UnauthorizedError();
-
   const location = get("location");
   const _id = req.query("id");
   const [data] = await ItemModel.getPopulate(_id);
@@ -15,16 +15,30 @@ export default factory.createHandlers(async ({ req, get, json }) => {
   const status = Number(req.query("status"));
   const length = !isNaN(status) && status >= 0 && status < 5 ? 3 : 0;
   const data_file = await ItemModel.getBackInfo("_id", _id!);
-  const { modifiedCount } = await ItemModel.updateOne({ _id }, {
-    $set: {
-      images: Array.from({ length }, (_, n) => ({ idN: n + 1, status })),
-    },
-  });
+  const { modifiedCount } = await ItemModel.updateOne(
+    { _id },
+    nextVersion({
+      $set: {
+        images: Array.from({ length }, (_, n) => ({ idN: n + 1, status })),
+      },
+    }),
+  );
   if (!modifiedCount) throw new NotFoundError("Documento no encontrado");
 
+  const trashed: TrashedFile[] = [];
   for (const { code, files } of data_file?.images) {
-    moveFilesToTrash(location, code, files);
+    trashed.push(...moveFilesToTrash(location, code, files));
   }
 
+  const [after] = await ItemModel.getPopulate(_id);
+  await AuditLogModel.record(get("user"), {
+    action: "reset",
+    entity: "item",
+    entity_id: data._id,
+    before: data,
+    after,
+    trashed,
+  });
+
   return json({ data, deletedStatus: data_file.status });
 });
@@ -0,0 +1,76 @@
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, ItemModel, KeyModel } from "models";
+
+import { restoreFilesFromTrash } from "@utils/trash.ts";
+
+/**
+ * @api {put} /api/item/restore Restaurar Item
+ * @apiVersion 1.0.0
+ * @apiName RestoreItem
+ * @apiGroup Item
+ * @apiPermission item.delete
+ *
+ * @apiDescription Este método saca de la papelera un item eliminado con `DELETE /api/item` y devuelve sus imágenes de la carpeta 'trash' a 'assets'. La clave del item debe estar activa; si el item se eliminó en cascada junto con su clave, línea o marca, se debe restaurar esa en su lugar.
+ *
+ * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ *
+ * @apiParam (Query string) {String} id ID único del item eliminado.
+ *
+ * @apiSuccess (200) {Object} data Item restaurado.
+ * @apiSuccess (200) {Object} restored Cantidad de archivos (`files`) restaurados.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "code": "LNEBRD0001",
+ *         "desc": "Descripción del item",
+ *         "images": [{ "idN": 1, "status": 5 }]
+ *       },
+ *       "restored": { "files": 1 }
+ *     }
+ *
+ * @apiError (400) BadRequest La clave del item está en la papelera.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o el item está fuera de su alcance.
+ * @apiError (404) NotFound El item no está en la papelera.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/item/restore?id=5f4471326b54a216c46f1a6e \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -H "location: /ruta/personalizada/al/directorio"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  const deleted = await ItemModel
+    .findOne({ _id, deleted_at: { $exists: true } })
+    .select("key +trashed");
+  if (!deleted) {
+    throw new NotFoundError("No se encontró el documento en la papelera");
+  }
+  if (!await KeyModel.exists({ _id: deleted.key })) {
+    throw new BadRequestError(
+      "La clave del item está en la papelera; restáurala primero",
+    );
+  }
+  await user.assertScope("key", deleted.key);
+
+  await ItemModel.restore({ _id });
+  const location = get("location");
+  const files = location
+    ? restoreFilesFromTrash(location, deleted.trashed ?? [])
+    : [];
+
+  const [data] = await ItemModel.getPopulate(_id);
+  await AuditLogModel.record(user, {
+    action: "restore",
+    entity: "item",
+    entity_id: deleted._id,
+    after: data,
+    trashed: files,
+  });
+
+  return json({ data, restored: { files: files.length } });
+});
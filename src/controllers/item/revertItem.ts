@@ -0,0 +1,80 @@
+import type { ItemUpdate } from "@interfaces/item.interface.ts";
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, ItemModel, KeyModel, RevisionModel } from "models";
+
+/**
+ * @api {put} /api/item/revert Revertir Item
+ * @apiVersion 1.0.0
+ * @apiName RevertItem
+ * @apiGroup Item
+ * @apiPermission item.update
+ *
+ * @apiDescription Este método devuelve la clave, el código y la descripción de un item a los valores que tenían justo después de una revisión de `GET /api/item/history`. La reversión se registra como una revisión nueva, por lo que también puede deshacerse.
+ *
+ * Si cambia la clave o el código, sus imágenes se renombran igual que en `PUT /api/item/move`.
+ *
+ * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ *
+ * @apiParam (Query string) {String} id ID único del item.
+ * @apiParam (Query string) {Number} rev Revisión a la que se vuelve; `0` es el estado anterior al primer cambio registrado.
+ *
+ * @apiSuccess (200) {Object} data Información del item revertido.
+ * @apiSuccess (200) {String} data.code Código del item.
+ * @apiSuccess (200) {String} data.desc Descripción del item.
+ * @apiSuccess (200) {Object[]} moved Archivos renombrados, con su ruta anterior (`from`) y la nueva (`to`).
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": { "code": "LNEORD0001", "desc": "Bomba de gasolina", "images": [] },
+ *       "moved": []
+ *     }
+ *
+ * @apiError (400) BadRequest El ID o la revisión no son válidos, la clave de la revisión ya no existe o el código está ocupado.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o el item está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró el documento o la revisión, o el documento ya está en ella.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT "http://localhost:5885/api/item/revert?id=5f4471326b54a216c46f1a6e&rev=3" \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -H "location: /ruta/personalizada/al/directorio"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  const rev = Number(req.query("rev"));
+  const item = await ItemModel.findById(_id);
+  if (!item) throw new NotFoundError("No se encontró el documento solicitado");
+
+  const values: ItemUpdate = await RevisionModel.valuesAt(
+    "item",
+    item._id,
+    rev,
+  );
+  if (values.key) {
+    if (!await KeyModel.exists({ _id: values.key })) {
+      throw new BadRequestError("La clave de esa revisión ya no existe");
+    }
+    await user.assertScope("key", values.key);
+  }
+
+  const [before] = await ItemModel.getPopulate(_id);
+  const moved = await ItemModel.relocate(item, values, get("location"));
+
+  const [data] = await ItemModel.getPopulate(_id);
+  await RevisionModel.record(user, "item", item.toObject(), {
+    ...item.toObject(),
+    ...values,
+  }, rev);
+  await AuditLogModel.record(user, {
+    action: "revert",
+    entity: "item",
+    entity_id: item._id,
+    before,
+    after: data,
+  });
+
+  return json({ data, moved });
+});
@@ -1,7 +1,7 @@
 import type { LeanItem } from "@interfaces/item.interface.ts";
-import { UnauthorizedError } from "errors";
+import { BadRequestError } from "errors";
 import { factory } from "factory";
-import { ItemModel, KeyModel } from "models";
+import { AuditLogModel, ItemModel, KeyModel } from "models";
 
 /**
  * @api {post} /api/item Registrar Item
@@ -10,14 +10,15 @@ import { ItemModel, KeyModel } from "models";
  * @apiGroup Item
  * @apiPermission admin
  *
- * @apiDescription Este endpoint permite a los usuarios con permisos de 'GRANT' o 'ADMIN' registrar un nuevo item en el sistema.
+ * @apiDescription Este endpoint permite a los usuarios con permisos de 'GRANT' o 'ADMIN' registrar un nuevo item en el sistema. Si no se envía `code`, se asigna el siguiente código libre de la clave (ver `GET /api/key/next-code`); si otra solicitud lo ocupa al mismo tiempo, se vuelve a calcular.
  *
  * @apiUse AuthHeader
  *
  * @apiParam (Request body) {String} key Clave asociada al item.
- * @apiParam (Request body) {String} code Código del item.
+ * @apiParam (Request body) {String} [code] Código del item; si se omite o está vacío, se asigna automáticamente.
  * @apiParam (Request body) {String} desc Descripción del item.
  * @apiParam (Request body) {Number} [status] Estado opcional para las imágenes (0-4).
+ * @apiParam (Request body) {Object} [attributes] Valores de los atributos definidos en la línea del item, por nombre (por ejemplo, `{ "lado": "izquierdo" }`). Se valida aunque se omita, para exigir los obligatorios de la línea.
  *
  * @apiParamExample {json} Request-Example:
  *     {
@@ -57,7 +58,7 @@ import { ItemModel, KeyModel } from "models";
  *       }
  *     }
  *
- * @apiError (400) BadRequest Parámetros no enviados o inválidos.
+ * @apiError (400) BadRequest Parámetros no enviados o inválidos, o la clave no tiene códigos disponibles.
  * @apiError (403) Forbidden Acceso denegado por falta de permisos.
  * @apiError (204) NoContent Guardado pero no devuelve contenido.
  * @apiError (409) Conflict Error interno, probablemente relacionado con los parámetros.
@@ -75,10 +76,7 @@ import { ItemModel, KeyModel } from "models";
  *     -d '{"key": "LNEBRD", "code": "0001", "desc": "Descripción del item", "status": 2}'
  */
 export default factory.createHandlers(async ({ req, get, body, json }) => {
-  if (!get("user").roleIncludes("GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
+  const user = get("user");
   const itemData = await req.json<LeanItem & { status: number }>();
   if (!isNaN(itemData.status) && itemData.status >= 0 && itemData.status < 5) {
     itemData.images = Array.from({ length: 3 }, (_, n) => ({
@@ -87,13 +85,51 @@ export default factory.createHandlers(async ({ req, get, body, json }) => {
     }));
   }
 
-  const data = await new ItemModel({
-    key: await KeyModel.findByCode(itemData.key),
-    ...itemData,
-  }).save();
+  const key = await KeyModel.findByCode(itemData.key);
+  await user.assertScope("key", key);
+  // Se valida aunque no se envíen, por los atributos obligatorios de la línea
+  const attributes = key
+    ? await ItemModel.parseAttributes(key, itemData.attributes ?? {})
+    : undefined;
+
+  // Sin código se asigna el siguiente libre; el índice único `(key, code)` rechaza
+  // el guardado si otra solicitud lo tomó primero, y se vuelve a calcular
+  const allocate = !itemData.code?.trim();
+  let code = itemData.code;
+  let data;
+  for (let attempt = 1;; attempt++) {
+    if (allocate && key) {
+      const { next } = await ItemModel.codeReport(key);
+      if (!next) {
+        throw new BadRequestError("La clave no tiene códigos disponibles");
+      }
+      code = next;
+    }
+
+    try {
+      data = await new ItemModel({
+        key,
+        ...itemData,
+        code,
+        attributes,
+      }).save();
+      break;
+    } catch (error) {
+      const duplicated = (error as { code?: number }).code === 11000;
+      if (allocate && duplicated && attempt < 3) continue;
+      throw error;
+    }
+  }
   if (!data) {
     return body(null, 204);
   }
 
+  await AuditLogModel.record(user, {
+    action: "create",
+    entity: "item",
+    entity_id: data._id,
+    after: data.toObject(),
+  });
+
   return json({ data });
 });
@@ -1,26 +1,53 @@
-import { BadRequestError, NotFoundError, UnauthorizedError } from 'errors';
+import { BadRequestError, NotFoundError } from 'errors';
 import { factory } from 'factory';
-import { ItemModel } from 'models';
+import { AuditLogModel, ItemModel } from 'models';
 
-export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
+import {
+  assertVersion,
+  etag,
+  ifMatch,
+  matchVersion,
+  nextVersion,
+} from '@utils/etag.ts';
 
+export default factory.createHandlers(async ({ req, get, header, json }) => {
   const _id = req.query("id");
   const idN = Number(req.query("idN"));
   const status = Number(req.query("status"));
   if (isNaN(status)) throw new BadRequestError("Status no definido o inválido");
 
+  // Con If-Match, el cambio solo aplica sobre la versión que consultó el cliente
+  const expected = ifMatch(req.header("If-Match"));
+  if (expected !== undefined) {
+    const [current] = await ItemModel.getPopulate(_id);
+    if (!current) throw new NotFoundError("Documento no encontrado");
+    assertVersion(current, expected);
+  }
+  const filter = { _id, ...matchVersion(expected) };
+
+  const [before] = await ItemModel.getStatus(_id!, idN);
+  const record = async (after: unknown) => {
+    await AuditLogModel.record(get("user"), {
+      action: "status",
+      entity: "item",
+      entity_id: _id!,
+      before,
+      after,
+    });
+    const item = await ItemModel.findById(_id).select("version").lean();
+    header("ETag", etag(item?.version));
+  };
+
   // Caso especial: eliminar imagen (status === -1)
   if (status === -1) {
     const { modifiedCount: deleted } = await ItemModel.updateOne(
-      { _id },
-      { $pull: { images: { idN: { $eq: idN } } } },
+      { ...filter, "images.idN": idN },
+      nextVersion({ $pull: { images: { idN: { $eq: idN } } } }),
     );
     if (!deleted) throw new NotFoundError("Imagen no eliminada");
 
     const [data] = await ItemModel.getStatus(_id!, idN);
+    await record(data);
     return json({ data });
   }
 
@@ -29,17 +56,21 @@ export default factory.createHandlers(async ({ req, get, json }) => {
 
   // Intentar actualizar si la imagen ya existe
   const { modifiedCount: updated } = await ItemModel.updateOne(
-    { _id },
-    { $set: { "images.$[img].status": status } },
+    { ...filter, "images.idN": idN },
+    nextVersion({ $set: { "images.$[img].status": status } }),
     { arrayFilters: [{ "img.idN": idN }] },
   );
   if (!updated) {
     // Si no se actualizó, agregarla como nueva imagen
     const { modifiedCount: created } = await ItemModel.updateOne(
-      { _id },
-      { $push: { images: { idN, status } } },
+      filter,
+      nextVersion({ $push: { images: { idN, status } } }),
     );
-    if (!created) throw new NotFoundError("Imagen no agregada");
+    if (!created) {
+      const [current] = await ItemModel.getPopulate(_id);
+      if (current) assertVersion(current, expected);
+      throw new NotFoundError("Imagen no agregada");
+    }
   }
 
   const [data] = await ItemModel.getStatus(_id!, idN);
@@ -47,5 +78,7 @@ export default factory.createHandlers(async ({ req, get, json }) => {
     throw new NotFoundError("Documento no encontrado tras la operación");
   }
 
+  await record(data);
+
   return json({ data });
 });
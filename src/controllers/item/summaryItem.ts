@@ -1,7 +1,7 @@
 import type { PopulatedItem, StatusInfo } from "@interfaces/item.interface.ts";
 import { pipeline } from 'aggregate';
 import { setup } from 'config';
-import { NotFoundError, UnauthorizedError } from 'errors';
+import { NotFoundError } from 'errors';
 import { factory } from 'factory';
 import { ItemModel } from 'models';
 
@@ -15,9 +15,7 @@ interface Answer {
 }
 
 export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("READ", "WRITE", "EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
+  const user = get("user");
   const aggregate = ItemModel.aggregate<Answer>();
   const { parseResult: { desc }, pipeline: search } = await ParserPipeline
     .getPipelineForInstruction(req.query("search"));
@@ -38,6 +36,7 @@ export default factory.createHandlers(async ({ req, get, json }) => {
     .lookup(pipeline.LOOKUP.KEY).unwind("$key")
     .lookup(pipeline.LOOKUP.KEY_LINE).unwind("$key.line")
     .lookup(pipeline.LOOKUP.KEY_BRAND).unwind("$key.brand")
+    .match(user.scopeMatch())
     .append(...search)
     .facet({
       data: [
@@ -0,0 +1,55 @@
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, RelationModel } from "models";
+
+/**
+ * @api {delete} /api/item/relation Quitar Relación de Item
+ * @apiVersion 1.0.0
+ * @apiName UnlinkItem
+ * @apiGroup Item
+ * @apiPermission item.update
+ *
+ * @apiDescription Este método elimina la relación entre el item y otro, sin importar desde cuál de los dos se creó.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id ID único del item.
+ * @apiParam (Query string) {String} target Código completo (por ejemplo, `GRAPVH0001`) o ID del otro item.
+ *
+ * @apiParamExample {json} Request-Example:
+ *     DELETE /api/item/relation?id=5f4471326b54a216c46f1a6e&target=GRAPVH0002 HTTP/1.1
+ *     Host: localhost:5885
+ *     Authorization: Bearer <User_Token>
+ *
+ * @apiSuccess (200) {Object[]} data Relaciones que conserva el item (ver `POST /api/item/relation`).
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": []
+ *     }
+ *
+ * @apiError (400) BadRequest El ID proporcionado no es válido.
+ * @apiError (401) Unauthorized El usuario no tiene permisos.
+ * @apiError (404) NotFound Los items no están relacionados.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X DELETE "http://localhost:5885/api/item/relation?id=5f4471326b54a216c46f1a6e&target=GRAPVH0002" \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id")!;
+  const removed = await RelationModel.unlink(_id, req.query("target") ?? "");
+  if (!removed) throw new NotFoundError("Los items no están relacionados");
+
+  await AuditLogModel.record(user, {
+    action: "unlink",
+    entity: "item",
+    entity_id: _id,
+    before: removed,
+  });
+
+  const data = await RelationModel.forItem(_id, user.scopeMatch());
+  return json({ data });
+});
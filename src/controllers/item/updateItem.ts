@@ -1,7 +1,16 @@
 import type { LeanItem } from "@interfaces/item.interface.ts";
-import { NotFoundError, UnauthorizedError } from "errors";
+import { Types } from "deps";
+import { BadRequestError, NotFoundError } from "errors";
 import { factory } from "factory";
-import { ItemModel, KeyModel } from "models";
+import { AuditLogModel, ItemModel, KeyModel, RevisionModel } from "models";
+
+import {
+  assertVersion,
+  etag,
+  ifMatch,
+  matchVersion,
+  nextVersion,
+} from "@utils/etag.ts";
 
 /**
  * @api {put} /api/item Actualizar Item
@@ -10,15 +19,19 @@ import { ItemModel, KeyModel } from "models";
  * @apiGroup Item
  * @apiPermission admin
  *
- * @apiDescription Este método actualiza la información de un item existente en el sistema. Solo puede ser ejecutado por usuarios con roles 'EDIT', 'GRANT' o 'ADMIN'.
+ * @apiDescription Este método actualiza la información de un item existente en el sistema. Solo puede ser ejecutado por usuarios con roles 'EDIT', 'GRANT' o 'ADMIN'. No cambia la clave ni el código del item: para eso se usa `PUT /api/item/move`, que también renombra sus archivos.
+ *
+ * Si se envía `If-Match` y el item cambió desde esa versión, responde 412 con la copia vigente. La respuesta trae el `ETag` de la versión resultante.
  *
  * @apiUse AuthHeader
+ * @apiUse IfMatchHeader
  *
  * @apiParam (Query string) {String} id ID único del item a actualizar.
- * @apiParam (Request body) {String} [key] Clave asociada al item.
- * @apiParam (Request body) {String} [code] Código del item.
+ * @apiParam (Request body) {String} [key] Clave asociada al item; si se envía, debe ser la actual.
+ * @apiParam (Request body) {String} [code] Código del item; si se envía, debe ser el actual.
  * @apiParam (Request body) {String} [desc] Descripción del item.
  * @apiParam (Request body) {Object[]} [images] Imágenes asociadas al item.
+ * @apiParam (Request body) {Object} [attributes] Valores de los atributos definidos en la línea del item, por nombre; reemplaza los anteriores y se validan contra la línea de la clave final.
  *
  * @apiParamExample {json} Request-Example:
  *     PUT /api/item?id=5f4471326b54a216c46f1a6e HTTP/1.1
@@ -26,8 +39,6 @@ import { ItemModel, KeyModel } from "models";
  *     Content-Type: application/json
  *     Authorization: Bearer <Admin_Token>
  *     {
- *       "key": "LNEORD",
- *       "code": "0001",
  *       "desc": "Descripción actualizada del item"
  *     }
  *
@@ -51,7 +62,7 @@ import { ItemModel, KeyModel } from "models";
  *       }
  *     }
  *
- * @apiError (400) BadRequest Parámetros no enviados o inválidos.
+ * @apiError (400) BadRequest Parámetros no enviados o inválidos, o se intentó cambiar la clave o el código.
  * @apiError (403) Forbidden Acceso denegado por falta de permisos.
  * @apiError (404) NotFound No se encontró el documento solicitado.
  * @apiError (409) Conflict Error interno, probablemente relacionado con los parámetros.
@@ -66,26 +77,60 @@ import { ItemModel, KeyModel } from "models";
  *     curl -X PUT http://localhost:3000/api/item?id=5f4471326b54a216c46f1a6e \
  *     -H "Content-Type: application/json" \
  *     -H "Authorization: Bearer <Admin_Token>" \
- *     -d '{"key": "LNEORD", "code": "0001", "desc": "Descripción actualizada del item" }'
+ *     -d '{"desc": "Descripción actualizada del item" }'
  */
-export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
+export default factory.createHandlers(async ({ req, get, header, json }) => {
+  const user = get("user");
   const _id = req.query("id");
+  const expected = ifMatch(req.header("If-Match"));
   const [data] = await ItemModel.getPopulate(_id);
   if (!data) throw new NotFoundError("No se encontró el documento solicitado");
+  assertVersion(data, expected);
 
-  const body = await req.json<LeanItem>();
+  const original = await ItemModel.findById(_id)
+    .select("key code desc attributes").lean();
+  // Cambiar la clave o el código sin mover las imágenes las dejaría huérfanas
+  const { key: target, code, ...body } = await req.json<LeanItem>();
+  const key = target ? await KeyModel.findByCode(target) : original!.key!;
+  const sameKey = !!key && new Types.ObjectId(original!.key!).equals(key);
+  const sameCode = !code ||
+    String(code).trim().toUpperCase().padStart(4, "0") === original!.code;
+  if (!sameKey || !sameCode) {
+    throw new BadRequestError(
+      "Para cambiar la clave o el código del item se usa PUT /api/item/move",
+    );
+  }
+
+  const attributes = body.attributes && await ItemModel.parseAttributes(
+    original!.key!,
+    body.attributes,
+  );
   const { modifiedCount } = await ItemModel.updateOne(
-    { _id },
-    {
-      key: await KeyModel.findByCode(body.key),
+    { _id, ...matchVersion(expected) },
+    nextVersion({
       ...body,
-    },
+      ...(attributes && { attributes }),
+    }),
   );
-  if (!modifiedCount) throw new NotFoundError("Documento no modificado");
+  if (!modifiedCount) {
+    // Otra solicitud pudo modificarlo entre la lectura y la escritura
+    const [current] = await ItemModel.getPopulate(_id);
+    if (current) assertVersion(current, expected);
+    throw new NotFoundError("Documento no modificado");
+  }
+
+  const [after] = await ItemModel.getPopulate(_id);
+  const updated = await ItemModel.findById(_id)
+    .select("key code desc attributes").lean();
+  await RevisionModel.record(user, "item", original!, updated!);
+  await AuditLogModel.record(user, {
+    action: "update",
+    entity: "item",
+    entity_id: data._id,
+    before: data,
+    after,
+  });
 
-  return json({ data });
+  header("ETag", etag(after?.version));
+  return json({ data: after });
 });
@@ -1,6 +1,8 @@
-import { NotFoundError, UnauthorizedError } from 'errors';
+import type { TrashedFile } from "@interfaces/audit.interface.ts";
+import { Types } from 'deps';
+import { NotFoundError } from 'errors';
 import { factory } from 'factory';
-import { ItemModel, KeyModel } from 'models';
+import { AuditLogModel, ItemModel, KeyModel } from 'models';
 
 import { moveFilesToTrash } from '@utils/trash.ts';
 
@@ -11,7 +13,7 @@ import { moveFilesToTrash } from '@utils/trash.ts';
  * @apiGroup Key
  * @apiPermission admin
  *
- * @apiDescription Este método elimina una clave específica del sistema. Solo puede ser ejecutado por usuarios con rol 'ADMIN'. Si se proporciona el parámetro 'force' con el valor 'delete', se eliminarán todos los archivos relacionados de forma permanente.
+ * @apiDescription Este método envía una clave específica a la papelera. Solo puede ser ejecutado por usuarios con rol 'ADMIN'. Si se proporciona el parámetro 'force' con el valor 'delete', también se envían a la papelera sus items y sus imágenes se mueven a la carpeta 'trash'. Todo se recupera junto con `/api/key/restore`.
  *
  * @apiUse AuthHeader
  * @apiUse PathFileHeader
@@ -66,30 +68,41 @@ import { moveFilesToTrash } from '@utils/trash.ts';
  *     -H "location: /ruta/personalizada/al/directorio"
  */
 export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
+  const user = get("user");
   const _id = req.query("id");
   const [data] = await KeyModel.getPopulate(_id);
   if (!data) throw new NotFoundError("Documento no encontrado");
 
   const data_file = await ItemModel.getBackInfo("key._id", _id!);
-  const { deletedCount } = await KeyModel.deleteOne({ _id });
-  if (!deletedCount) throw new NotFoundError("Documento no encontrado");
+  const deletion = { deleted_by: user._id, deletion: new Types.ObjectId() };
+  if (!await KeyModel.softDelete({ _id }, deletion)) {
+    throw new NotFoundError("Documento no encontrado");
+  }
 
   const location = get("location");
-  const force = req.query("force");
-  if (location && force === "delete") {
+  const cascade = !!location && req.query("force") === "delete";
+  const trashed: TrashedFile[] = [];
+  if (cascade) {
     for (const { _id: key, code, files } of data_file?.images) {
-      const items_deleted = await ItemModel.deleteMany({ key });
-      if (!items_deleted.deletedCount) continue;
+      if (!await ItemModel.softDelete({ key }, deletion)) continue;
 
-      moveFilesToTrash(location, code, files);
+      trashed.push(...moveFilesToTrash(location, code, files));
     }
-
-    return json({ data, deletedStatus: data_file.status });
   }
+  if (trashed.length) {
+    await KeyModel.updateOne(
+      { _id, deleted_at: { $exists: true } },
+      { trashed },
+    );
+  }
+
+  await AuditLogModel.record(user, {
+    action: "delete",
+    entity: "key",
+    entity_id: data._id,
+    before: data,
+    trashed,
+  });
 
-  return json({ data });
+  return json(cascade ? { data, deletedStatus: data_file.status } : { data });
 });
@@ -0,0 +1,58 @@
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { ItemModel, KeyModel } from "models";
+
+/**
+ * @api {get} /api/key/gaps Códigos Libres de la Clave
+ * @apiVersion 1.0.0
+ * @apiName GapsKey
+ * @apiGroup Key
+ * @apiPermission key.read
+ *
+ * @apiDescription Este método obtiene los rangos de códigos sin usar entre "0001" y el mayor código numérico de la clave, junto con el siguiente código que se asignaría. Los items en la papelera cuentan como usados, porque su código sigue ocupado hasta que se eliminan definitivamente.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id ID único de la clave.
+ *
+ * @apiParamExample {json} Request-Example:
+ *     GET /api/key/gaps?id=5f4471326b54a216c46f1a6e HTTP/1.1
+ *     Host: localhost:5885
+ *     Authorization: Bearer <User_Token>
+ *
+ * @apiSuccess (200) {Object} data Uso de los códigos de la clave.
+ * @apiSuccess (200) {String} data.key Código de la clave.
+ * @apiSuccess (200) {Number} data.used Códigos ocupados, incluidos los no numéricos.
+ * @apiSuccess (200) {String} data.next Siguiente código que se asignaría (`null` si no quedan).
+ * @apiSuccess (200) {Object[]} data.gaps Rangos libres, con el primer código (`from`), el último (`to`) y la cantidad (`count`).
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "key": "GRAPVH",
+ *         "used": 36,
+ *         "next": "0042",
+ *         "gaps": [
+ *           { "from": "0003", "to": "0007", "count": 5 },
+ *           { "from": "0040", "to": "0040", "count": 1 }
+ *         ]
+ *       }
+ *     }
+ *
+ * @apiError (400) BadRequest El ID proporcionado no es válido.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o la clave está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró la clave.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET http://localhost:5885/api/key/gaps?id=5f4471326b54a216c46f1a6e \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const _id = req.query("id")!;
+  const [key] = await KeyModel.getPopulate<{ code: string }>(_id);
+  if (!key) throw new NotFoundError("No se encontró la clave");
+
+  const report = await ItemModel.codeReport(_id);
+  return json({ data: { key: key.code, ...report } });
+});
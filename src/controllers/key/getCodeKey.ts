@@ -1,14 +1,11 @@
 import { pipeline } from 'aggregate';
-import { NotFoundError, UnauthorizedError } from 'errors';
+import { NotFoundError } from 'errors';
 import { factory } from 'factory';
 import { KeyModel } from 'models';
 
 //TODO: En proceso
 export default factory.createHandlers(async ({ get, json }) => {
-  if (!get("user").roleIncludes("READ", "WRITE", "EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
+  const user = get("user");
   // if (!$regex)
   //   return res.status(400).send({
   //     message: 'Client has not sent params'
@@ -18,6 +15,7 @@ export default factory.createHandlers(async ({ get, json }) => {
     .unwind("$line")
     .lookup(pipeline.LOOKUP.BRAND)
     .unwind("$brand")
+    .match(user.scopeMatch({ line: "line._id", brand: "brand._id" }))
     .project({
       code: {
         $concat: ["$line.code", "$brand.code"],
@@ -1,10 +1,11 @@
 import type { LeanKey } from "@interfaces/key.interface.ts";
 import { setup } from "config";
 import { Aggregate, isValidObjectId } from "deps";
-import { NotFoundError, UnauthorizedError } from "errors";
+import { NotFoundError } from "errors";
 import { factory } from "factory";
 import { ItemModel, KeyModel } from "models";
 
+import { etag } from "@utils/etag.ts";
 import { buildPagePipeline, formatPage } from "@utils/pagination.ts";
 
 type AnswerPage = {
@@ -19,7 +20,7 @@ type AnswerPage = {
  * @apiGroup Key
  * @apiPermission user
  *
- * @apiDescription Este método obtiene una lista de claves o una clave específica del sistema. Puede ser ejecutado por usuarios con permisos de lectura y escritura.
+ * @apiDescription Este método obtiene una lista de claves o una clave específica del sistema. Puede ser ejecutado por usuarios con permisos de lectura y escritura. La consulta por `id` responde con el encabezado `ETag` de la clave.
  *
  * @apiUse AuthHeader
  *
@@ -70,10 +71,9 @@ type AnswerPage = {
  *     -H "Content-Type: application/json" \
  *     -H "Authorization: Bearer <User_Token>"
  */
-export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("READ", "WRITE", "EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
+export default factory.createHandlers(async ({ req, get, header, json }) => {
+  const user = get("user");
+  const scope = user.scopeMatch({ line: "line._id", brand: "brand._id" });
 
   const _page = req.query("page");
   if (_page) {
@@ -101,7 +101,10 @@ export default factory.createHandlers(async ({ req, get, json }) => {
       });
     }
 
-    const [{ data, totalDocs }] = await KeyModel.getPopulate<AnswerPage>()
+    const [{ data, totalDocs }] = await KeyModel.getPopulate<AnswerPage>(
+      undefined,
+      scope,
+    )
       .append(...search.pipeline())
       .sort("code")
       .append(...buildPagePipeline(limit, page));
@@ -119,7 +122,7 @@ export default factory.createHandlers(async ({ req, get, json }) => {
 
   const _id = req.query("id");
   if (isValidObjectId(_id)) {
-    const [data] = await KeyModel.getPopulate(_id);
+    const [data] = await KeyModel.getPopulate(_id, scope);
     if (!data) throw new NotFoundError("No se encontraron líneas");
 
     const count = req.query("count");
@@ -127,10 +130,11 @@ export default factory.createHandlers(async ({ req, get, json }) => {
       data.countItems = await ItemModel.countDocuments({ key: data._id });
     }
 
+    header("ETag", etag(data.version));
     return json({ data });
   }
 
-  const data = await KeyModel.getPopulate();
+  const data = await KeyModel.getPopulate(undefined, scope);
   if (data.length < 1) throw new NotFoundError("No se encontraron líneas");
 
   const count = req.query("count");
@@ -0,0 +1,56 @@
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { KeyModel, RevisionModel } from "models";
+
+/**
+ * @api {get} /api/key/history Historial de Clave
+ * @apiVersion 1.0.0
+ * @apiName HistoryKey
+ * @apiGroup Key
+ * @apiPermission key.read
+ *
+ * @apiDescription Este método obtiene las revisiones de la clave, de la más reciente a la más antigua. Cada revisión indica quién hizo el cambio, cuándo, y el valor anterior y el nuevo de cada campo modificado. Con `PUT /api/key/revert` se puede volver a cualquiera de ellas.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id ID único de la clave.
+ *
+ * @apiSuccess (200) {Object[]} data Revisiones de la clave.
+ * @apiSuccess (200) {Number} data.rev Número de revisión.
+ * @apiSuccess (200) {String} data.user ID del usuario que hizo el cambio.
+ * @apiSuccess (200) {String} data.nickname Nombre del usuario que hizo el cambio.
+ * @apiSuccess (200) {Object[]} data.changes Campos modificados (`field`), con su valor anterior (`from`) y el nuevo (`to`).
+ * @apiSuccess (200) {Number} [data.reverted] Revisión a la que se volvió, si el cambio se hizo con `/revert`.
+ * @apiSuccess (200) {Date} data.created_at Fecha del cambio.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": [
+ *         {
+ *           "rev": 1,
+ *           "user": "5f4471326b54a216c46f1a6e",
+ *           "nickname": "admin",
+ *           "changes": [{ "field": "brand", "from": "5f47a7b85c2a4b001c77995a", "to": "5f47a7b85c2a4b001c77995b" }],
+ *           "created_at": "2024-03-01T18:22:10.000Z"
+ *         }
+ *       ]
+ *     }
+ *
+ * @apiError (400) BadRequest El ID proporcionado no es válido.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o la clave está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró el documento solicitado.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET http://localhost:5885/api/key/history?id=5f4471326b54a216c46f1a6e \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const _id = req.query("id");
+  if (!await KeyModel.exists({ _id })) {
+    throw new NotFoundError("No se encontró el documento solicitado");
+  }
+
+  const data = await RevisionModel.history("key", _id!);
+  return json({ data });
+});
@@ -4,3 +4,8 @@ export { default as updateKey } from "./updateKey.ts";
 export { default as deleteKey } from "./deleteKey.ts";
 export { default as resetKey } from "./resetKey.ts";
 export { default as getCodeKey } from "./getCodeKey.ts";
+export { default as restoreKey } from "./restoreKey.ts";
+export { default as historyKey } from "./historyKey.ts";
+export { default as revertKey } from "./revertKey.ts";
+export { default as nextCodeKey } from "./nextCodeKey.ts";
+export { default as gapsKey } from "./gapsKey.ts";
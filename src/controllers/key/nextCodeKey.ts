@@ -0,0 +1,53 @@
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { ItemModel, KeyModel } from "models";
+
+/**
+ * @api {get} /api/key/next-code Siguiente Código de Item
+ * @apiVersion 1.0.0
+ * @apiName NextCodeKey
+ * @apiGroup Key
+ * @apiPermission key.read
+ *
+ * @apiDescription Este método obtiene el código que se asignaría al siguiente item de la clave: el que sigue al mayor código numérico, o el primer hueco si ya se llegó a "9999". Los items en la papelera cuentan como usados. Es solo una sugerencia; para que el código se asigne al guardar, se envía el item a `POST /api/item` sin `code`.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id ID único de la clave.
+ *
+ * @apiParamExample {json} Request-Example:
+ *     GET /api/key/next-code?id=5f4471326b54a216c46f1a6e HTTP/1.1
+ *     Host: localhost:5885
+ *     Authorization: Bearer <User_Token>
+ *
+ * @apiSuccess (200) {Object} data Código sugerido.
+ * @apiSuccess (200) {String} data.key Código de la clave.
+ * @apiSuccess (200) {String} data.code Siguiente código libre.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "key": "GRAPVH",
+ *         "code": "0042"
+ *       }
+ *     }
+ *
+ * @apiError (400) BadRequest El ID no es válido o la clave no tiene códigos disponibles.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o la clave está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró la clave.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET http://localhost:5885/api/key/next-code?id=5f4471326b54a216c46f1a6e \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const _id = req.query("id")!;
+  const [key] = await KeyModel.getPopulate<{ code: string }>(_id);
+  if (!key) throw new NotFoundError("No se encontró la clave");
+
+  const { next } = await ItemModel.codeReport(_id);
+  if (!next) throw new BadRequestError("La clave no tiene códigos disponibles");
+
+  return json({ data: { key: key.code, code: next } });
+});
@@ -1,7 +1,9 @@
-import { NotFoundError, UnauthorizedError } from "errors";
+import type { TrashedFile } from "@interfaces/audit.interface.ts";
+import { NotFoundError } from "errors";
 import { factory } from "factory";
-import { ItemModel } from "models";
+import { AuditLogModel, ItemModel } from "models";
 
+import { nextVersion } from "@utils/etag.ts";
 import { moveFilesToTrash } from "@utils/trash.ts";
 
 /**
@@ -63,10 +65,6 @@ import { moveFilesToTrash } from "@utils/trash.ts";
  *     -d '{"status": 2}'
  */
 export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
   const location = get("location");
   const _id = req.query("id")!;
   const data_file = await ItemModel.getBackInfo("key._id", _id);
@@ -74,17 +72,27 @@ export default factory.createHandlers(async ({ req, get, json }) => {
   const length = !isNaN(status) && status >= 0 && status < 5 ? 3 : 0;
   const { modifiedCount } = await ItemModel.updateMany(
     { key: _id, images: { $gt: [] } },
-    {
+    nextVersion({
       $set: {
         images: Array.from({ length }, (_, n) => ({ idN: n + 1, status })),
       },
-    },
+    }),
   );
   if (!modifiedCount) throw new NotFoundError("Documento no encontrado");
 
+  const trashed: TrashedFile[] = [];
   for (const { code, files } of data_file?.images) {
-    moveFilesToTrash(location, code, files);
+    trashed.push(...moveFilesToTrash(location, code, files));
   }
 
+  await AuditLogModel.record(get("user"), {
+    action: "reset",
+    entity: "key",
+    entity_id: _id,
+    before: data_file.status,
+    after: { status: length ? status : null },
+    trashed,
+  });
+
   return json({ data: data_file.status });
 });
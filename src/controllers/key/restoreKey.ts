@@ -0,0 +1,87 @@
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import {
+  AuditLogModel,
+  BrandModel,
+  ItemModel,
+  KeyModel,
+  LineModel,
+} from "models";
+
+import { restoreFilesFromTrash } from "@utils/trash.ts";
+
+/**
+ * @api {put} /api/key/restore Restaurar Clave
+ * @apiVersion 1.0.0
+ * @apiName RestoreKey
+ * @apiGroup Key
+ * @apiPermission key.delete
+ *
+ * @apiDescription Este método saca de la papelera una clave eliminada con `DELETE /api/key`. Si se eliminó en cascada (`force=delete`), también se restauran sus items y sus imágenes regresan de la carpeta 'trash' a 'assets'. La línea y la marca de la clave deben estar activas; si se eliminaron junto con ella, se debe restaurar la línea o la marca.
+ *
+ * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ *
+ * @apiParam (Query string) {String} id ID único de la clave eliminada.
+ *
+ * @apiSuccess (200) {Object} data Información de la clave restaurada.
+ * @apiSuccess (200) {Object} restored Cantidad de items (`items`) y archivos (`files`) restaurados.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "_id": "5f4471326b54a216c46f1a6e",
+ *         "line": "5f4471326b54a216c46f1a6a",
+ *         "brand": "5f4471326b54a216c46f1a6b"
+ *       },
+ *       "restored": { "items": 12, "files": 20 }
+ *     }
+ *
+ * @apiError (400) BadRequest La línea o la marca de la clave está en la papelera.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o la clave está fuera de su alcance.
+ * @apiError (404) NotFound La clave no está en la papelera.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/key/restore?id=5f4471326b54a216c46f1a6e \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -H "location: /ruta/personalizada/al/directorio"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  const deleted = await KeyModel
+    .findOne({ _id, deleted_at: { $exists: true } })
+    .select("line brand deletion +trashed");
+  if (!deleted) {
+    throw new NotFoundError("No se encontró el documento en la papelera");
+  }
+  if (
+    !await LineModel.exists({ _id: deleted.line }) ||
+    !await BrandModel.exists({ _id: deleted.brand })
+  ) {
+    throw new BadRequestError(
+      "La línea o la marca de la clave está en la papelera; restáurala primero",
+    );
+  }
+  await user.assertScope("line", deleted.line);
+  await user.assertScope("brand", deleted.brand);
+
+  const { deletion, trashed } = deleted;
+  await KeyModel.restore({ _id });
+  const items = deletion ? await ItemModel.restore({ deletion }) : 0;
+
+  const location = get("location");
+  const files = location ? restoreFilesFromTrash(location, trashed ?? []) : [];
+
+  const data = { _id: deleted._id, line: deleted.line, brand: deleted.brand };
+  await AuditLogModel.record(user, {
+    action: "restore",
+    entity: "key",
+    entity_id: deleted.id,
+    after: data,
+    trashed: files,
+  });
+
+  return json({ data, restored: { items, files: files.length } });
+});
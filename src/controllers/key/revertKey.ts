@@ -0,0 +1,108 @@
+import type { Types } from "deps";
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import {
+  AuditLogModel,
+  BrandModel,
+  ItemModel,
+  KeyModel,
+  LineModel,
+  RenameJobModel,
+  RevisionModel,
+} from "models";
+
+import { nextVersion } from "@utils/etag.ts";
+
+/**
+ * @api {put} /api/key/revert Revertir Clave
+ * @apiVersion 1.0.0
+ * @apiName RevertKey
+ * @apiGroup Key
+ * @apiPermission key.update
+ *
+ * @apiDescription Este método devuelve la línea y la marca de una clave a las que tenía justo después de una revisión de `GET /api/key/history`. La reversión se registra como una revisión nueva, por lo que también puede deshacerse. Si cambia la línea, los atributos de los items de la clave deben ser válidos en ella. Si cambia el código de la clave, se crea el mismo trabajo de renombrado de carpetas que en `PUT /api/key`.
+ *
+ * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ *
+ * @apiParam (Query string) {String} id ID único de la clave.
+ * @apiParam (Query string) {Number} rev Revisión a la que se vuelve; `0` es el estado anterior al primer cambio registrado.
+ *
+ * @apiSuccess (200) {Object} data Información de la clave revertida.
+ * @apiSuccess (200) {String} data.code Código de la clave.
+ * @apiSuccess (200) {String} data.desc Descripción de la clave.
+ * @apiSuccess (200) {Object} [job] Trabajo de renombrado de la carpeta de la clave, si cambió su código.
+ * @apiSuccess (200) {String} job._id ID del trabajo.
+ * @apiSuccess (200) {String} job.status Estado inicial del trabajo (`pending`).
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": { "code": "LNEORD", "desc": "gasolina Ordinaria" }
+ *     }
+ *
+ * @apiError (400) BadRequest El ID o la revisión no son válidos, la línea o la marca de la revisión ya no existen, o los atributos de algún item no son válidos en esa línea.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o la clave está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró el documento o la revisión, o el documento ya está en ella.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT "http://localhost:5885/api/key/revert?id=5f4471326b54a216c46f1a6e&rev=1" \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -H "location: /ruta/personalizada/al/directorio"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  const rev = Number(req.query("rev"));
+  const before = await KeyModel.findById(_id).select("line brand").lean();
+  if (!before) {
+    throw new NotFoundError("No se encontró el documento solicitado");
+  }
+
+  const values = await RevisionModel.valuesAt("key", before._id, rev);
+  const { line = before.line, brand = before.brand } = values as {
+    line?: Types.ObjectId;
+    brand?: Types.ObjectId;
+  };
+  if (
+    !await LineModel.exists({ _id: line }) ||
+    !await BrandModel.exists({ _id: brand })
+  ) {
+    throw new BadRequestError(
+      "La línea o la marca de esa revisión ya no existe",
+    );
+  }
+  await user.assertScope("line", line);
+  await user.assertScope("brand", brand);
+  if (String(line) !== String(before.line)) {
+    await ItemModel.assertAttributes(before._id, line);
+  }
+
+  const [previous] = await KeyModel.getPopulate(_id);
+  const { modifiedCount } = await KeyModel.updateOne(
+    { _id },
+    nextVersion({ line, brand }),
+  );
+  if (!modifiedCount) throw new NotFoundError("Documento no modificado");
+
+  const [data] = await KeyModel.getPopulate(_id);
+  await RevisionModel.record(user, "key", before, { _id, line, brand }, rev);
+  await AuditLogModel.record(user, {
+    action: "revert",
+    entity: "key",
+    entity_id: before._id,
+    before: previous,
+    after: data,
+  });
+
+  if (!data?.code || data.code === previous?.code) return json({ data });
+  const job = await RenameJobModel.enqueue(user._id, {
+    entity: "key",
+    entity_id: before._id,
+    from: previous!.code!,
+    to: data.code,
+    location: get("location"),
+  });
+
+  return json({ data, job: { _id: job._id, status: job.status } });
+});
@@ -1,7 +1,7 @@
 import type { LeanKey } from "@interfaces/key.interface.ts";
-import { UnauthorizedError } from "errors";
+import { BadRequestError } from "errors";
 import { factory } from "factory";
-import { BrandModel, KeyModel, LineModel } from "models";
+import { AuditLogModel, BrandModel, KeyModel, LineModel } from "models";
 
 /**
  * @api {post} /api/key Registrar Clave
@@ -39,6 +39,7 @@ import { BrandModel, KeyModel, LineModel } from "models";
  *     }
  *
  * @apiError (400) BadRequest Parámetros no enviados o inválidos.
+ * @apiError (400) BadRequest La combinación de línea y marca pertenece a una clave de la papelera; hay que restaurarla.
  * @apiError (403) Forbidden Acceso denegado por falta de permisos.
  * @apiError (204) NoContent Guardado pero no devuelve contenido.
  * @apiError (409) Conflict Error interno, probablemente relacionado con los parámetros.
@@ -56,18 +57,31 @@ import { BrandModel, KeyModel, LineModel } from "models";
  *     -d '{"line": "LNE", "brand": "BRD"}'
  */
 export default factory.createHandlers(async ({ req, get, body, json }) => {
-  if (!get("user").roleIncludes("GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
+  const user = get("user");
+  const keyData = await req.json<LeanKey>();
+  const line = await LineModel.findByCode(keyData.line);
+  const brand = await BrandModel.findByCode(keyData.brand);
+  await user.assertScope("line", line);
+  await user.assertScope("brand", brand);
+
+  // El índice único de `{ line, brand }` incluye la papelera
+  if (line && brand && await KeyModel.inTrash({ line, brand })) {
+    throw new BadRequestError(
+      "La clave está en la papelera; restáurala en lugar de registrarla",
+    );
   }
 
-  const keyData = await req.json<LeanKey>();
-  const data = await new KeyModel({
-    line: await LineModel.findByCode(keyData.line),
-    brand: await BrandModel.findByCode(keyData.brand),
-  }).save();
+  const data = await new KeyModel({ line, brand }).save();
   if (!data) {
     return body(null, 204);
   }
 
+  await AuditLogModel.record(user, {
+    action: "create",
+    entity: "key",
+    entity_id: data.id,
+    after: data.toObject(),
+  });
+
   return json({ data });
 });
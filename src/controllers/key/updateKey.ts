@@ -1,7 +1,23 @@
 import type { LeanKey } from "@interfaces/key.interface.ts";
-import { NotFoundError, UnauthorizedError } from "errors";
+import { NotFoundError } from "errors";
 import { factory } from "factory";
-import { BrandModel, KeyModel, LineModel } from "models";
+import {
+  AuditLogModel,
+  BrandModel,
+  ItemModel,
+  KeyModel,
+  LineModel,
+  RenameJobModel,
+  RevisionModel,
+} from "models";
+
+import {
+  assertVersion,
+  etag,
+  ifMatch,
+  matchVersion,
+  nextVersion,
+} from "@utils/etag.ts";
 
 /**
  * @api {put} /api/key Actualizar Clave
@@ -10,9 +26,13 @@ import { BrandModel, KeyModel, LineModel } from "models";
  * @apiGroup Key
  * @apiPermission admin
  *
- * @apiDescription Este método actualiza la información de una clave existente en el sistema, retorna la clave anterior. Solo puede ser ejecutado por usuarios con roles 'EDIT', 'GRANT' o 'ADMIN'.
+ * @apiDescription Este método actualiza la información de una clave existente en el sistema, retorna la clave anterior. Solo puede ser ejecutado por usuarios con roles 'EDIT', 'GRANT' o 'ADMIN'. Si cambia la línea, los atributos de los items de la clave deben ser válidos en la línea nueva. Si cambia el código de la clave, se crea un trabajo que renombra su carpeta y sus imágenes, como en `PUT /api/line`.
+ *
+ * Admite `If-Match` para no sobrescribir los cambios de otro usuario; el `ETag` de la respuesta corresponde a la clave ya actualizada.
  *
  * @apiUse AuthHeader
+ * @apiUse IfMatchHeader
+ * @apiUse PathFileHeader
  *
  * @apiParam (Query string) {String} id ID único de la clave a actualizar.
  * @apiParam (Request body) {String} [line] Código de la línea asociada a la clave.
@@ -33,6 +53,9 @@ import { BrandModel, KeyModel, LineModel } from "models";
  * @apiSuccess (200) {String} data.brand Código de la marca.
  * @apiSuccess (200) {Date} data.createdAt Fecha de creación.
  * @apiSuccess (200) {Date} data.updatedAt Fecha de actualización.
+ * @apiSuccess (200) {Object} [job] Trabajo de renombrado de la carpeta de la clave, si cambió su código.
+ * @apiSuccess (200) {String} job._id ID del trabajo.
+ * @apiSuccess (200) {String} job.status Estado inicial del trabajo (`pending`).
  *
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
@@ -43,7 +66,7 @@ import { BrandModel, KeyModel, LineModel } from "models";
  *       }
  *     }
  *
- * @apiError (400) BadRequest Parámetros no enviados o inválidos.
+ * @apiError (400) BadRequest Parámetros no enviados o inválidos, o los atributos de algún item no son válidos en la línea nueva.
  * @apiError (403) Forbidden Acceso denegado por falta de permisos.
  * @apiError (404) NotFound No se encontró el documento solicitado.
  * @apiError (409) Conflict Error interno, probablemente relacionado con los parámetros.
@@ -58,26 +81,59 @@ import { BrandModel, KeyModel, LineModel } from "models";
  *     curl -X PUT http://localhost:3000/api/key?id=5f4471326b54a216c46f1a6e \
  *     -H "Content-Type: application/json" \
  *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -H "location: /ruta/personalizada/al/directorio" \
  *     -d '{"line": "LNE", "brand": "ORD"}'
  */
-export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
+export default factory.createHandlers(async ({ req, get, header, json }) => {
+  const user = get("user");
   const _id = req.query("id");
+  const expected = ifMatch(req.header("If-Match"));
   const [data] = await KeyModel.getPopulate(_id);
   if (!data) throw new NotFoundError("Documento no encontrado");
+  assertVersion(data, expected);
 
   const body = await req.json<LeanKey>();
+  const line = await LineModel.findByCode(body.line);
+  const brand = await BrandModel.findByCode(body.brand);
+  await user.assertScope("line", line);
+  await user.assertScope("brand", brand);
+
+  const original = await KeyModel.findById(_id).select("line brand").lean();
+  if (line && !line.equals(String(original!.line))) {
+    await ItemModel.assertAttributes(_id!, line);
+  }
   const { modifiedCount } = await KeyModel.updateOne(
-    { _id },
-    {
-      line: await LineModel.findByCode(body.line),
-      brand: await BrandModel.findByCode(body.brand),
-    },
+    { _id, ...matchVersion(expected) },
+    nextVersion({ line, brand }),
   );
-  if (!modifiedCount) throw new NotFoundError("Documento no modificado");
+  if (!modifiedCount) {
+    // Otra solicitud pudo modificarla entre la lectura y la escritura
+    const [current] = await KeyModel.getPopulate(_id);
+    if (current) assertVersion(current, expected);
+    throw new NotFoundError("Documento no modificado");
+  }
+
+  const [after] = await KeyModel.getPopulate(_id);
+  await RevisionModel.record(user, "key", original!, { _id, line, brand });
+  await AuditLogModel.record(user, {
+    action: "update",
+    entity: "key",
+    entity_id: data._id,
+    before: data,
+    after,
+  });
+
+  header("ETag", etag(after?.version));
+
+  // La carpeta y las imágenes de la llave llevan su código en el nombre
+  if (!after?.code || after.code === data.code) return json({ data });
+  const job = await RenameJobModel.enqueue(user._id, {
+    entity: "key",
+    entity_id: data._id,
+    from: data.code!,
+    to: after.code,
+    location: get("location"),
+  });
 
-  return json({ data });
+  return json({ data, job: { _id: job._id, status: job.status } });
 });
@@ -1,10 +1,11 @@
 import type { LeanLine } from "@interfaces/line.interface.ts";
 import { setup } from "config";
-import { NotFoundError, UnauthorizedError } from "errors";
+import { NotFoundError } from "errors";
 import { factory } from "factory";
 import { LineModel } from "models";
 import { isValidObjectId } from "mongoose";
 
+import { etag } from "@utils/etag.ts";
 import { buildPagePipeline, formatPage } from "@utils/pagination.ts";
 
 type Answer = {
@@ -19,7 +20,7 @@ type Answer = {
  * @apiGroup Line
  * @apiPermission user
  *
- * @apiDescription Este método obtiene una lista de líneas o una línea específica del sistema. Puede ser ejecutado por usuarios con permisos de lectura y escritura.
+ * @apiDescription Este método obtiene una lista de líneas o una línea específica del sistema. Puede ser ejecutado por usuarios con permisos de lectura y escritura. La consulta por `id` responde con el encabezado `ETag` de la línea.
  *
  * @apiUse AuthHeader
  *
@@ -35,6 +36,7 @@ type Answer = {
  * @apiSuccess (200) {Object[]} data Lista de líneas o la línea específica.
  * @apiSuccess (200) {String} data.code Código de la línea.
  * @apiSuccess (200) {String} data.desc Descripción de la línea.
+ * @apiSuccess (200) {Object[]} [data.attributes] Atributos de sus items (solo al consultar por `id`).
  *
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
@@ -62,16 +64,16 @@ type Answer = {
  *     -H "Content-Type: application/json" \
  *     -H "Authorization: Bearer <User_Token>"
  */
-export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("READ", "WRITE", "EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
-  }
+export default factory.createHandlers(async ({ req, get, header, json }) => {
+  const user = get("user");
+  const scope = user.scopeMatch({ line: "_id" });
 
   const _page = req.query("page");
   if (_page) {
     const page = Number(_page) || 1;
     const limit = setup.LIMIT.LINE;
     const [{ data, totalDocs }] = await LineModel.aggregate<Answer>()
+      .match(scope)
       .project({ code: 1, desc: 1 })
       .sort("code")
       .append(...buildPagePipeline(limit, page));
@@ -83,13 +85,15 @@ export default factory.createHandlers(async ({ req, get, json }) => {
 
   const _id = req.query("id");
   if (isValidObjectId(_id)) {
-    const data = await LineModel.findOne({ _id }).select("code desc").lean();
+    const data = await LineModel.findOne({ _id, ...scope })
+      .select("code desc attributes version").lean();
     if (!data) throw new NotFoundError("No se encontraron líneas");
 
+    header("ETag", etag(data.version));
     return json({ data });
   }
 
-  const data = await LineModel.find().select("code desc").lean();
+  const data = await LineModel.find(scope).select("code desc").lean();
   if (!data) throw new NotFoundError("No se encontraron líneas");
 
   return json({ data });
@@ -2,3 +2,6 @@ export { default as saveLine } from "./saveLine.ts";
 export { default as getLine } from "./getLine.ts";
 export { default as updateLine } from "./updateLine.ts";
 export { default as deleteLine } from "./deleteLine.ts";
+export { default as restoreLine } from "./restoreLine.ts";
+export { default as historyLine } from "./historyLine.ts";
+export { default as revertLine } from "./revertLine.ts";
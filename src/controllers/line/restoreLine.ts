@@ -0,0 +1,68 @@
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, ItemModel, KeyModel, LineModel } from "models";
+
+import { restoreFilesFromTrash } from "@utils/trash.ts";
+
+/**
+ * @api {put} /api/line/restore Restaurar Línea
+ * @apiVersion 1.0.0
+ * @apiName RestoreLine
+ * @apiGroup Line
+ * @apiPermission line.delete
+ *
+ * @apiDescription Este método saca de la papelera una línea eliminada con `DELETE /api/line`. Si se eliminó en cascada (`force=delete`), también se restauran las claves e items eliminados con ella y sus imágenes regresan de la carpeta 'trash' a 'assets'. Las imágenes cuya ruta original volvió a ocuparse se dejan en la papelera.
+ *
+ * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ *
+ * @apiParam (Query string) {String} id ID único de la línea eliminada.
+ *
+ * @apiSuccess (200) {Object} data Información de la línea restaurada.
+ * @apiSuccess (200) {String} data.code Código de la línea.
+ * @apiSuccess (200) {String} data.desc Descripción de la línea.
+ * @apiSuccess (200) {Object} restored Cantidad de claves (`keys`), items (`items`) y archivos (`files`) restaurados.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": { "code": "GRA", "desc": "gasolina" },
+ *       "restored": { "keys": 2, "items": 31, "files": 54 }
+ *     }
+ *
+ * @apiError (401) Unauthorized El usuario no tiene permisos o la línea está fuera de su alcance.
+ * @apiError (404) NotFound La línea no está en la papelera.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/line/restore?id=5f4471326b54a216c46f1a6e \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -H "location: /ruta/personalizada/al/directorio"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const _id = req.query("id");
+  const deleted = await LineModel
+    .findOne({ _id, deleted_at: { $exists: true } })
+    .select("code desc deletion +trashed");
+  if (!deleted) {
+    throw new NotFoundError("No se encontró el documento en la papelera");
+  }
+
+  const { deletion, trashed } = deleted;
+  await LineModel.restore({ _id });
+  const keys = deletion ? await KeyModel.restore({ deletion }) : 0;
+  const items = deletion ? await ItemModel.restore({ deletion }) : 0;
+
+  const location = get("location");
+  const files = location ? restoreFilesFromTrash(location, trashed ?? []) : [];
+
+  const data = { _id: deleted._id, code: deleted.code, desc: deleted.desc };
+  await AuditLogModel.record(get("user"), {
+    action: "restore",
+    entity: "line",
+    entity_id: deleted._id,
+    after: data,
+    trashed: files,
+  });
+
+  return json({ data, restored: { keys, items, files: files.length } });
+});
@@ -0,0 +1,96 @@
+import type { AttributeDefinition } from "@interfaces/line.interface.ts";
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import {
+  AuditLogModel,
+  ItemModel,
+  LineModel,
+  RenameJobModel,
+  RevisionModel,
+} from "models";
+
+import { nextVersion } from "@utils/etag.ts";
+
+/**
+ * @api {put} /api/line/revert Revertir Línea
+ * @apiVersion 1.0.0
+ * @apiName RevertLine
+ * @apiGroup Line
+ * @apiPermission line.update
+ *
+ * @apiDescription Este método devuelve el código, la descripción y los atributos de la línea a los valores que tenían justo después de una revisión de `GET /api/line/history`. La reversión se registra como una revisión nueva, por lo que también puede deshacerse.
+ *
+ * Igual que en `PUT /api/line`, si cambian los atributos se valida que los items de la línea los cumplan, y si cambia el código se crea un trabajo de renombrado de carpetas.
+ *
+ * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ *
+ * @apiParam (Query string) {String} id ID único de la línea.
+ * @apiParam (Query string) {Number} rev Revisión a la que se vuelve; `0` es el estado anterior al primer cambio registrado.
+ *
+ * @apiSuccess (200) {Object} data Información de la línea revertida.
+ * @apiSuccess (200) {String} data.code Código de la línea.
+ * @apiSuccess (200) {String} data.desc Descripción de la línea.
+ * @apiSuccess (200) {Object[]} data.attributes Atributos que pueden tener los items de la línea.
+ * @apiSuccess (200) {Object} [job] Trabajo de renombrado, si cambió el código.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": { "code": "LNE", "desc": "gasolina" }
+ *     }
+ *
+ * @apiError (400) BadRequest El ID o la revisión no son válidos.
+ * @apiError (400) BadRequest Los atributos de algunos items no son válidos con las definiciones de la revisión.
+ * @apiError (401) Unauthorized El usuario no tiene permisos o la línea está fuera de su alcance.
+ * @apiError (404) NotFound No se encontró el documento o la revisión, o el documento ya está en ella.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT "http://localhost:5885/api/line/revert?id=5f4471326b54a216c46f1a6e&rev=2" \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -H "location: /ruta/personalizada/al/directorio"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  const rev = Number(req.query("rev"));
+  const before = await LineModel.findById(_id).select("code desc attributes")
+    .lean();
+  if (!before) {
+    throw new NotFoundError("No se encontró el documento solicitado");
+  }
+
+  const values = await RevisionModel.valuesAt("line", before._id, rev);
+  if ("attributes" in values) {
+    await ItemModel.assertDefinitions(
+      before._id,
+      (values.attributes ?? []) as AttributeDefinition[],
+    );
+  }
+  const data = await LineModel.findOneAndUpdate(
+    { _id },
+    nextVersion(values),
+    { new: true, fields: { code: 1, desc: 1, attributes: 1, version: 1 } },
+  ).lean();
+  if (!data) throw new NotFoundError("No se modificó el documento solicitado");
+
+  await RevisionModel.record(user, "line", before, data, rev);
+  await AuditLogModel.record(user, {
+    action: "revert",
+    entity: "line",
+    entity_id: data._id,
+    before,
+    after: data,
+  });
+
+  if (data.code === before.code) return json({ data });
+  const job = await RenameJobModel.enqueue(user._id, {
+    entity: "line",
+    entity_id: data._id,
+    from: before.code,
+    to: data.code,
+    location: get("location"),
+  });
+
+  return json({ data, job: { _id: job._id, status: job.status } });
+});
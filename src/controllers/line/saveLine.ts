@@ -1,7 +1,9 @@
 import type { LeanLine } from "@interfaces/line.interface.ts";
-import { UnauthorizedError } from "errors";
+import { BadRequestError, UnauthorizedError } from "errors";
 import { factory } from "factory";
-import { LineModel } from "models";
+import { AuditLogModel, LineModel } from "models";
+
+import { parseDefinitions } from "@utils/attributes.ts";
 
 /**
  * @api {post} /api/line Registrar Línea
@@ -16,6 +18,11 @@ import { LineModel } from "models";
  *
  * @apiParam (Request body) {String} code Código único de la línea.
  * @apiParam (Request body) {String} desc Descripción de la línea.
+ * @apiParam (Request body) {Object[]} [attributes] Atributos que pueden tener los items de la línea.
+ * @apiParam (Request body) {String} attributes.name Nombre del atributo (minúsculas, dígitos y `_`); se busca con `attr:nombre=valor`.
+ * @apiParam (Request body) {String="string","enum","number","boolean"} attributes.type Tipo de valor.
+ * @apiParam (Request body) {String[]} [attributes.options] Valores permitidos para el tipo `enum`.
+ * @apiParam (Request body) {Boolean} [attributes.required] Si el atributo es obligatorio en los items.
  *
  * @apiParamExample {json} Request-Example:
  *     POST /api/line HTTP/1.1
@@ -43,6 +50,7 @@ import { LineModel } from "models";
  *     }
  *
  * @apiError (400) BadRequest No se enviaron los parámetros necesarios o hay un error con los parámetros.
+ * @apiError (400) BadRequest El código pertenece a una línea de la papelera; hay que restaurarla.
  * @apiError (403) Forbidden Acceso denegado por falta de permisos.
  * @apiError (204) NoContent Se guardó la marca pero no se está devolviendo contenido.
  * @apiError (409) Conflict Error interno, probablemente relacionado con los parámetros.
@@ -60,15 +68,39 @@ import { LineModel } from "models";
  *     -d '{"code": "LNE", "desc": "Línea de ejemplo"}'
  */
 export default factory.createHandlers(async ({ req, get, body, json }) => {
-  if (!get("user").roleIncludes("GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
+  const user = get("user");
+  // Un registro nuevo nunca forma parte de un alcance ya definido
+  if (user.scope?.lines?.length) {
+    throw new UnauthorizedError(
+      "Acceso denegado: no puedes registrar líneas fuera de tu alcance",
+    );
   }
 
   const lineData = await req.json<LeanLine>();
-  const data = await new LineModel(lineData).save();
+  const line = new LineModel({
+    ...lineData,
+    ...(lineData.attributes && {
+      attributes: parseDefinitions(lineData.attributes),
+    }),
+  });
+  // El índice único incluye la papelera; se compara el código ya normalizado
+  if (line.code && await LineModel.inTrash({ code: line.code })) {
+    throw new BadRequestError(
+      "El código pertenece a una línea de la papelera; restáurala en lugar de registrarla",
+    );
+  }
+
+  const data = await line.save();
   if (!data) {
     return body(null, 204);
   }
 
+  await AuditLogModel.record(user, {
+    action: "create",
+    entity: "line",
+    entity_id: data._id,
+    after: data.toObject(),
+  });
+
   return json({ data });
 });
@@ -1,7 +1,22 @@
 import type { LeanLine } from "@interfaces/line.interface.ts";
-import { NotFoundError, UnauthorizedError } from "errors";
+import { NotFoundError } from "errors";
 import { factory } from "factory";
-import { LineModel } from "models";
+import {
+  AuditLogModel,
+  ItemModel,
+  LineModel,
+  RenameJobModel,
+  RevisionModel,
+} from "models";
+
+import { parseDefinitions } from "@utils/attributes.ts";
+import {
+  assertVersion,
+  etag,
+  ifMatch,
+  matchVersion,
+  nextVersion,
+} from "@utils/etag.ts";
 
 /**
  * @api {put} /api/brand Actualizar Marca
@@ -12,11 +27,22 @@ import { LineModel } from "models";
  *
  * @apiDescription Este método actualiza una marca existente en el sistema. Solo puede ser ejecutado por usuarios con roles 'EDIT', 'GRANT' o 'ADMIN'.
  *
+ * Si cambia el código, se crea un trabajo en segundo plano que renombra las carpetas de las claves de la línea dentro de 'assets' y sus imágenes, y elimina las variantes obsoletas de `.cache`. Su avance y sus conflictos se consultan con `GET /api/rename`.
+ *
+ * Con `If-Match` solo se aplica si la línea sigue en la versión consultada; la respuesta trae el `ETag` de la nueva versión.
+ *
  * @apiUse AuthHeader
+ * @apiUse PathFileHeader
+ * @apiUse IfMatchHeader
  *
  * @apiParam (Query string) {String} id Identificador único de la marca a actualizar.
  * @apiParam (Request body) {String} code Código único de la marca.
  * @apiParam (Request body) {String} desc Descripción de la marca.
+ * @apiParam (Request body) {Object[]} [attributes] Atributos que pueden tener los items de la línea; reemplaza las definiciones anteriores. Se rechaza si algún item de la línea, incluidos los de la papelera, deja de cumplirlas.
+ * @apiParam (Request body) {String} attributes.name Nombre del atributo (minúsculas, dígitos y `_`); se busca con `attr:nombre=valor`.
+ * @apiParam (Request body) {String="string","enum","number","boolean"} attributes.type Tipo de valor.
+ * @apiParam (Request body) {String[]} [attributes.options] Valores permitidos para el tipo `enum`.
+ * @apiParam (Request body) {Boolean} [attributes.required] Si el atributo es obligatorio en los items.
  *
  * @apiParamExample {json} Request-Example:
  *     PUT /api/brand?id=5f47a7b85c2a4b001c77995a HTTP/1.1
@@ -31,6 +57,9 @@ import { LineModel } from "models";
  * @apiSuccess (200) {Object} data Información de la marca actualizada.
  * @apiSuccess (200) {String} data.code Código de la marca.
  * @apiSuccess (200) {String} data.desc Descripción de la marca.
+ * @apiSuccess (200) {Object} [job] Trabajo de renombrado, si cambió el código.
+ * @apiSuccess (200) {String} job._id ID del trabajo.
+ * @apiSuccess (200) {String} job.status Estado inicial del trabajo (`pending`).
  *
  * @apiSuccessExample {json} Success-Response:
  *     HTTP/1.1 200 OK
@@ -42,6 +71,7 @@ import { LineModel } from "models";
  *     }
  *
  * @apiError (400) BadRequest No se enviaron los parámetros necesarios o el ID no es válido.
+ * @apiError (400) BadRequest Los atributos de algunos items no son válidos con las nuevas definiciones.
  * @apiError (403) Forbidden Acceso denegado por falta de permisos.
  * @apiError (404) NotFound No se encontró el documento a actualizar.
  * @apiError (409) Conflict Error interno, probablemente relacionado con los parámetros.
@@ -58,18 +88,54 @@ import { LineModel } from "models";
  *     -H "Authorization: Bearer <Admin_Token>" \
  *     -d '{"code": "BRD", "desc": "Marca actualizada"}'
  */
-export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("EDIT", "GRANT", "ADMIN")) {
-    throw new UnauthorizedError();
+export default factory.createHandlers(async ({ req, get, header, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  const expected = ifMatch(req.header("If-Match"));
+  const body = await req.json<LeanLine>();
+  const before = await LineModel.findById(_id)
+    .select("code desc attributes version").lean();
+  if (!before) {
+    throw new NotFoundError("No se modificó el documento solicitado");
   }
+  assertVersion(before, expected);
+
+  const attributes = body.attributes && parseDefinitions(body.attributes);
+  if (attributes) await ItemModel.assertDefinitions(before._id, attributes);
 
-  const body = await req.json<LeanLine>();
   const data = await LineModel.findOneAndUpdate(
-    { _id: req.query("id") },
-    body,
-    { new: true, fields: { code: 1, desc: 1 } },
+    { _id, ...matchVersion(expected) },
+    nextVersion({ ...body, ...(attributes && { attributes }) }),
+    { new: true, fields: { code: 1, desc: 1, attributes: 1, version: 1 } },
   ).lean();
-  if (!data) throw new NotFoundError("No se modificó el documento solicitado");
+  if (!data) {
+    // Otra solicitud pudo modificarla entre la lectura y la escritura
+    const current = await LineModel.findById(_id)
+      .select("code desc attributes version").lean();
+    if (current) assertVersion(current, expected);
+    throw new NotFoundError("No se modificó el documento solicitado");
+  }
+
+  await RevisionModel.record(user, "line", before, data);
+  await AuditLogModel.record(user, {
+    action: "update",
+    entity: "line",
+    entity_id: data._id,
+    before,
+    after: data,
+  });
+
+  header("ETag", etag(data.version));
+
+  // Las carpetas y las imágenes de sus llaves llevan el código en el nombre
+  if (data.code === before.code) return json({ data });
+  const job = await RenameJobModel.enqueue(user._id, {
+    entity: "line",
+    entity_id: data._id,
+    from: before.code,
+    to: data.code,
+    location: get("location"),
+  });
 
-  return json({ data });
+  return json({ data, job: { _id: job._id, status: job.status } });
 });
@@ -0,0 +1,109 @@
+import type { LeanRenameJob } from "@interfaces/rename.interface.ts";
+import { setup } from "config";
+import { isValidObjectId, Types } from "deps";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "errors";
+import { factory } from "factory";
+import { RenameJobModel } from "models";
+
+import { buildPagePipeline, formatPage } from "@utils/pagination.ts";
+
+type Answer = {
+  data: LeanRenameJob[];
+  totalDocs: number;
+};
+
+/**
+ * @api {get} /api/rename Consultar Trabajos de Renombrado
+ * @apiVersion 1.0.0
+ * @apiName GetRename
+ * @apiGroup Rename
+ * @apiPermission line.update, brand.update
+ *
+ * @apiDescription Este endpoint devuelve el avance de los trabajos que renombran las carpetas y las imágenes de las claves tras cambiar el código de una línea o una marca, o la línea o la marca de una clave. Con `id` devuelve un solo trabajo; sin él, la lista paginada del más reciente al más antiguo. Solo se muestran los trabajos de las entidades que el usuario puede actualizar (`line.update`, `brand.update` o `key.update`).
+ *
+ * Cada trabajo indica su estado (`pending`, `running`, `done` o `failed`), las carpetas por renombrar (`folders`), cuántas se procesaron (`processed`), las imágenes renombradas (`renamed`), los archivos de `.cache` eliminados (`cleared`) y los archivos que no se pudieron renombrar (`conflicts`) porque ya existía uno con el nombre nuevo o su nombre no corresponde a la clave. Los trabajos sin terminar al detener el servidor se reanudan al iniciarlo.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} [id] ID del trabajo.
+ * @apiParam (Query string) {String="line","brand","key"} [entity] Entidad cuyo código cambió.
+ * @apiParam (Query string) {String} [entity_id] ID de la línea, la marca o la clave.
+ * @apiParam (Query string) {Number} [page=1] Número de página.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa (con id):
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "_id": "665f1c2e9b1e8a0012345678",
+ *         "entity": "line",
+ *         "from": "GRA",
+ *         "to": "GRB",
+ *         "status": "done",
+ *         "folders": [{ "from": "GRAAC", "to": "GRBAC" }],
+ *         "processed": 1,
+ *         "renamed": 42,
+ *         "cleared": 120,
+ *         "conflicts": [
+ *           {
+ *             "from": "assets/GRAAC/GRAAC0001 1.jpg",
+ *             "to": "assets/GRBAC/GRBAC0001 1.jpg",
+ *             "reason": "Ya existe un archivo con el nombre nuevo"
+ *           }
+ *         ]
+ *       }
+ *     }
+ *
+ * @apiError (400) BadRequest Algún ID no es válido.
+ * @apiError (401) Unauthorized El usuario no puede actualizar líneas, marcas ni claves, o la entidad del trabajo.
+ * @apiError (404) NotFound No se encontró el trabajo o no hay trabajos con los filtros indicados.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET "http://localhost:5885/api/rename?id=665f1c2e9b1e8a0012345678" \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const { id, entity, entity_id } = req.query();
+  for (const value of [id, entity_id]) {
+    if (value && !isValidObjectId(value)) {
+      throw new BadRequestError("El ID proporcionado no es válido");
+    }
+  }
+
+  const entities: string[] = [];
+  for (const name of ["line", "brand", "key"]) {
+    if (await user.can(`${name}.update`)) entities.push(name);
+  }
+  if (!entities.length) {
+    throw new UnauthorizedError(undefined, {
+      required: ["line.update", "brand.update", "key.update"],
+    });
+  }
+
+  if (id) {
+    const data = await RenameJobModel.findById(id).lean();
+    if (!data) throw new NotFoundError("No se encontró el trabajo solicitado");
+    if (!entities.includes(data.entity)) {
+      throw new UnauthorizedError(undefined, {
+        required: [`${data.entity}.update`],
+      });
+    }
+    return json({ data });
+  }
+
+  const match: Record<string, unknown> = {
+    entity: {
+      $in: entity ? entities.filter((name) => name === entity) : entities,
+    },
+  };
+  if (entity_id) match.entity_id = new Types.ObjectId(entity_id);
+
+  const page = Number(req.query("page")) || 1;
+  const limit = setup.LIMIT.RENAME;
+  const [{ data, totalDocs }] = await RenameJobModel.aggregate<Answer>()
+    .match(match)
+    .append(...buildPagePipeline(limit, page, { $sort: { created_at: -1 } }));
+  if (!data.length) throw new NotFoundError("No se encontraron trabajos");
+
+  return json(formatPage(data, limit, totalDocs, page));
+});
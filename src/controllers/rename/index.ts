@@ -0,0 +1 @@
+export { default as getRename } from "./getRename.ts";
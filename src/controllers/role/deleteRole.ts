@@ -0,0 +1,48 @@
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { RoleModel, UserModel } from "models";
+
+import { cacheManager } from "@utils/cache_manager.ts";
+
+/**
+ * @api {delete} /api/role Eliminar Rol
+ * @apiVersion 1.0.0
+ * @apiName DeleteRole
+ * @apiGroup Role
+ * @apiPermission role.manage
+ *
+ * @apiDescription Este endpoint elimina un rol personalizado y lo retira de los usuarios que lo tenían asignado. Esos usuarios conservan los permisos de sus roles predefinidos y de sus demás roles personalizados.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id Identificador único del rol.
+ *
+ * @apiSuccess {Object} data Rol eliminado.
+ * @apiSuccess {String} data.identifier Identificador único del rol.
+ * @apiSuccess {String} data.name Nombre del rol.
+ * @apiSuccess {Number} data.users Cantidad de usuarios a los que se retiró el rol.
+ *
+ * @apiError (400) BadRequest El ID no es válido.
+ * @apiError (401) Unauthorized El usuario no tiene el permiso `role.manage`.
+ * @apiError (404) NotFound No se encontró el rol solicitado.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X DELETE http://localhost:5885/api/role?id=65a1f0c2e4b0a1b2c3d4e5f6 \
+ *     -H "Authorization: Bearer <Admin_Token>"
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const data = await RoleModel.findOneAndDelete({ _id: req.query("id") });
+  if (!data) throw new NotFoundError("No se encontró el rol solicitado");
+
+  const holders = await UserModel.find({ custom_roles: data._id })
+    .select("_id")
+    .lean();
+  await UserModel.updateMany(
+    { custom_roles: data._id },
+    { $pull: { custom_roles: data._id } },
+  );
+  holders.forEach(({ _id }) => cacheManager.deleteUser(_id.toString()));
+
+  const { _id: identifier, name } = data;
+  return json({ data: { identifier, name, users: holders.length } });
+});
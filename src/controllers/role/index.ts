@@ -0,0 +1,5 @@
+export { default as saveRole } from "./saveRole.ts";
+export { default as listRole } from "./listRole.ts";
+export { default as updateRole } from "./updateRole.ts";
+export { default as deleteRole } from "./deleteRole.ts";
+export { default as listPermission } from "./listPermission.ts";
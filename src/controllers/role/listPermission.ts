@@ -0,0 +1,41 @@
+import { setup } from "config";
+import { factory } from "factory";
+
+/**
+ * @api {get} /api/role/permissions Listar Permisos
+ * @apiVersion 1.0.0
+ * @apiName ListPermission
+ * @apiGroup Role
+ * @apiPermission role.manage
+ *
+ * @apiDescription Este endpoint devuelve el catálogo de permisos con que se arman los roles personalizados y los permisos que conceden los roles predefinidos.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiSuccess {Object} data Catálogo de permisos.
+ * @apiSuccess {String[]} data.permissions Permisos disponibles.
+ * @apiSuccess {Object} data.builtin Permisos de cada rol predefinido (`READ`, `WRITE`, `EDIT`, `GRANT`, `ADMIN`).
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "permissions": ["item.read", "item.create", "..."],
+ *         "builtin": { "READ": ["item.read", "key.read", "line.read", "brand.read"], "ADMIN": ["*"] }
+ *       }
+ *     }
+ *
+ * @apiError (401) Unauthorized El usuario no tiene el permiso `role.manage`.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET http://localhost:5885/api/role/permissions \
+ *     -H "Authorization: Bearer <Admin_Token>"
+ */
+export default factory.createHandlers(({ json }) => {
+  return json({
+    data: {
+      permissions: setup.PERMISSIONS,
+      builtin: setup.ROLE_PERMISSIONS,
+    },
+  });
+});
@@ -0,0 +1,44 @@
+import { factory } from "factory";
+import { RoleModel, UserModel } from "models";
+
+/**
+ * @api {get} /api/role Listar Roles
+ * @apiVersion 1.0.0
+ * @apiName ListRole
+ * @apiGroup Role
+ * @apiPermission role.manage
+ *
+ * @apiDescription Este endpoint lista los roles personalizados junto con la cantidad de usuarios que tienen asignado cada uno.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiSuccess {Object[]} data Arreglo de roles.
+ * @apiSuccess {String} data.identifier Identificador único del rol.
+ * @apiSuccess {String} data.name Nombre del rol.
+ * @apiSuccess {String} [data.desc] Descripción del rol.
+ * @apiSuccess {String[]} data.permissions Permisos del rol.
+ * @apiSuccess {Number} data.users Cantidad de usuarios con el rol.
+ *
+ * @apiError (401) Unauthorized El usuario no tiene el permiso `role.manage`.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET http://localhost:5885/api/role \
+ *     -H "Authorization: Bearer <Admin_Token>"
+ */
+export default factory.createHandlers(async ({ json }) => {
+  const data = await RoleModel.find().sort({ name: 1 }).lean();
+  const counts = await UserModel.aggregate<{ _id: string; users: number }>()
+    .unwind("$custom_roles")
+    .group({ _id: "$custom_roles", users: { $sum: 1 } });
+  const users = new Map(counts.map(({ _id, users }) => [String(_id), users]));
+
+  return json({
+    data: data.map(({ _id: identifier, name, desc, permissions }) => ({
+      identifier,
+      name,
+      desc,
+      permissions,
+      users: users.get(identifier.toString()) ?? 0,
+    })),
+  });
+});
@@ -0,0 +1,63 @@
+import type { LeanRole } from "@interfaces/role.interface.ts";
+import { BadRequestError } from "errors";
+import { factory } from "factory";
+import { RoleModel } from "models";
+
+/**
+ * @api {post} /api/role Crear Rol
+ * @apiVersion 1.0.0
+ * @apiName SaveRole
+ * @apiGroup Role
+ * @apiPermission role.manage
+ *
+ * @apiDescription Este endpoint crea un rol personalizado como un conjunto de permisos del catálogo (`/api/role/permissions`). Los permisos admiten comodines: `"item.*"` concede todos los permisos de ítems y `"*"` todos los del sistema. El rol se asigna a los usuarios con `custom_roles` en `/api/user`.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Request body) {String} name Nombre único del rol; se guarda en minúsculas.
+ * @apiParam (Request body) {String} [desc] Descripción del rol.
+ * @apiParam (Request body) {String[]} permissions Permisos que concede el rol.
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     POST /api/role HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <Admin_Token>
+ *     {
+ *       "name": "fotografo",
+ *       "desc": "Sube fotos sin editar el catálogo",
+ *       "permissions": ["item.read", "item.image.upload"]
+ *     }
+ *
+ * @apiSuccess {Object} data Rol creado.
+ * @apiSuccess {String} data.identifier Identificador único del rol.
+ * @apiSuccess {String} data.name Nombre del rol.
+ * @apiSuccess {String} [data.desc] Descripción del rol.
+ * @apiSuccess {String[]} data.permissions Permisos del rol.
+ *
+ * @apiError (400) BadRequest Los parámetros obligatorios no fueron enviados, algún permiso no existe o el nombre ya está en uso.
+ * @apiError (401) Unauthorized El usuario no tiene el permiso `role.manage`.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/role \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -d '{ "name": "fotografo", "permissions": ["item.read", "item.image.upload"] }'
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const { name, desc, permissions } = await req.json<LeanRole>();
+  if (await RoleModel.exists({ name: String(name).trim().toLowerCase() })) {
+    throw new BadRequestError("El nombre del rol ya está en uso");
+  }
+
+  const data = await RoleModel.create({ name, desc, permissions });
+
+  return json({
+    data: {
+      identifier: data._id,
+      name: data.name,
+      desc: data.desc,
+      permissions: data.permissions,
+    },
+  });
+});
@@ -0,0 +1,55 @@
+import type { LeanRole } from "@interfaces/role.interface.ts";
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { RoleModel } from "models";
+
+/**
+ * @api {put} /api/role Actualizar Rol
+ * @apiVersion 1.0.0
+ * @apiName UpdateRole
+ * @apiGroup Role
+ * @apiPermission role.manage
+ *
+ * @apiDescription Este endpoint cambia la descripción o los permisos de un rol personalizado. Los permisos nuevos aplican de inmediato a todos los usuarios con el rol, sin necesidad de volver a iniciar sesión.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id Identificador único del rol.
+ * @apiParam (Request body) {String} [desc] Nueva descripción.
+ * @apiParam (Request body) {String[]} [permissions] Nuevo arreglo de permisos; reemplaza al anterior.
+ *
+ * @apiSuccess {Object} data Rol actualizado.
+ * @apiSuccess {String} data.identifier Identificador único del rol.
+ * @apiSuccess {String} data.name Nombre del rol.
+ * @apiSuccess {String} [data.desc] Descripción del rol.
+ * @apiSuccess {String[]} data.permissions Permisos del rol.
+ *
+ * @apiError (400) BadRequest El ID no es válido, no se envió ningún cambio o algún permiso no existe.
+ * @apiError (401) Unauthorized El usuario no tiene el permiso `role.manage`.
+ * @apiError (404) NotFound No se encontró el rol solicitado.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/role?id=65a1f0c2e4b0a1b2c3d4e5f6 \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -d '{ "permissions": ["item.read", "item.image.*"] }'
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const body = await req.json<Partial<LeanRole>>();
+  const changes: Partial<Pick<LeanRole, "desc" | "permissions">> = {};
+  if (typeof body.desc === "string") changes.desc = body.desc;
+  if (body.permissions !== undefined) changes.permissions = body.permissions;
+  if (!Object.keys(changes).length) {
+    throw new BadRequestError("No se enviaron los parámetros obligatorios");
+  }
+
+  const data = await RoleModel.findOneAndUpdate(
+    { _id: req.query("id") },
+    changes,
+    { new: true },
+  );
+  if (!data) throw new NotFoundError("No se encontró el rol solicitado");
+
+  const { _id: identifier, name, desc, permissions } = data;
+  return json({ data: { identifier, name, desc, permissions } });
+});
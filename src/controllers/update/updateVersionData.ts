@@ -2,15 +2,13 @@ import type {
   PlatformVersions,
   Version,
 } from "@interfaces/update.interface.ts";
-import { BadRequestError, UnauthorizedError } from "errors";
+import { BadRequestError } from "errors";
 import { factory } from "factory";
 import { pattern } from "regex";
 
 import { isNewerVersion } from "@utils/version.ts";
 
 export default factory.createHandlers(async ({ req, get, json }) => {
-  if (!get("user").roleIncludes("ADMIN")) throw new UnauthorizedError();
-
   const body = await req.json<Version>();
   const versionFile = get("version-file");
   const fileContent = await Deno.readTextFile(versionFile);
@@ -0,0 +1,73 @@
+import { setup } from "config";
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { UserModel } from "models";
+
+import { cacheManager } from "@utils/cache_manager.ts";
+
+/**
+ * @api {put} /api/user/me/nickname Cambiar Nombre de Usuario Propio
+ * @apiVersion 1.0.0
+ * @apiName ChangeNicknameUser
+ * @apiGroup User
+ * @apiPermission user
+ *
+ * @apiDescription Este endpoint permite al usuario autenticado cambiar su propio nombre de usuario. El nombre se guarda en minúsculas y debe ser único. Se devuelve un token de acceso nuevo con el nombre actualizado.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Request body) {String} nickname Nuevo nombre de usuario.
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     PUT /api/user/me/nickname HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <User_Token>
+ *     {
+ *       "nickname": "nuevo_nombre"
+ *     }
+ *
+ * @apiSuccess {Object} data Usuario actualizado.
+ * @apiSuccess {String} data.identifier Identificador único del usuario.
+ * @apiSuccess {String} data.nickname Nombre de usuario.
+ * @apiSuccess {String} data.token Nuevo token de acceso para la sesión actual.
+ *
+ * @apiError (400) BadRequest La solicitud se hizo con una llave de API, el nombre está vacío, es igual al actual o ya está en uso.
+ * @apiError (401) Unauthorized El token es inválido o la sesión fue cerrada.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/user/me/nickname \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -d '{ "nickname": "nuevo_nombre" }'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  if (get("api_key")) {
+    throw new BadRequestError("Las llaves de API no tienen nombre de usuario");
+  }
+
+  const user = get("user");
+  const body = await req.json<{ nickname: string }>();
+  const nickname = String(body.nickname).trim().toLowerCase();
+  if (!nickname) {
+    throw new BadRequestError("No se enviaron los parámetros obligatorios");
+  }
+  if (nickname === user.nickname) {
+    throw new BadRequestError("El nombre de usuario es igual al actual");
+  }
+  if (await UserModel.exists({ nickname })) {
+    throw new BadRequestError("El nombre de usuario ya está en uso");
+  }
+
+  const data = await UserModel.findOneAndUpdate(
+    { _id: user._id },
+    { nickname },
+    { new: true, fields: { password: 0, password_salt: 0 } },
+  );
+  if (!data) throw new NotFoundError("No se encontró el usuario solicitado");
+
+  cacheManager.setUser(data._id.toString(), data, setup.TOKEN.ACCESS);
+  const token = await data.createToken(get("session"));
+
+  return json({ data: { identifier: data._id, nickname, token } });
+});
@@ -0,0 +1,97 @@
+import { setup } from "config";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "errors";
+import { factory } from "factory";
+import { SessionModel, UserModel } from "models";
+
+import { cacheManager } from "@utils/cache_manager.ts";
+import { loginThrottle } from "@utils/login_throttle.ts";
+import { assertPasswordPolicy } from "@utils/password_policy.ts";
+
+/**
+ * @api {put} /api/user/me/password Cambiar Contraseña Propia
+ * @apiVersion 1.0.0
+ * @apiName ChangePasswordUser
+ * @apiGroup User
+ * @apiPermission user
+ *
+ * @apiDescription Este endpoint permite al usuario autenticado cambiar su propia contraseña. Se requiere la contraseña actual y la nueva debe cumplir la política de contraseñas. Las demás sesiones del usuario se cierran y sus tokens de acceso dejan de aceptarse; la sesión actual continúa con el token que se devuelve. Los intentos con una contraseña actual incorrecta cuentan para el bloqueo del inicio de sesión.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Request body) {String} current Contraseña actual.
+ * @apiParam (Request body) {String} password Nueva contraseña.
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     PUT /api/user/me/password HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <User_Token>
+ *     {
+ *       "current": "contraseñaAnterior",
+ *       "password": "Nueva-Contraseña-2025"
+ *     }
+ *
+ * @apiSuccess {Object} data Resultado de la operación.
+ * @apiSuccess {String} data.token Nuevo token de acceso para la sesión actual.
+ * @apiSuccess {Number} data.sessions Cantidad de sesiones cerradas.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": { "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...", "sessions": 2 }
+ *     }
+ *
+ * @apiError (400) BadRequest La solicitud se hizo con una llave de API, la contraseña nueva es igual a la actual o no cumple la política de contraseñas (`details.violations`).
+ * @apiError (401) Unauthorized La contraseña actual es incorrecta.
+ * @apiError (429) TooManyRequests Demasiados intentos fallidos; `details.retry_after` indica los segundos de espera.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/user/me/password \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -d '{ "current": "contraseñaAnterior", "password": "Nueva-Contraseña-2025" }'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  if (get("api_key")) {
+    throw new BadRequestError("Las llaves de API no tienen contraseña");
+  }
+
+  const { current, password } = await req.json<
+    { current: string; password: string }
+  >();
+  const user = await UserModel
+    .findById(get("user")._id)
+    .select("+password +password_salt");
+  if (!user) throw new NotFoundError("No se encontró el usuario solicitado");
+
+  const keys = loginThrottle.keys(user.nickname);
+  await loginThrottle.assert(keys);
+  if (!await user.comparePassword(current)) {
+    await loginThrottle.fail(keys);
+    throw new UnauthorizedError("La contraseña actual es incorrecta");
+  }
+  if (current === password) {
+    throw new BadRequestError(
+      "La contraseña nueva debe ser distinta de la actual",
+    );
+  }
+  assertPasswordPolicy(password, user.nickname);
+
+  // El hook `preSave` se encarga de hashear la nueva contraseña
+  user.password = password;
+  await user.save();
+
+  const sid = get("session");
+  const revoked = await SessionModel.revoke({ user: user._id, except: sid });
+  await UserModel.bumpTokenVersion(user._id);
+
+  // La sesión actual sigue abierta con un token de la nueva versión
+  const data = await UserModel
+    .findById(user._id)
+    .select("-password_salt -password");
+  if (!data) throw new NotFoundError("No se encontró el usuario solicitado");
+  cacheManager.setUser(data._id.toString(), data, setup.TOKEN.ACCESS);
+  const token = await data.createToken(sid);
+
+  return json({ data: { token, sessions: revoked.length } });
+});
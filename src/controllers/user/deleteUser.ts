@@ -0,0 +1,49 @@
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { SessionModel, UserModel } from "models";
+
+import { cacheManager } from "@utils/cache_manager.ts";
+import { intoRoles } from "@utils/roles.ts";
+
+/**
+ * @api {delete} /api/user Eliminar Usuario
+ * @apiVersion 1.0.0
+ * @apiName DeleteUser
+ * @apiGroup User
+ * @apiPermission admin
+ *
+ * @apiDescription Este endpoint elimina un usuario del sistema y cierra todas sus sesiones. Un administrador no puede eliminar su propia cuenta.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id Identificador único del usuario a eliminar.
+ *
+ * @apiSuccess {Object} data Usuario eliminado.
+ * @apiSuccess {String} data.identifier Identificador único del usuario.
+ * @apiSuccess {String} data.nickname Nombre de usuario.
+ * @apiSuccess {Array} data.roles Arreglo de roles que tenía el usuario.
+ *
+ * @apiError (400) BadRequest El ID no es válido o se intentó eliminar la propia cuenta.
+ * @apiError (401) Unauthorized El usuario que realiza la solicitud no tiene permisos de administrador.
+ * @apiError (404) NotFound No se encontró el usuario solicitado.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X DELETE http://localhost:5885/api/user?id=5f47a0b5c6b6e6d1f4a2b317 \
+ *     -H "Authorization: Bearer <Admin_Token>"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const admin = get("user");
+  const _id = req.query("id")!;
+  if (admin._id.toString() === _id) {
+    throw new BadRequestError("No puedes eliminar tu propia cuenta");
+  }
+
+  const data = await UserModel.findOneAndDelete({ _id });
+  if (!data) throw new NotFoundError("No se encontró el usuario solicitado");
+
+  await SessionModel.revoke({ user: data._id });
+  cacheManager.deleteUser(data._id.toString());
+
+  const { _id: identifier, nickname, role } = data;
+  return json({ data: { identifier, nickname, roles: intoRoles(role) } });
+});
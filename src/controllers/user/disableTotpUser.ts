@@ -0,0 +1,89 @@
+import { isValidObjectId } from "deps";
+import { BadRequestError, NotFoundError, UnauthorizedError } from "errors";
+import { factory } from "factory";
+import { UserModel } from "models";
+
+/**
+ * @api {delete} /api/user/totp Desactivar TOTP
+ * @apiVersion 1.0.0
+ * @apiName DisableTotpUser
+ * @apiGroup User
+ * @apiPermission user
+ *
+ * @apiDescription Este endpoint desactiva la autenticación de dos factores del usuario autenticado, que debe confirmar con su contraseña y un código TOTP o de recuperación. No se permite si alguno de sus roles está obligado a usar TOTP.
+ *
+ * Un administrador (permiso `user.manage`) puede enviar `?id=` para restablecer TOTP de otro usuario (por ejemplo, si perdió su dispositivo y sus códigos de recuperación) sin confirmaciones. Si el rol del usuario lo exige, deberá inscribirse de nuevo en su próximo inicio de sesión.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} [id] Identificador del usuario a restablecer (requiere el permiso `user.manage`).
+ * @apiParam (Request body) {String} [password] Contraseña actual (obligatoria sin `id`).
+ * @apiParam (Request body) {String} [code] Código TOTP (obligatorio sin `id`, salvo que se envíe `recovery`).
+ * @apiParam (Request body) {String} [recovery] Código de recuperación, en lugar de `code`.
+ *
+ * @apiSuccess {Object} data Usuario actualizado.
+ * @apiSuccess {String} data.identifier Identificador único del usuario.
+ * @apiSuccess {String} data.nickname Nombre de usuario.
+ *
+ * @apiError (400) BadRequest La solicitud se hizo con una llave de API, el ID no es válido, TOTP no está activo o el rol del usuario lo exige.
+ * @apiError (401) Unauthorized La contraseña o el código son incorrectos, o se envió `id` sin el permiso `user.manage`.
+ * @apiError (404) NotFound No se encontró el usuario solicitado.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X DELETE http://localhost:5885/api/user/totp \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -d '{ "password": "contraseñaSegura", "code": "492039" }'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  if (get("api_key")) {
+    throw new BadRequestError("Las llaves de API no usan TOTP");
+  }
+
+  const id = req.query("id");
+  if (id) {
+    if (!await get("user").can("user.manage")) throw new UnauthorizedError();
+    if (!isValidObjectId(id)) {
+      throw new BadRequestError("El ID proporcionado no es válido");
+    }
+
+    const data = await UserModel.findById(id).select("nickname");
+    if (!data) throw new NotFoundError("No se encontró el usuario solicitado");
+    await data.disableTotp();
+
+    const { _id: identifier, nickname } = data;
+    return json({ data: { identifier, nickname } });
+  }
+
+  const user = await UserModel
+    .findById(get("user")._id)
+    .select("+password +password_salt");
+  if (!user) throw new NotFoundError("No se encontró el usuario solicitado");
+  if (!user.totp_enabled) {
+    throw new BadRequestError(
+      "La autenticación de dos factores no está activa",
+    );
+  }
+  if (await user.requiresTotp()) {
+    throw new BadRequestError(
+      "Tu rol requiere la autenticación de dos factores",
+    );
+  }
+
+  const body = await req.json<
+    { password?: string; code?: string; recovery?: string }
+  >();
+  if (!await user.comparePassword(body.password!)) {
+    throw new UnauthorizedError("La contraseña actual es incorrecta");
+  }
+  const valid = body.recovery
+    ? await user.useRecoveryCode(body.recovery)
+    : await user.checkTotp(body.code);
+  if (!valid) {
+    throw new UnauthorizedError("El código de verificación es incorrecto");
+  }
+  await user.disableTotp();
+
+  const { _id: identifier, nickname } = user;
+  return json({ data: { identifier, nickname } });
+});
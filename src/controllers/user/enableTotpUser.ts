@@ -0,0 +1,63 @@
+import { BadRequestError, UnauthorizedError } from "errors";
+import { factory } from "factory";
+
+/**
+ * @api {post} /api/user/totp/enable Activar TOTP
+ * @apiVersion 1.0.0
+ * @apiName EnableTotpUser
+ * @apiGroup User
+ * @apiPermission user
+ *
+ * @apiDescription Este endpoint confirma el secreto generado en `/api/user/totp/setup` con un código de la aplicación autenticadora y activa la autenticación de dos factores. Se devuelven los códigos de recuperación, que no vuelven a mostrarse.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Request body) {String} code Código TOTP de la aplicación autenticadora.
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     POST /api/user/totp/enable HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <User_Token>
+ *     {
+ *       "code": "492039"
+ *     }
+ *
+ * @apiSuccess {Object} data Resultado de la operación.
+ * @apiSuccess {String[]} data.recovery_codes Códigos de recuperación de un solo uso.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": { "recovery_codes": ["K3PXP-JBSWY", "EHPK3-PXPJB", "..."] }
+ *     }
+ *
+ * @apiError (400) BadRequest La solicitud se hizo con una llave de API, TOTP ya está activo o no se inició la inscripción.
+ * @apiError (401) Unauthorized El código es incorrecto.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/user/totp/enable \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -d '{ "code": "492039" }'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  if (get("api_key")) {
+    throw new BadRequestError("Las llaves de API no usan TOTP");
+  }
+
+  const user = get("user");
+  if (user.totp_enabled) {
+    throw new BadRequestError(
+      "La autenticación de dos factores ya está activa",
+    );
+  }
+
+  const { code } = await req.json<{ code: string }>();
+  if (!await user.checkTotp(code)) {
+    throw new UnauthorizedError("El código de verificación es incorrecto");
+  }
+
+  const recovery_codes = await user.enableTotp();
+  return json({ data: { recovery_codes } });
+});
@@ -2,3 +2,20 @@ export { default as registerUser } from "./registerUser.ts";
 export { default as loginUser } from "./loginUser.ts";
 export { default as listUser } from "./listUser.ts";
 export { default as returnUser } from "./returnUser.ts";
+export { default as refreshUser } from "./refreshUser.ts";
+export { default as logoutUser } from "./logoutUser.ts";
+export { default as updateUser } from "./updateUser.ts";
+export { default as deleteUser } from "./deleteUser.ts";
+export { default as resetPasswordUser } from "./resetPasswordUser.ts";
+export { default as setupUser } from "./setupUser.ts";
+export { default as unlockUser } from "./unlockUser.ts";
+export { default as changePasswordUser } from "./changePasswordUser.ts";
+export { default as changeNicknameUser } from "./changeNicknameUser.ts";
+export { default as verifyTotpUser } from "./verifyTotpUser.ts";
+export { default as setupTotpUser } from "./setupTotpUser.ts";
+export { default as enableTotpUser } from "./enableTotpUser.ts";
+export { default as disableTotpUser } from "./disableTotpUser.ts";
+export { default as recoveryTotpUser } from "./recoveryTotpUser.ts";
+export { default as requireTotpUser } from "./requireTotpUser.ts";
+export { default as listSessionUser } from "./listSessionUser.ts";
+export { default as revokeSessionUser } from "./revokeSessionUser.ts";
@@ -0,0 +1,85 @@
+import { isValidObjectId } from "deps";
+import { BadRequestError, UnauthorizedError } from "errors";
+import { factory } from "factory";
+import { SessionModel } from "models";
+
+/**
+ * @api {get} /api/user/sessions Listar Sesiones
+ * @apiVersion 1.0.0
+ * @apiName ListSessionUser
+ * @apiGroup User
+ * @apiPermission user
+ *
+ * @apiDescription Este endpoint lista las sesiones activas del usuario autenticado, con el equipo, la dirección IP y el `User-Agent` desde los que se abrieron, la fecha de inicio y el último uso. Un usuario con el permiso `user.manage` puede consultar las sesiones de otro usuario con el parámetro `id`. Las sesiones se cierran con `DELETE /api/user/sessions`.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} [id] Identificador del usuario cuyas sesiones se consultan (requiere `user.manage`).
+ *
+ * @apiSuccess {Object[]} data Sesiones activas, de la usada más recientemente a la más antigua.
+ * @apiSuccess {String} data.identifier Identificador de la sesión.
+ * @apiSuccess {String} [data.device] Nombre del equipo enviado al iniciar sesión.
+ * @apiSuccess {String} [data.ip] Dirección IP del último inicio o refresco de la sesión.
+ * @apiSuccess {String} [data.user_agent] `User-Agent` del cliente.
+ * @apiSuccess {Date} data.issued_at Fecha de inicio de la sesión.
+ * @apiSuccess {Date} [data.last_seen_at] Último uso registrado de la sesión.
+ * @apiSuccess {Date} data.expires_at Fecha en que caduca el token de refresco.
+ * @apiSuccess {Boolean} data.current Indica si es la sesión de la solicitud.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": [
+ *         {
+ *           "identifier": "6650c1f2a4b3c2d1e0f9a8b7",
+ *           "device": "Mostrador 2",
+ *           "ip": "10.0.0.12",
+ *           "user_agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64)",
+ *           "issued_at": "2024-05-24T16:02:11.000Z",
+ *           "last_seen_at": "2024-05-24T18:40:03.000Z",
+ *           "expires_at": "2024-06-23T16:02:11.000Z",
+ *           "current": true
+ *         }
+ *       ]
+ *     }
+ *
+ * @apiError (400) BadRequest La solicitud se hizo con una llave de API o el ID del usuario no es válido.
+ * @apiError (401) Unauthorized El token es inválido o se consultó a otro usuario sin el permiso `user.manage`.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET http://localhost:5885/api/user/sessions \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  if (get("api_key")) {
+    throw new BadRequestError("Las llaves de API no tienen sesiones");
+  }
+
+  const user = get("user");
+  const id = req.query("id");
+  if (id) {
+    if (!await user.can("user.manage")) throw new UnauthorizedError();
+    if (!isValidObjectId(id)) {
+      throw new BadRequestError("El ID proporcionado no es válido");
+    }
+  }
+
+  const sessions = await SessionModel
+    .find({
+      user: id ?? user._id,
+      revoked_at: { $exists: false },
+      expires_at: { $gt: new Date() },
+    })
+    .select("device ip user_agent issued_at last_seen_at expires_at")
+    .sort({ last_seen_at: -1, issued_at: -1 })
+    .lean();
+
+  const current = get("session");
+  const data = sessions.map(({ _id, ...session }) => ({
+    identifier: _id,
+    ...session,
+    current: _id.toString() === current,
+  }));
+
+  return json({ data });
+});
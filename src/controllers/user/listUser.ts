@@ -1,4 +1,4 @@
-import { NotFoundError, UnauthorizedError } from 'errors';
+import { NotFoundError } from 'errors';
 import { factory } from 'factory';
 import { UserModel } from 'models';
 
@@ -19,6 +19,9 @@ import { intoRoles } from '@utils/roles.ts';
  * @apiSuccess {String} data.identifier Identificador único del usuario.
  * @apiSuccess {String} data.nickname Nombre de usuario.
  * @apiSuccess {Array} data.roles Arreglo de roles del usuario.
+ * @apiSuccess {String[]} data.custom_roles Nombres de los roles personalizados del usuario.
+ * @apiSuccess {Boolean} data.disabled Indica si la cuenta está deshabilitada.
+ * @apiSuccess {Object} data.scope Líneas y marcas a las que se limita el usuario; listas vacías indican acceso a todo el catálogo.
  *
  * @apiSuccessExample {json} Respuesta exitosa:
  *     HTTP/1.1 200 OK
@@ -27,7 +30,10 @@ import { intoRoles } from '@utils/roles.ts';
  *         {
  *           "identifier": "5f47a0b5c6b6e6d1f4a2b317",
  *           "nickname": "usuarioExistente",
- *           "roles": ["ADMIN", "USER"]
+ *           "roles": ["ADMIN", "USER"],
+ *           "custom_roles": ["fotografo"],
+ *           "disabled": false,
+ *           "scope": { "lines": [], "brands": [] }
  *         },
  *         ...
  *       ]
@@ -52,19 +58,21 @@ import { intoRoles } from '@utils/roles.ts';
  *     curl -X GET http://localhost:5885/api/user/all \
  *     -H "Authorization: Bearer <Admin_Token>"
  */
-export default factory.createHandlers(async ({ get, json }) => {
-  if (!get("user").roleIncludes("ADMIN")) {
-    throw new UnauthorizedError();
-  }
-
-  const data = await UserModel.find();
+export default factory.createHandlers(async ({ json }) => {
+  const data = await UserModel.find()
+    .populate<{ custom_roles: { name: string }[] }>("custom_roles", "name");
   if (!data.length) throw new NotFoundError("No se encontró el documento");
 
   return json({
-    data: data.map(({ _id: identifier, nickname, role }) => ({
+    data: data.map((
+      { _id: identifier, nickname, role, custom_roles, disabled, scope },
+    ) => ({
       identifier,
       nickname,
       roles: intoRoles(role),
+      custom_roles: custom_roles.map(({ name }) => name),
+      disabled: !!disabled,
+      scope,
     })),
   });
 });
@@ -1,17 +1,28 @@
-import { NotFoundError, UnauthorizedError } from "errors";
+import { getConnInfo } from "deps";
+import { UnauthorizedError } from "errors";
 import { factory } from "factory";
 import { UserModel } from "models";
 
+import { deviceInfo } from "@utils/device.ts";
+import { fakeCompare, needsRehash } from "@utils/hash.ts";
+import { loginThrottle } from "@utils/login_throttle.ts";
+import { createChallenge } from "@utils/totp.ts";
+
 /**
  * @api {post} /api/login Iniciar Sesión de Usuario
  * @apiVersion 1.0.0
  * @apiName LoginUser
  * @apiGroup User
  *
- * @apiDescription Este endpoint permite a un usuario autenticarse en el sistema proporcionando su nombre de usuario y contraseña válidos. Si las credenciales son correctas, se genera un token JWT para el usuario.
+ * @apiDescription Este endpoint permite a un usuario autenticarse en el sistema proporcionando su nombre de usuario y contraseña válidos. Si las credenciales son correctas, se abre una sesión y se generan un token JWT de acceso y un token de refresco para el usuario.
+ *
+ * Si el usuario tiene activa la autenticación de dos factores, en lugar de los tokens se devuelve un reto (`challenge`) que debe enviarse junto con un código TOTP o de recuperación a `/api/user/login/totp`. Si su rol está obligado a usar TOTP (`/api/user/totp/required`) y aún no se ha inscrito, el reto incluye además el secreto y el URI `otpauth://` para registrarlo en la aplicación autenticadora.
+ *
+ * Los intentos fallidos se cuentan por nombre de usuario y por dirección IP. Superados los intentos tolerados (`THROTTLE_FREE`), cada fallo bloquea el acceso durante un tiempo que se duplica hasta el máximo configurado (`LOCKOUT_TTL`). Un administrador puede desbloquear la cuenta con `/api/user/unlock`.
  *
  * @apiParam (Request body) {String} nickname Nombre de usuario.
  * @apiParam (Request body) {String} password Contraseña del usuario.
+ * @apiParam (Request body) {String} [device] Nombre del equipo, para identificar la sesión en `/api/user/sessions`.
  *
  * @apiParamExample {json} Ejemplo de solicitud:
  *     POST /api/login HTTP/1.1
@@ -19,20 +30,35 @@ import { UserModel } from "models";
  *     Content-Type: application/json
  *     {
  *       "nickname": "usuarioExistente",
- *       "password": "contraseñaSegura"
+ *       "password": "contraseñaSegura",
+ *       "device": "Mostrador 2"
  *     }
  *
- * @apiSuccess {String} token Token JWT generado para el usuario autenticado.
+ * @apiSuccess {String} token Token JWT de acceso generado para el usuario autenticado.
+ * @apiSuccess {String} refresh Token de refresco para renovar el token de acceso en `/api/user/refresh`.
+ *
+ * @apiSuccess {String} challenge Token de reto, si se requiere un segundo factor. Caduca en `setup.TOTP.CHALLENGE` segundos.
+ * @apiSuccess {String="verify","enroll"} totp Paso pendiente: verificar un código o completar la inscripción.
+ * @apiSuccess {String} secret Secreto TOTP en base32 (solo con `totp: "enroll"`).
+ * @apiSuccess {String} uri URI `otpauth://` para el código QR (solo con `totp: "enroll"`).
  *
  * @apiSuccessExample {json} Respuesta exitosa:
  *     HTTP/1.1 200 OK
  *     {
- *       "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *       "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *       "refresh": "pZ2c0v9W..."
+ *     }
+ *
+ * @apiSuccessExample {json} Respuesta con segundo factor:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "challenge": "eyJhbGciOiJFUzI1NiIsImtpZCI6IjEifQ...",
+ *       "totp": "verify"
  *     }
  *
  * @apiError (400) BadRequest Los parámetros obligatorios no fueron proporcionados en la solicitud.
- * @apiError (404) NotFound El usuario no existe en el sistema.
- * @apiError (401) Unauthorized La contraseña proporcionada es incorrecta.
+ * @apiError (401) Unauthorized El usuario no existe, la contraseña es incorrecta o la cuenta está deshabilitada.
+ * @apiError (429) TooManyRequests Se superaron los intentos permitidos; `details.retry_after` indica los segundos de espera.
  *
  * @apiErrorExample {json} Respuesta de error 400:
  *     HTTP/1.1 400 Bad Request
@@ -40,18 +66,19 @@ import { UserModel } from "models";
  *       "message": "No se enviaron los parámetros obligatorios"
  *     }
  *
- * @apiErrorExample {json} Respuesta de error 404:
- *     HTTP/1.1 404 Not Found
- *     {
- *       "message": "El usuario no existe en el sistema"
- *     }
- *
  * @apiErrorExample {json} Respuesta de error 401:
  *     HTTP/1.1 401 Unauthorized
  *     {
  *       "message": "Credenciales incorrectas, acceso denegado"
  *     }
  *
+ * @apiErrorExample {json} Respuesta de error 429:
+ *     HTTP/1.1 429 Too Many Requests
+ *     {
+ *       "error": "Demasiados intentos fallidos, intenta de nuevo más tarde",
+ *       "details": { "retry_after": 8 }
+ *     }
+ *
  * @apiExample {curl} Ejemplo de uso:
  *     curl -X POST http://localhost:5885/api/login \
  *     -H "Content-Type: application/json" \
@@ -60,17 +87,53 @@ import { UserModel } from "models";
  *       "password": "contraseñaSegura"
  *     }'
  */
-export default factory.createHandlers(async ({ req, json }) => {
-  const body = await req.json<{ nickname?: string; password?: string }>();
+export default factory.createHandlers(async (c) => {
+  const body = await c.req.json<
+    { nickname?: string; password?: string; device?: string }
+  >();
+  const keys = loginThrottle.keys(body.nickname, getConnInfo(c).remote.address);
+  await loginThrottle.assert(keys);
 
   const user = await UserModel
     .findOne({ nickname: body.nickname })
-    .select("nickname role password password_salt");
-  if (!user) throw new NotFoundError("El usuario no existe en el sistema");
+    .select(
+      "nickname role disabled password password_salt token_version totp_enabled",
+    );
 
-  if (!await user.comparePassword(body.password)) {
+  // Mismo error (y mismo costo) exista o no el usuario, para no revelar qué cuentas existen
+  const valid = user
+    ? await user.comparePassword(body.password)
+    : await fakeCompare(body.password);
+  if (!user || !valid) {
+    await loginThrottle.fail(keys);
     throw new UnauthorizedError("Credenciales incorrectas, acceso denegado");
   }
+  await loginThrottle.reset(loginThrottle.keys(user.nickname));
+
+  if (user.disabled) {
+    throw new UnauthorizedError("La cuenta está deshabilitada");
+  }
+
+  // Migra los hashes heredados (o con menos iteraciones) ahora que se conoce la contraseña
+  if (needsRehash(user.password!)) {
+    user.password = body.password;
+    await user.save();
+  }
+
+  if (user.totp_enabled) {
+    const challenge = await createChallenge(
+      user._id.toString(),
+      user.token_version ?? 0,
+    );
+    return c.json({ challenge, totp: "verify" });
+  }
+  if (await user.requiresTotp()) {
+    const challenge = await createChallenge(
+      user._id.toString(),
+      user.token_version ?? 0,
+    );
+    return c.json({ challenge, totp: "enroll", ...await user.startTotp() });
+  }
 
-  return json({ token: await user.createToken() });
+  return c.json(await user.createSession(deviceInfo(c, body.device)));
 });
@@ -0,0 +1,50 @@
+import { BadRequestError } from "errors";
+import { factory } from "factory";
+import { SessionModel, UserModel } from "models";
+
+import { cacheManager } from "@utils/cache_manager.ts";
+
+/**
+ * @api {post} /api/user/logout Cerrar Sesión
+ * @apiVersion 1.0.0
+ * @apiName LogoutUser
+ * @apiGroup User
+ * @apiPermission user
+ *
+ * @apiDescription Este endpoint revoca la sesión del token enviado, o todas las sesiones del usuario si se indica `all=true` (lo que además invalida cualquier token de acceso emitido hasta ese momento). Los tokens de acceso y de refresco de las sesiones revocadas dejan de ser aceptados de inmediato.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} [all] Si es `true`, se cierran todas las sesiones del usuario.
+ *
+ * @apiSuccess {Object} data Resultado de la operación.
+ * @apiSuccess {Number} data.sessions Cantidad de sesiones revocadas.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": { "sessions": 1 }
+ *     }
+ *
+ * @apiError (400) BadRequest La solicitud se hizo con una llave de API, que no tiene sesión.
+ * @apiError (401) Unauthorized El token es inválido o la sesión ya fue cerrada.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/user/logout?all=true \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  if (get("api_key")) {
+    throw new BadRequestError("Las llaves de API no tienen sesión que cerrar");
+  }
+
+  const user = get("user");
+  const all = req.query("all") === "true";
+  const revoked = await SessionModel.revoke(
+    all ? { user: user._id } : get("session"),
+  );
+  if (all) await UserModel.bumpTokenVersion(user._id);
+  else cacheManager.deleteUser(user._id.toString());
+
+  return json({ data: { sessions: revoked.length } });
+});
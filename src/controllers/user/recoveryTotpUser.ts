@@ -0,0 +1,48 @@
+import { BadRequestError, UnauthorizedError } from "errors";
+import { factory } from "factory";
+
+/**
+ * @api {put} /api/user/totp/recovery Regenerar Códigos de Recuperación
+ * @apiVersion 1.0.0
+ * @apiName RecoveryTotpUser
+ * @apiGroup User
+ * @apiPermission user
+ *
+ * @apiDescription Este endpoint reemplaza los códigos de recuperación del usuario autenticado. Se requiere un código TOTP vigente; los códigos anteriores dejan de aceptarse.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Request body) {String} code Código TOTP de la aplicación autenticadora.
+ *
+ * @apiSuccess {Object} data Resultado de la operación.
+ * @apiSuccess {String[]} data.recovery_codes Nuevos códigos de recuperación.
+ *
+ * @apiError (400) BadRequest La solicitud se hizo con una llave de API o TOTP no está activo.
+ * @apiError (401) Unauthorized El código es incorrecto.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/user/totp/recovery \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -d '{ "code": "492039" }'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  if (get("api_key")) {
+    throw new BadRequestError("Las llaves de API no usan TOTP");
+  }
+
+  const user = get("user");
+  if (!user.totp_enabled) {
+    throw new BadRequestError(
+      "La autenticación de dos factores no está activa",
+    );
+  }
+
+  const { code } = await req.json<{ code: string }>();
+  if (!await user.checkTotp(code)) {
+    throw new UnauthorizedError("El código de verificación es incorrecto");
+  }
+
+  const recovery_codes = await user.issueRecoveryCodes();
+  return json({ data: { recovery_codes } });
+});
@@ -0,0 +1,66 @@
+import { UnauthorizedError } from "errors";
+import { factory } from "factory";
+import { SessionModel, UserModel } from "models";
+
+import { deviceInfo } from "@utils/device.ts";
+
+/**
+ * @api {post} /api/user/refresh Refrescar Sesión
+ * @apiVersion 1.0.0
+ * @apiName RefreshUser
+ * @apiGroup User
+ *
+ * @apiDescription Este endpoint intercambia un token de refresco válido por un nuevo token de acceso y un nuevo token de refresco. El token de refresco enviado queda invalidado (rotación), por lo que solo puede usarse una vez.
+ *
+ * @apiParam (Request body) {String} refresh Token de refresco obtenido al iniciar sesión o en el último refresco.
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     POST /api/user/refresh HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     {
+ *       "refresh": "pZ2c0v9W..."
+ *     }
+ *
+ * @apiSuccess {String} token Nuevo token JWT de acceso.
+ * @apiSuccess {String} refresh Nuevo token de refresco.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *       "refresh": "Xk3b8Q1r..."
+ *     }
+ *
+ * @apiError (400) BadRequest No se envió el token de refresco.
+ * @apiError (401) Unauthorized El token de refresco es inválido, caducó o la sesión fue cerrada.
+ *
+ * @apiErrorExample {json} Respuesta de error 401:
+ *     HTTP/1.1 401 Unauthorized
+ *     {
+ *       "message": "La sesión no es válida o ha expirado"
+ *     }
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/user/refresh \
+ *     -H "Content-Type: application/json" \
+ *     -d '{ "refresh": "pZ2c0v9W..." }'
+ */
+export default factory.createHandlers(async (c) => {
+  const body = await c.req.json<{ refresh: string }>();
+
+  const rotated = await SessionModel.rotate(body.refresh, deviceInfo(c));
+  if (!rotated) {
+    throw new UnauthorizedError("La sesión no es válida o ha expirado");
+  }
+
+  const { session, refresh } = rotated;
+  const user = await UserModel.findById(session.user);
+  if (!user) throw new UnauthorizedError("El usuario no existe en el sistema");
+  if (user.disabled) {
+    throw new UnauthorizedError("La cuenta está deshabilitada");
+  }
+
+  const token = await user.createToken(session._id.toString());
+  return c.json({ token, refresh });
+});
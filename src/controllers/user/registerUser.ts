@@ -1,8 +1,8 @@
 import type { LeanUser } from "@interfaces/user.interface.ts";
-import { UnauthorizedError } from 'errors';
 import { factory } from 'factory';
 import { UserModel } from 'models';
 
+import { assertPasswordPolicy } from '@utils/password_policy.ts';
 import { intoRole } from '@utils/roles.ts';
 
 /**
@@ -17,7 +17,7 @@ import { intoRole } from '@utils/roles.ts';
  * @apiHeader {String} Authorization Token de acceso del administrador, con el prefijo 'Bearer'.
  *
  * @apiParam (Request body) {String} nickname Nombre único del usuario.
- * @apiParam (Request body) {String} password Contraseña del usuario.
+ * @apiParam (Request body) {String} password Contraseña del usuario; debe cumplir la política de contraseñas.
  * @apiParam (Request body) {String[]} [roles] Arreglo de roles asignados al usuario. Deben ser válidos.
  *
  * @apiParamExample {json} Ejemplo de solicitud:
@@ -31,15 +31,17 @@ import { intoRole } from '@utils/roles.ts';
  *       "roles": ["USER"]
  *     }
  *
- * @apiSuccess {String} token Token JWT generado para el usuario recién registrado.
+ * @apiSuccess {String} token Token JWT de acceso generado para el usuario recién registrado.
+ * @apiSuccess {String} refresh Token de refresco de la sesión abierta para el usuario.
  *
  * @apiSuccessExample {json} Respuesta exitosa:
  *     HTTP/1.1 200 OK
  *     {
- *       "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *       "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *       "refresh": "pZ2c0v9W..."
  *     }
  *
- * @apiError (400) BadRequest La solicitud es inválida. Los parámetros obligatorios no fueron enviados o los roles no son válidos.
+ * @apiError (400) BadRequest La solicitud es inválida. Los parámetros obligatorios no fueron enviados, los roles no son válidos o la contraseña no cumple la política de contraseñas (`details.violations` enumera las reglas incumplidas).
  * @apiError (401) Unauthorized El usuario que realiza la solicitud no tiene permisos de administrador.
  * @apiError (204) NoContent Se guardó el usuario, pero no se devolvió ningún contenido debido a un fallo en la operación.
  *
@@ -71,12 +73,9 @@ import { intoRole } from '@utils/roles.ts';
  *       "roles": ["USER"]
  *     }'
  */
-export default factory.createHandlers(async ({ req, get, body, json }) => {
-  if (!get("user").roleIncludes("ADMIN")) {
-    throw new UnauthorizedError("El usuario no tiene permisos");
-  }
-
+export default factory.createHandlers(async ({ req, body, json }) => {
   const userData = await req.json<LeanUser>();
+  assertPasswordPolicy(userData.password, userData.nickname);
   userData.role = intoRole(userData.roles);
 
   delete userData.roles;
@@ -87,5 +86,5 @@ export default factory.createHandlers(async ({ req, get, body, json }) => {
 
   delete data.password;
   delete data.password_salt;
-  return json({ token: await data.createToken() });
+  return json(await data.createSession());
 });
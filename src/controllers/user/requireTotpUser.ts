@@ -0,0 +1,46 @@
+import type { setup } from "config";
+import { factory } from "factory";
+import { SettingModel } from "models";
+
+import { intoRole, intoRoles } from "@utils/roles.ts";
+
+/**
+ * @api {put} /api/user/totp/required Exigir TOTP por Rol
+ * @apiVersion 1.0.0
+ * @apiName RequireTotpUser
+ * @apiGroup User
+ * @apiPermission admin
+ *
+ * @apiDescription Este endpoint define qué roles están obligados a usar autenticación de dos factores. Los usuarios con alguno de esos roles que aún no se inscribieron deberán hacerlo en su próximo inicio de sesión, y no podrán desactivarla. Un arreglo vacío deja de exigirla.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Request body) {String[]} roles Roles obligados a usar TOTP (por ejemplo, `["ADMIN", "GRANT"]`).
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     PUT /api/user/totp/required HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <Admin_Token>
+ *     {
+ *       "roles": ["ADMIN", "GRANT"]
+ *     }
+ *
+ * @apiSuccess {Object} data Ajuste guardado.
+ * @apiSuccess {String[]} data.roles Roles obligados a usar TOTP.
+ *
+ * @apiError (400) BadRequest Los roles proporcionados no son válidos.
+ * @apiError (401) Unauthorized El usuario que realiza la solicitud no tiene permisos de administrador.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/user/totp/required \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -d '{ "roles": ["ADMIN", "GRANT"] }'
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const { roles } = await req.json<{ roles: (keyof typeof setup.AUTH)[] }>();
+  const required = await SettingModel.write("totp.required", intoRole(roles));
+
+  return json({ data: { roles: intoRoles(required) } });
+});
@@ -0,0 +1,59 @@
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { SessionModel, UserModel } from "models";
+
+import { assertPasswordPolicy } from "@utils/password_policy.ts";
+
+/**
+ * @api {put} /api/user/password Restablecer Contraseña
+ * @apiVersion 1.0.0
+ * @apiName ResetPasswordUser
+ * @apiGroup User
+ * @apiPermission admin
+ *
+ * @apiDescription Este endpoint permite a un administrador asignar una nueva contraseña a un usuario que olvidó la suya. Todas las sesiones abiertas del usuario se cierran y sus tokens de acceso vigentes dejan de aceptarse.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id Identificador único del usuario.
+ * @apiParam (Request body) {String} password Nueva contraseña del usuario; debe cumplir la política de contraseñas.
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     PUT /api/user/password?id=5f47a0b5c6b6e6d1f4a2b317 HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <Admin_Token>
+ *     {
+ *       "password": "nuevaContraseñaSegura"
+ *     }
+ *
+ * @apiSuccess {Object} data Resultado de la operación.
+ * @apiSuccess {Number} data.sessions Cantidad de sesiones cerradas.
+ *
+ * @apiError (400) BadRequest No se envió la contraseña, el ID no es válido o la contraseña no cumple la política de contraseñas.
+ * @apiError (401) Unauthorized El usuario que realiza la solicitud no tiene permisos de administrador.
+ * @apiError (404) NotFound No se encontró el usuario solicitado.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/user/password?id=5f47a0b5c6b6e6d1f4a2b317 \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -d '{ "password": "nuevaContraseñaSegura" }'
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const { password } = await req.json<{ password: string }>();
+  const user = await UserModel
+    .findById(req.query("id"))
+    .select("+password +password_salt");
+  if (!user) throw new NotFoundError("No se encontró el usuario solicitado");
+  assertPasswordPolicy(password, user.nickname);
+
+  // El hook `preSave` se encarga de hashear la nueva contraseña
+  user.password = password;
+  await user.save();
+
+  const revoked = await SessionModel.revoke({ user: user._id });
+  await UserModel.bumpTokenVersion(user._id);
+
+  return json({ data: { sessions: revoked.length } });
+});
@@ -21,6 +21,7 @@ import { intoRoles } from "@utils/roles.ts";
  * @apiSuccess {String} identifier Identificador único del usuario.
  * @apiSuccess {String} nickname Nombre de usuario.
  * @apiSuccess {Array} roles Arreglo de roles del usuario.
+ * @apiSuccess {String[]} [permissions] Permisos efectivos del usuario autenticado (solo sin `nickname`).
  *
  * @apiSuccessExample {json} Respuesta exitosa (con `nickname`):
  *     HTTP/1.1 200 OK
@@ -35,7 +36,8 @@ import { intoRoles } from "@utils/roles.ts";
  *     {
  *       "identifier": "5f47a0b5c6b6e6d1f4a2b317",
  *       "nickname": "usuarioAutenticado",
- *       "roles": ["USER"]
+ *       "roles": ["USER"],
+ *       "permissions": ["item.read", "key.read", "line.read", "brand.read"]
  *     }
  *
  * @apiError (400) BadRequest No se enviaron los parámetros necesarios para la solicitud.
@@ -95,6 +97,7 @@ export default factory.createHandlers(async ({ get, req, json }) => {
       role,
     } = user.toObject<LeanUser>();
     const roles = intoRoles(role);
-    return json({ identifier, nickname: userNickname, roles });
+    const permissions = await user.permissions();
+    return json({ identifier, nickname: userNickname, roles, permissions });
   }
 });
@@ -0,0 +1,55 @@
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { SessionModel } from "models";
+
+/**
+ * @api {delete} /api/user/sessions Cerrar Sesión Concreta
+ * @apiVersion 1.0.0
+ * @apiName RevokeSessionUser
+ * @apiGroup User
+ * @apiPermission user
+ *
+ * @apiDescription Este endpoint cierra una de las sesiones listadas en `/api/user/sessions`, por ejemplo la de un equipo perdido. Los tokens de acceso y de refresco de esa sesión dejan de ser aceptados de inmediato; las demás sesiones siguen activas. Un usuario con el permiso `user.manage` puede cerrar sesiones de otros usuarios.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id Identificador de la sesión.
+ *
+ * @apiSuccess {Object} data Resultado de la operación.
+ * @apiSuccess {Number} data.sessions Cantidad de sesiones revocadas.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": { "sessions": 1 }
+ *     }
+ *
+ * @apiError (400) BadRequest La solicitud se hizo con una llave de API o el ID no es válido.
+ * @apiError (401) Unauthorized El token es inválido o la sesión de la solicitud ya fue cerrada.
+ * @apiError (404) NotFound La sesión no existe, ya fue cerrada o pertenece a otro usuario.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X DELETE http://localhost:5885/api/user/sessions?id=6650c1f2a4b3c2d1e0f9a8b7 \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  if (get("api_key")) {
+    throw new BadRequestError("Las llaves de API no tienen sesiones");
+  }
+
+  const user = get("user");
+  const session = await SessionModel
+    .findOne({ _id: req.query("id"), revoked_at: { $exists: false } })
+    .select("user");
+  // Las sesiones de otros usuarios se reportan como inexistentes
+  if (
+    !session ||
+    (session.user.toString() !== user._id.toString() &&
+      !await user.can("user.manage"))
+  ) {
+    throw new NotFoundError("No se encontró la sesión solicitada");
+  }
+
+  const revoked = await SessionModel.revoke(session._id.toString());
+  return json({ data: { sessions: revoked.length } });
+});
@@ -0,0 +1,49 @@
+import { BadRequestError } from "errors";
+import { factory } from "factory";
+
+/**
+ * @api {post} /api/user/totp/setup Iniciar Inscripción TOTP
+ * @apiVersion 1.0.0
+ * @apiName SetupTotpUser
+ * @apiGroup User
+ * @apiPermission user
+ *
+ * @apiDescription Este endpoint genera un secreto TOTP nuevo para el usuario autenticado. El secreto queda pendiente hasta confirmarlo con un código en `/api/user/totp/enable`; repetir la solicitud reemplaza el secreto pendiente.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiSuccess {Object} data Datos para la aplicación autenticadora.
+ * @apiSuccess {String} data.secret Secreto en base32, para capturarlo manualmente.
+ * @apiSuccess {String} data.uri URI `otpauth://` para generar el código QR.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "secret": "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+ *         "uri": "otpauth://totp/CPH%3Ajane_doe?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=CPH&algorithm=SHA1&digits=6&period=30"
+ *       }
+ *     }
+ *
+ * @apiError (400) BadRequest La solicitud se hizo con una llave de API o TOTP ya está activo.
+ * @apiError (401) Unauthorized El token es inválido o la sesión fue cerrada.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/user/totp/setup \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ get, json }) => {
+  if (get("api_key")) {
+    throw new BadRequestError("Las llaves de API no usan TOTP");
+  }
+
+  const user = get("user");
+  if (user.totp_enabled) {
+    throw new BadRequestError(
+      "La autenticación de dos factores ya está activa",
+    );
+  }
+
+  const data = await user.startTotp();
+  return json({ data });
+});
@@ -0,0 +1,81 @@
+import type { LeanUser } from "@interfaces/user.interface.ts";
+import { setup } from "config";
+import { UnauthorizedError } from "errors";
+import { factory } from "factory";
+import { UserModel } from "models";
+
+import { deviceInfo } from "@utils/device.ts";
+import { assertPasswordPolicy } from "@utils/password_policy.ts";
+
+/**
+ * Evita que dos solicitudes simultáneas creen cada una un administrador
+ * mientras la colección de usuarios sigue vacía.
+ */
+let pending = false;
+
+/**
+ * @api {post} /api/user/setup Configuración Inicial
+ * @apiVersion 1.0.0
+ * @apiName SetupUser
+ * @apiGroup User
+ *
+ * @apiDescription Este endpoint crea el primer administrador en una instalación nueva. Solo funciona mientras no exista ningún usuario en el sistema; el usuario creado recibe todos los permisos definidos en `setup.AUTH`. Una vez creado, el endpoint queda deshabilitado y los demás usuarios deben registrarse con `/api/user/register`.
+ *
+ * @apiParam (Request body) {String} nickname Nombre único del administrador.
+ * @apiParam (Request body) {String} password Contraseña del administrador; debe cumplir la política de contraseñas.
+ * @apiParam (Request body) {String} [device] Nombre del equipo, para identificar la sesión en `/api/user/sessions`.
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     POST /api/user/setup HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     {
+ *       "nickname": "admin",
+ *       "password": "contraseñaSegura"
+ *     }
+ *
+ * @apiSuccess {String} token Token JWT de acceso del administrador creado.
+ * @apiSuccess {String} refresh Token de refresco de la sesión abierta.
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *       "refresh": "pZ2c0v9W..."
+ *     }
+ *
+ * @apiError (400) BadRequest No se enviaron los parámetros obligatorios o la contraseña no cumple la política de contraseñas.
+ * @apiError (401) Unauthorized El sistema ya cuenta con usuarios registrados.
+ *
+ * @apiErrorExample {json} Respuesta de error 401:
+ *     HTTP/1.1 401 Unauthorized
+ *     {
+ *       "message": "El sistema ya fue configurado"
+ *     }
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/user/setup \
+ *     -H "Content-Type: application/json" \
+ *     -d '{ "nickname": "admin", "password": "contraseñaSegura" }'
+ */
+export default factory.createHandlers(async (c) => {
+  if (pending) throw new UnauthorizedError("El sistema ya fue configurado");
+
+  pending = true;
+  try {
+    if (await UserModel.exists({})) {
+      throw new UnauthorizedError("El sistema ya fue configurado");
+    }
+
+    const { nickname, password, device } = await c.req.json<
+      LeanUser & { device?: string }
+    >();
+    assertPasswordPolicy(password, nickname);
+    const role = Object.values(setup.AUTH).reduce((acc, bit) => acc | bit, 0);
+    const user = await new UserModel({ nickname, password, role }).save();
+
+    return c.json(await user.createSession(deviceInfo(c, device)));
+  } finally {
+    pending = false;
+  }
+});
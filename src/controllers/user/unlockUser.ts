@@ -0,0 +1,41 @@
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { UserModel } from "models";
+
+import { loginThrottle } from "@utils/login_throttle.ts";
+
+/**
+ * @api {put} /api/user/unlock Desbloquear Usuario
+ * @apiVersion 1.0.0
+ * @apiName UnlockUser
+ * @apiGroup User
+ * @apiPermission admin
+ *
+ * @apiDescription Este endpoint elimina el bloqueo por intentos fallidos de inicio de sesión de un usuario. Opcionalmente también desbloquea una dirección IP.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id Identificador único del usuario.
+ * @apiParam (Query string) {String} [ip] Dirección IP que también se desea desbloquear.
+ *
+ * @apiSuccess {Object} data Usuario desbloqueado.
+ * @apiSuccess {String} data.identifier Identificador único del usuario.
+ * @apiSuccess {String} data.nickname Nombre de usuario.
+ *
+ * @apiError (400) BadRequest El ID no es válido.
+ * @apiError (401) Unauthorized El usuario que realiza la solicitud no tiene permisos de administrador.
+ * @apiError (404) NotFound No se encontró el usuario solicitado.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT "http://localhost:5885/api/user/unlock?id=5f47a0b5c6b6e6d1f4a2b317&ip=192.168.1.20" \
+ *     -H "Authorization: Bearer <Admin_Token>"
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const data = await UserModel.findById(req.query("id")).select("nickname");
+  if (!data) throw new NotFoundError("No se encontró el usuario solicitado");
+
+  await loginThrottle.reset(loginThrottle.keys(data.nickname, req.query("ip")));
+
+  const { _id: identifier, nickname } = data;
+  return json({ data: { identifier, nickname } });
+});
@@ -0,0 +1,126 @@
+import type { LeanUser } from "@interfaces/user.interface.ts";
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import {
+  BrandModel,
+  LineModel,
+  RoleModel,
+  SessionModel,
+  UserModel,
+} from "models";
+
+import { cacheManager } from "@utils/cache_manager.ts";
+import { intoRole, intoRoles } from "@utils/roles.ts";
+
+/**
+ * @api {put} /api/user Actualizar Usuario
+ * @apiVersion 1.0.0
+ * @apiName UpdateUser
+ * @apiGroup User
+ * @apiPermission admin
+ *
+ * @apiDescription Este endpoint permite a un administrador cambiar los roles predefinidos o personalizados de un usuario, limitar su alcance a ciertas líneas y marcas o deshabilitar/habilitar su cuenta. Al deshabilitar una cuenta se cierran todas sus sesiones. El cambio se aplica de inmediato porque se invalida la entrada del usuario en caché; un cambio de roles además invalida los tokens de acceso emitidos con los roles anteriores.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id Identificador único del usuario.
+ * @apiParam (Request body) {String[]} [roles] Nuevo arreglo de roles del usuario.
+ * @apiParam (Request body) {String[]} [custom_roles] Nombres o IDs de los roles personalizados del usuario (`/api/role`); reemplaza la lista anterior.
+ * @apiParam (Request body) {Boolean} [disabled] `true` para deshabilitar la cuenta, `false` para habilitarla.
+ * @apiParam (Request body) {Object} [scope] Alcance del usuario; las búsquedas ocultan y las modificaciones rechazan lo que quede fuera. Una lista vacía elimina esa restricción.
+ * @apiParam (Request body) {String[]} [scope.lines] Códigos o IDs de las líneas permitidas.
+ * @apiParam (Request body) {String[]} [scope.brands] Códigos o IDs de las marcas permitidas.
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     PUT /api/user?id=5f47a0b5c6b6e6d1f4a2b317 HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <Admin_Token>
+ *     {
+ *       "roles": ["READ", "EDIT"],
+ *       "disabled": false,
+ *       "scope": { "lines": ["GRA", "SUS"] }
+ *     }
+ *
+ * @apiSuccess {Object} data Usuario actualizado.
+ * @apiSuccess {String} data.identifier Identificador único del usuario.
+ * @apiSuccess {String} data.nickname Nombre de usuario.
+ * @apiSuccess {Array} data.roles Arreglo de roles del usuario.
+ * @apiSuccess {String[]} data.custom_roles IDs de los roles personalizados del usuario.
+ * @apiSuccess {Boolean} data.disabled Indica si la cuenta está deshabilitada.
+ * @apiSuccess {Object} data.scope Líneas y marcas permitidas (`_id`).
+ *
+ * @apiError (400) BadRequest No se envió ningún cambio, se intentó deshabilitar la propia cuenta o algún rol personalizado, línea o marca no existe.
+ * @apiError (401) Unauthorized El usuario que realiza la solicitud no tiene permisos de administrador.
+ * @apiError (404) NotFound No se encontró el usuario solicitado.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/user?id=5f47a0b5c6b6e6d1f4a2b317 \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <Admin_Token>" \
+ *     -d '{ "scope": { "lines": ["GRA"], "brands": [] } }'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const admin = get("user");
+  const _id = req.query("id")!;
+  const body = await req.json<
+    Pick<LeanUser, "roles" | "disabled"> & {
+      custom_roles?: string[];
+      scope?: { lines?: string[]; brands?: string[] };
+    }
+  >();
+  const changes: Pick<
+    LeanUser,
+    "role" | "custom_roles" | "disabled" | "scope"
+  > = {};
+  if (body.roles !== undefined) changes.role = intoRole(body.roles);
+  if (body.custom_roles !== undefined) {
+    const custom_roles = await RoleModel.resolve(body.custom_roles);
+    if (!custom_roles) {
+      throw new BadRequestError("Algún rol personalizado no existe");
+    }
+    changes.custom_roles = custom_roles;
+  }
+  if (typeof body.disabled === "boolean") changes.disabled = body.disabled;
+  if (body.scope) {
+    changes.scope = { lines: [], brands: [] };
+    for (const code of body.scope.lines ?? []) {
+      const line = await LineModel.findByCode(code);
+      if (!line) throw new BadRequestError(`La línea ${code} no existe`);
+      changes.scope.lines.push(line);
+    }
+    for (const code of body.scope.brands ?? []) {
+      const brand = await BrandModel.findByCode(code);
+      if (!brand) throw new BadRequestError(`La marca ${code} no existe`);
+      changes.scope.brands.push(brand);
+    }
+  }
+  if (!Object.keys(changes).length) {
+    throw new BadRequestError("No se enviaron los parámetros obligatorios");
+  }
+  if (changes.disabled && admin._id.toString() === _id) {
+    throw new BadRequestError("No puedes deshabilitar tu propia cuenta");
+  }
+
+  const data = await UserModel.findOneAndUpdate({ _id }, changes, {
+    new: true,
+  });
+  if (!data) throw new NotFoundError("No se encontró el usuario solicitado");
+
+  if (data.disabled) await SessionModel.revoke({ user: data._id });
+  if (changes.role !== undefined) await UserModel.bumpTokenVersion(data._id);
+  else cacheManager.deleteUser(data._id.toString());
+
+  const { _id: identifier, nickname, role, custom_roles, disabled, scope } =
+    data;
+  return json({
+    data: {
+      identifier,
+      nickname,
+      roles: intoRoles(role),
+      custom_roles,
+      disabled,
+      scope,
+    },
+  });
+});
@@ -0,0 +1,92 @@
+import { getConnInfo } from "deps";
+import { UnauthorizedError } from "errors";
+import { factory } from "factory";
+import { UserModel } from "models";
+
+import { deviceInfo } from "@utils/device.ts";
+import { loginThrottle } from "@utils/login_throttle.ts";
+import { verifyChallenge } from "@utils/totp.ts";
+
+/**
+ * @api {post} /api/user/login/totp Verificar Segundo Factor
+ * @apiVersion 1.0.0
+ * @apiName VerifyTotpUser
+ * @apiGroup User
+ *
+ * @apiDescription Este endpoint completa el inicio de sesión de un usuario con autenticación de dos factores. Recibe el reto emitido por `/api/user/login` y un código TOTP de la aplicación autenticadora o, si se perdió el dispositivo, uno de los códigos de recuperación (cada uno sirve una sola vez). Si el reto era de inscripción, el código confirma el secreto, se activa TOTP y se devuelven los códigos de recuperación. Los códigos incorrectos cuentan para el bloqueo del inicio de sesión.
+ *
+ * @apiParam (Request body) {String} challenge Token de reto devuelto por `/api/user/login`.
+ * @apiParam (Request body) {String} [code] Código TOTP de la aplicación autenticadora.
+ * @apiParam (Request body) {String} [recovery] Código de recuperación, en lugar de `code`.
+ * @apiParam (Request body) {String} [device] Nombre del equipo, para identificar la sesión en `/api/user/sessions`.
+ *
+ * @apiParamExample {json} Ejemplo de solicitud:
+ *     POST /api/user/login/totp HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     {
+ *       "challenge": "eyJhbGciOiJFUzI1NiIsImtpZCI6IjEifQ...",
+ *       "code": "492039"
+ *     }
+ *
+ * @apiSuccess {String} token Token JWT de acceso.
+ * @apiSuccess {String} refresh Token de refresco.
+ * @apiSuccess {String[]} [recovery_codes] Códigos de recuperación (solo al completar la inscripción).
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *       "refresh": "pZ2c0v9W..."
+ *     }
+ *
+ * @apiError (400) BadRequest No se envió el reto o el código.
+ * @apiError (401) Unauthorized El reto no es válido o caducó, el código es incorrecto o la cuenta está deshabilitada.
+ * @apiError (429) TooManyRequests Se superaron los intentos permitidos; `details.retry_after` indica los segundos de espera.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/user/login/totp \
+ *     -H "Content-Type: application/json" \
+ *     -d '{ "challenge": "eyJhbGciOiJFUzI1NiIsImtpZCI6IjEifQ...", "code": "492039" }'
+ */
+export default factory.createHandlers(async (c) => {
+  const body = await c.req.json<
+    { challenge: string; code?: string; recovery?: string; device?: string }
+  >();
+  const { sub, ver } = await verifyChallenge(body.challenge);
+
+  const user = await UserModel.findById(sub);
+  // Un cambio de contraseña o un cierre de sesión forzado invalida también los retos pendientes
+  if (!user || (user.token_version ?? 0) !== ver) {
+    throw new UnauthorizedError("El reto no es válido o ha expirado");
+  }
+
+  const keys = loginThrottle.keys(
+    user.nickname,
+    getConnInfo(c).remote.address,
+  );
+  await loginThrottle.assert(keys);
+
+  const enrolling = !user.totp_enabled;
+  const valid = enrolling
+    ? await user.checkTotp(body.code)
+    : body.recovery
+    ? await user.useRecoveryCode(body.recovery)
+    : await user.checkTotp(body.code);
+  if (!valid) {
+    await loginThrottle.fail(keys);
+    throw new UnauthorizedError("El código de verificación es incorrecto");
+  }
+  await loginThrottle.reset(loginThrottle.keys(user.nickname));
+
+  if (user.disabled) {
+    throw new UnauthorizedError("La cuenta está deshabilitada");
+  }
+
+  const device = deviceInfo(c, body.device);
+  if (enrolling) {
+    const recovery_codes = await user.enableTotp();
+    return c.json({ ...await user.createSession(device), recovery_codes });
+  }
+  return c.json(await user.createSession(device));
+});
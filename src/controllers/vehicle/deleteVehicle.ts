@@ -0,0 +1,57 @@
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, FitmentModel, VehicleModel } from "models";
+
+/**
+ * @api {delete} /api/vehicle Eliminar Vehículo
+ * @apiVersion 1.0.0
+ * @apiName DeleteVehicle
+ * @apiGroup Vehicle
+ * @apiPermission vehicle.delete
+ *
+ * @apiDescription Este método elimina un vehículo del catálogo junto con las aplicaciones de los items que lo usan. No se puede recuperar.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id ID del vehículo.
+ *
+ * @apiSuccess (200) {Object} data Vehículo eliminado (ver `POST /api/vehicle`).
+ * @apiSuccess (200) {Number} fitments Cantidad de aplicaciones eliminadas.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "_id": "66b2f0c41d2a4b0f8c9e1a23",
+ *         "make": "MAZDA",
+ *         "model": "3",
+ *         "year_from": 2010,
+ *         "year_to": 2013
+ *       },
+ *       "fitments": 12
+ *     }
+ *
+ * @apiError (400) BadRequest El ID proporcionado no es válido.
+ * @apiError (401) Unauthorized El usuario no tiene permisos.
+ * @apiError (404) NotFound No se encontró el vehículo.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X DELETE http://localhost:5885/api/vehicle?id=66b2f0c41d2a4b0f8c9e1a23 \
+ *     -H "Authorization: Bearer <Admin_Token>"
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const data = await VehicleModel.findByIdAndDelete(req.query("id"))
+    .select("-__v").lean();
+  if (!data) throw new NotFoundError("No se encontró el vehículo");
+
+  const { deletedCount } = await FitmentModel.deleteMany({ vehicle: data._id });
+  await AuditLogModel.record(user, {
+    action: "delete",
+    entity: "vehicle",
+    entity_id: data._id,
+    before: data,
+  });
+
+  return json({ data, fitments: deletedCount });
+});
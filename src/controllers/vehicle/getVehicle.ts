@@ -0,0 +1,99 @@
+import type { LeanVehicle } from "@interfaces/vehicle.interface.ts";
+import { setup } from "config";
+import { isValidObjectId } from "deps";
+import { NotFoundError } from "errors";
+import { factory } from "factory";
+import { VehicleModel } from "models";
+
+import { buildPagePipeline, formatPage } from "@utils/pagination.ts";
+
+type Answer = {
+  data: LeanVehicle[];
+  totalDocs: number;
+};
+
+/**
+ * @api {get} /api/vehicle Obtener Vehículo
+ * @apiVersion 1.0.0
+ * @apiName GetVehicle
+ * @apiGroup Vehicle
+ * @apiPermission vehicle.read
+ *
+ * @apiDescription Este método obtiene los vehículos del catálogo de aplicaciones, ordenados por marca, modelo y año, o un vehículo específico con `id`.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} [id] ID del vehículo.
+ * @apiParam (Query string) {String} [make] Marca exacta, sin distinguir mayúsculas.
+ * @apiParam (Query string) {Number} [year] Año de fabricación que deben cubrir los vehículos.
+ * @apiParam (Query string) {Number} [page] Número de página; sin él se devuelven todos los vehículos.
+ *
+ * @apiParamExample {json} Request-Example:
+ *     GET /api/vehicle?make=mazda&year=2012 HTTP/1.1
+ *     Host: localhost:5885
+ *     Authorization: Bearer <User_Token>
+ *
+ * @apiSuccess (200) {Object[]} data Vehículos encontrados (un objeto si se envió `id`).
+ * @apiSuccess (200) {String} data.make Marca del vehículo.
+ * @apiSuccess (200) {String} data.model Modelo del vehículo.
+ * @apiSuccess (200) {Number} data.year_from Primer año de fabricación.
+ * @apiSuccess (200) {Number} data.year_to Último año de fabricación.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": [
+ *         {
+ *           "_id": "66b2f0c41d2a4b0f8c9e1a23",
+ *           "make": "MAZDA",
+ *           "model": "3",
+ *           "year_from": 2010,
+ *           "year_to": 2013
+ *         }
+ *       ]
+ *     }
+ *
+ * @apiError (401) Unauthorized El usuario no tiene permisos.
+ * @apiError (404) NotFound No se encontraron vehículos.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET "http://localhost:5885/api/vehicle?make=mazda&year=2012" \
+ *     -H "Authorization: Bearer <User_Token>"
+ */
+export default factory.createHandlers(async ({ req, json }) => {
+  const _id = req.query("id");
+  if (isValidObjectId(_id)) {
+    const data = await VehicleModel.findById(_id).select("-__v").lean();
+    if (!data) throw new NotFoundError("No se encontraron vehículos");
+
+    return json({ data });
+  }
+
+  const match: Record<string, unknown> = {};
+  const make = req.query("make");
+  if (make) match.make = make.trim().toUpperCase();
+  const year = Number(req.query("year"));
+  if (req.query("year") && Number.isInteger(year)) {
+    match.year_from = { $lte: year };
+    match.year_to = { $gte: year };
+  }
+  const sort = { make: 1, model: 1, year_from: 1 } as const;
+
+  const _page = req.query("page");
+  if (_page) {
+    const page = Number(_page) || 1;
+    const limit = setup.LIMIT.VEHICLE;
+    const [{ data, totalDocs }] = await VehicleModel.aggregate<Answer>()
+      .match(match)
+      .project({ __v: 0 })
+      .append(...buildPagePipeline(limit, page, { $sort: sort }));
+    if (data.length < 1) throw new NotFoundError("No se encontraron vehículos");
+
+    return json(formatPage(data, limit, totalDocs, page));
+  }
+
+  const data = await VehicleModel.find(match).select("-__v").sort(sort).lean();
+  if (data.length < 1) throw new NotFoundError("No se encontraron vehículos");
+
+  return json({ data });
+});
@@ -0,0 +1,4 @@
+export { default as saveVehicle } from "./saveVehicle.ts";
+export { default as getVehicle } from "./getVehicle.ts";
+export { default as updateVehicle } from "./updateVehicle.ts";
+export { default as deleteVehicle } from "./deleteVehicle.ts";
@@ -0,0 +1,84 @@
+import type { LeanVehicle } from "@interfaces/vehicle.interface.ts";
+import { BadRequestError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, VehicleModel } from "models";
+
+import { parseYears } from "@utils/years.ts";
+
+/**
+ * @api {post} /api/vehicle Crear Vehículo
+ * @apiVersion 1.0.0
+ * @apiName SaveVehicle
+ * @apiGroup Vehicle
+ * @apiPermission vehicle.create
+ *
+ * @apiDescription Este método agrega un vehículo al catálogo de aplicaciones. Cada generación de un modelo se registra por separado, con sus años de fabricación; los items se asocian a los vehículos con `/api/fitment`.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Request body) {String} make Marca del vehículo; se guarda en mayúsculas.
+ * @apiParam (Request body) {String} model Modelo del vehículo; se guarda en mayúsculas.
+ * @apiParam (Request body) {Number} year_from Primer año de fabricación.
+ * @apiParam (Request body) {Number} year_to Último año de fabricación.
+ *
+ * @apiParamExample {json} Request-Example:
+ *     POST /api/vehicle HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <User_Token>
+ *     {
+ *       "make": "Mazda",
+ *       "model": "3",
+ *       "year_from": 2010,
+ *       "year_to": 2013
+ *     }
+ *
+ * @apiSuccess (200) {Object} data Vehículo creado.
+ * @apiSuccess (200) {String} data._id ID del vehículo.
+ * @apiSuccess (200) {String} data.make Marca del vehículo.
+ * @apiSuccess (200) {String} data.model Modelo del vehículo.
+ * @apiSuccess (200) {Number} data.year_from Primer año de fabricación.
+ * @apiSuccess (200) {Number} data.year_to Último año de fabricación.
+ *
+ * @apiSuccessExample {json} Success-Response:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "data": {
+ *         "_id": "66b2f0c41d2a4b0f8c9e1a23",
+ *         "make": "MAZDA",
+ *         "model": "3",
+ *         "year_from": 2010,
+ *         "year_to": 2013
+ *       }
+ *     }
+ *
+ * @apiError (400) BadRequest Parámetros no enviados, años inválidos o el vehículo ya existe.
+ * @apiError (401) Unauthorized El usuario no tiene permisos.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X POST http://localhost:5885/api/vehicle \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -d '{"make": "Mazda", "model": "3", "year_from": 2010, "year_to": 2013}'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const body = await req.json<LeanVehicle>();
+  const make = String(body.make).trim().toUpperCase();
+  const model = String(body.model).trim().toUpperCase();
+  const years = parseYears(body);
+  if (await VehicleModel.exists({ make, model, year_from: years.year_from })) {
+    throw new BadRequestError("El vehículo ya existe en el catálogo");
+  }
+
+  const vehicle = await VehicleModel.create({ make, model, ...years });
+  const data = vehicle.toObject({ versionKey: false });
+  await AuditLogModel.record(user, {
+    action: "create",
+    entity: "vehicle",
+    entity_id: data._id,
+    after: data,
+  });
+
+  return json({ data });
+});
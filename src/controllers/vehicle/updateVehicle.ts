@@ -0,0 +1,99 @@
+import type { LeanVehicle } from "@interfaces/vehicle.interface.ts";
+import { BadRequestError, NotFoundError } from "errors";
+import { factory } from "factory";
+import { AuditLogModel, FitmentModel, VehicleModel } from "models";
+
+import { parseYears } from "@utils/years.ts";
+
+/**
+ * @api {put} /api/vehicle Actualizar Vehículo
+ * @apiVersion 1.0.0
+ * @apiName UpdateVehicle
+ * @apiGroup Vehicle
+ * @apiPermission vehicle.update
+ *
+ * @apiDescription Este método modifica un vehículo del catálogo. Los años de fabricación no pueden reducirse si alguna aplicación de un item queda fuera de ellos.
+ *
+ * @apiUse AuthHeader
+ *
+ * @apiParam (Query string) {String} id ID del vehículo.
+ * @apiParam (Request body) {String} [make] Marca del vehículo.
+ * @apiParam (Request body) {String} [model] Modelo del vehículo.
+ * @apiParam (Request body) {Number} [year_from] Primer año de fabricación.
+ * @apiParam (Request body) {Number} [year_to] Último año de fabricación.
+ *
+ * @apiParamExample {json} Request-Example:
+ *     PUT /api/vehicle?id=66b2f0c41d2a4b0f8c9e1a23 HTTP/1.1
+ *     Host: localhost:5885
+ *     Content-Type: application/json
+ *     Authorization: Bearer <User_Token>
+ *     {
+ *       "year_to": 2014
+ *     }
+ *
+ * @apiSuccess (200) {Object} data Vehículo actualizado (ver `POST /api/vehicle`).
+ *
+ * @apiError (400) BadRequest Años inválidos, el vehículo ya existe o hay aplicaciones fuera de los años nuevos.
+ * @apiError (401) Unauthorized El usuario no tiene permisos.
+ * @apiError (404) NotFound No se encontró el vehículo.
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X PUT http://localhost:5885/api/vehicle?id=66b2f0c41d2a4b0f8c9e1a23 \
+ *     -H "Content-Type: application/json" \
+ *     -H "Authorization: Bearer <User_Token>" \
+ *     -d '{"year_to": 2014}'
+ */
+export default factory.createHandlers(async ({ req, get, json }) => {
+  const user = get("user");
+  const _id = req.query("id");
+  const before = await VehicleModel.findById(_id).select("-__v").lean();
+  if (!before) throw new NotFoundError("No se encontró el vehículo");
+
+  const body = await req.json<Partial<LeanVehicle>>();
+  const make = String(body.make ?? before.make).trim().toUpperCase();
+  const model = String(body.model ?? before.model).trim().toUpperCase();
+  const years = parseYears({
+    year_from: body.year_from ?? before.year_from,
+    year_to: body.year_to ?? before.year_to,
+  });
+  const duplicated = await VehicleModel.exists({
+    _id: { $ne: before._id },
+    make,
+    model,
+    year_from: years.year_from,
+  });
+  if (duplicated) {
+    throw new BadRequestError("El vehículo ya existe en el catálogo");
+  }
+
+  const outside = await FitmentModel.countDocuments({
+    vehicle: before._id,
+    $or: [
+      { year_from: { $lt: years.year_from } },
+      { year_to: { $gt: years.year_to } },
+    ],
+  });
+  if (outside) {
+    throw new BadRequestError(
+      "Hay aplicaciones fuera de los años nuevos del vehículo",
+      { fitments: outside },
+    );
+  }
+
+  const data = await VehicleModel.findByIdAndUpdate(
+    _id,
+    { make, model, ...years },
+    { new: true },
+  ).select("-__v").lean();
+  if (!data) throw new NotFoundError("No se encontró el vehículo");
+
+  await AuditLogModel.record(user, {
+    action: "update",
+    entity: "vehicle",
+    entity_id: data._id,
+    before,
+    after: data,
+  });
+
+  return json({ data });
+});
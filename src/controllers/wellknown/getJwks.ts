@@ -0,0 +1,40 @@
+import { factory } from "factory";
+
+import { jwks } from "@utils/jwt_keys.ts";
+
+/**
+ * @api {get} /.well-known/jwks.json Llaves Públicas (JWKS)
+ * @apiVersion 1.0.0
+ * @apiName GetJwks
+ * @apiGroup WellKnown
+ *
+ * @apiDescription Este endpoint publica las llaves públicas con las que se firman los tokens de acceso, para que otros servicios puedan verificarlos sin compartir el secreto. Incluye la llave vigente y las retiradas que siguen en rotación; cada token indica en su encabezado `kid` cuál usar. Con algoritmos HMAC (HS*) el conjunto está vacío.
+ *
+ * @apiSuccess {Object[]} keys Arreglo de llaves en formato JWK.
+ * @apiSuccess {String} keys.kid Identificador de la llave.
+ * @apiSuccess {String} keys.alg Algoritmo de firma.
+ * @apiSuccess {String} keys.use Uso de la llave (`sig`).
+ *
+ * @apiSuccessExample {json} Respuesta exitosa:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "keys": [
+ *         {
+ *           "kty": "EC",
+ *           "crv": "P-256",
+ *           "x": "f83OJ3D2xF1Bg8vub9tLe1gHMzV76e8Tus9uPHvRVEU",
+ *           "y": "x_FEzRu9m36HLN_tue659LNpXW6pCyStikYjKIWI5a0",
+ *           "kid": "2025-01",
+ *           "alg": "ES256",
+ *           "use": "sig"
+ *         }
+ *       ]
+ *     }
+ *
+ * @apiExample {curl} Ejemplo de uso:
+ *     curl -X GET http://localhost:5885/.well-known/jwks.json
+ */
+export default factory.createHandlers(async ({ header, json }) => {
+  header("Cache-Control", "public, max-age=300");
+  return json(await jwks());
+});
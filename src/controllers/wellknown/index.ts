@@ -0,0 +1 @@
+export { default as getJwks } from "./getJwks.ts";
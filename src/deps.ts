@@ -3,21 +3,26 @@ import { Aggregate, isValidObjectId, Types } from "mongoose";
 
 import { Hono } from "@hono/hono";
 import { cors } from "@hono/hono/cors";
+import { getConnInfo } from "@hono/hono/deno";
+import { stream } from "@hono/hono/streaming";
 import { validator } from "@hono/hono/validator";
 import { existsSync } from "@std/fs";
-import { join, resolve } from "@std/path";
+import { dirname, join, resolve } from "@std/path";
 import { extname } from "@std/path/posix";
 
 export {
   Aggregate,
   Context,
   cors,
+  dirname,
   existsSync,
   extname,
+  getConnInfo,
   Hono,
   isValidObjectId,
   join,
   resolve,
+  stream,
   Types,
   validator,
 };
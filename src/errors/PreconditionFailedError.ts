@@ -0,0 +1,24 @@
+import { BaseError } from './BaseError.ts';
+
+/**
+ * Error que indica que el documento cambió desde que el cliente lo leyó.
+ *
+ * @remarks
+ * Se asocia con el código de estado 412, cuando la versión de `If-Match` ya no
+ * coincide con la del servidor.
+ */
+export class PreconditionFailedError extends BaseError {
+  /**
+   * Construye un `PreconditionFailedError`.
+   *
+   * @param message - Mensaje descriptivo del error (por defecto: "El documento fue modificado")
+   * @param details - Información adicional sobre el error (por ejemplo, la copia vigente)
+   */
+  constructor(
+    message: string = "El documento fue modificado",
+    details?: unknown,
+  ) {
+    super(message, 412, true, details);
+    this.name = "PreconditionFailedError";
+  }
+}
@@ -0,0 +1,21 @@
+import { BaseError } from './BaseError.ts';
+
+/**
+ * Error que indica que el cliente superó el número de intentos
+ * permitidos y debe esperar antes de volver a intentarlo.
+ *
+ * @remarks
+ * Se asocia con el código de estado 429.
+ */
+export class TooManyRequestsError extends BaseError {
+  /**
+   * Construye un `TooManyRequestsError`.
+   *
+   * @param message - Mensaje descriptivo del error (por defecto: "Demasiados intentos")
+   * @param details - Información adicional sobre el error
+   */
+  constructor(message: string = "Demasiados intentos", details?: unknown) {
+    super(message, 429, true, details);
+    this.name = "TooManyRequestsError";
+  }
+}
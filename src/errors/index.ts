@@ -4,3 +4,5 @@ export * from "./NotFoundError.ts";
 export * from "./InternalServerError.ts";
 export * from "./MethodNotAllowedError.ts";
 export * from "./UnauthorizedError.ts";
+export * from "./TooManyRequestsError.ts";
+export * from "./PreconditionFailedError.ts";
@@ -19,6 +19,8 @@ export type Env = {
       readonly buffer: Uint8Array;
     };
     readonly user: UserDocument;
+    readonly session: string;
+    readonly api_key?: string;
     readonly location: string;
     readonly "version-file": string;
   };
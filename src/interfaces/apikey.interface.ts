@@ -0,0 +1,102 @@
+import type { UserDocument } from "@interfaces/user.interface.ts";
+import type { setup } from "config";
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Llave de API de larga duración para clientes automatizados (scripts de
+ * ingesta de fotos, exportaciones nocturnas, etc.).
+ */
+interface ApiKey {
+  /**
+   * Nombre descriptivo de la llave (por ejemplo, "ingesta-fotos").
+   */
+  readonly name: string;
+
+  /**
+   * Primeros caracteres de la llave en texto plano, para reconocerla en los listados.
+   */
+  readonly prefix: string;
+
+  /**
+   * Hash SHA-256 de la llave. La llave en texto plano nunca se almacena.
+   */
+  readonly hash: string;
+
+  /**
+   * Permisos de la llave como máscara de bits de `setup.AUTH`.
+   */
+  role: number;
+
+  /**
+   * Roles en un array, usado para mapear cada bit a una clave de setup.AUTH.
+   */
+  roles?: (keyof typeof setup.AUTH)[];
+
+  /**
+   * Rutas permitidas, con la forma `"[MÉTODO ]/api/ruta"`; un `*` final acepta
+   * cualquier subruta. Si está vacío, la llave puede usar cualquier ruta.
+   */
+  routes: string[];
+
+  /**
+   * Administrador que creó la llave.
+   */
+  readonly created_by: Types.ObjectId | string;
+
+  /**
+   * Último uso registrado de la llave.
+   */
+  last_used_at?: Date;
+
+  /**
+   * Fecha en que la llave fue revocada.
+   */
+  revoked_at?: Date;
+}
+
+/**
+ * Interfaz para métodos de instancia de las llaves de API.
+ */
+interface ApiKeyMethods {
+  /**
+   * Indica si la llave puede usarse en la ruta solicitada.
+   *
+   * @param method - Método HTTP de la solicitud.
+   * @param path - Ruta completa de la solicitud (por ejemplo, "/api/item").
+   */
+  allows(method: string, path: string): boolean;
+
+  /**
+   * Construye el usuario (no persistido) que representa a la llave en el contexto,
+   * para que `roleIncludes` funcione igual que con un usuario real.
+   */
+  intoUser(): UserDocument;
+}
+
+/**
+ * Interfaz para métodos estáticos del modelo de llaves de API.
+ */
+interface ApiKeyModel
+  extends Model<ApiKey, Record<symbol, null>, ApiKeyMethods> {
+  /**
+   * Crea una llave nueva.
+   *
+   * @returns La llave creada y su valor en texto plano, que solo se entrega una vez.
+   */
+  issue(
+    data: Pick<ApiKey, "name" | "role" | "routes" | "created_by">,
+  ): Promise<{ data: ApiKeyDocument; key: string }>;
+
+  /**
+   * Busca una llave vigente a partir de su valor en texto plano y registra su uso.
+   *
+   * @returns La llave, o `null` si no existe o fue revocada.
+   */
+  authenticate(key: string): Promise<ApiKeyDocument | null>;
+}
+
+type ApiKeyDocument = HydratedDocument<ApiKey, ApiKeyMethods>;
+
+type LeanApiKey = ApiKey & { _id: Types.ObjectId };
+
+export type { ApiKey, ApiKeyDocument, ApiKeyMethods, ApiKeyModel, LeanApiKey };
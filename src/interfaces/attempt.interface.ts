@@ -0,0 +1,72 @@
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Contador de intentos fallidos de inicio de sesión para una clave
+ * (por ejemplo, `user:<nickname>` o `ip:<dirección>`).
+ */
+interface Attempt {
+  /**
+   * Clave a la que pertenece el contador.
+   */
+  readonly key: string;
+
+  /**
+   * Cantidad de intentos fallidos consecutivos.
+   */
+  count: number;
+
+  /**
+   * Momento hasta el que la clave permanece bloqueada.
+   */
+  locked_until?: Date;
+
+  /**
+   * Momento en que el contador se descarta si no hay nuevos intentos fallidos.
+   */
+  expires_at: Date;
+}
+
+/**
+ * Almacenamiento de los contadores de intentos.
+ *
+ * @remarks
+ * Se implementa sobre MongoDB o en memoria según `setup.THROTTLE.STORE`; la lógica
+ * de retraso exponencial no depende de la implementación.
+ */
+interface AttemptStore {
+  /**
+   * Obtiene el contador vigente de la clave, o `null` si no existe o caducó.
+   */
+  get(key: string): Promise<Pick<Attempt, "count" | "locked_until"> | null>;
+
+  /**
+   * Incrementa el contador de la clave y extiende su caducidad.
+   *
+   * @returns La cantidad de intentos fallidos tras el incremento.
+   */
+  increment(key: string, expires_at: Date): Promise<number>;
+
+  /**
+   * Bloquea la clave hasta la fecha indicada.
+   */
+  lock(key: string, locked_until: Date): Promise<void>;
+
+  /**
+   * Elimina el contador de la clave.
+   */
+  clear(key: string): Promise<void>;
+}
+
+type AttemptModel = Model<Attempt>;
+
+type AttemptDocument = HydratedDocument<Attempt>;
+
+type LeanAttempt = Attempt & { _id: Types.ObjectId };
+
+export type {
+  Attempt,
+  AttemptDocument,
+  AttemptModel,
+  AttemptStore,
+  LeanAttempt,
+};
@@ -0,0 +1,134 @@
+import type { UserDocument } from "@interfaces/user.interface.ts";
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Entidades del catálogo cuyas modificaciones se registran.
+ */
+type AuditEntity =
+  | "brand"
+  | "line"
+  | "key"
+  | "item"
+  | "image"
+  | "vehicle"
+  | "fitment";
+
+/**
+ * Tipo de modificación registrada.
+ */
+type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "reset"
+  | "status"
+  | "restore"
+  | "move"
+  | "revert"
+  | "link"
+  | "unlink"
+  | "purge";
+
+/**
+ * Archivo movido a la papelera, con rutas relativas a la ubicación del catálogo.
+ */
+interface TrashedFile {
+  /**
+   * Ruta original del archivo (por ejemplo, "assets/GRAAC/GRAAC0001 1.jpg").
+   */
+  readonly from: string;
+
+  /**
+   * Ruta del archivo dentro de la papelera.
+   */
+  readonly to: string;
+}
+
+/**
+ * Registro de una modificación del catálogo: quién la hizo, qué cambió y qué
+ * archivos se enviaron a la papelera.
+ */
+interface AuditLog {
+  /**
+   * `_id` del usuario (o de la llave de API) que hizo el cambio.
+   */
+  readonly user: Types.ObjectId | string;
+
+  /**
+   * Nombre del usuario al momento del cambio, por si después se elimina.
+   */
+  readonly nickname: string;
+
+  /**
+   * Tipo de modificación.
+   */
+  readonly action: AuditAction;
+
+  /**
+   * Entidad modificada.
+   */
+  readonly entity: AuditEntity;
+
+  /**
+   * `_id` del documento modificado.
+   */
+  readonly entity_id: Types.ObjectId | string;
+
+  /**
+   * Copia del documento antes del cambio.
+   */
+  readonly before?: unknown;
+
+  /**
+   * Copia del documento después del cambio.
+   */
+  readonly after?: unknown;
+
+  /**
+   * Archivos movidos a la papelera como parte del cambio.
+   */
+  readonly trashed: TrashedFile[];
+
+  /**
+   * Momento en que se hizo el cambio.
+   */
+  readonly created_at: Date;
+}
+
+/**
+ * Datos que cada controlador aporta al registrar una modificación; el usuario y
+ * la fecha se completan al guardar.
+ */
+type AuditEntry =
+  & Pick<AuditLog, "action" | "entity" | "entity_id">
+  & Partial<Pick<AuditLog, "before" | "after" | "trashed">>;
+
+/**
+ * Interfaz para métodos estáticos del modelo de auditoría.
+ */
+interface AuditLogModel extends Model<AuditLog> {
+  /**
+   * Registra una modificación hecha por el usuario indicado. Un fallo al guardar
+   * el registro se informa en consola pero no interrumpe la solicitud, porque el
+   * cambio ya se aplicó.
+   *
+   * @param user - Usuario del contexto (`get("user")`).
+   * @param entry - Acción, entidad, copias y archivos enviados a la papelera.
+   */
+  record(user: UserDocument, entry: AuditEntry): Promise<void>;
+}
+
+type AuditLogDocument = HydratedDocument<AuditLog>;
+
+type LeanAuditLog = AuditLog & { _id: Types.ObjectId };
+
+export type {
+  AuditAction,
+  AuditEntity,
+  AuditEntry,
+  AuditLog,
+  AuditLogDocument,
+  AuditLogModel,
+  LeanAuditLog,
+  TrashedFile,
+};
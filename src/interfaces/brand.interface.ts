@@ -1,4 +1,9 @@
 import type { HydratedDocument, Model, Types } from "mongoose";
+import type {
+  SoftDeleted,
+  SoftDeleteStatics,
+} from "@interfaces/trash.interface.ts";
+import type { Versioned } from "@interfaces/etag.interface.ts";
 
 /**
  * Representa una marca con un código único y una descripción.
@@ -9,7 +14,7 @@ import type { HydratedDocument, Model, Types } from "mongoose";
  * global concatenado. Por ejemplo, una combinación de `Line.code`,
  * `Brand.code` e `Item.code` puede formar un código único como `"GRAPVH0001"`.
  */
-interface Brand {
+interface Brand extends SoftDeleted, Versioned {
   /**
    * Código único de la marca.
    *
@@ -44,7 +49,8 @@ type BrandMethods = Record<symbol, null>;
  * - `findByCode()` permite buscar el ObjectId de una marca según su code,
  *   retornando `null` si no existe.
  */
-interface BrandModel extends Model<Brand, Record<symbol, null>, BrandMethods> {
+interface BrandModel
+  extends Model<Brand, Record<symbol, null>, BrandMethods>, SoftDeleteStatics {
   /**
    * Busca una marca en la base de datos por su code,
    * y retorna su `ObjectId` si la encuentra, en caso contrario `null`.
@@ -0,0 +1,16 @@
+/**
+ * Campo de versión de las líneas, marcas, llaves e ítems, para el control de
+ * concurrencia con `ETag` e `If-Match`.
+ *
+ * @remarks
+ * Cada actualización del documento desde la API incrementa `version`. Los documentos
+ * creados antes de este campo no lo tienen y cuentan como versión 0.
+ */
+interface Versioned {
+  /**
+   * Número de versión del documento.
+   */
+  readonly version?: number;
+}
+
+export type { Versioned };
@@ -0,0 +1,94 @@
+import type { LeanVehicle } from "@interfaces/vehicle.interface.ts";
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Aplicación de un ítem: el vehículo en el que se monta y los años en que aplica.
+ */
+interface Fitment {
+  /**
+   * `_id` del ítem.
+   */
+  readonly item: Types.ObjectId | string;
+
+  /**
+   * `_id` del vehículo.
+   */
+  vehicle: Types.ObjectId | string;
+
+  /**
+   * Primer año en que aplica; dentro de los años de fabricación del vehículo.
+   */
+  year_from: number;
+
+  /**
+   * Último año en que aplica; dentro de los años de fabricación del vehículo.
+   */
+  year_to: number;
+
+  /**
+   * Aclaración opcional (por ejemplo, "con aire acondicionado").
+   */
+  note?: string;
+}
+
+/**
+ * Vehículo y años de una aplicación, ya validados contra el catálogo.
+ */
+type FitmentRange = Pick<Fitment, "vehicle" | "year_from" | "year_to">;
+
+/**
+ * Aplicación con el vehículo poblado, como se devuelve en `getItem` y `getFitment`.
+ */
+interface PopulatedFitment extends Omit<LeanFitment, "vehicle"> {
+  /**
+   * Vehículo poblado desde la colección "Vehicle".
+   */
+  readonly vehicle: LeanVehicle;
+}
+
+/**
+ * Interfaz del modelo Mongoose para la colección de `Fitment`.
+ */
+interface FitmentModel extends Model<Fitment> {
+  /**
+   * Valida el vehículo y los años de una aplicación.
+   *
+   * @param vehicle - `_id` del vehículo.
+   * @param years - Años enviados por el cliente; por defecto, los del vehículo.
+   * @returns El vehículo y los años validados.
+   * @throws {NotFoundError} Si el vehículo no existe.
+   * @throws {BadRequestError} Si los años no son válidos o están fuera de los del
+   *   vehículo.
+   */
+  parseRange(
+    vehicle: Types.ObjectId | string,
+    years: { year_from?: unknown; year_to?: unknown },
+  ): Promise<FitmentRange>;
+
+  /**
+   * Obtiene las aplicaciones con el vehículo poblado, ordenadas por marca, modelo
+   * y año.
+   *
+   * @param filter - Filtro de las aplicaciones (por ejemplo, `{ item }`).
+   */
+  getPopulate(filter: Record<string, unknown>): Promise<PopulatedFitment[]>;
+}
+
+/**
+ * Documento de Mongoose para una aplicación.
+ */
+type FitmentDocument = HydratedDocument<Fitment>;
+
+/**
+ * Versión "lean" de `Fitment`, que incluye la propiedad `_id`.
+ */
+type LeanFitment = Fitment & { _id: Types.ObjectId };
+
+export type {
+  Fitment,
+  FitmentDocument,
+  FitmentModel,
+  FitmentRange,
+  LeanFitment,
+  PopulatedFitment,
+};
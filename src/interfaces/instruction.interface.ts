@@ -14,7 +14,15 @@ type InstructionPatternData =
     value: string;
     extractedValue?: string;
   }
-  | { patternType: "value"; keyPrefix?: string; value: string };
+  | { patternType: "value"; keyPrefix?: string; value: string }
+  | {
+    patternType: "attribute";
+    keyPrefix?: undefined;
+    name: string;
+    operator: ComparisonOperator;
+    value: string;
+  }
+  | { patternType: "vehicle" | "year"; keyPrefix?: undefined; value: string };
 
 interface Instruction {
   token: string; // e.g. "items:[GRAPVH]>0050"
@@ -29,6 +37,9 @@ enum PatternType {
   REGEX = "regex",
   COMPARISON = "comparison",
   RANGE = "range",
+  ATTRIBUTE = "attribute",
+  VEHICLE = "vehicle",
+  YEAR = "year",
 }
 
 enum ComparisonOperator {
@@ -36,6 +47,7 @@ enum ComparisonOperator {
   LT = "<",
   GTE = ">=",
   LTE = "<=",
+  EQ = "=",
 }
 
 // Patrones de tu parser
@@ -65,8 +77,34 @@ interface RangePattern {
   keyPrefix?: string;
 }
 
-type Pattern = ValuePattern | RegexPattern | ComparisonPattern | RangePattern;
-type PatternField = "keys" | "items" | "lines" | "brands";
+// Atributo del ítem definido en su línea (ej. attr:lado=izquierdo)
+interface AttributePattern {
+  type: PatternType.ATTRIBUTE;
+  name: string;
+  operator: ComparisonOperator;
+  value: string;
+}
+
+// Aplicación del ítem: vehículo (ej. veh:"mazda 3") o año (ej. year:2012)
+interface FitmentPattern {
+  type: PatternType.VEHICLE | PatternType.YEAR;
+  value: string;
+}
+
+type Pattern =
+  | ValuePattern
+  | RegexPattern
+  | ComparisonPattern
+  | RangePattern
+  | AttributePattern
+  | FitmentPattern;
+type PatternField =
+  | "keys"
+  | "items"
+  | "lines"
+  | "brands"
+  | "attributes"
+  | "vehicles";
 
 interface ParsedFieldSet {
   include: Pattern[];
@@ -78,6 +116,8 @@ interface ParsedResult {
   items: ParsedFieldSet;
   lines: ParsedFieldSet;
   brands: ParsedFieldSet;
+  attributes: ParsedFieldSet;
+  vehicles: ParsedFieldSet;
   desc?: string;
 }
 
@@ -1,5 +1,12 @@
 import type { Aggregate, HydratedDocument, Model, Types } from "mongoose";
 import type { PopulatedKey } from "@interfaces/key.interface.ts";
+import type { UserDocument } from "@interfaces/user.interface.ts";
+import type {
+  SoftDeleted,
+  SoftDeleteStatics,
+} from "@interfaces/trash.interface.ts";
+import type { Versioned } from "@interfaces/etag.interface.ts";
+import type { AttributeDefinition } from "@interfaces/line.interface.ts";
 
 /**
  * Representa una imagen asociada a un ítem.
@@ -27,6 +34,11 @@ interface Image {
   ext: string;
 }
 
+/**
+ * Valor de un atributo de un ítem, según el tipo definido en su línea.
+ */
+type AttributeValue = string | number | boolean;
+
 /**
  * Representa el documento principal de un "ítem" en el sistema.
  *
@@ -43,7 +55,7 @@ interface Image {
  * console.log("Item guardado con _id:", newItem._id);
  * ```
  */
-interface Item {
+interface Item extends SoftDeleted, Versioned {
   /**
    * Referencia a la clave (Key) asociada a este ítem. Puede ser un
    * ObjectId de Mongoose o un string.
@@ -86,6 +98,14 @@ interface Item {
    * Cada imagen posee un ID y un estado.
    */
   images: Image[];
+
+  /**
+   * Valores de los atributos definidos en la línea del ítem, por nombre.
+   *
+   * @example
+   * { lado: "izquierdo", oem: "8200768913" }
+   */
+  readonly attributes?: Record<string, AttributeValue>;
 }
 
 /**
@@ -130,6 +150,91 @@ interface DeletedInfo {
   }[];
 }
 
+/**
+ * Fila de un archivo de importación de ítems, con los nombres de columna del CSV.
+ */
+interface ImportRow {
+  /** Código completo del ítem (por ejemplo, `GRAPVH0001`). */
+  readonly code?: string;
+  /** Descripción del ítem. */
+  readonly desc?: string;
+  /** Estado inicial de las tres imágenes (0-4). */
+  readonly status?: string;
+  /** Descripción de la línea, si se debe crear. */
+  readonly line_desc?: string;
+  /** Descripción de la marca, si se debe crear. */
+  readonly brand_desc?: string;
+}
+
+/**
+ * Opciones de `ItemModel.importRows`.
+ */
+interface ImportOptions {
+  /**
+   * Usuario que importa; se aplica su alcance y se registra en la auditoría.
+   */
+  readonly user: UserDocument;
+
+  /**
+   * Si es `true`, solo se valida y se devuelve el reporte, sin guardar nada.
+   */
+  readonly dry_run?: boolean;
+
+  /**
+   * Si es `true`, se crean las líneas, marcas y llaves que no existan.
+   */
+  readonly create?: boolean;
+}
+
+/**
+ * Resultado de una importación de ítems.
+ */
+interface ImportReport {
+  /** Filas recibidas. */
+  readonly total: number;
+  /** Filas que pasaron la validación. */
+  valid: number;
+  /** Ítems guardados (0 en modo de prueba). */
+  inserted: number;
+  /**
+   * Filas rechazadas; `row` es el número de fila en el archivo, contando el encabezado.
+   */
+  readonly errors: { row: number; code?: string; errors: string[] }[];
+  /** Códigos de las líneas, marcas y llaves creadas (o que se crearían). */
+  readonly created: { lines: string[]; brands: string[]; keys: string[] };
+}
+
+/**
+ * Rango de códigos numéricos sin usar dentro de una llave, con ambos extremos incluidos.
+ */
+interface CodeGap {
+  /** Primer código libre (por ejemplo, "0003"). */
+  readonly from: string;
+  /** Último código libre (por ejemplo, "0007"). */
+  readonly to: string;
+  /** Cantidad de códigos libres en el rango. */
+  readonly count: number;
+}
+
+/**
+ * Uso de los códigos de ítem de una llave.
+ *
+ * @remarks
+ * Los ítems en la papelera cuentan como usados porque el índice `(key, code)` también
+ * los incluye.
+ */
+interface CodeReport {
+  /** Códigos ocupados, incluidos los no numéricos. */
+  readonly used: number;
+  /**
+   * Código que se asigna al siguiente ítem: el que sigue al mayor código numérico, o el
+   * primer hueco si ya se llegó a "9999". `null` si no quedan códigos.
+   */
+  readonly next: string | null;
+  /** Rangos libres entre "0001" y el mayor código numérico. */
+  readonly gaps: CodeGap[];
+}
+
 /**
  * Métodos de instancia que se pueden asignar a un documento de `Item`.
  * Actualmente vacío, pero puedes extenderlo en el futuro.
@@ -143,7 +248,8 @@ type ItemMethods = Record<symbol, null>;
  * Incluye métodos estáticos adicionales, como `findByCode`, `getBackInfo`,
  * `getPopulate`, `getFuzzy`, `getStatus` y `getImage`.
  */
-interface ItemModel extends Model<Item, Record<symbol, null>, ItemMethods> {
+interface ItemModel
+  extends Model<Item, Record<symbol, null>, ItemMethods>, SoftDeleteStatics {
   /**
    * Busca un ítem por su `code` y retorna su `_id` en caso de existir,
    * o `null` en caso contrario.
@@ -179,6 +285,7 @@ interface ItemModel extends Model<Item, Record<symbol, null>, ItemMethods> {
    * un `Aggregate` con el tipo `PopulatedItem`.
    *
    * @param id - Opcional, para filtrar
+   * @param scope - Opcional, filtro de alcance del usuario (`user.scopeMatch()`)
    * @typeParam T - El tipo genérico devuelto (por defecto `PopulatedItem`)
    * @returns Una instancia de `Aggregate<T[]>`
    *
@@ -189,7 +296,10 @@ interface ItemModel extends Model<Item, Record<symbol, null>, ItemMethods> {
    * console.log(populated);
    * ```
    */
-  getPopulate<T = PopulatedItem>(id?: string): Aggregate<T[]>;
+  getPopulate<T = PopulatedItem>(
+    id?: string,
+    scope?: Record<string, unknown>,
+  ): Aggregate<T[]>;
 
   /**
    * Ejecuta una búsqueda difusa (fuzzy) sobre un `key` y un `code`.
@@ -197,6 +307,7 @@ interface ItemModel extends Model<Item, Record<symbol, null>, ItemMethods> {
    *
    * @param key - Cadena de búsqueda para la key
    * @param code - Cadena de búsqueda para el code
+   * @param scope - Opcional, filtro de alcance del usuario (`user.scopeMatch()`)
    *
    * @example
    * ```ts
@@ -204,7 +315,11 @@ interface ItemModel extends Model<Item, Record<symbol, null>, ItemMethods> {
    * results.forEach(doc => console.log(doc.code));
    * ```
    */
-  getFuzzy(key: string, code: string): Aggregate<{ code: string }[]>;
+  getFuzzy(
+    key: string,
+    code: string,
+    scope?: Record<string, unknown>,
+  ): Aggregate<{ code: string }[]>;
 
   /**
    * Obtiene el estado de una imagen específica, identificada por `id` (del Item)
@@ -256,6 +371,128 @@ interface ItemModel extends Model<Item, Record<symbol, null>, ItemMethods> {
     image: LeanItem["images"][number];
     ext: string;
   }[]>;
+
+  /**
+   * Valida e importa ítems a partir de las filas de un archivo CSV.
+   *
+   * @param rows - Filas del archivo, sin el encabezado.
+   * @param options - Usuario, modo de prueba y creación de líneas, marcas y llaves.
+   * @returns El reporte con los errores de cada fila y lo que se creó.
+   *
+   * @example
+   * ```ts
+   * const report = await ItemModel.importRows(parseCsvRecords(text), {
+   *   user,
+   *   dry_run: true,
+   * });
+   * ```
+   */
+  importRows(
+    rows: ImportRow[],
+    options: ImportOptions,
+  ): Promise<ImportReport>;
+
+  /**
+   * Actualiza la llave, el código o la descripción de un ítem. Si cambia la llave o el
+   * código, valida que el destino esté libre y mueve sus imágenes (y sus variantes en
+   * `.cache`); si la actualización falla, los archivos regresan a su ruta anterior.
+   *
+   * @param item - Documento del ítem antes del cambio.
+   * @param update - Campos por modificar.
+   * @param location - Ubicación del catálogo; sin ella no se mueven archivos.
+   * @returns Los archivos renombrados.
+   * @throws {BadRequestError} Si el destino ya está ocupado por otro ítem (activo o en
+   * la papelera) o por una imagen.
+   * @throws {NotFoundError} Si el documento no se modificó.
+   *
+   * @example
+   * ```ts
+   * const moved = await ItemModel.relocate(item, { key, code: "0007" }, location);
+   * ```
+   */
+  relocate(
+    item: ItemDocument,
+    update: ItemUpdate,
+    location?: string,
+  ): Promise<MovedFile[]>;
+
+  /**
+   * Valida los atributos de un ítem contra las definiciones de la línea de su llave y
+   * convierte cada valor al tipo definido.
+   *
+   * @param key - `_id` de la llave del ítem.
+   * @param values - Valores enviados por el cliente; `null` omite el atributo.
+   * @returns Los valores ya convertidos.
+   * @throws {BadRequestError} Si la llave no existe, algún atributo no está definido en
+   * la línea, su valor no corresponde al tipo o falta uno obligatorio; `details` lista
+   * los errores.
+   *
+   * @example
+   * ```ts
+   * const attributes = await ItemModel.parseAttributes(item.key, {
+   *   lado: "Izquierdo",
+   *   piezas: "2",
+   * });
+   * // { lado: "izquierdo", piezas: 2 }
+   * ```
+   */
+  parseAttributes(
+    key: Types.ObjectId | string,
+    values: Record<string, unknown>,
+  ): Promise<Record<string, AttributeValue>>;
+
+  /**
+   * Verifica que los atributos de los ítems de una llave, incluidos los de la papelera,
+   * sean válidos con las definiciones de otra línea.
+   *
+   * @param key - `_id` de la llave.
+   * @param line - `_id` de la línea nueva.
+   * @throws {BadRequestError} Si algún ítem no cumple con las definiciones; `details`
+   * lista los errores por código.
+   *
+   * @example
+   * ```ts
+   * await ItemModel.assertAttributes(_id, line);
+   * await KeyModel.updateOne({ _id }, { line });
+   * ```
+   */
+  assertAttributes(
+    key: Types.ObjectId | string,
+    line: Types.ObjectId | string,
+  ): Promise<void>;
+
+  /**
+   * Verifica que los atributos de los ítems de una línea, incluidos los de la papelera,
+   * sean válidos con nuevas definiciones de la línea.
+   *
+   * @param line - `_id` de la línea.
+   * @param definitions - Definiciones que tendrá la línea.
+   * @throws {BadRequestError} Si algún ítem no cumple con las definiciones; `details`
+   * lista los errores por código.
+   *
+   * @example
+   * ```ts
+   * await ItemModel.assertDefinitions(_id, parseDefinitions(body.attributes));
+   * ```
+   */
+  assertDefinitions(
+    line: Types.ObjectId | string,
+    definitions: AttributeDefinition[],
+  ): Promise<void>;
+
+  /**
+   * Calcula los códigos usados y libres de una llave, incluyendo los ítems en la papelera.
+   *
+   * @param key - `_id` de la llave.
+   * @returns El siguiente código por asignar y los rangos libres.
+   *
+   * @example
+   * ```ts
+   * const { next, gaps } = await ItemModel.codeReport(key);
+   * // next: "0042", gaps: [{ from: "0003", to: "0007", count: 5 }]
+   * ```
+   */
+  codeReport(key: Types.ObjectId | string): Promise<CodeReport>;
 }
 
 /**
@@ -270,6 +507,29 @@ type ItemDocument = HydratedDocument<Item, ItemMethods>;
  */
 type LeanItem = Item & { _id: Types.ObjectId };
 
+/**
+ * Campos de un ítem que se modifican con `ItemModel.relocate`.
+ */
+type ItemUpdate = Partial<Pick<Item, "code" | "desc" | "attributes">> & {
+  key?: Types.ObjectId;
+};
+
+/**
+ * Archivo renombrado al mover un ítem a otra llave o código, con rutas relativas a la
+ * ubicación del catálogo.
+ */
+interface MovedFile {
+  /**
+   * Ruta anterior (por ejemplo, "assets/GRAAC/GRAAC0001 1.jpg").
+   */
+  readonly from: string;
+
+  /**
+   * Ruta nueva (por ejemplo, "assets/GRAPVH/GRAPVH0001 1.jpg").
+   */
+  readonly to: string;
+}
+
 /**
  * Versión poblada (cuando se hace `populate`), la cual
  * reemplaza `key` con un `PopulatedKey`.
@@ -280,13 +540,21 @@ interface PopulatedItem extends Omit<LeanItem, "key"> {
 }
 
 export type {
+  AttributeValue,
+  CodeGap,
+  CodeReport,
   DeletedInfo,
   Image,
+  ImportOptions,
+  ImportReport,
+  ImportRow,
   Item,
   ItemDocument,
   ItemMethods,
   ItemModel,
+  ItemUpdate,
   LeanItem,
+  MovedFile,
   PopulatedItem,
   StatusInfo,
 };
@@ -1,6 +1,11 @@
 import type { Aggregate, HydratedDocument, Model, Types } from "mongoose";
 import type { LeanBrand } from "@interfaces/brand.interface.ts";
 import type { LeanLine } from "@interfaces/line.interface.ts";
+import type {
+  SoftDeleted,
+  SoftDeleteStatics,
+} from "@interfaces/trash.interface.ts";
+import type { Versioned } from "@interfaces/etag.interface.ts";
 
 /**
  * Representa una clave en el sistema, compuesta por una línea y una marca asociadas.
@@ -16,7 +21,7 @@ import type { LeanLine } from "@interfaces/line.interface.ts";
  * - BRAND: PVH
  * Concatenado: `GRAPVH`
  */
-interface Key {
+interface Key extends SoftDeleted, Versioned {
   /**
    * Identificador de la línea, puede ser un `ObjectId` o un string.
    */
@@ -46,7 +51,8 @@ type KeyMethods = Record<string | number | symbol, null>;
  * - Incluye métodos estáticos como `findByCode`, `getPopulate` y `getFuzzy`.
  * - Se basa en la interfaz `Key` para la definición de sus campos.
  */
-interface KeyModel extends Model<Key, Record<symbol, null>, KeyMethods> {
+interface KeyModel
+  extends Model<Key, Record<symbol, null>, KeyMethods>, SoftDeleteStatics {
   /**
    * Busca una clave por su `code` (objeto o string) y retorna su `_id`
    * en caso de existir, o `null` en caso contrario.
@@ -71,6 +77,7 @@ interface KeyModel extends Model<Key, Record<symbol, null>, KeyMethods> {
    * devolviendo un `Aggregate` con el tipo `PopulatedKey` (o T genérico).
    *
    * @param id - Opcional, para filtrar por `_id` en la búsqueda
+   * @param scope - Opcional, filtro de alcance del usuario (`user.scopeMatch(...)`)
    * @typeParam T - El tipo genérico devuelto (por defecto `PopulatedKey`)
    * @returns Una instancia de `Aggregate<T[]>`
    *
@@ -81,13 +88,17 @@ interface KeyModel extends Model<Key, Record<symbol, null>, KeyMethods> {
    * console.log("Resultado poblado:", populatedKeys);
    * ```
    */
-  getPopulate<T = PopulatedKey>(id?: string): Aggregate<T[]>;
+  getPopulate<T = PopulatedKey>(
+    id?: string,
+    scope?: Record<string, unknown>,
+  ): Aggregate<T[]>;
 
   /**
    * Realiza una búsqueda difusa (fuzzy) según un código parcial, retornando
    * un `Aggregate` que produce `{ code: string }`.
    *
    * @param key - Fragmento de cadena para la línea o marca
+   * @param scope - Opcional, filtro de alcance del usuario (`user.scopeMatch(...)`)
    * @returns Un pipeline de agregación con los resultados que incluyan la propiedad `code`.
    *
    * @example
@@ -96,7 +107,10 @@ interface KeyModel extends Model<Key, Record<symbol, null>, KeyMethods> {
    * results.forEach(r => console.log(r.code));
    * ```
    */
-  getFuzzy(key: string): Aggregate<{ code: string }[]>;
+  getFuzzy(
+    key: string,
+    scope?: Record<string, unknown>,
+  ): Aggregate<{ code: string }[]>;
 }
 
 /**
@@ -1,4 +1,46 @@
 import type { HydratedDocument, Model, Types } from "mongoose";
+import type {
+  SoftDeleted,
+  SoftDeleteStatics,
+} from "@interfaces/trash.interface.ts";
+import type { Versioned } from "@interfaces/etag.interface.ts";
+
+/**
+ * Tipo de valor de un atributo.
+ */
+type AttributeType = "string" | "enum" | "number" | "boolean";
+
+/**
+ * Definición de un atributo que pueden tener los ítems de una línea (por ejemplo, el
+ * lado, el color o el número OEM), para no guardarlo dentro de la descripción.
+ */
+interface AttributeDefinition {
+  /**
+   * Nombre del atributo en minúsculas; es el que se usa en `attr:nombre=valor`.
+   *
+   * @example
+   * "lado"
+   */
+  readonly name: string;
+
+  /**
+   * Tipo de valor que acepta el atributo.
+   */
+  readonly type: AttributeType;
+
+  /**
+   * Valores permitidos, solo para el tipo `enum`.
+   *
+   * @example
+   * ["izquierdo", "derecho"]
+   */
+  readonly options?: string[];
+
+  /**
+   * Indica si el atributo es obligatorio al asignar los atributos de un ítem.
+   */
+  readonly required?: boolean;
+}
 
 /**
  * Representa una línea en el sistema, con un código único y una descripción.
@@ -7,7 +49,7 @@ import type { HydratedDocument, Model, Types } from "mongoose";
  * El campo `code` se utiliza como identificador único para la línea y se formatea para que tenga
  * exactamente 3 caracteres, rellenándose con espacios a la derecha si es necesario.
  */
-interface Line {
+interface Line extends SoftDeleted, Versioned {
   /**
    * Código único de la línea.
    *
@@ -23,6 +65,11 @@ interface Line {
    * "línea de ejemplo"
    */
   readonly desc: string;
+
+  /**
+   * Atributos que pueden tener los ítems de la línea.
+   */
+  readonly attributes?: AttributeDefinition[];
 }
 
 /**
@@ -40,7 +87,8 @@ type LineMethods = Record<symbol, null>;
  * Proporciona el método estático `findByCode` para buscar una línea por su código
  * o identificador.
  */
-interface LineModel extends Model<Line, Record<symbol, null>, LineMethods> {
+interface LineModel
+  extends Model<Line, Record<symbol, null>, LineMethods>, SoftDeleteStatics {
   /**
    * Busca una línea por su `code` y retorna su `_id` en caso de existir,
    * o `null` si no se encuentra.
@@ -68,4 +116,12 @@ type LineDocument = HydratedDocument<Line, LineMethods>;
  */
 type LeanLine = Line & { _id: Types.ObjectId };
 
-export type { LeanLine, Line, LineDocument, LineMethods, LineModel };
+export type {
+  AttributeDefinition,
+  AttributeType,
+  LeanLine,
+  Line,
+  LineDocument,
+  LineMethods,
+  LineModel,
+};
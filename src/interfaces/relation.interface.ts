@@ -0,0 +1,157 @@
+import type { UserDocument } from "@interfaces/user.interface.ts";
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Tipo de relación entre dos ítems, desde el punto de vista del ítem que la crea:
+ * - `equivalent`: el otro ítem es intercambiable con este.
+ * - `supersedes`: este ítem reemplaza al otro.
+ * - `superseded_by`: el otro ítem reemplaza a este.
+ * - `kit_component`: el otro ítem es una pieza del kit que es este ítem.
+ */
+type RelationType =
+  | "equivalent"
+  | "supersedes"
+  | "superseded_by"
+  | "kit_component";
+
+/**
+ * Tipo de relación vista desde cualquiera de los dos ítems. Además de `RelationType`,
+ * `kit` indica que el ítem es una pieza del kit que es el otro.
+ */
+type RelationView = RelationType | "kit";
+
+/**
+ * Relación guardada entre dos ítems.
+ *
+ * @remarks
+ * `superseded_by` se guarda como `supersedes` con los ítems invertidos, de modo que
+ * cada relación tiene un solo documento. Dos ítems solo pueden tener una relación.
+ */
+interface Relation {
+  /**
+   * `_id` del ítem de origen (el kit o el que reemplaza).
+   */
+  readonly item: Types.ObjectId | string;
+
+  /**
+   * `_id` del ítem relacionado (la pieza o el reemplazado).
+   */
+  readonly target: Types.ObjectId | string;
+
+  /**
+   * Tipo de relación; nunca `superseded_by`.
+   */
+  readonly type: Exclude<RelationType, "superseded_by">;
+
+  /**
+   * `_id` del usuario (o de la llave de API) que creó la relación.
+   */
+  readonly user: Types.ObjectId | string;
+
+  /**
+   * Momento en que se creó la relación.
+   */
+  readonly created_at: Date;
+}
+
+/**
+ * Relación de un ítem con el ítem del otro extremo, como se devuelve en `getItem`.
+ */
+interface ItemRelation {
+  /**
+   * Tipo de relación desde el punto de vista del ítem consultado.
+   */
+  readonly type: RelationView;
+
+  /**
+   * `_id` del otro ítem.
+   */
+  readonly _id: Types.ObjectId;
+
+  /**
+   * Código completo del otro ítem (línea, marca y código).
+   */
+  readonly code: string;
+
+  /**
+   * Descripción del otro ítem.
+   */
+  readonly desc: string;
+}
+
+/**
+ * Interfaz del modelo Mongoose para la colección de `Relation`.
+ */
+interface RelationModel extends Model<Relation> {
+  /**
+   * Relaciona dos ítems.
+   *
+   * @param user - Usuario del contexto (`get("user")`).
+   * @param item - `_id` del ítem de origen.
+   * @param target - `_id` o código completo del otro ítem.
+   * @param type - Tipo de relación desde el punto de vista de `item`.
+   * @returns La relación guardada.
+   * @throws {BadRequestError} Si el tipo no es válido, los ítems son el mismo o ya
+   *   están relacionados.
+   * @throws {NotFoundError} Si alguno de los ítems no existe.
+   */
+  link(
+    user: UserDocument,
+    item: Types.ObjectId | string,
+    target: Types.ObjectId | string,
+    type: RelationType,
+  ): Promise<RelationDocument>;
+
+  /**
+   * Elimina la relación entre dos ítems, sin importar cuál la creó.
+   *
+   * @param item - `_id` de uno de los ítems.
+   * @param target - `_id` o código completo del otro ítem.
+   * @returns La relación eliminada, o `null` si no estaban relacionados.
+   */
+  unlink(
+    item: Types.ObjectId | string,
+    target: Types.ObjectId | string,
+  ): Promise<LeanRelation | null>;
+
+  /**
+   * Obtiene las relaciones de un ítem con los ítems activos.
+   *
+   * @param item - `_id` del ítem.
+   * @param scope - Opcional, filtro aplicado a los otros ítems tras poblarlos
+   *   (ver `UserMethods.scopeMatch`).
+   */
+  forItem(
+    item: Types.ObjectId | string,
+    scope?: Record<string, unknown>,
+  ): Promise<ItemRelation[]>;
+
+  /**
+   * Elimina todas las relaciones de los ítems indicados. Se usa al eliminarlos
+   * definitivamente; la papelera conserva las relaciones.
+   *
+   * @param items - `_id` de los ítems.
+   * @returns Cantidad de relaciones eliminadas.
+   */
+  purge(items: readonly (Types.ObjectId | string)[]): Promise<number>;
+}
+
+/**
+ * Documento de Mongoose para una relación.
+ */
+type RelationDocument = HydratedDocument<Relation>;
+
+/**
+ * Versión "lean" de `Relation`, que incluye la propiedad `_id`.
+ */
+type LeanRelation = Relation & { _id: Types.ObjectId };
+
+export type {
+  ItemRelation,
+  LeanRelation,
+  Relation,
+  RelationDocument,
+  RelationModel,
+  RelationType,
+  RelationView,
+};
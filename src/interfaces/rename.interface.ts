@@ -0,0 +1,209 @@
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Entidad cuyo cambio de código origina un trabajo de renombrado.
+ */
+type RenameEntity = "line" | "brand" | "key";
+
+/**
+ * Estado de un trabajo de renombrado.
+ *
+ * @remarks
+ * - `pending`: en espera de que terminen los trabajos anteriores.
+ * - `running`: renombrando carpetas.
+ * - `done`: terminado; puede tener conflictos.
+ * - `failed`: interrumpido por un error (ver `error`).
+ */
+type RenameStatus = "pending" | "running" | "done" | "failed";
+
+/**
+ * Carpeta de una llave dentro de "assets" que cambia de nombre.
+ */
+interface RenameFolder {
+  /**
+   * Código de la llave antes del cambio (por ejemplo, "GRAAC").
+   */
+  readonly from: string;
+
+  /**
+   * Código de la llave después del cambio (por ejemplo, "GRBAC").
+   */
+  readonly to: string;
+}
+
+/**
+ * Archivo que no se pudo renombrar y se dejó en su ruta original.
+ */
+interface RenameConflict {
+  /**
+   * Ruta del archivo, relativa a la ubicación del catálogo.
+   */
+  readonly from: string;
+
+  /**
+   * Ruta que debía ocupar, si se pudo calcular.
+   */
+  readonly to?: string;
+
+  /**
+   * Motivo por el que se omitió.
+   */
+  readonly reason: string;
+}
+
+/**
+ * Trabajo que renombra las carpetas y las imágenes de las llaves afectadas por el
+ * cambio de código de una línea o una marca, o por el cambio de línea o marca de una llave.
+ *
+ * @remarks
+ * Las carpetas se calculan al crear el trabajo, con los códigos vigentes en ese momento,
+ * y los trabajos se ejecutan uno a la vez en orden de creación; así, dos cambios seguidos
+ * (por ejemplo, de la línea y después de la marca) se aplican sobre el resultado del anterior.
+ */
+interface RenameJob {
+  /**
+   * Entidad cuyo código cambió.
+   */
+  readonly entity: RenameEntity;
+
+  /**
+   * `_id` de la línea, la marca o la llave.
+   */
+  readonly entity_id: Types.ObjectId | string;
+
+  /**
+   * Código anterior de la línea, la marca o la llave.
+   */
+  readonly from: string;
+
+  /**
+   * Código nuevo de la línea, la marca o la llave.
+   */
+  readonly to: string;
+
+  /**
+   * `_id` del usuario que cambió el código.
+   */
+  readonly user: Types.ObjectId | string;
+
+  /**
+   * Ubicación del catálogo (carpeta que contiene "assets").
+   */
+  readonly location: string;
+
+  /**
+   * Estado del trabajo.
+   */
+  status: RenameStatus;
+
+  /**
+   * Carpetas por renombrar, una por llave afectada.
+   */
+  readonly folders: RenameFolder[];
+
+  /**
+   * Carpetas ya procesadas.
+   */
+  processed: number;
+
+  /**
+   * Imágenes renombradas.
+   */
+  renamed: number;
+
+  /**
+   * Archivos de `.cache` eliminados por quedar obsoletos.
+   */
+  cleared: number;
+
+  /**
+   * Archivos que no se pudieron renombrar.
+   */
+  conflicts: RenameConflict[];
+
+  /**
+   * Mensaje del error que interrumpió el trabajo.
+   */
+  error?: string;
+
+  /**
+   * Fecha de creación del trabajo.
+   */
+  readonly created_at: Date;
+
+  /**
+   * Fecha en que terminó el trabajo, con o sin error.
+   */
+  finished_at?: Date;
+}
+
+/**
+ * Datos con los que se crea un trabajo de renombrado.
+ */
+type RenameRequest = Pick<
+  RenameJob,
+  "entity" | "entity_id" | "from" | "to" | "location"
+>;
+
+/**
+ * Interfaz del modelo Mongoose para la colección de `RenameJob`.
+ */
+interface RenameJobModel extends Model<RenameJob> {
+  /**
+   * Crea el trabajo de renombrado y lo agrega a la cola, sin esperar a que termine.
+   *
+   * @param user - `_id` del usuario que cambió el código.
+   * @param request - Entidad, códigos anterior y nuevo, y ubicación del catálogo.
+   * @returns El trabajo creado, en estado `pending`.
+   *
+   * @example
+   * ```ts
+   * const job = await RenameJobModel.enqueue(user._id, {
+   *   entity: "line",
+   *   entity_id: _id,
+   *   from: "GRA",
+   *   to: "GRB",
+   *   location,
+   * });
+   * ```
+   */
+  enqueue(
+    user: Types.ObjectId | string,
+    request: RenameRequest,
+  ): Promise<RenameJobDocument>;
+
+  /**
+   * Vuelve a agregar a la cola los trabajos que quedaron sin terminar al detener el
+   * servidor; cada uno continúa desde la primera carpeta sin procesar.
+   *
+   * @returns La cantidad de trabajos reanudados.
+   *
+   * @example
+   * ```ts
+   * await RenameJobModel.resume();
+   * ```
+   */
+  resume(): Promise<number>;
+}
+
+/**
+ * Documento de Mongoose para un trabajo de renombrado.
+ */
+type RenameJobDocument = HydratedDocument<RenameJob>;
+
+/**
+ * Versión "lean" de `RenameJob`, que incluye la propiedad `_id`.
+ */
+type LeanRenameJob = RenameJob & { _id: Types.ObjectId };
+
+export type {
+  LeanRenameJob,
+  RenameConflict,
+  RenameEntity,
+  RenameFolder,
+  RenameJob,
+  RenameJobDocument,
+  RenameJobModel,
+  RenameRequest,
+  RenameStatus,
+};
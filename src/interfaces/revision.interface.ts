@@ -0,0 +1,155 @@
+import type { UserDocument } from "@interfaces/user.interface.ts";
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Entidades del catálogo con historial de revisiones.
+ */
+type RevisionEntity = "item" | "key" | "line" | "brand";
+
+/**
+ * Cambio de un campo dentro de una revisión.
+ */
+interface RevisionChange {
+  /**
+   * Nombre del campo (por ejemplo, "desc").
+   */
+  readonly field: string;
+
+  /**
+   * Valor anterior. Ausente si el campo no tenía valor.
+   */
+  readonly from?: unknown;
+
+  /**
+   * Valor nuevo. Ausente si el campo se eliminó.
+   */
+  readonly to?: unknown;
+}
+
+/**
+ * Versión de un documento del catálogo: los campos que cambiaron en una
+ * actualización, quién la hizo y cuándo.
+ *
+ * @remarks
+ * `rev` empieza en 1 por documento; la revisión 0 es el estado anterior al
+ * primer cambio registrado.
+ */
+interface Revision {
+  /**
+   * Entidad del documento.
+   */
+  readonly entity: RevisionEntity;
+
+  /**
+   * `_id` del documento.
+   */
+  readonly entity_id: Types.ObjectId | string;
+
+  /**
+   * Número de revisión del documento.
+   */
+  readonly rev: number;
+
+  /**
+   * `_id` del usuario (o de la llave de API) que hizo el cambio.
+   */
+  readonly user: Types.ObjectId | string;
+
+  /**
+   * Nombre del usuario al momento del cambio, por si después se elimina.
+   */
+  readonly nickname: string;
+
+  /**
+   * Campos que cambiaron.
+   */
+  readonly changes: RevisionChange[];
+
+  /**
+   * Revisión a la que se volvió, si el cambio se hizo con `/revert`.
+   */
+  readonly reverted?: number;
+
+  /**
+   * Momento en que se hizo el cambio.
+   */
+  readonly created_at: Date;
+}
+
+/**
+ * Interfaz del modelo Mongoose para la colección de `Revision`.
+ */
+interface RevisionModel extends Model<Revision> {
+  /**
+   * Registra como nueva revisión los campos versionados que difieren entre dos
+   * copias del documento.
+   *
+   * @param user - Usuario del contexto (`get("user")`).
+   * @param entity - Entidad del documento.
+   * @param before - Copia del documento antes del cambio.
+   * @param after - Copia del documento después del cambio.
+   * @param reverted - Revisión a la que se volvió, si el cambio es una reversión.
+   * @returns La revisión creada, o `null` si ningún campo versionado cambió.
+   *
+   * @example
+   * ```ts
+   * const before = await LineModel.findById(_id).lean();
+   * const after = await LineModel.findByIdAndUpdate(_id, body, { new: true }).lean();
+   * await RevisionModel.record(user, "line", before, after);
+   * ```
+   */
+  record(
+    user: UserDocument,
+    entity: RevisionEntity,
+    before: object,
+    after: object,
+    reverted?: number,
+  ): Promise<RevisionDocument | null>;
+
+  /**
+   * Obtiene las revisiones de un documento, de la más reciente a la más antigua.
+   *
+   * @param entity - Entidad del documento.
+   * @param id - `_id` del documento.
+   */
+  history(
+    entity: RevisionEntity,
+    id: Types.ObjectId | string,
+  ): Promise<LeanRevision[]>;
+
+  /**
+   * Calcula los valores que devuelven el documento al estado que tenía justo
+   * después de la revisión indicada: para cada campo que cambió en una revisión
+   * posterior, su valor anterior al primero de esos cambios.
+   *
+   * @param entity - Entidad del documento.
+   * @param id - `_id` del documento.
+   * @param rev - Revisión a la que se vuelve (0 para el estado anterior al primer cambio).
+   * @returns Los campos por modificar y sus valores.
+   * @throws {NotFoundError} Si el documento no tiene la revisión indicada o ya está en ella.
+   */
+  valuesAt(
+    entity: RevisionEntity,
+    id: Types.ObjectId | string,
+    rev: number,
+  ): Promise<Record<string, unknown>>;
+}
+
+/**
+ * Documento de Mongoose para una revisión.
+ */
+type RevisionDocument = HydratedDocument<Revision>;
+
+/**
+ * Versión "lean" de `Revision`, que incluye la propiedad `_id`.
+ */
+type LeanRevision = Revision & { _id: Types.ObjectId };
+
+export type {
+  LeanRevision,
+  Revision,
+  RevisionChange,
+  RevisionDocument,
+  RevisionEntity,
+  RevisionModel,
+};
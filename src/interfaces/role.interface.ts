@@ -0,0 +1,55 @@
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Rol personalizado definido por un administrador como un conjunto de permisos
+ * finos del catálogo `setup.PERMISSIONS` (por ejemplo, un fotógrafo con
+ * `item.read` e `item.image.upload`).
+ */
+interface Role {
+  /**
+   * Nombre único del rol, en minúsculas.
+   */
+  readonly name: string;
+
+  /**
+   * Descripción opcional del rol.
+   */
+  desc?: string;
+
+  /**
+   * Permisos que concede el rol; admiten comodines como `"item.*"`.
+   */
+  permissions: string[];
+}
+
+/**
+ * Interfaz para métodos estáticos del modelo de roles.
+ */
+interface RoleModel extends Model<Role> {
+  /**
+   * Reúne los permisos de los roles indicados. Los roles se mantienen en una
+   * caché en memoria que se invalida al modificar la colección.
+   *
+   * @param roles - `_id` de los roles.
+   * @returns Los permisos sin duplicados; los roles inexistentes se ignoran.
+   * @example
+   * const permissions = await RoleModel.permissionsOf(user.custom_roles);
+   */
+  permissionsOf(roles?: (Types.ObjectId | string)[]): Promise<string[]>;
+
+  /**
+   * Busca los roles por nombre o `_id`.
+   *
+   * @param roles - Nombres o `_id` de los roles.
+   * @returns Los `_id` encontrados, o `null` si alguno no existe.
+   * @example
+   * const custom_roles = await RoleModel.resolve(["fotografo"]);
+   */
+  resolve(roles: string[]): Promise<Types.ObjectId[] | null>;
+}
+
+type RoleDocument = HydratedDocument<Role>;
+
+type LeanRole = Role & { _id: Types.ObjectId };
+
+export type { LeanRole, Role, RoleDocument, RoleModel };
@@ -0,0 +1,166 @@
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Representa una sesión iniciada por un usuario.
+ *
+ * @remarks
+ * Cada sesión guarda el hash de su token de refresco vigente. El `_id` de la
+ * sesión viaja en el JWT de acceso como `sid`, de modo que revocar la sesión
+ * invalida tanto el token de refresco como los tokens de acceso emitidos con ella.
+ */
+interface Session {
+  /**
+   * Usuario dueño de la sesión.
+   */
+  readonly user: Types.ObjectId | string;
+
+  /**
+   * Hash SHA-256 del token de refresco vigente. Cambia en cada rotación.
+   */
+  hash: string;
+
+  /**
+   * Fecha en la que caduca el token de refresco. Un índice TTL elimina la
+   * sesión de la colección una vez alcanzada.
+   */
+  expires_at: Date;
+
+  /**
+   * Fecha en la que se revocó la sesión (logout). Ausente si sigue activa.
+   */
+  revoked_at?: Date;
+
+  /**
+   * Nombre del equipo con que el usuario identificó el inicio de sesión
+   * (por ejemplo, "Mostrador 2").
+   */
+  device?: string;
+
+  /**
+   * Dirección IP desde la que se inició o se refrescó la sesión por última vez.
+   */
+  ip?: string;
+
+  /**
+   * Encabezado `User-Agent` del cliente.
+   */
+  user_agent?: string;
+
+  /**
+   * Fecha en la que se inició la sesión.
+   */
+  readonly issued_at: Date;
+
+  /**
+   * Último uso registrado de la sesión. Se actualiza como máximo cada
+   * `setup.TOKEN.SEEN` segundos.
+   */
+  last_seen_at?: Date;
+}
+
+/**
+ * Datos del equipo desde el que se inicia o se refresca una sesión.
+ */
+type SessionDevice = Pick<Session, "device" | "ip" | "user_agent">;
+
+/**
+ * Par de tokens entregado al iniciar sesión o al refrescarla.
+ */
+interface SessionTokens {
+  /** Token de acceso (JWT) de corta duración. */
+  readonly token: string;
+  /** Token opaco de refresco, de un solo uso. */
+  readonly refresh: string;
+}
+
+/**
+ * Métodos de instancia para documentos de tipo `Session`.
+ *
+ * @remarks
+ * Actualmente es un registro vacío, pero se puede ampliar en el futuro.
+ */
+type SessionMethods = Record<symbol, null>;
+
+/**
+ * Interfaz del modelo Mongoose para la colección de `Session`.
+ *
+ * @remarks
+ * Proporciona los métodos estáticos para emitir, rotar y revocar sesiones.
+ */
+interface SessionModel
+  extends Model<Session, Record<symbol, null>, SessionMethods> {
+  /**
+   * Crea una nueva sesión para el usuario y retorna el documento junto con el
+   * token de refresco en texto plano (solo se conoce en este momento).
+   *
+   * @param user - `_id` del usuario.
+   * @param device - Equipo desde el que se inicia la sesión.
+   * @returns La sesión creada y su token de refresco.
+   *
+   * @example
+   * ```ts
+   * const { session, refresh } = await SessionModel.open(user._id, deviceInfo(c));
+   * ```
+   */
+  open(
+    user: Types.ObjectId | string,
+    device?: SessionDevice,
+  ): Promise<{ session: SessionDocument; refresh: string }>;
+
+  /**
+   * Busca la sesión activa a la que pertenece el token de refresco y lo rota,
+   * invalidando el anterior.
+   *
+   * @param refresh - Token de refresco en texto plano.
+   * @param device - Dirección IP y `User-Agent` actuales del cliente.
+   * @returns La sesión y el nuevo token de refresco, o `null` si el token no
+   * es válido, caducó o la sesión fue revocada.
+   */
+  rotate(
+    refresh: string,
+    device?: SessionDevice,
+  ): Promise<{ session: SessionDocument; refresh: string } | null>;
+
+  /**
+   * Registra el uso de la sesión si existe, pertenece al usuario y no ha sido
+   * revocada ni ha caducado.
+   *
+   * @param sid - `_id` de la sesión.
+   * @param user - `_id` del usuario.
+   * @returns `true` si la sesión sigue activa.
+   */
+  touch(sid?: string, user?: string): Promise<boolean>;
+
+  /**
+   * Revoca las sesiones indicadas y retorna sus `_id`.
+   *
+   * @param filter - `sid` de una sesión, o `{ user }` para revocar todas las de un usuario;
+   * con `except` se conserva la sesión indicada.
+   */
+  revoke(
+    filter: string | {
+      user: Types.ObjectId | string;
+      except?: Types.ObjectId | string;
+    },
+  ): Promise<string[]>;
+}
+
+/**
+ * Documento de Mongoose para una sesión.
+ */
+type SessionDocument = HydratedDocument<Session, SessionMethods>;
+
+/**
+ * Versión "lean" de `Session`, que incluye la propiedad `_id`.
+ */
+type LeanSession = Session & { _id: Types.ObjectId };
+
+export type {
+  LeanSession,
+  Session,
+  SessionDevice,
+  SessionDocument,
+  SessionMethods,
+  SessionModel,
+  SessionTokens,
+};
@@ -0,0 +1,48 @@
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Ajuste del sistema que los administradores modifican en tiempo de ejecución
+ * (por ejemplo, los roles que deben usar autenticación de dos factores).
+ */
+interface Setting {
+  /**
+   * Nombre único del ajuste, con la forma `"módulo.ajuste"`.
+   */
+  readonly key: string;
+
+  /**
+   * Valor del ajuste.
+   */
+  value: unknown;
+}
+
+/**
+ * Interfaz para métodos estáticos del modelo de ajustes.
+ */
+interface SettingModel extends Model<Setting> {
+  /**
+   * Lee el valor de un ajuste.
+   *
+   * @param key - Nombre del ajuste.
+   * @param fallback - Valor que se retorna si el ajuste no existe.
+   * @example
+   * const required = await SettingModel.read("totp.required", 0);
+   */
+  read<T>(key: string, fallback: T): Promise<T>;
+
+  /**
+   * Guarda el valor de un ajuste, creándolo si no existe.
+   *
+   * @param key - Nombre del ajuste.
+   * @param value - Nuevo valor.
+   * @example
+   * await SettingModel.write("totp.required", setup.AUTH.ADMIN);
+   */
+  write<T>(key: string, value: T): Promise<T>;
+}
+
+type SettingDocument = HydratedDocument<Setting>;
+
+type LeanSetting = Setting & { _id: Types.ObjectId };
+
+export type { LeanSetting, Setting, SettingDocument, SettingModel };
@@ -0,0 +1,86 @@
+import type { TrashedFile } from "@interfaces/audit.interface.ts";
+import type { FilterQuery, Types } from "mongoose";
+
+/**
+ * Campos que agrega el plugin `softDelete` a las líneas, marcas, llaves e ítems.
+ *
+ * @remarks
+ * Un documento con `deleted_at` está en la papelera: las consultas y las agregaciones
+ * lo omiten salvo que el filtro mencione `deleted_at` de forma explícita.
+ */
+interface SoftDeleted {
+  /**
+   * Fecha en la que se eliminó el documento. Ausente si está activo.
+   */
+  readonly deleted_at?: Date;
+
+  /**
+   * `_id` del usuario que eliminó el documento.
+   */
+  readonly deleted_by?: Types.ObjectId;
+
+  /**
+   * Identificador compartido por todos los documentos eliminados en una misma
+   * operación (por ejemplo, una línea con sus llaves e ítems), para restaurarlos juntos.
+   */
+  readonly deletion?: Types.ObjectId;
+
+  /**
+   * Archivos movidos a la papelera al eliminar el documento, para devolverlos al
+   * restaurarlo. Solo se guarda en el documento raíz de la operación.
+   */
+  readonly trashed?: TrashedFile[];
+}
+
+/**
+ * Datos con que se marca un documento como eliminado.
+ */
+type SoftDeletion = Required<Pick<SoftDeleted, "deleted_by" | "deletion">>;
+
+/**
+ * Métodos estáticos que agrega el plugin `softDelete`.
+ */
+interface SoftDeleteStatics {
+  /**
+   * Envía a la papelera los documentos activos que cumplan el filtro.
+   *
+   * @param filter - Filtro de los documentos.
+   * @param deletion - Usuario y operación de eliminación.
+   * @returns La cantidad de documentos eliminados.
+   *
+   * @example
+   * ```ts
+   * const deletion = { deleted_by: user._id, deletion: new Types.ObjectId() };
+   * await KeyModel.softDelete({ line: _id }, deletion);
+   * ```
+   */
+  softDelete(
+    filter: FilterQuery<unknown>,
+    deletion: SoftDeletion,
+  ): Promise<number>;
+
+  /**
+   * Saca de la papelera los documentos eliminados que cumplan el filtro.
+   *
+   * @param filter - Filtro de los documentos (por ejemplo, `{ deletion }`).
+   * @returns La cantidad de documentos restaurados.
+   */
+  restore(filter: FilterQuery<unknown>): Promise<number>;
+
+  /**
+   * Indica si algún documento de la papelera cumple el filtro.
+   *
+   * @param filter - Filtro de los documentos (por ejemplo, `{ code }`).
+   * @returns `true` si existe un documento eliminado que cumpla el filtro.
+   *
+   * @example
+   * ```ts
+   * if (await LineModel.inTrash({ code: line.code })) {
+   *   throw new BadRequestError("La línea está en la papelera; restáurala");
+   * }
+   * ```
+   */
+  inTrash(filter: FilterQuery<unknown>): Promise<boolean>;
+}
+
+export type { SoftDeleted, SoftDeleteStatics, SoftDeletion };
@@ -1,6 +1,31 @@
+import type {
+  SessionDevice,
+  SessionTokens,
+} from "@interfaces/session.interface.ts";
 import type { setup } from "config";
 import type { HydratedDocument, Model, Types } from "mongoose";
 
+/**
+ * Alcance de un usuario dentro del catálogo. Una lista vacía no restringe esa
+ * dimensión; si ambas están vacías el usuario ve y modifica todo el catálogo.
+ */
+interface UserScope {
+  /**
+   * Líneas a las que el usuario tiene acceso.
+   */
+  lines: Types.ObjectId[];
+
+  /**
+   * Marcas a las que el usuario tiene acceso.
+   */
+  brands: Types.ObjectId[];
+}
+
+/**
+ * Entidades del catálogo cuyo alcance puede verificarse a partir de su `_id`.
+ */
+type ScopeEntity = "item" | "key" | "line" | "brand";
+
 /**
  * Interfaz principal para describir la entidad de 'User'.
  * Contiene propiedades esenciales como `nickname`, `password`, `role`, etc.
@@ -38,6 +63,54 @@ interface User {
    * Roles opcionales en un array, usado para mapear cada bit a una clave de setup.AUTH.
    */
   roles?: (keyof typeof setup.AUTH)[];
+
+  /**
+   * Roles personalizados (colección `Role`) asignados al usuario. Sus permisos
+   * se suman a los de los roles predefinidos de `role`.
+   */
+  custom_roles?: Types.ObjectId[];
+
+  /**
+   * Indica si la cuenta fue deshabilitada por un administrador. Una cuenta
+   * deshabilitada no puede iniciar sesión ni usar sus tokens vigentes.
+   */
+  disabled?: boolean;
+
+  /**
+   * Versión de los tokens del usuario. Viaja en cada JWT (claim `ver`) y se
+   * incrementa al cambiar roles o contraseña o al forzar el cierre de sesión,
+   * con lo que se rechazan todos los tokens emitidos antes.
+   */
+  token_version?: number;
+
+  /**
+   * Líneas y marcas a las que se limita el usuario (por ejemplo, un contratista
+   * que solo edita fotos de ciertas líneas). Las búsquedas ocultan lo que queda
+   * fuera del alcance y las modificaciones lo rechazan.
+   */
+  scope?: UserScope;
+
+  /**
+   * Secreto TOTP cifrado con `setup.KEY.ABSOLUTE`. Existe desde que se inicia la
+   * inscripción, aunque la autenticación de dos factores aún no esté activa.
+   */
+  totp_secret?: string;
+
+  /**
+   * Indica si el usuario completó la inscripción y debe presentar un código
+   * TOTP al iniciar sesión.
+   */
+  totp_enabled?: boolean;
+
+  /**
+   * Último periodo TOTP aceptado, para que un mismo código no se use dos veces.
+   */
+  totp_step?: number;
+
+  /**
+   * Hashes de los códigos de recuperación que aún no se han usado.
+   */
+  recovery_codes?: string[];
 }
 
 /**
@@ -55,13 +128,24 @@ interface UserMethods {
   comparePassword(password?: string): Promise<boolean>;
 
   /**
-   * Genera un JWT con datos del usuario, incluyendo su ID, nickname y rol.
+   * Genera un JWT de acceso con datos del usuario, incluyendo su ID, la sesión, nickname y rol.
    *
+   * @param sid - `_id` de la sesión a la que pertenece el token.
    * @returns Una promesa que resuelve con el token JWT.
    * @example
-   * const token = await user.createToken();
+   * const token = await user.createToken(session._id.toString());
+   */
+  createToken(sid: string): Promise<string>;
+
+  /**
+   * Abre una nueva sesión y emite el token de acceso junto con el de refresco.
+   *
+   * @param device - Nombre del equipo, dirección IP y `User-Agent` del cliente.
+   * @returns Una promesa que resuelve con `{ token, refresh }`.
+   * @example
+   * const { token, refresh } = await user.createSession(deviceInfo(c));
    */
-  createToken(): Promise<string>;
+  createSession(device?: SessionDevice): Promise<SessionTokens>;
 
   /**
    * Verifica si el usuario incluye al menos uno de los roles especificados.
@@ -74,13 +158,146 @@ interface UserMethods {
    * }
    */
   roleIncludes(...roles: (keyof typeof setup.AUTH)[]): boolean;
+
+  /**
+   * Obtiene los permisos efectivos del usuario: los de sus roles predefinidos
+   * (`setup.ROLE_PERMISSIONS`) más los de sus roles personalizados.
+   *
+   * @example
+   * const permissions = await user.permissions();
+   */
+  permissions(): Promise<string[]>;
+
+  /**
+   * Verifica si el usuario tiene todos los permisos indicados.
+   *
+   * @param permissions - Permisos del catálogo `setup.PERMISSIONS`.
+   * @returns true si cada permiso está concedido.
+   * @example
+   * if (await user.can("item.image.upload")) {
+   *   // Puede subir imágenes
+   * }
+   */
+  can(...permissions: string[]): Promise<boolean>;
+
+  /**
+   * Indica si el usuario tiene alguna restricción de líneas o marcas.
+   */
+  isScoped(): boolean;
+
+  /**
+   * Construye el filtro `$match` que limita un agregado al alcance del usuario.
+   *
+   * @param paths - Rutas de los `_id` de línea y marca en el documento; por
+   * defecto las de un ítem poblado (`key.line._id` y `key.brand._id`). Si se
+   * omite una ruta, esa dimensión no se filtra.
+   * @returns Un filtro vacío si el usuario no tiene alcance.
+   * @example
+   * aggregate.match(user.scopeMatch({ line: "line._id", brand: "brand._id" }));
+   */
+  scopeMatch(
+    paths?: { line?: string; brand?: string },
+  ): Record<string, unknown>;
+
+  /**
+   * Verifica que el documento indicado esté dentro del alcance del usuario.
+   * Si el documento no existe no hace nada, para que el controlador responda 404.
+   *
+   * @param entity - Tipo de documento.
+   * @param id - `_id` (o código, en el caso de claves) del documento.
+   * @throws {UnauthorizedError} Si la línea o la marca del documento están fuera del alcance.
+   * @example
+   * await user.assertScope("key", body.key);
+   */
+  assertScope(
+    entity: ScopeEntity,
+    id?: Types.ObjectId | string | null,
+  ): Promise<void>;
+
+  /**
+   * Indica si alguno de los roles del usuario está obligado a usar TOTP.
+   *
+   * @example
+   * if (!user.totp_enabled && await user.requiresTotp()) {
+   *   // Debe inscribirse antes de recibir un token de acceso
+   * }
+   */
+  requiresTotp(): Promise<boolean>;
+
+  /**
+   * Genera un secreto TOTP nuevo y lo guarda cifrado, pendiente de activar.
+   *
+   * @returns El secreto en base32 y el URI `otpauth://` para el código QR.
+   * @example
+   * const { secret, uri } = await user.startTotp();
+   */
+  startTotp(): Promise<{ secret: string; uri: string }>;
+
+  /**
+   * Verifica un código TOTP contra el secreto guardado (activo o pendiente).
+   * Un código aceptado no vuelve a aceptarse.
+   *
+   * @param code - Código de la aplicación autenticadora.
+   * @returns true si el código es válido y no se había usado.
+   * @example
+   * if (!await user.checkTotp(body.code)) throw new UnauthorizedError();
+   */
+  checkTotp(code?: string): Promise<boolean>;
+
+  /**
+   * Consume uno de los códigos de recuperación del usuario.
+   *
+   * @param code - Código de recuperación en texto plano.
+   * @returns true si el código existía; a partir de ese momento queda invalidado.
+   * @example
+   * const valid = await user.useRecoveryCode(body.recovery);
+   */
+  useRecoveryCode(code?: string): Promise<boolean>;
+
+  /**
+   * Reemplaza los códigos de recuperación del usuario por otros nuevos.
+   *
+   * @returns Los códigos en texto plano; solo se entregan una vez.
+   * @example
+   * const recovery_codes = await user.issueRecoveryCodes();
+   */
+  issueRecoveryCodes(): Promise<string[]>;
+
+  /**
+   * Activa TOTP con el secreto pendiente y emite los códigos de recuperación.
+   *
+   * @returns Los códigos de recuperación en texto plano.
+   * @example
+   * if (await user.checkTotp(body.code)) {
+   *   const recovery_codes = await user.enableTotp();
+   * }
+   */
+  enableTotp(): Promise<string[]>;
+
+  /**
+   * Desactiva TOTP y elimina el secreto y los códigos de recuperación.
+   *
+   * @example
+   * await user.disableTotp();
+   */
+  disableTotp(): Promise<void>;
 }
 
 /**
  * Tipo de Mongoose que extiende el modelo genérico para incluir
  * los métodos de instancia definidos en `UserMethods`.
  */
-type UserModel = Model<User, Record<symbol, null>, UserMethods>;
+interface UserModel extends Model<User, Record<symbol, null>, UserMethods> {
+  /**
+   * Incrementa `token_version` del usuario e invalida su entrada en caché, de modo
+   * que todos sus tokens de acceso vigentes dejan de aceptarse.
+   *
+   * @param user - `_id` del usuario.
+   * @example
+   * await UserModel.bumpTokenVersion(user._id);
+   */
+  bumpTokenVersion(user: Types.ObjectId | string): Promise<void>;
+}
 
 /**
  * Tipo que representa un documento de Mongoose para la entidad 'User'.
@@ -90,8 +307,8 @@ type UserModel = Model<User, Record<symbol, null>, UserMethods>;
  * const userDocument: UserDocument = new UserModel({ nickname: "jane_doe", password: "securepassword", role: setup.AUTH.WRITE });
  * await userDocument.save();
  *
- * // Generación de token JWT
- * const token = await userDocument.createToken();
+ * // Apertura de sesión (token de acceso + token de refresco)
+ * const { token, refresh } = await userDocument.createSession();
  */
 type UserDocument = HydratedDocument<User, UserMethods>;
 
@@ -102,4 +319,12 @@ type UserDocument = HydratedDocument<User, UserMethods>;
  */
 type LeanUser = User & { _id: Types.ObjectId };
 
-export type { LeanUser, User, UserDocument, UserMethods, UserModel };
+export type {
+  LeanUser,
+  ScopeEntity,
+  User,
+  UserDocument,
+  UserMethods,
+  UserModel,
+  UserScope,
+};
@@ -0,0 +1,48 @@
+import type { HydratedDocument, Model, Types } from "mongoose";
+
+/**
+ * Vehículo del catálogo de aplicaciones: marca, modelo y años de fabricación
+ * (por ejemplo, MAZDA 3 de 2010 a 2013).
+ *
+ * @remarks
+ * Un mismo modelo puede registrarse varias veces, una por generación, siempre
+ * que empiecen en años distintos.
+ */
+interface Vehicle {
+  /**
+   * Marca del vehículo, en mayúsculas (por ejemplo, "MAZDA").
+   */
+  make: string;
+
+  /**
+   * Modelo del vehículo, en mayúsculas (por ejemplo, "3").
+   */
+  model: string;
+
+  /**
+   * Primer año de fabricación.
+   */
+  year_from: number;
+
+  /**
+   * Último año de fabricación.
+   */
+  year_to: number;
+}
+
+/**
+ * Interfaz del modelo Mongoose para la colección de `Vehicle`.
+ */
+type VehicleModel = Model<Vehicle>;
+
+/**
+ * Documento de Mongoose para un vehículo.
+ */
+type VehicleDocument = HydratedDocument<Vehicle>;
+
+/**
+ * Versión "lean" de `Vehicle`, que incluye la propiedad `_id`.
+ */
+type LeanVehicle = Vehicle & { _id: Types.ObjectId };
+
+export type { LeanVehicle, Vehicle, VehicleDocument, VehicleModel };
@@ -2,3 +2,5 @@ export * from "./parse-image.middleware.ts";
 export * from "./auth.middleware.ts";
 export * from "./path.middleware.ts";
 export * from "./version-file.middleware.ts";
+export * from "./scope.middleware.ts";
+export * from "./permission.middleware.ts";
@@ -0,0 +1,37 @@
+import type { Env } from "factory";
+import { UnauthorizedError } from "errors";
+
+import { createMiddleware as factory } from "@hono/hono/factory";
+
+/**
+ * @api {middleware} permissionMiddleware Verificar Permisos
+ * @apiVersion 1.0.0
+ * @apiName PermissionMiddleware
+ * @apiGroup Middleware
+ *
+ * @apiDescription Middleware que, después de `authMiddleware`, verifica que el usuario (o la llave de API) tenga todos los permisos indicados. Los permisos efectivos son los de sus roles predefinidos (`setup.ROLE_PERMISSIONS`) más los de sus roles personalizados (`/api/role`).
+ *
+ * @apiError (401) Unauthorized El usuario no tiene alguno de los permisos requeridos.
+ *
+ * @apiErrorExample {json} Respuesta de error 401:
+ *     HTTP/1.1 401 Unauthorized
+ *     {
+ *       "error": "Acceso Denegado",
+ *       "details": { "required": ["item.image.upload"] }
+ *     }
+ *
+ * @apiExample {typescript} Ejemplo de uso:
+ *     imageRoutes.put(
+ *       validateId(),
+ *       authMiddleware,
+ *       permissionMiddleware("item.image.upload"),
+ *       ...updateImage,
+ *     );
+ */
+export const permissionMiddleware = (...permissions: string[]) =>
+  factory<Env>(async ({ get }, next) => {
+    if (!await get("user").can(...permissions)) {
+      throw new UnauthorizedError(undefined, { required: permissions });
+    }
+    await next();
+  });
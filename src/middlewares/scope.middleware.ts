@@ -0,0 +1,38 @@
+import type { ScopeEntity } from "@interfaces/user.interface.ts";
+import type { Env } from "factory";
+
+import { createMiddleware as factory } from "@hono/hono/factory";
+
+/**
+ * @api {middleware} scopeMiddleware Verificar Alcance del Usuario
+ * @apiVersion 1.0.0
+ * @apiName ScopeMiddleware
+ * @apiGroup Middleware
+ *
+ * @apiDescription Middleware que, después de `authMiddleware`, verifica que el documento indicado en `?id=` pertenezca a una línea y una marca dentro del alcance del usuario. Los usuarios sin alcance (listas `scope.lines` y `scope.brands` vacías) pasan sin consultar la base de datos. Si el documento no existe, la solicitud continúa para que el controlador responda 404.
+ *
+ * @apiParam (Query string) {String} id Identificador único del documento.
+ *
+ * @apiError (401) Unauthorized El documento está fuera del alcance del usuario.
+ *
+ * @apiErrorExample {json} Respuesta de error 401:
+ *     HTTP/1.1 401 Unauthorized
+ *     {
+ *       "error": "Acceso denegado: el documento está fuera de tu alcance",
+ *       "details": null
+ *     }
+ *
+ * @apiExample {typescript} Ejemplo de uso:
+ *     itemRoutes.put(
+ *       "/status",
+ *       validateId(),
+ *       authMiddleware,
+ *       scopeMiddleware("item"),
+ *       ...statusItem,
+ *     );
+ */
+export const scopeMiddleware = (entity: ScopeEntity) =>
+  factory<Env>(async ({ req, get }, next) => {
+    await get("user").assertScope(entity, req.query("id"));
+    await next();
+  });
@@ -0,0 +1,77 @@
+import type {
+  ApiKey,
+  ApiKeyMethods,
+  ApiKeyModel,
+} from "@interfaces/apikey.interface.ts";
+import { model, Schema } from "mongoose";
+
+import {
+  allows,
+  authenticate,
+  intoUser,
+  issue,
+} from "@services/apikey.service.ts";
+
+/**
+ * Esquema de Mongoose para la colección "ApiKey".
+ *
+ * @remarks
+ * - `hash` guarda el hash SHA-256 de la llave y es único.
+ * - `role` usa la misma máscara de bits que los usuarios (`setup.AUTH`).
+ * - `routes` es la lista opcional de rutas permitidas.
+ */
+const apiKeySchema = new Schema<ApiKey, ApiKeyModel, ApiKeyMethods>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  prefix: {
+    type: String,
+    required: true,
+  },
+  hash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  role: {
+    type: Number,
+    required: true,
+  },
+  routes: {
+    type: [String],
+    default: [],
+  },
+  created_by: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  last_used_at: {
+    type: Date,
+  },
+  revoked_at: {
+    type: Date,
+  },
+});
+
+// Se asignan métodos estáticos y de instancia al esquema.
+apiKeySchema.static("issue", issue);
+apiKeySchema.static("authenticate", authenticate);
+apiKeySchema.method("allows", allows);
+apiKeySchema.method("intoUser", intoUser);
+
+/**
+ * Modelo de Mongoose para la colección "ApiKey", basado en `apiKeySchema`.
+ *
+ * @example
+ * ```ts
+ * // Validar la llave recibida en el encabezado:
+ * const api_key = await ApiKeyModel.authenticate(req.header("X-API-Key")!);
+ * if (api_key?.allows(req.method, req.path)) set("user", api_key.intoUser());
+ * ```
+ */
+const ApiKeyModel = model<ApiKey, ApiKeyModel>("ApiKey", apiKeySchema);
+
+export { ApiKeyModel };
@@ -0,0 +1,39 @@
+import type { Attempt, AttemptModel } from "@interfaces/attempt.interface.ts";
+import { model, Schema } from "mongoose";
+
+/**
+ * Esquema de Mongoose para la colección "Attempt".
+ *
+ * @remarks
+ * - `key` identifica al usuario o a la dirección IP y es única.
+ * - `expires_at` tiene un índice TTL para que MongoDB descarte los contadores olvidados.
+ */
+const attemptSchema = new Schema<Attempt, AttemptModel>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  locked_until: {
+    type: Date,
+  },
+  expires_at: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Índice TTL: el contador se elimina en cuanto caduca.
+attemptSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Modelo de Mongoose para la colección "Attempt", basado en `attemptSchema`.
+ * Lo utiliza el limitador de inicio de sesión cuando `setup.THROTTLE.STORE` es "mongo".
+ */
+const AttemptModel = model<Attempt, AttemptModel>("Attempt", attemptSchema);
+
+export { AttemptModel };
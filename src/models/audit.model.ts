@@ -0,0 +1,87 @@
+import type { AuditLog, AuditLogModel } from "@interfaces/audit.interface.ts";
+import { model, Schema } from "mongoose";
+
+import { record } from "@services/audit.service.ts";
+
+/**
+ * Esquema de Mongoose para la colección "AuditLog".
+ *
+ * @remarks
+ * - `before` y `after` guardan copias libres del documento modificado.
+ * - `trashed` conserva las rutas de origen y destino de los archivos enviados a la papelera.
+ * - Los índices cubren las consultas de `/api/audit` por entidad, usuario y fecha.
+ */
+const auditLogSchema = new Schema<AuditLog, AuditLogModel>({
+  user: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  nickname: {
+    type: String,
+    required: true,
+  },
+  action: {
+    type: String,
+    enum: [
+      "create",
+      "update",
+      "delete",
+      "reset",
+      "status",
+      "restore",
+      "move",
+      "revert",
+      "link",
+      "unlink",
+      "purge",
+    ],
+    required: true,
+  },
+  entity: {
+    type: String,
+    enum: ["brand", "line", "key", "item", "image", "vehicle", "fitment"],
+    required: true,
+  },
+  entity_id: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  before: {
+    type: Schema.Types.Mixed,
+  },
+  after: {
+    type: Schema.Types.Mixed,
+  },
+  trashed: {
+    type: [{ _id: false, from: String, to: String }],
+    default: [],
+  },
+  created_at: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+auditLogSchema.index({ entity: 1, created_at: -1 });
+auditLogSchema.index({ user: 1, created_at: -1 });
+auditLogSchema.index({ entity_id: 1, created_at: -1 });
+
+// Se asignan métodos estáticos al esquema.
+auditLogSchema.static("record", record);
+
+/**
+ * Modelo de Mongoose para la colección "AuditLog", basado en `auditLogSchema`.
+ *
+ * @example
+ * ```ts
+ * // ¿Quién eliminó la línea GRA?
+ * const logs = await AuditLogModel.find({ entity: "line", action: "delete" })
+ *   .sort({ created_at: -1 });
+ * ```
+ */
+const AuditLogModel = model<AuditLog, AuditLogModel>(
+  "AuditLog",
+  auditLogSchema,
+);
+
+export { AuditLogModel };
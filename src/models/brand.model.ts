@@ -6,6 +6,7 @@ import type {
 import { model, Schema } from "mongoose";
 
 import { findByCode } from "@services/brand.service.ts";
+import { softDelete } from "@utils/soft_delete.ts";
 
 /**
  * Esquema de Mongoose para la colección "Brand", que define:
@@ -13,6 +14,7 @@ import { findByCode } from "@services/brand.service.ts";
  * - `code`: String (2 a 3 caracteres en mayúsculas), se rellena con espacios
  *   en caso de ser más corto.
  * - `desc`: String obligatorio, transformado a minúsculas y recortado.
+ * - `version`: Number que aumenta en cada actualización y se expone como `ETag`.
  *
  * @remarks
  * También se establece un índice de texto sobre `code`.
@@ -34,6 +36,10 @@ const brandSchema = new Schema<Brand, BrandModel, BrandMethods>({
     lowercase: true,
     trim: true,
   },
+  version: {
+    type: Number,
+    default: 0,
+  },
 });
 
 // Se crea un índice de texto sobre el campo "code".
@@ -43,6 +49,9 @@ brandSchema.index({ code: "text" });
 // importada desde "@services/brand.service.ts".
 brandSchema.static("findByCode", findByCode);
 
+// Los documentos eliminados se conservan en la papelera.
+brandSchema.plugin(softDelete);
+
 /**
  * Modelo de Mongoose para "Brand", basado en `brandSchema`.
  *
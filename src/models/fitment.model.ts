@@ -0,0 +1,60 @@
+import type { Fitment, FitmentModel } from "@interfaces/fitment.interface.ts";
+import { model, Schema } from "mongoose";
+
+import { getPopulate, parseRange } from "@services/fitment.service.ts";
+
+/**
+ * Esquema de Mongoose para la colección "Fitment".
+ *
+ * @remarks
+ * - Relaciona ítems y vehículos (muchos a muchos); los años quedan dentro de los años
+ *   de fabricación del vehículo (ver `parseRange`).
+ * - El índice único `(item, vehicle)` impide registrar dos veces el mismo vehículo en
+ *   un ítem; para otros años se modifica la aplicación existente.
+ */
+const fitmentSchema = new Schema<Fitment, FitmentModel>({
+  item: {
+    type: Schema.Types.ObjectId,
+    ref: "Item",
+    required: true,
+  },
+  vehicle: {
+    type: Schema.Types.ObjectId,
+    ref: "Vehicle",
+    required: true,
+    index: true,
+  },
+  year_from: {
+    type: Number,
+    required: true,
+  },
+  year_to: {
+    type: Number,
+    required: true,
+  },
+  note: {
+    type: String,
+    trim: true,
+  },
+});
+
+fitmentSchema.index({ item: 1, vehicle: 1 }, { unique: true });
+
+// Se asignan métodos estáticos al esquema.
+fitmentSchema.static("parseRange", parseRange);
+fitmentSchema.static("getPopulate", getPopulate);
+
+/**
+ * Modelo de Mongoose para la colección "Fitment", basado en `fitmentSchema`.
+ *
+ * @example
+ * ```ts
+ * // ¿En qué vehículos se monta el ítem?
+ * const fitments = await FitmentModel.getPopulate({
+ *   item: new Types.ObjectId(_id),
+ * });
+ * ```
+ */
+const FitmentModel = model<Fitment, FitmentModel>("Fitment", fitmentSchema);
+
+export { FitmentModel };
@@ -4,3 +4,14 @@ export * from "./line.model.ts";
 export * from "./key.model.ts";
 export * from "./item.model.ts";
 export * from "./instruction.model.ts";
+export * from "./session.model.ts";
+export * from "./attempt.model.ts";
+export * from "./apikey.model.ts";
+export * from "./audit.model.ts";
+export * from "./setting.model.ts";
+export * from "./role.model.ts";
+export * from "./rename.model.ts";
+export * from "./revision.model.ts";
+export * from "./relation.model.ts";
+export * from "./vehicle.model.ts";
+export * from "./fitment.model.ts";
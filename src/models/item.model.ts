@@ -7,9 +7,11 @@ import type {
 import { model, Schema } from 'mongoose';
 
 import {
-    findByCode, getBackInfo, getFuzzy, getImage, getPopulate, getStatus
+    assertAttributes, assertDefinitions, codeReport, findByCode, getBackInfo, getFuzzy, getImage, getPopulate, getStatus, importRows,
+    parseAttributes, purgeRelations, relocate
 } from '@services/item.service.ts';
 import { validateExistence } from '@utils/schemaValidators.ts';
+import { softDelete } from '@utils/soft_delete.ts';
 
 /**
  * Esquema de Mongoose para la colección "Item".
@@ -18,6 +20,8 @@ import { validateExistence } from '@utils/schemaValidators.ts';
  * - `key` referencia a la colección "Key" y se valida su existencia.
  * - `code` se rellena con ceros a la izquierda hasta 4 caracteres.
  * - `images` guarda un máximo de 3 imágenes, cada una con `idN` y `status`.
+ * - `attributes` guarda los valores ya validados con `ItemModel.parseAttributes`.
+ * - `version` aumenta en cada actualización y se expone como `ETag`.
  */
 const itemSchema = new Schema<Item, ItemModel, ItemMethods>({
   key: {
@@ -70,6 +74,13 @@ const itemSchema = new Schema<Item, ItemModel, ItemMethods>({
       msg: "Image overflow",
     },
   },
+  attributes: {
+    type: Schema.Types.Mixed,
+  },
+  version: {
+    type: Number,
+    default: 0,
+  },
 });
 
 // Se crean índices compuestos en `Item`.
@@ -84,6 +95,21 @@ itemSchema.static("getPopulate", getPopulate);
 itemSchema.static("getFuzzy", getFuzzy);
 itemSchema.static("getStatus", getStatus);
 itemSchema.static("getImage", getImage);
+itemSchema.static("importRows", importRows);
+itemSchema.static("relocate", relocate);
+itemSchema.static("parseAttributes", parseAttributes);
+itemSchema.static("assertAttributes", assertAttributes);
+itemSchema.static("assertDefinitions", assertDefinitions);
+itemSchema.static("codeReport", codeReport);
+
+// Los documentos eliminados se conservan en la papelera.
+itemSchema.plugin(softDelete);
+
+// Va después de la papelera para usar el filtro que ya excluye los eliminados.
+itemSchema.pre(
+  ["deleteOne", "deleteMany", "findOneAndDelete"],
+  purgeRelations,
+);
 
 /**
  * Modelo de Mongoose para la colección "Item", basado en `itemSchema`.
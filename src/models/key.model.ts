@@ -3,6 +3,7 @@ import { model, Schema } from "mongoose";
 
 import { findByCode, getFuzzy, getPopulate } from "@services/key.service.ts";
 import { validateExistence } from "@utils/schemaValidators.ts";
+import { softDelete } from "@utils/soft_delete.ts";
 
 /**
  * Esquema de Mongoose para la colección "Key".
@@ -10,6 +11,7 @@ import { validateExistence } from "@utils/schemaValidators.ts";
  * @remarks
  * - `line` y `brand` referencian a los modelos `Line` y `Brand`, validando su existencia.
  * - Se establece un índice único compuesto por `(line, brand)`.
+ * - `version` aumenta en cada actualización y se expone como `ETag`.
  */
 const keySchema = new Schema<Key, KeyModel, KeyMethods>({
   line: {
@@ -24,6 +26,10 @@ const keySchema = new Schema<Key, KeyModel, KeyMethods>({
     required: true,
     validate: validateExistence("Brand"),
   },
+  version: {
+    type: Number,
+    default: 0,
+  },
 });
 
 // Se crean índices compuestos en `Key`.
@@ -34,6 +40,9 @@ keySchema.static("findByCode", findByCode);
 keySchema.static("getPopulate", getPopulate);
 keySchema.static("getFuzzy", getFuzzy);
 
+// Los documentos eliminados se conservan en la papelera.
+keySchema.plugin(softDelete);
+
 /**
  * Modelo de Mongoose para la colección "Key", basado en `keySchema`.
  *
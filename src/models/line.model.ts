@@ -6,6 +6,7 @@ import type {
 import { model, Schema } from "mongoose";
 
 import { findByCode } from "@services/line.service.ts";
+import { softDelete } from "@utils/soft_delete.ts";
 
 /**
  * Esquema de Mongoose para la colección "Line".
@@ -15,6 +16,8 @@ import { findByCode } from "@services/line.service.ts";
  *   se establece como único y se formatea para que tenga exactamente 3 caracteres.
  * - El campo `desc` es obligatorio, se convierte a minúsculas y se recorta.
  * - Se crea un índice de texto sobre el campo `code` para facilitar búsquedas.
+ * - `attributes` define los atributos de sus ítems; se valida con `parseDefinitions`.
+ * - `version` aumenta en cada actualización y se expone como `ETag`.
  */
 const lineSchema = new Schema<Line, LineModel, LineMethods>({
   code: {
@@ -32,6 +35,20 @@ const lineSchema = new Schema<Line, LineModel, LineMethods>({
     lowercase: true,
     trim: true,
   },
+  attributes: {
+    type: [{
+      _id: false,
+      name: String,
+      type: { type: String, enum: ["string", "enum", "number", "boolean"] },
+      options: { type: [String], default: undefined },
+      required: Boolean,
+    }],
+    default: undefined,
+  },
+  version: {
+    type: Number,
+    default: 0,
+  },
 });
 
 // Se crean índices compuestos en `Line`.
@@ -40,6 +57,9 @@ lineSchema.index({ code: "text" });
 // Se asignan métodos estáticos al esquema.
 lineSchema.static("findByCode", findByCode);
 
+// Los documentos eliminados se conservan en la papelera.
+lineSchema.plugin(softDelete);
+
 /**
  * Modelo de Mongoose para la colección "Line", basado en `lineSchema`.
  *
@@ -0,0 +1,68 @@
+import type {
+  Relation,
+  RelationModel,
+} from "@interfaces/relation.interface.ts";
+import { model, Schema } from "mongoose";
+
+import { forItem, link, purge, unlink } from "@services/relation.service.ts";
+
+/**
+ * Esquema de Mongoose para la colección "Relation".
+ *
+ * @remarks
+ * - Cada relación entre dos ítems se guarda una sola vez; `superseded_by` se guarda
+ *   como `supersedes` con los ítems invertidos.
+ * - Los índices por `item` y por `target` permiten consultar las relaciones de un
+ *   ítem desde cualquiera de los dos extremos.
+ */
+const relationSchema = new Schema<Relation, RelationModel>({
+  item: {
+    type: Schema.Types.ObjectId,
+    ref: "Item",
+    required: true,
+  },
+  target: {
+    type: Schema.Types.ObjectId,
+    ref: "Item",
+    required: true,
+    index: true,
+  },
+  type: {
+    type: String,
+    enum: ["equivalent", "supersedes", "kit_component"],
+    required: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  created_at: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+relationSchema.index({ item: 1, target: 1 }, { unique: true });
+
+// Se asignan métodos estáticos al esquema.
+relationSchema.static("link", link);
+relationSchema.static("unlink", unlink);
+relationSchema.static("forItem", forItem);
+relationSchema.static("purge", purge);
+
+/**
+ * Modelo de Mongoose para la colección "Relation", basado en `relationSchema`.
+ *
+ * @example
+ * ```ts
+ * // ¿Qué piezas forman el kit?
+ * const relations = await RelationModel.forItem(_id);
+ * const components = relations.filter(({ type }) => type === "kit_component");
+ * ```
+ */
+const RelationModel = model<Relation, RelationModel>(
+  "Relation",
+  relationSchema,
+);
+
+export { RelationModel };
@@ -0,0 +1,103 @@
+import type {
+  RenameJob,
+  RenameJobModel,
+} from "@interfaces/rename.interface.ts";
+import { model, Schema } from "mongoose";
+
+import { enqueue, resume } from "@services/rename.service.ts";
+
+/**
+ * Esquema de Mongoose para la colección "RenameJob".
+ *
+ * @remarks
+ * - `folders` guarda los nombres de carpeta calculados al crear el trabajo.
+ * - `processed`, `renamed` y `cleared` se actualizan al terminar cada carpeta, para
+ *   consultar el avance con `GET /api/rename`.
+ */
+const renameJobSchema = new Schema<RenameJob, RenameJobModel>({
+  entity: {
+    type: String,
+    enum: ["line", "brand", "key"],
+    required: true,
+  },
+  entity_id: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  from: {
+    type: String,
+    required: true,
+  },
+  to: {
+    type: String,
+    required: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  location: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ["pending", "running", "done", "failed"],
+    default: "pending",
+  },
+  folders: {
+    type: [{ _id: false, from: String, to: String }],
+    default: [],
+  },
+  processed: {
+    type: Number,
+    default: 0,
+  },
+  renamed: {
+    type: Number,
+    default: 0,
+  },
+  cleared: {
+    type: Number,
+    default: 0,
+  },
+  conflicts: {
+    type: [{ _id: false, from: String, to: String, reason: String }],
+    default: [],
+  },
+  error: {
+    type: String,
+  },
+  created_at: {
+    type: Date,
+    default: Date.now,
+  },
+  finished_at: {
+    type: Date,
+  },
+});
+
+renameJobSchema.index({ entity: 1, created_at: -1 });
+
+// Se asignan métodos estáticos al esquema.
+renameJobSchema.static("enqueue", enqueue);
+renameJobSchema.static("resume", resume);
+
+/**
+ * Modelo de Mongoose para la colección "RenameJob", basado en `renameJobSchema`.
+ *
+ * @example
+ * ```ts
+ * // Avance del último cambio de código de una línea:
+ * const job = await RenameJobModel.findOne({ entity: "line", entity_id: _id })
+ *   .sort({ created_at: -1 });
+ * console.log(`${job?.processed} de ${job?.folders.length} carpetas`);
+ * ```
+ */
+const RenameJobModel = model<RenameJob, RenameJobModel>(
+  "RenameJob",
+  renameJobSchema,
+);
+
+export { RenameJobModel };
@@ -0,0 +1,77 @@
+import type {
+  Revision,
+  RevisionModel,
+} from "@interfaces/revision.interface.ts";
+import { model, Schema } from "mongoose";
+
+import { history, record, valuesAt } from "@services/revision.service.ts";
+
+/**
+ * Esquema de Mongoose para la colección "Revision".
+ *
+ * @remarks
+ * - `changes` guarda el valor anterior y el nuevo de cada campo modificado.
+ * - El índice único `(entity, entity_id, rev)` impide que dos cambios simultáneos
+ *   registren el mismo número de revisión.
+ */
+const revisionSchema = new Schema<Revision, RevisionModel>({
+  entity: {
+    type: String,
+    enum: ["item", "key", "line", "brand"],
+    required: true,
+  },
+  entity_id: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  rev: {
+    type: Number,
+    min: 1,
+    required: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  nickname: {
+    type: String,
+    required: true,
+  },
+  changes: {
+    type: [{ _id: false, field: String, from: {}, to: {} }],
+    default: [],
+  },
+  reverted: {
+    type: Number,
+  },
+  created_at: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+revisionSchema.index({ entity: 1, entity_id: 1, rev: -1 }, { unique: true });
+
+// Se asignan métodos estáticos al esquema.
+revisionSchema.static("record", record);
+revisionSchema.static("history", history);
+revisionSchema.static("valuesAt", valuesAt);
+
+/**
+ * Modelo de Mongoose para la colección "Revision", basado en `revisionSchema`.
+ *
+ * @example
+ * ```ts
+ * // ¿Quién cambió la descripción del ítem?
+ * const revisions = await RevisionModel.history("item", _id);
+ * const desc = revisions.filter(({ changes }) =>
+ *   changes.some(({ field }) => field === "desc")
+ * );
+ * ```
+ */
+const RevisionModel = model<Revision, RevisionModel>(
+  "Revision",
+  revisionSchema,
+);
+
+export { RevisionModel };
@@ -0,0 +1,54 @@
+import type { Role, RoleModel } from "@interfaces/role.interface.ts";
+import { model, Schema } from "mongoose";
+
+import { clearCache, permissionsOf, resolve } from "@services/role.service.ts";
+
+/**
+ * Esquema de Mongoose para la colección "Role".
+ *
+ * @remarks
+ * - `name` identifica el rol, se guarda en minúsculas y es único.
+ * - `permissions` contiene permisos del catálogo `setup.PERMISSIONS`.
+ */
+const roleSchema = new Schema<Role, RoleModel>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true,
+    unique: true,
+  },
+  desc: {
+    type: String,
+    trim: true,
+  },
+  permissions: {
+    type: [String],
+    default: [],
+  },
+});
+
+// Cualquier escritura invalida la caché de permisos.
+roleSchema.post(
+  ["save", "findOneAndUpdate", "findOneAndDelete", "deleteOne"],
+  clearCache,
+);
+
+// Se asignan métodos estáticos al esquema.
+roleSchema.static("permissionsOf", permissionsOf);
+roleSchema.static("resolve", resolve);
+
+/**
+ * Modelo de Mongoose para la colección "Role", basado en `roleSchema`.
+ *
+ * @example
+ * ```ts
+ * await RoleModel.create({
+ *   name: "fotografo",
+ *   permissions: ["item.read", "item.image.upload"],
+ * });
+ * ```
+ */
+const RoleModel = model<Role, RoleModel>("Role", roleSchema);
+
+export { RoleModel };
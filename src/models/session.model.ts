@@ -0,0 +1,80 @@
+import type {
+  Session,
+  SessionMethods,
+  SessionModel,
+} from "@interfaces/session.interface.ts";
+import { model, Schema } from "mongoose";
+
+import { open, revoke, rotate, touch } from "@services/session.service.ts";
+
+/**
+ * Esquema de Mongoose para la colección "Session".
+ *
+ * @remarks
+ * - `user` referencia a la colección "User".
+ * - `hash` guarda el hash del token de refresco vigente y es único.
+ * - `expires_at` tiene un índice TTL para que MongoDB elimine las sesiones caducadas.
+ * - `device`, `ip` y `user_agent` describen el equipo, para el listado de sesiones.
+ */
+const sessionSchema = new Schema<Session, SessionModel, SessionMethods>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    index: true,
+  },
+  hash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  expires_at: {
+    type: Date,
+    required: true,
+  },
+  revoked_at: {
+    type: Date,
+  },
+  device: {
+    type: String,
+    trim: true,
+  },
+  ip: {
+    type: String,
+  },
+  user_agent: {
+    type: String,
+  },
+  issued_at: {
+    type: Date,
+    default: () => new Date(),
+  },
+  last_seen_at: {
+    type: Date,
+  },
+});
+
+// Índice TTL: el documento se elimina en cuanto caduca el token de refresco.
+sessionSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+// Se asignan métodos estáticos al esquema.
+sessionSchema.static("open", open);
+sessionSchema.static("rotate", rotate);
+sessionSchema.static("touch", touch);
+sessionSchema.static("revoke", revoke);
+
+/**
+ * Modelo de Mongoose para la colección "Session", basado en `sessionSchema`.
+ *
+ * @example
+ * ```ts
+ * // Abrir una sesión al iniciar sesión:
+ * const { session, refresh } = await SessionModel.open(user._id);
+ *
+ * // Revocar la sesión al cerrar sesión:
+ * await SessionModel.revoke(session._id.toString());
+ * ```
+ */
+const SessionModel = model<Session, SessionModel>("Session", sessionSchema);
+
+export { SessionModel };
@@ -0,0 +1,38 @@
+import type { Setting, SettingModel } from "@interfaces/setting.interface.ts";
+import { model, Schema } from "mongoose";
+
+import { read, write } from "@services/setting.service.ts";
+
+/**
+ * Esquema de Mongoose para la colección "Setting".
+ *
+ * @remarks
+ * - `key` identifica el ajuste y es único.
+ * - `value` admite cualquier tipo; cada ajuste define el suyo.
+ */
+const settingSchema = new Schema<Setting, SettingModel>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  value: {
+    type: Schema.Types.Mixed,
+  },
+});
+
+// Se asignan métodos estáticos al esquema.
+settingSchema.static("read", read);
+settingSchema.static("write", write);
+
+/**
+ * Modelo de Mongoose para la colección "Setting", basado en `settingSchema`.
+ *
+ * @example
+ * ```ts
+ * const required = await SettingModel.read("totp.required", 0);
+ * ```
+ */
+const SettingModel = model<Setting, SettingModel>("Setting", settingSchema);
+
+export { SettingModel };
@@ -6,7 +6,11 @@ import type {
 import { setup } from 'config';
 import { model, Schema } from 'mongoose';
 
-import { comparePassword, createToken, preSave, roleIncludes } from '@services/user.service.ts';
+import {
+    assertScope, bumpTokenVersion, can, checkTotp, comparePassword, createSession, createToken,
+    disableTotp, enableTotp, isScoped, issueRecoveryCodes, permissions, preSave, requiresTotp,
+    roleIncludes, scopeMatch, startTotp, useRecoveryCode
+} from '@services/user.service.ts';
 
 /**
  * Esquema de Mongoose para la entidad 'User'. Define la estructura de los campos,
@@ -37,6 +41,35 @@ const userSchema = new Schema<User, UserModel, UserMethods>({
     default: setup.AUTH.READ | setup.AUTH.WRITE,
     required: true,
   },
+  custom_roles: [{ type: Schema.Types.ObjectId, ref: "Role" }],
+  disabled: {
+    type: Boolean,
+    default: false,
+  },
+  token_version: {
+    type: Number,
+    default: 0,
+  },
+  scope: {
+    lines: [{ type: Schema.Types.ObjectId, ref: "Line" }],
+    brands: [{ type: Schema.Types.ObjectId, ref: "Brand" }],
+  },
+  totp_secret: {
+    type: String,
+    select: false,
+  },
+  totp_enabled: {
+    type: Boolean,
+    default: false,
+  },
+  totp_step: {
+    type: Number,
+    select: false,
+  },
+  recovery_codes: {
+    type: [String],
+    select: false,
+  },
 });
 
 /**
@@ -50,7 +83,21 @@ userSchema.pre("save", preSave);
  */
 userSchema.method("comparePassword", comparePassword);
 userSchema.method("createToken", createToken);
+userSchema.method("createSession", createSession);
 userSchema.method("roleIncludes", roleIncludes);
+userSchema.method("permissions", permissions);
+userSchema.method("can", can);
+userSchema.method("isScoped", isScoped);
+userSchema.method("scopeMatch", scopeMatch);
+userSchema.method("assertScope", assertScope);
+userSchema.method("requiresTotp", requiresTotp);
+userSchema.method("startTotp", startTotp);
+userSchema.method("checkTotp", checkTotp);
+userSchema.method("useRecoveryCode", useRecoveryCode);
+userSchema.method("issueRecoveryCodes", issueRecoveryCodes);
+userSchema.method("enableTotp", enableTotp);
+userSchema.method("disableTotp", disableTotp);
+userSchema.static("bumpTokenVersion", bumpTokenVersion);
 
 /**
  * Modelo de Mongoose para la entidad 'User'.
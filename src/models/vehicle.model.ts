@@ -0,0 +1,53 @@
+import type { Vehicle, VehicleModel } from "@interfaces/vehicle.interface.ts";
+import { model, Schema } from "mongoose";
+
+/**
+ * Esquema de Mongoose para la colección "Vehicle".
+ *
+ * @remarks
+ * - `make` y `model` se guardan en mayúsculas para buscarlos sin distinguir
+ *   mayúsculas.
+ * - El índice único `(make, model, year_from)` permite registrar cada generación de
+ *   un modelo por separado.
+ */
+const vehicleSchema = new Schema<Vehicle, VehicleModel>({
+  make: {
+    type: String,
+    required: true,
+    trim: true,
+    uppercase: true,
+  },
+  model: {
+    type: String,
+    required: true,
+    trim: true,
+    uppercase: true,
+  },
+  year_from: {
+    type: Number,
+    required: true,
+  },
+  year_to: {
+    type: Number,
+    required: true,
+  },
+});
+
+vehicleSchema.index({ make: 1, model: 1, year_from: 1 }, { unique: true });
+
+/**
+ * Modelo de Mongoose para la colección "Vehicle", basado en `vehicleSchema`.
+ *
+ * @example
+ * ```ts
+ * await VehicleModel.create({
+ *   make: "Mazda",
+ *   model: "3",
+ *   year_from: 2010,
+ *   year_to: 2013,
+ * });
+ * ```
+ */
+const VehicleModel = model<Vehicle, VehicleModel>("Vehicle", vehicleSchema);
+
+export { VehicleModel };
@@ -0,0 +1,46 @@
+import type { LeanApiKey } from "@interfaces/apikey.interface.ts";
+import { deleteApiKey, listApiKey, saveApiKey } from "controllers";
+import { Hono, validator } from "deps";
+import { BadRequestError } from "errors";
+import { authMiddleware, permissionMiddleware } from "middlewares";
+
+import { hasValidRoles } from "@utils/roles.ts";
+import { validateFields, validateId } from "@utils/validators.ts";
+
+const apiKeyRoutes = new Hono();
+
+apiKeyRoutes.post(
+  validateFields<LeanApiKey>("name", "roles"),
+  validator("json", (v) => {
+    if (!hasValidRoles(v.roles)) {
+      throw new BadRequestError("Los roles proporcionados no son válidos");
+    }
+    if (
+      v.routes !== undefined &&
+      (!Array.isArray(v.routes) ||
+        !v.routes.every((r: unknown) =>
+          typeof r === "string" && r.includes("/")
+        ))
+    ) {
+      throw new BadRequestError("Las rutas proporcionadas no son válidas");
+    }
+
+    return v;
+  }),
+  authMiddleware,
+  permissionMiddleware("apikey.manage"),
+  ...saveApiKey,
+);
+apiKeyRoutes.get(
+  authMiddleware,
+  permissionMiddleware("apikey.manage"),
+  ...listApiKey,
+);
+apiKeyRoutes.delete(
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("apikey.manage"),
+  ...deleteApiKey,
+);
+
+export { apiKeyRoutes };
@@ -0,0 +1,13 @@
+import { getAudit } from "controllers";
+import { Hono } from "deps";
+import { authMiddleware, permissionMiddleware } from "middlewares";
+
+const auditRoutes = new Hono();
+
+auditRoutes.get(
+  authMiddleware,
+  permissionMiddleware("audit.read"),
+  ...getAudit,
+);
+
+export { auditRoutes };
@@ -1,29 +1,81 @@
 import type { LeanBrand } from "@interfaces/brand.interface.ts";
-import { deleteBrand, getBrand, saveBrand, updateBrand } from "controllers";
+import {
+  deleteBrand,
+  getBrand,
+  historyBrand,
+  restoreBrand,
+  revertBrand,
+  saveBrand,
+  updateBrand,
+} from "controllers";
 import { Hono } from "deps";
-import { authMiddleware, pathMiddleware } from "middlewares";
+import {
+  authMiddleware,
+  pathMiddleware,
+  permissionMiddleware,
+  scopeMiddleware,
+} from "middlewares";
 
-import { validateFields, validateId } from "@utils/validators.ts";
+import { validateFields, validateId, validateRev } from "@utils/validators.ts";
 
 const brandRoutes = new Hono();
 
 brandRoutes.post(
   validateFields<LeanBrand>("code", "desc"),
   authMiddleware,
+  permissionMiddleware("brand.create"),
   ...saveBrand,
 );
-brandRoutes.get(authMiddleware, ...getBrand);
+brandRoutes.get(
+  authMiddleware,
+  permissionMiddleware("brand.read"),
+  ...getBrand,
+);
 brandRoutes.put(
   validateId(),
   validateFields<LeanBrand>("code", "desc"),
   authMiddleware,
+  permissionMiddleware("brand.update"),
+  scopeMiddleware("brand"),
+  pathMiddleware,
   ...updateBrand,
 );
 brandRoutes.delete(
   validateId(),
   authMiddleware,
+  permissionMiddleware("brand.delete"),
+  scopeMiddleware("brand"),
   pathMiddleware,
   ...deleteBrand,
 );
 
+brandRoutes.put(
+  "/restore",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("brand.delete"),
+  scopeMiddleware("brand"),
+  pathMiddleware,
+  ...restoreBrand,
+);
+
+brandRoutes.get(
+  "/history",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("brand.read"),
+  scopeMiddleware("brand"),
+  ...historyBrand,
+);
+brandRoutes.put(
+  "/revert",
+  validateId(),
+  validateRev(),
+  authMiddleware,
+  permissionMiddleware("brand.update"),
+  scopeMiddleware("brand"),
+  pathMiddleware,
+  ...revertBrand,
+);
+
 export { brandRoutes };
@@ -0,0 +1,39 @@
+import type { LeanFitment } from "@interfaces/fitment.interface.ts";
+import {
+  deleteFitment,
+  getFitment,
+  saveFitment,
+  updateFitment,
+} from "controllers";
+import { Hono } from "deps";
+import { authMiddleware, permissionMiddleware } from "middlewares";
+
+import { validateFields, validateId } from "@utils/validators.ts";
+
+const fitmentRoutes = new Hono();
+
+fitmentRoutes.post(
+  validateFields<LeanFitment>("item", "vehicle"),
+  authMiddleware,
+  permissionMiddleware("item.update"),
+  ...saveFitment,
+);
+fitmentRoutes.get(
+  authMiddleware,
+  permissionMiddleware("item.read"),
+  ...getFitment,
+);
+fitmentRoutes.put(
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("item.update"),
+  ...updateFitment,
+);
+fitmentRoutes.delete(
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("item.update"),
+  ...deleteFitment,
+);
+
+export { fitmentRoutes };
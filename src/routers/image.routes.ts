@@ -5,6 +5,8 @@ import {
   authMiddleware,
   parseImageMiddleware,
   pathMiddleware,
+  permissionMiddleware,
+  scopeMiddleware,
 } from "middlewares";
 import { pattern } from "regex";
 
@@ -16,6 +18,8 @@ imageRoutes.put(
   validateId(),
   validateIdN(),
   authMiddleware,
+  permissionMiddleware("item.image.upload"),
+  scopeMiddleware("item"),
   pathMiddleware,
   parseImageMiddleware,
   ...updateImage,
@@ -24,6 +28,8 @@ imageRoutes.delete(
   validateId(),
   validateIdN(),
   authMiddleware,
+  permissionMiddleware("item.image.delete"),
+  scopeMiddleware("item"),
   pathMiddleware,
   ...deleteImage,
 );
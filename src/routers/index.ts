@@ -6,3 +6,10 @@ export * from "./pdf.routes.ts";
 export * from "./user.routes.ts";
 export * from "./image.routes.ts";
 export * from "./update.routes.ts";
+export * from "./apikey.routes.ts";
+export * from "./wellknown.routes.ts";
+export * from "./audit.routes.ts";
+export * from "./role.routes.ts";
+export * from "./rename.routes.ts";
+export * from "./vehicle.routes.ts";
+export * from "./fitment.routes.ts";
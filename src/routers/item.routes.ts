@@ -1,44 +1,120 @@
 import type { LeanItem } from "@interfaces/item.interface.ts";
 import {
-    deleteItem, fuzzyItem, getItem, infoItem, navigateItem, resetItem, saveItem, statusItem,
-    summaryItem, updateItem
+    deleteItem, exportItem, fuzzyItem, getItem, historyItem, importItem, infoItem, linkItem,
+    moveItem, navigateItem, purgeItem, resetItem, restoreItem, revertItem, saveItem, statusItem,
+    summaryItem, unlinkItem, updateItem
 } from 'controllers';
 import { Hono, validator } from 'deps';
 import { BadRequestError } from 'errors';
-import { authMiddleware, pathMiddleware } from 'middlewares';
+import {
+    authMiddleware, pathMiddleware, permissionMiddleware, scopeMiddleware
+} from 'middlewares';
 import { pattern } from 'regex';
 
-import { validateFields, validateId, validateIdN } from '@utils/validators.ts';
+import { validateFields, validateId, validateIdN, validateRev } from '@utils/validators.ts';
 
 const itemRoutes = new Hono();
 
 itemRoutes.post(
-  validateFields<LeanItem>("key", "code", "desc"),
+  validateFields<LeanItem>("key", "desc"),
   authMiddleware,
+  permissionMiddleware("item.create"),
   ...saveItem,
 );
 itemRoutes.get(
   authMiddleware,
+  permissionMiddleware("item.read"),
   ...getItem,
 );
 itemRoutes.put(
   validateId(),
-  validateFields<LeanItem>("key", "code", "desc"),
+  validateFields<LeanItem>("desc"),
   authMiddleware,
+  permissionMiddleware("item.update"),
+  scopeMiddleware("item"),
   ...updateItem,
 );
-itemRoutes.delete(validateId(), authMiddleware, pathMiddleware, ...deleteItem);
+itemRoutes.delete(
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("item.delete"),
+  scopeMiddleware("item"),
+  pathMiddleware,
+  ...deleteItem,
+);
+itemRoutes.put(
+  "/restore",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("item.delete"),
+  pathMiddleware,
+  ...restoreItem,
+);
+itemRoutes.delete(
+  "/purge",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("item.delete"),
+  pathMiddleware,
+  ...purgeItem,
+);
+itemRoutes.put(
+  "/move",
+  validateId(),
+  validateFields<LeanItem>("key"),
+  authMiddleware,
+  permissionMiddleware("item.update"),
+  scopeMiddleware("item"),
+  pathMiddleware,
+  ...moveItem,
+);
+
+itemRoutes.post(
+  "/import",
+  authMiddleware,
+  permissionMiddleware("item.create"),
+  ...importItem,
+);
+itemRoutes.get(
+  "/export",
+  validator("query", (v: { format?: string }) => {
+    if (v.format && !["csv", "json", "ndjson"].includes(v.format)) {
+      throw new BadRequestError("El formato debe ser csv, json o ndjson");
+    }
 
+    return v;
+  }),
+  authMiddleware,
+  permissionMiddleware("item.read"),
+  ...exportItem,
+);
 itemRoutes.put(
   "/reset",
   validateId(),
   authMiddleware,
+  permissionMiddleware("item.reset"),
+  scopeMiddleware("item"),
   pathMiddleware,
   ...resetItem,
 );
-itemRoutes.get("/info", authMiddleware, ...infoItem);
-itemRoutes.get("/summary", authMiddleware, ...summaryItem);
-itemRoutes.get("/fuzzy", authMiddleware, ...fuzzyItem);
+itemRoutes.get(
+  "/info",
+  authMiddleware,
+  permissionMiddleware("item.read"),
+  ...infoItem,
+);
+itemRoutes.get(
+  "/summary",
+  authMiddleware,
+  permissionMiddleware("item.read"),
+  ...summaryItem,
+);
+itemRoutes.get(
+  "/fuzzy",
+  authMiddleware,
+  permissionMiddleware("item.read"),
+  ...fuzzyItem,
+);
 itemRoutes.get(
   "/navigate",
   validator("query", (v: { code: string; direction: string }) => {
@@ -49,6 +125,7 @@ itemRoutes.get(
     return v;
   }),
   authMiddleware,
+  permissionMiddleware("item.read"),
   ...navigateItem,
 );
 itemRoutes.put(
@@ -56,7 +133,46 @@ itemRoutes.put(
   validateId(),
   validateIdN(),
   authMiddleware,
+  permissionMiddleware("item.status"),
+  scopeMiddleware("item"),
   ...statusItem,
 );
 
+itemRoutes.get(
+  "/history",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("item.read"),
+  scopeMiddleware("item"),
+  ...historyItem,
+);
+itemRoutes.put(
+  "/revert",
+  validateId(),
+  validateRev(),
+  authMiddleware,
+  permissionMiddleware("item.update"),
+  scopeMiddleware("item"),
+  pathMiddleware,
+  ...revertItem,
+);
+
+itemRoutes.post(
+  "/relation",
+  validateId(),
+  validateFields<{ type: string; target: string }>("type", "target"),
+  authMiddleware,
+  permissionMiddleware("item.update"),
+  scopeMiddleware("item"),
+  ...linkItem,
+);
+itemRoutes.delete(
+  "/relation",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("item.update"),
+  scopeMiddleware("item"),
+  ...unlinkItem,
+);
+
 export { itemRoutes };
@@ -1,41 +1,117 @@
 import type { LeanKey } from "@interfaces/key.interface.ts";
 import {
   deleteKey,
+  gapsKey,
   getCodeKey,
   getKey,
+  historyKey,
+  nextCodeKey,
   resetKey,
+  restoreKey,
+  revertKey,
   saveKey,
   updateKey,
 } from "controllers";
 import { Hono } from "deps";
-import { authMiddleware, pathMiddleware } from "middlewares";
+import {
+  authMiddleware,
+  pathMiddleware,
+  permissionMiddleware,
+  scopeMiddleware,
+} from "middlewares";
 
-import { validateFields, validateId } from "@utils/validators.ts";
+import { validateFields, validateId, validateRev } from "@utils/validators.ts";
 
 const keyRoutes = new Hono();
 
 keyRoutes.post(
   validateFields<LeanKey>("line", "brand"),
   authMiddleware,
+  permissionMiddleware("key.create"),
   ...saveKey,
 );
-keyRoutes.get(authMiddleware, ...getKey);
+keyRoutes.get(
+  authMiddleware,
+  permissionMiddleware("key.read"),
+  ...getKey,
+);
 keyRoutes.put(
   validateId(),
   validateFields<LeanKey>("line", "brand"),
   authMiddleware,
+  permissionMiddleware("key.update"),
+  scopeMiddleware("key"),
+  pathMiddleware,
   ...updateKey,
 );
-keyRoutes.delete(validateId(), authMiddleware, pathMiddleware, ...deleteKey);
+keyRoutes.delete(
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("key.delete"),
+  scopeMiddleware("key"),
+  pathMiddleware,
+  ...deleteKey,
+);
 
 keyRoutes.put(
   "/reset",
   validateId(),
   authMiddleware,
+  permissionMiddleware("key.reset"),
+  scopeMiddleware("key"),
   pathMiddleware,
   ...resetKey,
 );
 
-keyRoutes.get("/code", authMiddleware, ...getCodeKey);
+keyRoutes.get(
+  "/code",
+  authMiddleware,
+  permissionMiddleware("key.read"),
+  ...getCodeKey,
+);
+keyRoutes.get(
+  "/next-code",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("key.read"),
+  scopeMiddleware("key"),
+  ...nextCodeKey,
+);
+keyRoutes.get(
+  "/gaps",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("key.read"),
+  scopeMiddleware("key"),
+  ...gapsKey,
+);
+
+keyRoutes.put(
+  "/restore",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("key.delete"),
+  pathMiddleware,
+  ...restoreKey,
+);
+
+keyRoutes.get(
+  "/history",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("key.read"),
+  scopeMiddleware("key"),
+  ...historyKey,
+);
+keyRoutes.put(
+  "/revert",
+  validateId(),
+  validateRev(),
+  authMiddleware,
+  permissionMiddleware("key.update"),
+  scopeMiddleware("key"),
+  pathMiddleware,
+  ...revertKey,
+);
 
 export { keyRoutes };
@@ -1,24 +1,81 @@
 import type { LeanLine } from "@interfaces/line.interface.ts";
-import { deleteLine, getLine, saveLine, updateLine } from "controllers";
+import {
+  deleteLine,
+  getLine,
+  historyLine,
+  restoreLine,
+  revertLine,
+  saveLine,
+  updateLine,
+} from "controllers";
 import { Hono } from "deps";
-import { authMiddleware } from "middlewares";
+import {
+  authMiddleware,
+  pathMiddleware,
+  permissionMiddleware,
+  scopeMiddleware,
+} from "middlewares";
 
-import { validateFields, validateId } from "@utils/validators.ts";
+import { validateFields, validateId, validateRev } from "@utils/validators.ts";
 
 const lineRoutes = new Hono();
 
 lineRoutes.post(
   validateFields<LeanLine>("code", "desc"),
   authMiddleware,
+  permissionMiddleware("line.create"),
   ...saveLine,
 );
-lineRoutes.get(authMiddleware, ...getLine);
+lineRoutes.get(
+  authMiddleware,
+  permissionMiddleware("line.read"),
+  ...getLine,
+);
 lineRoutes.put(
   validateId(),
   validateFields<LeanLine>("code", "desc"),
   authMiddleware,
+  permissionMiddleware("line.update"),
+  scopeMiddleware("line"),
+  pathMiddleware,
   ...updateLine,
 );
-lineRoutes.delete(validateId(), authMiddleware, ...deleteLine);
+lineRoutes.delete(
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("line.delete"),
+  scopeMiddleware("line"),
+  pathMiddleware,
+  ...deleteLine,
+);
+
+lineRoutes.put(
+  "/restore",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("line.delete"),
+  scopeMiddleware("line"),
+  pathMiddleware,
+  ...restoreLine,
+);
+
+lineRoutes.get(
+  "/history",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("line.read"),
+  scopeMiddleware("line"),
+  ...historyLine,
+);
+lineRoutes.put(
+  "/revert",
+  validateId(),
+  validateRev(),
+  authMiddleware,
+  permissionMiddleware("line.update"),
+  scopeMiddleware("line"),
+  pathMiddleware,
+  ...revertLine,
+);
 
 export { lineRoutes };
@@ -0,0 +1,13 @@
+import { getRename } from "controllers";
+import { Hono } from "deps";
+import { authMiddleware } from "middlewares";
+
+const renameRoutes = new Hono();
+
+// Los permisos dependen de la entidad de cada trabajo y se verifican en el controlador
+renameRoutes.get(
+  authMiddleware,
+  ...getRename,
+);
+
+export { renameRoutes };
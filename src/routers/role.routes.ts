@@ -0,0 +1,65 @@
+import type { LeanRole } from "@interfaces/role.interface.ts";
+import {
+  deleteRole,
+  listPermission,
+  listRole,
+  saveRole,
+  updateRole,
+} from "controllers";
+import { Hono, validator } from "deps";
+import { BadRequestError } from "errors";
+import { authMiddleware, permissionMiddleware } from "middlewares";
+
+import { hasValidPermissions } from "@utils/permissions.ts";
+import { validateFields, validateId } from "@utils/validators.ts";
+
+const roleRoutes = new Hono();
+
+roleRoutes.post(
+  validateFields<LeanRole>("name", "permissions"),
+  validator("json", (v) => {
+    if (!hasValidPermissions(v.permissions)) {
+      throw new BadRequestError("Los permisos proporcionados no son válidos");
+    }
+
+    return v;
+  }),
+  authMiddleware,
+  permissionMiddleware("role.manage"),
+  ...saveRole,
+);
+roleRoutes.get(
+  authMiddleware,
+  permissionMiddleware("role.manage"),
+  ...listRole,
+);
+roleRoutes.put(
+  validateId(),
+  validator("json", (v) => {
+    if (
+      v.permissions !== undefined && !hasValidPermissions(v.permissions)
+    ) {
+      throw new BadRequestError("Los permisos proporcionados no son válidos");
+    }
+
+    return v;
+  }),
+  authMiddleware,
+  permissionMiddleware("role.manage"),
+  ...updateRole,
+);
+roleRoutes.delete(
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("role.manage"),
+  ...deleteRole,
+);
+
+roleRoutes.get(
+  "/permissions",
+  authMiddleware,
+  permissionMiddleware("role.manage"),
+  ...listPermission,
+);
+
+export { roleRoutes };
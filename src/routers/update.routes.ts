@@ -1,7 +1,11 @@
 import type { Version } from "@interfaces/update.interface.ts";
 import { checkForUpdate, updateVersionData } from "controllers";
 import { Hono } from "deps";
-import { authMiddleware, versionFileMiddleware } from "middlewares";
+import {
+  authMiddleware,
+  permissionMiddleware,
+  versionFileMiddleware,
+} from "middlewares";
 
 import { validateFields } from "@utils/validators.ts";
 
@@ -13,6 +17,7 @@ updateRoutes.post(
   "/:plataform",
   validateFields<Version>("version", "url", "signature", "pub_date", "notes"),
   authMiddleware,
+  permissionMiddleware("update.publish"),
   ...updateVersionData,
 );
 
@@ -1,11 +1,16 @@
 import type { LeanUser } from "@interfaces/user.interface.ts";
-import { listUser, loginUser, registerUser, returnUser } from 'controllers';
+import {
+    changeNicknameUser, changePasswordUser, deleteUser, disableTotpUser, enableTotpUser,
+    listSessionUser, listUser, loginUser, logoutUser, recoveryTotpUser, refreshUser, registerUser,
+    requireTotpUser, resetPasswordUser, returnUser, revokeSessionUser, setupTotpUser, setupUser,
+    unlockUser, updateUser, verifyTotpUser
+} from 'controllers';
 import { Hono, validator } from 'deps';
 import { BadRequestError } from 'errors';
-import { authMiddleware } from 'middlewares';
+import { authMiddleware, permissionMiddleware } from 'middlewares';
 
 import { hasValidRoles } from '@utils/roles.ts';
-import { validateFields } from '@utils/validators.ts';
+import { validateFields, validateId } from '@utils/validators.ts';
 
 const userRoutes = new Hono();
 
@@ -20,14 +25,145 @@ userRoutes.post(
     return v;
   }),
   authMiddleware,
+  permissionMiddleware("user.manage"),
   ...registerUser,
 );
+userRoutes.post(
+  "/setup",
+  validateFields<LeanUser>("nickname", "password"),
+  ...setupUser,
+);
 userRoutes.post(
   "/login",
   validateFields<LeanUser>("nickname", "password"),
   ...loginUser,
 );
-userRoutes.get("/list", authMiddleware, ...listUser);
+userRoutes.post(
+  "/login/totp",
+  validateFields<{ challenge: string }>("challenge"),
+  validator("json", (v) => {
+    if (!v.code && !v.recovery) {
+      throw new BadRequestError("No se envió el código de verificación");
+    }
+
+    return v;
+  }),
+  ...verifyTotpUser,
+);
+userRoutes.post(
+  "/refresh",
+  validateFields<{ refresh: string }>("refresh"),
+  ...refreshUser,
+);
+userRoutes.post("/logout", authMiddleware, ...logoutUser);
+userRoutes.get("/sessions", authMiddleware, ...listSessionUser);
+userRoutes.delete(
+  "/sessions",
+  validateId(),
+  authMiddleware,
+  ...revokeSessionUser,
+);
+userRoutes.get(
+  "/list",
+  authMiddleware,
+  permissionMiddleware("user.manage"),
+  ...listUser,
+);
 userRoutes.get("/info", authMiddleware, ...returnUser);
+userRoutes.put(
+  "/me/password",
+  validateFields<{ current: string; password: string }>("current", "password"),
+  authMiddleware,
+  ...changePasswordUser,
+);
+userRoutes.put(
+  "/me/nickname",
+  validateFields<LeanUser>("nickname"),
+  authMiddleware,
+  ...changeNicknameUser,
+);
+userRoutes.post("/totp/setup", authMiddleware, ...setupTotpUser);
+userRoutes.post(
+  "/totp/enable",
+  validateFields<{ code: string }>("code"),
+  authMiddleware,
+  ...enableTotpUser,
+);
+userRoutes.put(
+  "/totp/recovery",
+  validateFields<{ code: string }>("code"),
+  authMiddleware,
+  ...recoveryTotpUser,
+);
+userRoutes.put(
+  "/totp/required",
+  validator("json", (v) => {
+    if (
+      !Array.isArray(v.roles) ||
+      (v.roles.length > 0 && !hasValidRoles(v.roles))
+    ) {
+      throw new BadRequestError("Los roles proporcionados no son válidos");
+    }
+
+    return v;
+  }),
+  authMiddleware,
+  permissionMiddleware("user.manage"),
+  ...requireTotpUser,
+);
+userRoutes.delete("/totp", authMiddleware, ...disableTotpUser);
+userRoutes.put(
+  "/",
+  validateId(),
+  validator("json", (v) => {
+    if (v.roles !== undefined && !hasValidRoles(v.roles)) {
+      throw new BadRequestError("Los roles proporcionados no son válidos");
+    }
+    if (
+      v.custom_roles !== undefined &&
+      (!Array.isArray(v.custom_roles) ||
+        !v.custom_roles.every((role: unknown) => typeof role === "string"))
+    ) {
+      throw new BadRequestError("Los roles personalizados no son válidos");
+    }
+    if (
+      v.scope !== undefined &&
+      (typeof v.scope !== "object" || v.scope === null ||
+        Array.isArray(v.scope) ||
+        ["lines", "brands"].some((field) =>
+          v.scope[field] !== undefined && !Array.isArray(v.scope[field])
+        ))
+    ) {
+      throw new BadRequestError("El alcance proporcionado no es válido");
+    }
+
+    return v;
+  }),
+  authMiddleware,
+  permissionMiddleware("user.manage"),
+  ...updateUser,
+);
+userRoutes.put(
+  "/password",
+  validateId(),
+  validateFields<LeanUser>("password"),
+  authMiddleware,
+  permissionMiddleware("user.manage"),
+  ...resetPasswordUser,
+);
+userRoutes.put(
+  "/unlock",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("user.manage"),
+  ...unlockUser,
+);
+userRoutes.delete(
+  "/",
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("user.manage"),
+  ...deleteUser,
+);
 
 export { userRoutes };
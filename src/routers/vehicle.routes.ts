@@ -0,0 +1,39 @@
+import type { LeanVehicle } from "@interfaces/vehicle.interface.ts";
+import {
+  deleteVehicle,
+  getVehicle,
+  saveVehicle,
+  updateVehicle,
+} from "controllers";
+import { Hono } from "deps";
+import { authMiddleware, permissionMiddleware } from "middlewares";
+
+import { validateFields, validateId } from "@utils/validators.ts";
+
+const vehicleRoutes = new Hono();
+
+vehicleRoutes.post(
+  validateFields<LeanVehicle>("make", "model", "year_from", "year_to"),
+  authMiddleware,
+  permissionMiddleware("vehicle.create"),
+  ...saveVehicle,
+);
+vehicleRoutes.get(
+  authMiddleware,
+  permissionMiddleware("vehicle.read"),
+  ...getVehicle,
+);
+vehicleRoutes.put(
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("vehicle.update"),
+  ...updateVehicle,
+);
+vehicleRoutes.delete(
+  validateId(),
+  authMiddleware,
+  permissionMiddleware("vehicle.delete"),
+  ...deleteVehicle,
+);
+
+export { vehicleRoutes };
@@ -0,0 +1,8 @@
+import { getJwks } from "controllers";
+import { Hono } from "deps";
+
+const wellKnownRoutes = new Hono();
+
+wellKnownRoutes.get("/jwks.json", ...getJwks);
+
+export { wellKnownRoutes };
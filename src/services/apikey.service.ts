@@ -0,0 +1,120 @@
+import type {
+  ApiKey,
+  ApiKeyDocument,
+  ApiKeyModel,
+} from "@interfaces/apikey.interface.ts";
+import type { UserDocument } from "@interfaces/user.interface.ts";
+import { UserModel } from "models";
+
+import { generateToken, hashToken } from "@utils/hash.ts";
+
+/**
+ * Prefijo de las llaves de API, para distinguirlas de otros tokens.
+ */
+const KEY_PREFIX = "cph_";
+
+/**
+ * Crea una llave de API nueva.
+ *
+ * @remarks
+ * Igual que con los tokens de refresco, solo se guarda el hash de la llave; el
+ * valor en texto plano se retorna una única vez para entregarlo al administrador.
+ *
+ * @param data - Nombre, permisos, rutas permitidas y autor de la llave.
+ * @returns La llave creada y su valor en texto plano.
+ *
+ * @example
+ * ```ts
+ * const { data, key } = await ApiKeyModel.issue({
+ *   name: "ingesta-fotos",
+ *   role: setup.AUTH.READ | setup.AUTH.EDIT,
+ *   routes: ["/api/image/*"],
+ *   created_by: user._id,
+ * });
+ * ```
+ */
+export async function issue(
+  this: ApiKeyModel,
+  data: Pick<ApiKey, "name" | "role" | "routes" | "created_by">,
+): Promise<{ data: ApiKeyDocument; key: string }> {
+  const key = KEY_PREFIX + generateToken();
+  const created = await this.create({
+    ...data,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    hash: await hashToken(key),
+  });
+
+  return { data: created, key };
+}
+
+/**
+ * Busca una llave vigente y actualiza su último uso en la misma operación.
+ *
+ * @param key - Llave en texto plano recibida en el encabezado `X-API-Key`.
+ * @returns La llave, o `null` si no existe o fue revocada.
+ *
+ * @example
+ * ```ts
+ * const api_key = await ApiKeyModel.authenticate(req.header("X-API-Key")!);
+ * if (!api_key) throw new UnauthorizedError();
+ * ```
+ */
+export async function authenticate(
+  this: ApiKeyModel,
+  key: string,
+): Promise<ApiKeyDocument | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+
+  return await this.findOneAndUpdate(
+    { hash: await hashToken(key), revoked_at: { $exists: false } },
+    { last_used_at: new Date() },
+    { new: true },
+  );
+}
+
+/**
+ * Verifica si la ruta solicitada está en la lista de rutas permitidas de la llave.
+ *
+ * @param method - Método HTTP de la solicitud.
+ * @param path - Ruta completa de la solicitud.
+ * @returns `true` si la lista está vacía o alguna entrada coincide.
+ *
+ * @example
+ * ```ts
+ * // routes: ["GET /api/item*", "/api/image/*"]
+ * api_key.allows("GET", "/api/item/search"); // true
+ * api_key.allows("DELETE", "/api/item"); // false
+ * ```
+ */
+export function allows(
+  this: ApiKeyDocument,
+  method: string,
+  path: string,
+): boolean {
+  if (!this.routes.length) return true;
+
+  return this.routes.some((route) => {
+    const [allowed_method, allowed_path] = route.includes(" ")
+      ? route.split(/\s+/, 2)
+      : [undefined, route];
+    if (allowed_method && allowed_method.toUpperCase() !== method) return false;
+
+    return allowed_path.endsWith("*")
+      ? path.startsWith(allowed_path.slice(0, -1))
+      : path === allowed_path;
+  });
+}
+
+/**
+ * Construye un usuario en memoria con los permisos de la llave. No se guarda en la
+ * base de datos; su `_id` es el de la llave y su `nickname` el nombre de la llave.
+ *
+ * @returns Documento de usuario con `roleIncludes` disponible.
+ */
+export function intoUser(this: ApiKeyDocument): UserDocument {
+  return UserModel.hydrate({
+    _id: this._id,
+    nickname: `apikey:${this.name}`,
+    role: this.role,
+  });
+}
@@ -0,0 +1,35 @@
+import type { AuditEntry, AuditLogModel } from "@interfaces/audit.interface.ts";
+import type { UserDocument } from "@interfaces/user.interface.ts";
+
+/**
+ * Registra una modificación del catálogo.
+ *
+ * @remarks
+ * Se llama después de aplicar el cambio, por lo que un error al guardar el registro
+ * solo se informa en consola: la respuesta al cliente no debe fallar por la auditoría.
+ *
+ * @param user - Usuario que hizo el cambio.
+ * @param entry - Acción, entidad, copias antes/después y archivos enviados a la papelera.
+ *
+ * @example
+ * ```ts
+ * await AuditLogModel.record(get("user"), {
+ *   action: "delete",
+ *   entity: "line",
+ *   entity_id: data._id,
+ *   before: data,
+ *   trashed,
+ * });
+ * ```
+ */
+export async function record(
+  this: AuditLogModel,
+  user: UserDocument,
+  entry: AuditEntry,
+): Promise<void> {
+  try {
+    await this.create({ user: user._id, nickname: user.nickname, ...entry });
+  } catch (error) {
+    console.error("Error al registrar la auditoría", error);
+  }
+}
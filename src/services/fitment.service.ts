@@ -0,0 +1,70 @@
+import type {
+  FitmentModel,
+  FitmentRange,
+  PopulatedFitment,
+} from "@interfaces/fitment.interface.ts";
+import { pipeline } from "aggregate";
+import { Types } from "deps";
+import { NotFoundError } from "errors";
+import { VehicleModel } from "models";
+
+import { parseYears } from "@utils/years.ts";
+
+/**
+ * Valida el vehículo y los años de una aplicación.
+ *
+ * @remarks
+ * Los años que no se envían se toman de los años de fabricación del vehículo, de modo
+ * que una aplicación sin años cubre todo el modelo.
+ *
+ * @param vehicle - `_id` del vehículo.
+ * @param years - Años enviados por el cliente.
+ * @returns El vehículo y los años validados.
+ * @throws {NotFoundError} Si el vehículo no existe.
+ * @throws {BadRequestError} Si los años no son válidos o están fuera de los del
+ *   vehículo.
+ *
+ * @example
+ * ```ts
+ * const range = await FitmentModel.parseRange(body.vehicle, body);
+ * await FitmentModel.create({ item, ...range, note: body.note });
+ * ```
+ */
+export async function parseRange(
+  this: FitmentModel,
+  vehicle: Types.ObjectId | string,
+  years: { year_from?: unknown; year_to?: unknown },
+): Promise<FitmentRange> {
+  const found = Types.ObjectId.isValid(vehicle)
+    ? await VehicleModel.findById(vehicle).select("year_from year_to").lean()
+    : null;
+  if (!found) throw new NotFoundError("No se encontró el vehículo");
+
+  return { vehicle: found._id, ...parseYears(years, found) };
+}
+
+/**
+ * Obtiene las aplicaciones con el vehículo poblado.
+ *
+ * @param filter - Filtro de las aplicaciones; como es una agregación, los `_id` deben
+ *   enviarse como `ObjectId`.
+ * @returns Las aplicaciones ordenadas por marca, modelo y año.
+ *
+ * @example
+ * ```ts
+ * const fitments = await FitmentModel.getPopulate({
+ *   item: new Types.ObjectId(_id),
+ * });
+ * ```
+ */
+export function getPopulate(
+  this: FitmentModel,
+  filter: Record<string, unknown>,
+): Promise<PopulatedFitment[]> {
+  return this.aggregate<PopulatedFitment>()
+    .match(filter)
+    .lookup(pipeline.LOOKUP.VEHICLE).unwind("$vehicle")
+    .sort({ "vehicle.make": 1, "vehicle.model": 1, year_from: 1 })
+    .project({ __v: 0, "vehicle.__v": 0 })
+    .exec();
+}
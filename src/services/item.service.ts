@@ -1,13 +1,33 @@
 import type {
+  AttributeValue,
+  CodeGap,
+  CodeReport,
   DeletedInfo,
+  ImportOptions,
+  ImportReport,
+  ImportRow,
+  Item,
+  ItemDocument,
+  ItemUpdate,
   LeanItem,
+  MovedFile,
   PopulatedItem,
 } from "@interfaces/item.interface.ts";
+import type { AttributeDefinition } from "@interfaces/line.interface.ts";
+import type { UserDocument } from "@interfaces/user.interface.ts";
+import type { Query } from "mongoose";
 import { pipeline } from 'aggregate';
+import { setup } from 'config';
 import { Aggregate, isValidObjectId, Types } from 'deps';
-import { ItemModel } from 'models';
+import { BadRequestError, NotFoundError } from 'errors';
+import {
+    AuditLogModel, BrandModel, ItemModel, KeyModel, LineModel, RelationModel
+} from 'models';
 import { pattern } from 'regex';
 
+import { parseValues } from '@utils/attributes.ts';
+import { nextVersion } from '@utils/etag.ts';
+import { moveFiles, planItemFiles, undoMoveFiles } from '@utils/item_files.ts';
 import { damerauLevenshteinDistance } from '@utils/levenshteinDistance.ts';
 
 /**
@@ -102,6 +122,7 @@ export async function getBackInfo(
  *
  * @typeParam T - Tipo del documento poblado (por defecto `PopulatedItem`).
  * @param id - Opcional, identificador del ítem a poblar.
+ * @param scope - Opcional, filtro aplicado tras poblar (ver `UserMethods.scopeMatch`).
  * @returns Una instancia de `Aggregate<T[]>` para ejecutar el pipeline.
  *
  * @example
@@ -115,6 +136,7 @@ export async function getBackInfo(
 export function getPopulate<T = PopulatedItem>(
   this: ItemModel,
   id?: string,
+  scope: Record<string, unknown> = {},
 ): Aggregate<T[]> {
   const aggregate = this.aggregate<T>();
 
@@ -124,6 +146,7 @@ export function getPopulate<T = PopulatedItem>(
     .lookup(pipeline.LOOKUP.KEY).unwind("$key")
     .lookup(pipeline.LOOKUP.KEY_LINE).unwind("$key.line")
     .lookup(pipeline.LOOKUP.KEY_BRAND).unwind("$key.brand")
+    .match(scope)
     .project(pipeline.PROJECT.ITEM);
 }
 
@@ -138,6 +161,7 @@ export function getPopulate<T = PopulatedItem>(
  *
  * @param key - Fragmento de cadena a comparar en el lookup.
  * @param code - Código base con el cual se comparan las concatenaciones.
+ * @param scope - Opcional, filtro aplicado tras poblar (ver `UserMethods.scopeMatch`).
  * @returns Una instancia de `Aggregate` que produce un arreglo de objetos con la propiedad `code`.
  *
  * @example
@@ -152,12 +176,14 @@ export function getFuzzy(
   this: ItemModel,
   key: string,
   code: string,
+  scope: Record<string, unknown> = {},
 ): Aggregate<{ code: string }[]> {
   return this.aggregate<{ code: string }>()
     .match({ code })
     .lookup(pipeline.LOOKUP.KEY).unwind("$key")
     .lookup(pipeline.LOOKUP.KEY_LINE).unwind("$key.line")
     .lookup(pipeline.LOOKUP.KEY_BRAND).unwind("$key.brand")
+    .match(scope)
     .project({
       key: { $concat: ["$key.line.code", "$key.brand.code"] },
       code: { $concat: ["$key.line.code", "$key.brand.code", "$code"] },
@@ -267,3 +293,579 @@ export function getImage(
     .lookup(pipeline.LOOKUP.KEY_BRAND).unwind("$key.brand")
     .project(pipeline.PROJECT.IMAGE);
 }
+
+/**
+ * Destino de las filas de una misma llave durante una importación.
+ */
+interface ImportKey {
+  /** `_id` de la llave, o `undefined` si se va a crear. */
+  _id?: Types.ObjectId;
+  /** Códigos de línea y marca, para crear la llave. */
+  line: string;
+  brand: string;
+  /** Códigos de ítem (4 caracteres) que ya existen en la llave, incluida la papelera. */
+  codes: Set<string>;
+  /** Motivo por el que no se pueden importar ítems en la llave. */
+  error?: string;
+}
+
+/**
+ * Resuelve la llave de un código de ítem y, si no existe y se pidió crearla,
+ * valida que su línea y su marca existan o puedan crearse dentro del alcance del usuario.
+ * Las llaves, líneas y marcas en la papelera se reportan como error antes de guardar nada,
+ * porque sus códigos siguen ocupados por los índices únicos.
+ */
+async function resolveImportKey(
+  key_code: string,
+  data: ImportRow,
+  user: UserDocument,
+  create: boolean,
+  pending: { lines: Map<string, string>; brands: Map<string, string> },
+): Promise<ImportKey> {
+  const line = key_code.slice(0, 3);
+  const brand = key_code.slice(3).trimEnd();
+  const target: ImportKey = { line, brand, codes: new Set() };
+  const outOfScope = async (...args: Parameters<UserDocument["assertScope"]>) =>
+    await user.assertScope(...args).then(() => false, () => true);
+
+  const _id = await KeyModel.findByCode(key_code.trimEnd());
+  if (_id) {
+    if (await outOfScope("key", _id)) {
+      target.error = `La llave ${key_code} está fuera de tu alcance`;
+      return target;
+    }
+    target._id = _id;
+    // El índice único `(key, code)` también incluye los ítems en la papelera
+    const [active, trashed] = await Promise.all([
+      ItemModel.distinct("code", { key: _id }),
+      ItemModel.distinct("code", { key: _id, deleted_at: { $exists: true } }),
+    ]);
+    target.codes = new Set([...active, ...trashed].map(String));
+    return target;
+  }
+
+  // Los índices únicos incluyen la papelera: esos códigos se restauran, no se crean
+  const line_id = await LineModel.findByCode(line);
+  const brand_id = await BrandModel.findByCode(brand);
+  if (
+    line_id && brand_id &&
+    await KeyModel.inTrash({ line: line_id, brand: brand_id })
+  ) {
+    target.error =
+      `La llave ${key_code} está en la papelera; restáurala para importar sus ítems`;
+    return target;
+  }
+  if (!create) {
+    target.error = `La llave ${key_code} no existe`;
+    return target;
+  }
+
+  // Un registro nuevo nunca forma parte de un alcance ya definido
+  if (line_id && await outOfScope("line", line_id)) {
+    target.error = `La línea ${line} está fuera de tu alcance`;
+  } else if (!line_id && !pending.lines.has(line)) {
+    if (await LineModel.inTrash({ code: line })) {
+      target.error =
+        `La línea ${line} está en la papelera; restáurala para crear la llave`;
+    } else if (user.scope?.lines?.length) {
+      target.error = `No puedes registrar la línea ${line} fuera de tu alcance`;
+    } else if (!data.line_desc) {
+      target.error =
+        `La línea ${line} no existe; envía la columna line_desc para crearla`;
+    } else pending.lines.set(line, data.line_desc);
+  }
+  if (target.error) return target;
+
+  if (brand_id && await outOfScope("brand", brand_id)) {
+    target.error = `La marca ${brand} está fuera de tu alcance`;
+  } else if (!brand_id && !pending.brands.has(brand)) {
+    if (await BrandModel.inTrash({ code: brand.padEnd(3, " ") })) {
+      target.error =
+        `La marca ${brand} está en la papelera; restáurala para crear la llave`;
+    } else if (user.scope?.brands?.length) {
+      target.error =
+        `No puedes registrar la marca ${brand} fuera de tu alcance`;
+    } else if (!data.brand_desc) {
+      target.error =
+        `La marca ${brand} no existe; envía la columna brand_desc para crearla`;
+    } else pending.brands.set(brand, data.brand_desc);
+  }
+
+  return target;
+}
+
+/**
+ * Valida e importa ítems a partir de las filas de un archivo CSV.
+ *
+ * @remarks
+ * Cada fila debe traer el código completo del ítem (`pattern.ITEM`) y su descripción; el
+ * estado inicial es opcional. Se rechazan las filas con códigos repetidos en el archivo,
+ * ítems que ya existen (también en la papelera), llaves inexistentes (salvo con `create`),
+ * llaves, líneas o marcas en la papelera, o fuera del alcance del usuario. Las filas válidas se guardan por lotes de `setup.LIMIT.BATCH`; una fila que
+ * falle al guardarse (por ejemplo, porque otro usuario registró el mismo ítem mientras
+ * tanto) se agrega a los errores sin detener el resto. Cada registro creado queda en la
+ * auditoría.
+ *
+ * @param rows - Filas del archivo, sin el encabezado.
+ * @param options - Usuario, modo de prueba y creación de líneas, marcas y llaves.
+ * @returns El reporte con los errores por fila y lo que se creó.
+ *
+ * @example
+ * ```ts
+ * const report = await ItemModel.importRows(parseCsvRecords(text), {
+ *   user: get("user"),
+ *   dry_run: req.query("dry_run") === "true",
+ * });
+ * console.log(report.valid, "de", report.total, "filas válidas");
+ * ```
+ */
+export async function importRows(
+  this: ItemModel,
+  rows: ImportRow[],
+  { user, dry_run = false, create = false }: ImportOptions,
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    total: rows.length,
+    valid: 0,
+    inserted: 0,
+    errors: [],
+    created: { lines: [], brands: [], keys: [] },
+  };
+  const pending = {
+    lines: new Map<string, string>(),
+    brands: new Map<string, string>(),
+  };
+  const keys = new Map<string, ImportKey>();
+  const seen = new Map<string, number>();
+  const accepted: { row: number; key: string; item: Partial<Item> }[] = [];
+
+  for (const [index, data] of rows.entries()) {
+    // La fila 1 es el encabezado
+    const row = index + 2;
+    const code = data.code?.toUpperCase() ?? "";
+    const errors: string[] = [];
+    if (!RegExp(`^${pattern.ITEM}$`).test(code)) {
+      errors.push("El código no cumple con el formato de ítem");
+    }
+    if (!data.desc) errors.push("La descripción es obligatoria");
+    const status = data.status === undefined ? undefined : Number(data.status);
+    if (
+      status !== undefined &&
+      !(Number.isInteger(status) && status >= 0 && status < 5)
+    ) {
+      errors.push("El estado debe ser un número del 0 al 4");
+    }
+    if (seen.has(code)) {
+      errors.push(`El código ya aparece en la fila ${seen.get(code)}`);
+    } else if (code) seen.set(code, row);
+
+    if (!errors.length) {
+      const key_code = code.slice(0, 6);
+      let target = keys.get(key_code);
+      if (!target) {
+        target = await resolveImportKey(key_code, data, user, create, pending);
+        keys.set(key_code, target);
+      }
+      if (target.error) errors.push(target.error);
+      else if (target.codes.has(code.slice(6))) {
+        errors.push("El ítem ya existe o está en la papelera");
+      }
+    }
+
+    if (errors.length) {
+      report.errors.push({ row, code: data.code, errors });
+      continue;
+    }
+    accepted.push({
+      row,
+      key: code.slice(0, 6),
+      item: {
+        code: code.slice(6),
+        desc: data.desc,
+        images: status === undefined ? [] : Array.from(
+          { length: 3 },
+          (_, n) => ({ idN: n + 1, status } as Item["images"][number]),
+        ),
+      },
+    });
+  }
+  report.valid = accepted.length;
+
+  // Solo se crean las llaves (y sus líneas y marcas) que tienen filas válidas
+  const used = [...keys].filter(([key_code, target]) =>
+    !target._id && accepted.some(({ key }) => key === key_code)
+  );
+  const lines = new Set(used.map(([, { line }]) => line));
+  const brands = new Set(used.map(([, { brand }]) => brand));
+  report.created.lines.push(
+    ...[...pending.lines.keys()].filter((code) => lines.has(code)),
+  );
+  report.created.brands.push(
+    ...[...pending.brands.keys()].filter((code) => brands.has(code)),
+  );
+  report.created.keys.push(...used.map(([key_code]) => key_code.trimEnd()));
+  if (dry_run || !accepted.length) return report;
+
+  for (const code of report.created.lines) {
+    const line = await new LineModel({ code, desc: pending.lines.get(code) })
+      .save();
+    await AuditLogModel.record(user, {
+      action: "create",
+      entity: "line",
+      entity_id: line._id,
+      after: line.toObject(),
+    });
+  }
+  for (const code of report.created.brands) {
+    const brand = await new BrandModel({
+      code,
+      desc: pending.brands.get(code),
+    }).save();
+    await AuditLogModel.record(user, {
+      action: "create",
+      entity: "brand",
+      entity_id: brand._id,
+      after: brand.toObject(),
+    });
+  }
+  for (const [, target] of used) {
+    const key = await new KeyModel({
+      line: await LineModel.findByCode(target.line),
+      brand: await BrandModel.findByCode(target.brand),
+    }).save();
+    target._id = new Types.ObjectId(key.id);
+    await AuditLogModel.record(user, {
+      action: "create",
+      entity: "key",
+      entity_id: key.id,
+      after: key.toObject(),
+    });
+  }
+
+  for (let i = 0; i < accepted.length; i += setup.LIMIT.BATCH) {
+    const batch = accepted.slice(i, i + setup.LIMIT.BATCH);
+    const docs = batch.map(({ key, item }) => ({
+      ...item,
+      key: keys.get(key)!._id,
+    }));
+    let inserted: ItemDocument[];
+    try {
+      inserted = await this.insertMany(docs, { ordered: false });
+    } catch (error) {
+      // Con `ordered: false` se guardan las demás filas aunque alguna falle
+      const { insertedDocs } = error as { insertedDocs?: ItemDocument[] };
+      if (!insertedDocs) throw error;
+      inserted = insertedDocs;
+    }
+
+    const saved = new Set(inserted.map(({ key, code }) => `${key}${code}`));
+    for (const { row, key, item } of batch) {
+      if (saved.has(`${keys.get(key)!._id}${item.code}`)) continue;
+      report.valid--;
+      report.errors.push({
+        row,
+        code: `${key}${item.code}`,
+        errors: ["No se pudo guardar el ítem; es posible que ya exista"],
+      });
+    }
+    for (const data of inserted) {
+      await AuditLogModel.record(user, {
+        action: "create",
+        entity: "item",
+        entity_id: data._id,
+        after: data.toObject(),
+      });
+    }
+    report.inserted += inserted.length;
+  }
+  report.errors.sort((a, b) => a.row - b.row);
+
+  return report;
+}
+
+/**
+ * Actualiza la llave, el código o la descripción de un ítem y, si cambia la llave o el
+ * código, mueve sus imágenes al nombre nuevo.
+ *
+ * @remarks
+ * - El índice único `(key, code)` también aplica a los ítems en la papelera, por lo que
+ *   se valida contra ambos antes de mover cualquier archivo.
+ * - Los archivos se mueven antes de actualizar el documento; si la actualización falla,
+ *   regresan a su ruta anterior para que sigan el nombre que conserva el documento.
+ * - Si cambia la llave, los atributos (los enviados o los actuales) se validan contra
+ *   la línea de la llave destino, que puede definir otros obligatorios.
+ *
+ * @param item - Documento del ítem antes del cambio.
+ * @param update - Campos por modificar.
+ * @param location - Ubicación del catálogo; sin ella no se mueven archivos.
+ * @returns Los archivos renombrados.
+ *
+ * @example
+ * ```ts
+ * const item = await ItemModel.findById(_id);
+ * const moved = await ItemModel.relocate(item, { key, code: "0007" }, location);
+ * ```
+ */
+export async function relocate(
+  this: ItemModel,
+  item: ItemDocument,
+  update: ItemUpdate,
+  location?: string,
+): Promise<MovedFile[]> {
+  const key = new Types.ObjectId(String(update.key ?? item.key));
+  const code = update.code ?? item.code;
+  const renamed = !key.equals(String(item.key)) || code !== item.code;
+  if (renamed && await this.exists({ key, code })) {
+    throw new BadRequestError("Ya existe un item con ese código en la clave");
+  }
+  if (
+    renamed &&
+    await this.exists({ key, code, deleted_at: { $exists: true } })
+  ) {
+    throw new BadRequestError("El código está ocupado por un item en la papelera");
+  }
+  const changes: ItemUpdate = !key.equals(String(item.key)) || update.attributes
+    ? {
+      ...update,
+      attributes: await this.parseAttributes(
+        key,
+        update.attributes ?? item.attributes ?? {},
+      ),
+    }
+    : update;
+
+  let moved: MovedFile[] = [];
+  if (renamed && location) {
+    const [from] = await KeyModel.getPopulate<{ code: string }>(String(item.key));
+    const [to] = await KeyModel.getPopulate<{ code: string }>(String(key));
+    moved = moveFiles(
+      location,
+      planItemFiles(
+        location,
+        { key: from.code, file: `${from.code}${item.code}` },
+        { key: to.code, file: `${to.code}${code}` },
+        item.images,
+      ),
+    );
+  }
+
+  try {
+    const { modifiedCount } = await this.updateOne(
+      { _id: item._id },
+      nextVersion(changes),
+    );
+    if (!modifiedCount) throw new NotFoundError("Documento no modificado");
+  } catch (error) {
+    if (location) undoMoveFiles(location, moved);
+    throw error;
+  }
+  return moved;
+}
+
+/**
+ * Valida los atributos de un ítem contra las definiciones de la línea de su llave.
+ *
+ * @param key - `_id` de la llave del ítem.
+ * @param values - Valores enviados por el cliente.
+ * @returns Los valores convertidos al tipo de cada definición.
+ * @throws {BadRequestError} Si la llave no existe o algún valor no es válido.
+ *
+ * @example
+ * ```ts
+ * const attributes = await ItemModel.parseAttributes(key, body.attributes);
+ * await ItemModel.updateOne({ _id }, { attributes });
+ * ```
+ */
+export async function parseAttributes(
+  this: ItemModel,
+  key: Types.ObjectId | string,
+  values: Record<string, unknown>,
+): Promise<Record<string, AttributeValue>> {
+  const found = await KeyModel.findById(key).select("line").lean();
+  if (!found) throw new BadRequestError("La clave del item no existe");
+
+  const line = await LineModel.findById(found.line).select("attributes").lean();
+  return parseValues(line?.attributes ?? [], values);
+}
+
+/**
+ * Último código numérico de una llave.
+ */
+const LAST_CODE = 9999;
+
+/**
+ * Calcula los códigos usados y libres de una llave.
+ *
+ * @remarks
+ * - Los ítems en la papelera cuentan como usados, porque el índice único `(key, code)`
+ *   también los incluye.
+ * - Solo los códigos de 4 dígitos forman la secuencia; los alfanuméricos (por ejemplo,
+ *   "A001") cuentan como usados pero no abren ni cierran huecos.
+ *
+ * @param key - `_id` de la llave.
+ * @returns Cantidad de códigos usados, el siguiente código y los rangos libres.
+ *
+ * @example
+ * ```ts
+ * const { next } = await ItemModel.codeReport(key);
+ * if (!next) throw new BadRequestError("La clave no tiene códigos disponibles");
+ * ```
+ */
+export async function codeReport(
+  this: ItemModel,
+  key: Types.ObjectId | string,
+): Promise<CodeReport> {
+  const _key = new Types.ObjectId(key);
+  const [active, trashed] = await Promise.all([
+    this.distinct("code", { key: _key }),
+    this.distinct("code", {
+      key: _key,
+      deleted_at: { $exists: true },
+    }),
+  ]);
+  const codes = new Set([...active, ...trashed].map(String));
+  const numbers = new Set(
+    [...codes].filter((code) => /^\d{4}$/.test(code)).map(Number),
+  );
+  const last = Math.max(0, ...numbers);
+  const format = (n: number) => String(n).padStart(4, "0");
+
+  const gaps: CodeGap[] = [];
+  let start = 0;
+  for (let n = 1; n <= last + 1; n++) {
+    if (n <= last && !numbers.has(n)) {
+      start ||= n;
+    } else if (start) {
+      gaps.push({ from: format(start), to: format(n - 1), count: n - start });
+      start = 0;
+    }
+  }
+
+  return {
+    used: codes.size,
+    next: last < LAST_CODE ? format(last + 1) : gaps[0]?.from ?? null,
+    gaps,
+  };
+}
+
+/**
+ * Valida los atributos de los ítems de unas llaves, incluidos los de la papelera, y reúne
+ * los errores de todos en un solo `BadRequestError`.
+ */
+async function assertItemValues(
+  model: ItemModel,
+  keys: Types.ObjectId[],
+  definitions: AttributeDefinition[],
+  message: string,
+): Promise<void> {
+  const filter = { key: { $in: keys } };
+  const items = (await Promise.all([
+    model.find(filter).select("code attributes").lean(),
+    model.find({ ...filter, deleted_at: { $exists: true } })
+      .select("code attributes").lean(),
+  ])).flat();
+
+  const errors: string[] = [];
+  for (const { code, attributes } of items) {
+    try {
+      parseValues(definitions, attributes ?? {});
+    } catch (error) {
+      if (!(error instanceof BadRequestError)) throw error;
+      const { errors: details = [error.message] } = (error.details ?? {}) as {
+        errors?: string[];
+      };
+      errors.push(...details.map((detail) => `${code} ${detail}`));
+    }
+  }
+
+  if (errors.length) throw new BadRequestError(message, { errors });
+}
+
+/**
+ * Verifica que los atributos de los ítems de una llave sigan siendo válidos con las
+ * definiciones de otra línea, antes de cambiar la línea de la llave.
+ *
+ * @remarks
+ * Incluye los ítems en la papelera, para que al restaurarlos no queden con atributos que
+ * su línea no define.
+ *
+ * @param key - `_id` de la llave.
+ * @param line - `_id` de la línea nueva.
+ * @throws {BadRequestError} Si algún ítem no cumple con las definiciones; `details`
+ *   lista los errores por código.
+ *
+ * @example
+ * ```ts
+ * if (!line.equals(original.line)) await ItemModel.assertAttributes(_id, line);
+ * ```
+ */
+export async function assertAttributes(
+  this: ItemModel,
+  key: Types.ObjectId | string,
+  line: Types.ObjectId | string,
+): Promise<void> {
+  const found = await LineModel.findById(line).select("attributes").lean();
+  await assertItemValues(
+    this,
+    [new Types.ObjectId(key)],
+    found?.attributes ?? [],
+    "Los atributos de algunos items no son válidos en la nueva línea",
+  );
+}
+
+/**
+ * Verifica que los atributos de los ítems de una línea sigan siendo válidos con nuevas
+ * definiciones, antes de reemplazar las de la línea.
+ *
+ * @remarks
+ * Incluye las llaves y los ítems en la papelera, por la misma razón que
+ * `assertAttributes`.
+ *
+ * @param line - `_id` de la línea.
+ * @param definitions - Definiciones que tendrá la línea.
+ * @throws {BadRequestError} Si algún ítem no cumple con las definiciones; `details`
+ *   lista los errores por código.
+ *
+ * @example
+ * ```ts
+ * const attributes = parseDefinitions(body.attributes);
+ * await ItemModel.assertDefinitions(_id, attributes);
+ * ```
+ */
+export async function assertDefinitions(
+  this: ItemModel,
+  line: Types.ObjectId | string,
+  definitions: AttributeDefinition[],
+): Promise<void> {
+  const _line = new Types.ObjectId(line);
+  const keys = (await Promise.all([
+    KeyModel.distinct("_id", { line: _line }),
+    KeyModel.distinct("_id", { line: _line, deleted_at: { $exists: true } }),
+  ])).flat() as Types.ObjectId[];
+  await assertItemValues(
+    this,
+    keys,
+    definitions,
+    "Los atributos de algunos items no son válidos con las nuevas definiciones",
+  );
+}
+
+/**
+ * Elimina las relaciones de los ítems que se borran definitivamente (`DELETE
+ * /api/item/purge`). Se registra como hook previo a cada eliminación en la colección; la
+ * papelera no pasa por aquí, así que las relaciones vuelven al restaurar el ítem.
+ *
+ * @example
+ * itemSchema.pre(["deleteOne", "deleteMany", "findOneAndDelete"], purgeRelations);
+ */
+export async function purgeRelations(
+  this: Query<unknown, ItemDocument>,
+): Promise<void> {
+  // Mongoose no declara `op` en los tipos de la consulta
+  const { op } = this as unknown as { op: string };
+  const query = this.model.find(this.getFilter()).select("_id");
+  // `deleteOne` y `findOneAndDelete` eliminan a lo más un ítem
+  const items = await (op === "deleteMany" ? query : query.limit(1))
+    .lean<{ _id: Types.ObjectId }[]>();
+  await RelationModel.purge(items.map(({ _id }) => _id));
+}
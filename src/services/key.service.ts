@@ -63,6 +63,7 @@ export async function findByCode(
  *
  * @typeParam T - Tipo de los documentos poblados (por defecto `PopulatedKey`).
  * @param id - Opcional. Identificador (_id) para filtrar el pipeline.
+ * @param scope - Opcional. Filtro aplicado tras poblar (ver `UserMethods.scopeMatch`).
  * @returns Una instancia de `Aggregate<T[]>` que, al ejecutarse, devuelve un arreglo de documentos poblados.
  *
  * @example
@@ -75,6 +76,7 @@ export async function findByCode(
 export function getPopulate<T = PopulatedKey>(
   this: KeyModel,
   id?: string,
+  scope: Record<string, unknown> = {},
 ): Aggregate<T[]> {
   const aggregate = this.aggregate<T>();
 
@@ -83,6 +85,7 @@ export function getPopulate<T = PopulatedKey>(
   return aggregate
     .lookup(pipeline.LOOKUP.LINE).unwind("$line")
     .lookup(pipeline.LOOKUP.BRAND).unwind("$brand")
+    .match(scope)
     .project(pipeline.PROJECT.KEY)
     .sort("code");
 }
@@ -100,6 +103,7 @@ export function getPopulate<T = PopulatedKey>(
  * - Ordena los resultados por `code`.
  *
  * @param key - Cadena de búsqueda para comparar con el campo concatenado `code`.
+ * @param scope - Opcional. Filtro aplicado tras poblar (ver `UserMethods.scopeMatch`).
  * @returns Una instancia de `Aggregate<{ code: string }[]>` que, al ejecutarse,
  * devuelve los documentos cuyo campo `code` tiene una distancia igual a 1 respecto al valor `key`.
  *
@@ -114,10 +118,12 @@ export function getPopulate<T = PopulatedKey>(
 export function getFuzzy(
   this: KeyModel,
   key: string,
+  scope: Record<string, unknown> = {},
 ): Aggregate<{ code: string }[]> {
   return this.aggregate<{ code: string }>()
     .lookup(pipeline.LOOKUP.LINE).unwind("$line")
     .lookup(pipeline.LOOKUP.BRAND).unwind("$brand")
+    .match(scope)
     .project({ code: { $concat: ["$line.code", "$brand.code"] } })
     .addFields({
       distance: {
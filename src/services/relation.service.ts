@@ -0,0 +1,214 @@
+import type { PopulatedItem } from "@interfaces/item.interface.ts";
+import type {
+  ItemRelation,
+  LeanRelation,
+  RelationDocument,
+  RelationModel,
+  RelationType,
+  RelationView,
+} from "@interfaces/relation.interface.ts";
+import type { UserDocument } from "@interfaces/user.interface.ts";
+import { pipeline } from "aggregate";
+import { Types } from "deps";
+import { BadRequestError, NotFoundError } from "errors";
+import { ItemModel } from "models";
+
+const TYPES: readonly RelationType[] = [
+  "equivalent",
+  "supersedes",
+  "superseded_by",
+  "kit_component",
+];
+
+/**
+ * Orden en que se devuelven las relaciones de un ítem.
+ */
+const ORDER: readonly RelationView[] = [...TYPES, "kit"];
+
+/**
+ * Filtro de la relación entre dos ítems, sin importar cuál es el de origen.
+ */
+function between(a: Types.ObjectId, b: Types.ObjectId) {
+  return { $or: [{ item: a, target: b }, { item: b, target: a }] };
+}
+
+/**
+ * Obtiene el `_id` de un ítem activo a partir de su `_id` o su código completo.
+ */
+async function resolveItem(
+  id: Types.ObjectId | string,
+  message: string,
+): Promise<Types.ObjectId> {
+  const _id = await ItemModel.findByCode(id);
+  if (!_id) throw new NotFoundError(message);
+  return _id;
+}
+
+/**
+ * Relaciona dos ítems, validando que ambos existan y que no estuvieran relacionados.
+ *
+ * @remarks
+ * `superseded_by` se guarda como `supersedes` desde el otro ítem.
+ *
+ * @param user - Usuario que crea la relación.
+ * @param item - `_id` del ítem de origen.
+ * @param target - `_id` o código completo del otro ítem.
+ * @param type - Tipo de relación desde el punto de vista de `item`.
+ * @returns La relación guardada.
+ * @throws {BadRequestError} Si el tipo no es válido, los ítems son el mismo o ya
+ *   están relacionados.
+ * @throws {NotFoundError} Si alguno de los ítems no existe o está en la papelera.
+ *
+ * @example
+ * ```ts
+ * // GRAPVH0002 reemplaza a GRAPVH0001
+ * await RelationModel.link(user, _id, "GRAPVH0001", "supersedes");
+ * ```
+ */
+export async function link(
+  this: RelationModel,
+  user: UserDocument,
+  item: Types.ObjectId | string,
+  target: Types.ObjectId | string,
+  type: RelationType,
+): Promise<RelationDocument> {
+  if (!TYPES.includes(type)) {
+    throw new BadRequestError(
+      `El tipo de relación debe ser ${TYPES.join(", ")}`,
+    );
+  }
+
+  const from = await resolveItem(item, "No se encontró el item");
+  const to = await resolveItem(target, "No se encontró el item relacionado");
+  if (from.equals(to)) {
+    throw new BadRequestError("Un item no puede relacionarse consigo mismo");
+  }
+  if (await this.exists(between(from, to))) {
+    throw new BadRequestError("Los items ya están relacionados");
+  }
+
+  const inverse = type === "superseded_by";
+  return await this.create({
+    item: inverse ? to : from,
+    target: inverse ? from : to,
+    type: inverse ? "supersedes" : type,
+    user: user._id,
+  });
+}
+
+/**
+ * Elimina la relación entre dos ítems, sin importar cuál la creó.
+ *
+ * @param item - `_id` de uno de los ítems.
+ * @param target - `_id` o código completo del otro ítem.
+ * @returns La relación eliminada, o `null` si no estaban relacionados.
+ *
+ * @example
+ * ```ts
+ * const removed = await RelationModel.unlink(_id, "GRAPVH0001");
+ * if (!removed) throw new NotFoundError("Los items no están relacionados");
+ * ```
+ */
+export async function unlink(
+  this: RelationModel,
+  item: Types.ObjectId | string,
+  target: Types.ObjectId | string,
+): Promise<LeanRelation | null> {
+  const to = await ItemModel.findByCode(target);
+  if (!to) return null;
+
+  return await this.findOneAndDelete(between(new Types.ObjectId(item), to))
+    .lean<LeanRelation>();
+}
+
+/**
+ * Obtiene las relaciones de un ítem, con el código y la descripción del otro ítem.
+ *
+ * @remarks
+ * Se omiten las relaciones con ítems en la papelera o fuera de `scope`.
+ *
+ * @param item - `_id` del ítem.
+ * @param scope - Opcional, filtro aplicado a los otros ítems tras poblarlos.
+ * @returns Las relaciones ordenadas por tipo y código.
+ *
+ * @example
+ * ```ts
+ * const relations = await RelationModel.forItem(_id, user.scopeMatch());
+ * const replacements = relations.filter(({ type }) => type === "superseded_by");
+ * ```
+ */
+export async function forItem(
+  this: RelationModel,
+  item: Types.ObjectId | string,
+  scope: Record<string, unknown> = {},
+): Promise<ItemRelation[]> {
+  const _id = new Types.ObjectId(item);
+  const relations = await this.find({ $or: [{ item: _id }, { target: _id }] })
+    .lean<LeanRelation[]>();
+  if (!relations.length) return [];
+
+  // Tipo de cada relación visto desde `item`, por `_id` del otro ítem
+  const views = new Map<string, RelationView>();
+  for (const { item: from, target, type } of relations) {
+    const origin = _id.equals(from);
+    const other = String(origin ? target : from);
+    if (type === "supersedes") {
+      views.set(other, origin ? "supersedes" : "superseded_by");
+    } else if (type === "kit_component") {
+      views.set(other, origin ? "kit_component" : "kit");
+    } else {
+      views.set(other, type);
+    }
+  }
+
+  const others = await ItemModel.aggregate<PopulatedItem>()
+    .match({
+      _id: { $in: [...views.keys()].map((id) => new Types.ObjectId(id)) },
+    })
+    .lookup(pipeline.LOOKUP.KEY).unwind("$key")
+    .lookup(pipeline.LOOKUP.KEY_LINE).unwind("$key.line")
+    .lookup(pipeline.LOOKUP.KEY_BRAND).unwind("$key.brand")
+    .match(scope)
+    .project(pipeline.PROJECT.ITEM);
+
+  return others
+    .map(({ _id, code, desc }) => ({
+      type: views.get(String(_id))!,
+      _id: new Types.ObjectId(_id),
+      code,
+      desc,
+    }))
+    .sort((a, b) =>
+      ORDER.indexOf(a.type) - ORDER.indexOf(b.type) ||
+      a.code.localeCompare(b.code)
+    );
+}
+
+/**
+ * Elimina todas las relaciones de los ítems indicados, para que no apunten a ítems
+ * eliminados definitivamente.
+ *
+ * @remarks
+ * Los ítems en la papelera conservan sus relaciones; `forItem` las omite mientras
+ * alguno de los dos siga eliminado.
+ *
+ * @param items - `_id` de los ítems.
+ * @returns Cantidad de relaciones eliminadas.
+ *
+ * @example
+ * ```ts
+ * const ids = await ItemModel.find(filter).distinct("_id");
+ * await RelationModel.purge(ids);
+ * ```
+ */
+export async function purge(
+  this: RelationModel,
+  items: readonly (Types.ObjectId | string)[],
+): Promise<number> {
+  if (!items.length) return 0;
+  const ids = items.map((id) => new Types.ObjectId(id));
+  const { deletedCount } = await this.deleteMany({
+    $or: [{ item: { $in: ids } }, { target: { $in: ids } }],
+  });
+  return deletedCount;
+}
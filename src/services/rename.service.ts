@@ -0,0 +1,189 @@
+import type { TrashedFile } from "@interfaces/audit.interface.ts";
+import type {
+  RenameFolder,
+  RenameJobDocument,
+  RenameJobModel,
+  RenameRequest,
+} from "@interfaces/rename.interface.ts";
+import type { SoftDeleted } from "@interfaces/trash.interface.ts";
+import type { Model } from "mongoose";
+import { pipeline } from "aggregate";
+import { Types } from "deps";
+import { BrandModel, ItemModel, KeyModel, LineModel } from "models";
+
+import { renameKeyFolder } from "@utils/item_files.ts";
+
+/**
+ * Cola de trabajos: cada uno empieza cuando termina el anterior, porque un trabajo puede
+ * renombrar carpetas que el siguiente vuelve a renombrar.
+ */
+let queue: Promise<void> = Promise.resolve();
+
+/**
+ * Calcula las carpetas de las llaves de una línea o una marca antes y después del cambio
+ * de código, con el código vigente de la otra mitad de la llave. Para una llave, la única
+ * carpeta es la suya.
+ *
+ * @remarks
+ * Incluye las llaves en la papelera y las que tienen la otra mitad en la papelera, porque
+ * sus carpetas siguen en "assets" y deben tener el código nuevo al restaurarlas.
+ */
+async function keyFolders(
+  { entity, entity_id, from, to }: RenameRequest,
+): Promise<RenameFolder[]> {
+  if (entity === "key") return [{ from, to }];
+
+  const other = entity === "line" ? "brand" : "line";
+  const lookup = {
+    ...pipeline.LOOKUP[other === "line" ? "LINE" : "BRAND"],
+    pipeline: [],
+  };
+  // Mencionar `deleted_at` evita que el plugin omita las llaves eliminadas
+  const find = (deleted: boolean) =>
+    KeyModel.aggregate<{ code: string }>()
+      .match({
+        [entity]: new Types.ObjectId(entity_id),
+        deleted_at: { $exists: deleted },
+      })
+      .lookup(lookup)
+      .unwind(`$${other}`)
+      .project({ code: `$${other}.code` });
+  const keys = (await Promise.all([find(false), find(true)])).flat();
+
+  return keys.map(({ code }) =>
+    entity === "line"
+      ? { from: `${from}${code}`, to: `${to}${code}` }
+      : { from: `${code}${from}`, to: `${code}${to}` }
+  );
+}
+
+/**
+ * Actualiza las rutas de los archivos en la papelera que venían de una carpeta
+ * renombrada, para que al restaurar el ítem, la llave, la línea o la marca que los
+ * eliminó vuelvan con el nombre nuevo.
+ */
+async function retargetTrash({ from, to }: RenameFolder): Promise<void> {
+  const prefix = `assets/${from}/${from}`;
+  const escaped = prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const rename = (file: TrashedFile): TrashedFile =>
+    file.from.startsWith(prefix)
+      ? { ...file, from: `assets/${to}/${to}${file.from.slice(prefix.length)}` }
+      : file;
+
+  // Mongoose no relaciona cada modelo con `Model<SoftDeleted>`, aunque los cuatro
+  // tienen los campos del plugin `softDelete`
+  const models = [ItemModel, KeyModel, LineModel, BrandModel] as unknown[];
+  for (const model of models as Model<SoftDeleted>[]) {
+    const docs = await model
+      .find({
+        deleted_at: { $exists: true },
+        "trashed.from": { $regex: `^${escaped}` },
+      })
+      .select("+trashed")
+      .lean();
+    for (const { _id, trashed = [] } of docs) {
+      await model.updateOne(
+        { _id, deleted_at: { $exists: true } },
+        { trashed: trashed.map(rename) },
+      );
+    }
+  }
+}
+
+/**
+ * Ejecuta un trabajo pendiente desde la primera carpeta sin procesar, guardando el
+ * avance al terminar cada carpeta.
+ *
+ * @remarks
+ * Renombrar una carpeta ya renombrada no tiene efecto, así que un trabajo interrumpido
+ * a mitad de una carpeta puede retomarse desde ella.
+ */
+async function run(
+  model: RenameJobModel,
+  job: RenameJobDocument,
+): Promise<void> {
+  const { _id, location, folders, processed } = job;
+  try {
+    await model.updateOne({ _id }, { status: "running" });
+    for (const folder of folders.slice(processed)) {
+      const { renamed, cleared, conflicts } = renameKeyFolder(
+        location,
+        folder.from,
+        folder.to,
+      );
+      await retargetTrash(folder);
+      await model.updateOne({ _id }, {
+        $inc: { processed: 1, renamed, cleared },
+        $push: { conflicts: { $each: conflicts } },
+      });
+    }
+    await model.updateOne({ _id }, { status: "done", finished_at: new Date() });
+  } catch (error) {
+    console.error("Error al renombrar las carpetas", error);
+    await model.updateOne({ _id }, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      finished_at: new Date(),
+    }).catch(() => {});
+  }
+}
+
+/**
+ * Crea un trabajo de renombrado y lo agrega a la cola.
+ *
+ * @remarks
+ * Las carpetas se calculan en este momento, antes de que otro cambio de código modifique
+ * los nombres. El trabajo se ejecuta en segundo plano: la respuesta no espera a que
+ * termine y el avance se consulta con `GET /api/rename`. Un trabajo que quede en
+ * `pending` o `running` al detener el servidor se reanuda con `resume` al iniciarlo.
+ *
+ * @param user - `_id` del usuario que cambió el código.
+ * @param request - Entidad, códigos anterior y nuevo, y ubicación del catálogo.
+ * @returns El trabajo creado.
+ *
+ * @example
+ * ```ts
+ * const job = await RenameJobModel.enqueue(user._id, {
+ *   entity: "brand",
+ *   entity_id: _id,
+ *   from: "AC",
+ *   to: "ACD",
+ *   location,
+ * });
+ * ```
+ */
+export async function enqueue(
+  this: RenameJobModel,
+  user: Types.ObjectId | string,
+  request: RenameRequest,
+): Promise<RenameJobDocument> {
+  const folders = await keyFolders(request);
+  const job = await this.create({ ...request, user, folders });
+  queue = queue.then(() => run(this, job));
+  return job;
+}
+
+/**
+ * Vuelve a agregar a la cola los trabajos que quedaron en `pending` o `running` al
+ * detener el servidor, en orden de creación.
+ *
+ * @remarks
+ * Se llama una vez al iniciar el servidor, antes de aceptar solicitudes. Cada trabajo
+ * continúa desde la primera carpeta que no terminó.
+ *
+ * @returns La cantidad de trabajos reanudados.
+ *
+ * @example
+ * ```ts
+ * const resumed = await RenameJobModel.resume();
+ * if (resumed) console.info(`Trabajos de renombrado reanudados: ${resumed}`);
+ * ```
+ */
+export async function resume(this: RenameJobModel): Promise<number> {
+  const jobs = await this.find({ status: { $in: ["pending", "running"] } })
+    .sort({ created_at: 1 });
+  for (const job of jobs) {
+    queue = queue.then(() => run(this, job));
+  }
+  return jobs.length;
+}
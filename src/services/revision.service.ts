@@ -0,0 +1,156 @@
+import type {
+  LeanRevision,
+  RevisionChange,
+  RevisionDocument,
+  RevisionEntity,
+  RevisionModel,
+} from "@interfaces/revision.interface.ts";
+import type { UserDocument } from "@interfaces/user.interface.ts";
+import { Types } from "deps";
+import { NotFoundError } from "errors";
+
+/**
+ * Campos versionados de cada entidad. Las imágenes y su estado tienen su propio
+ * registro en la auditoría.
+ */
+const FIELDS: Record<RevisionEntity, readonly string[]> = {
+  item: ["key", "code", "desc", "attributes"],
+  key: ["line", "brand"],
+  line: ["code", "desc", "attributes"],
+  brand: ["code", "desc"],
+};
+
+/**
+ * Compara dos valores de un campo; los `ObjectId` se comparan por su texto.
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Registra una revisión con los campos versionados que cambiaron.
+ *
+ * @remarks
+ * Se llama después de aplicar el cambio, por lo que un error al guardar la revisión
+ * solo se informa en consola. Si otra solicitud registra el mismo número de revisión
+ * al mismo tiempo, el índice único lo rechaza y se reintenta con el siguiente.
+ *
+ * @param user - Usuario que hizo el cambio.
+ * @param entity - Entidad del documento.
+ * @param before - Copia del documento antes del cambio.
+ * @param after - Copia del documento después del cambio (debe incluir `_id`).
+ * @param reverted - Revisión a la que se volvió, si el cambio es una reversión.
+ * @returns La revisión creada, o `null` si ningún campo versionado cambió.
+ *
+ * @example
+ * ```ts
+ * await RevisionModel.record(user, "item", before, after);
+ * ```
+ */
+export async function record(
+  this: RevisionModel,
+  user: UserDocument,
+  entity: RevisionEntity,
+  before: object,
+  after: object,
+  reverted?: number,
+): Promise<RevisionDocument | null> {
+  const old = before as Record<string, unknown>;
+  const current = after as Record<string, unknown>;
+  const changes: RevisionChange[] = FIELDS[entity]
+    .filter((field) => !sameValue(old[field], current[field]))
+    .map((field) => ({ field, from: old[field], to: current[field] }));
+  if (!changes.length) return null;
+
+  const entity_id = current._id ?? old._id;
+  for (let attempt = 1;; attempt++) {
+    try {
+      const last = await this.findOne({ entity, entity_id })
+        .sort({ rev: -1 }).select("rev").lean();
+      return await this.create({
+        entity,
+        entity_id,
+        rev: (last?.rev ?? 0) + 1,
+        user: user._id,
+        nickname: user.nickname,
+        changes,
+        reverted,
+      });
+    } catch (error) {
+      const duplicated = (error as { code?: number }).code === 11000;
+      if (duplicated && attempt < 3) continue;
+      console.error("Error al registrar la revisión", error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Obtiene las revisiones de un documento, de la más reciente a la más antigua.
+ *
+ * @param entity - Entidad del documento.
+ * @param id - `_id` del documento.
+ * @returns Las revisiones con sus cambios.
+ *
+ * @example
+ * ```ts
+ * const [last] = await RevisionModel.history("line", _id);
+ * console.log(`${last.nickname} cambió ${last.changes.length} campos`);
+ * ```
+ */
+export function history(
+  this: RevisionModel,
+  entity: RevisionEntity,
+  id: Types.ObjectId | string,
+): Promise<LeanRevision[]> {
+  return this.find({ entity, entity_id: new Types.ObjectId(id) })
+    .sort({ rev: -1 })
+    .select("-entity -entity_id -__v")
+    .lean<LeanRevision[]>();
+}
+
+/**
+ * Calcula los valores que devuelven un documento al estado que tenía justo después
+ * de una revisión.
+ *
+ * @remarks
+ * Para cada campo que cambió en alguna revisión posterior se toma el valor anterior
+ * al primero de esos cambios; los campos que no cambiaron después se omiten.
+ *
+ * @param entity - Entidad del documento.
+ * @param id - `_id` del documento.
+ * @param rev - Revisión a la que se vuelve (0 para el estado anterior al primer cambio).
+ * @returns Los campos por modificar y sus valores.
+ * @throws {NotFoundError} Si la revisión no existe o es la más reciente.
+ *
+ * @example
+ * ```ts
+ * const values = await RevisionModel.valuesAt("brand", _id, 2);
+ * // { code: "AC" }
+ * ```
+ */
+export async function valuesAt(
+  this: RevisionModel,
+  entity: RevisionEntity,
+  id: Types.ObjectId | string,
+  rev: number,
+): Promise<Record<string, unknown>> {
+  const entity_id = new Types.ObjectId(id);
+  if (rev > 0 && !await this.exists({ entity, entity_id, rev })) {
+    throw new NotFoundError("No se encontró la revisión solicitada");
+  }
+
+  const later = await this.find({ entity, entity_id, rev: { $gt: rev } })
+    .sort({ rev: 1 }).lean();
+  if (!later.length) {
+    throw new NotFoundError("El documento ya está en la revisión solicitada");
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const { changes } of later) {
+    for (const { field, from } of changes) {
+      if (!(field in values)) values[field] = from;
+    }
+  }
+  return values;
+}
@@ -0,0 +1,83 @@
+import type { LeanRole, RoleModel } from "@interfaces/role.interface.ts";
+import { isValidObjectId, Types } from "deps";
+
+/**
+ * Tiempo de vida de la caché de roles, en segundos. Acota el desfase entre
+ * instancias del servidor, que no comparten la invalidación.
+ */
+const CACHE_TTL = 60;
+
+let cache: { roles: Map<string, string[]>; exp: number } | null = null;
+
+/**
+ * Descarta la caché de roles. Se registra como hook posterior a cada escritura
+ * en la colección.
+ *
+ * @example
+ * roleSchema.post("save", clearCache);
+ */
+export function clearCache(): void {
+  cache = null;
+}
+
+/**
+ * Reúne los permisos de los roles indicados.
+ *
+ * @param roles - `_id` de los roles.
+ * @returns Los permisos sin duplicados.
+ *
+ * @example
+ * ```ts
+ * const permissions = await RoleModel.permissionsOf(user.custom_roles);
+ * ```
+ */
+export async function permissionsOf(
+  this: RoleModel,
+  roles: (Types.ObjectId | string)[] = [],
+): Promise<string[]> {
+  if (!roles.length) return [];
+  if (!cache || cache.exp < Date.now() / 1000) {
+    const data = await this.find().select("permissions").lean<LeanRole[]>();
+    cache = {
+      roles: new Map(data.map(({ _id, permissions }) => [
+        _id.toString(),
+        permissions,
+      ])),
+      exp: Date.now() / 1000 + CACHE_TTL,
+    };
+  }
+
+  const permissions = roles.flatMap((role) =>
+    cache!.roles.get(role.toString()) ?? []
+  );
+  return [...new Set(permissions)];
+}
+
+/**
+ * Busca los roles por nombre o `_id`.
+ *
+ * @param roles - Nombres o `_id` de los roles.
+ * @returns Los `_id` en el mismo orden, o `null` si alguno no existe.
+ *
+ * @example
+ * ```ts
+ * const custom_roles = await RoleModel.resolve(body.custom_roles);
+ * if (!custom_roles) throw new BadRequestError("Algún rol no existe");
+ * ```
+ */
+export async function resolve(
+  this: RoleModel,
+  roles: string[],
+): Promise<Types.ObjectId[] | null> {
+  const ids: Types.ObjectId[] = [];
+  for (const role of roles) {
+    const data = await this.findOne(
+      isValidObjectId(role)
+        ? { _id: role }
+        : { name: String(role).trim().toLowerCase() },
+    ).select("_id").lean();
+    if (!data) return null;
+    ids.push(data._id);
+  }
+  return ids;
+}
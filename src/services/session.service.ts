@@ -0,0 +1,179 @@
+import type {
+  SessionDevice,
+  SessionDocument,
+  SessionModel,
+} from "@interfaces/session.interface.ts";
+import { setup } from "config";
+import { isValidObjectId, Types } from "deps";
+
+import { cacheManager } from "@utils/cache_manager.ts";
+import { generateToken, hashToken } from "@utils/hash.ts";
+
+/**
+ * Calcula la fecha de caducidad de un token de refresco emitido en este momento.
+ */
+function refreshExpiration(): Date {
+  return new Date(Date.now() + setup.TOKEN.REFRESH * 1000);
+}
+
+/**
+ * Crea una nueva sesión para el usuario.
+ *
+ * @remarks
+ * El token de refresco se genera aleatoriamente y solo se guarda su hash; el
+ * valor en texto plano se retorna una única vez para entregarlo al cliente.
+ *
+ * @param user - `_id` del usuario dueño de la sesión.
+ * @param device - Nombre del equipo, dirección IP y `User-Agent` del cliente.
+ * @returns La sesión creada y el token de refresco en texto plano.
+ *
+ * @example
+ * ```ts
+ * const { session, refresh } = await SessionModel.open(user._id);
+ * const token = await user.createToken(session._id.toString());
+ * ```
+ */
+export async function open(
+  this: SessionModel,
+  user: Types.ObjectId | string,
+  device: SessionDevice = {},
+): Promise<{ session: SessionDocument; refresh: string }> {
+  const refresh = generateToken();
+  const session = await this.create({
+    ...device,
+    user,
+    hash: await hashToken(refresh),
+    expires_at: refreshExpiration(),
+    last_seen_at: new Date(),
+  });
+
+  return { session, refresh };
+}
+
+/**
+ * Rota el token de refresco de una sesión activa.
+ *
+ * @remarks
+ * La actualización es atómica (`findOneAndUpdate` sobre el hash anterior), por lo
+ * que un mismo token de refresco solo puede usarse una vez. La caducidad de la
+ * sesión se extiende con cada rotación y se registran la dirección IP y el
+ * `User-Agent` actuales; el nombre del equipo se conserva.
+ *
+ * @param refresh - Token de refresco en texto plano.
+ * @param device - Dirección IP y `User-Agent` del cliente.
+ * @returns La sesión y el nuevo token, o `null` si el token no es válido.
+ *
+ * @example
+ * ```ts
+ * const rotated = await SessionModel.rotate(body.refresh);
+ * if (!rotated) throw new UnauthorizedError();
+ * ```
+ */
+export async function rotate(
+  this: SessionModel,
+  refresh: string,
+  { ip, user_agent }: SessionDevice = {},
+): Promise<{ session: SessionDocument; refresh: string } | null> {
+  const next = generateToken();
+  const session = await this.findOneAndUpdate(
+    {
+      hash: await hashToken(refresh),
+      revoked_at: { $exists: false },
+      expires_at: { $gt: new Date() },
+    },
+    {
+      hash: await hashToken(next),
+      expires_at: refreshExpiration(),
+      last_seen_at: new Date(),
+      ...(ip && { ip }),
+      ...(user_agent && { user_agent }),
+    },
+    { new: true },
+  );
+  if (!session) return null;
+
+  return { session, refresh: next };
+}
+
+/**
+ * Verifica que la sesión siga activa para el usuario indicado y registra su último uso.
+ *
+ * @param sid - `_id` de la sesión (claim `sid` del JWT).
+ * @param user - `_id` del usuario (claim `sub` del JWT).
+ * @returns `true` si la sesión existe, pertenece al usuario y no fue revocada ni caducó.
+ *
+ * @example
+ * ```ts
+ * if (!await SessionModel.touch(sid, payload.sub)) {
+ *   throw new UnauthorizedError("Acceso denegado: la sesión fue cerrada");
+ * }
+ * ```
+ */
+export async function touch(
+  this: SessionModel,
+  sid?: string,
+  user?: string,
+): Promise<boolean> {
+  if (!isValidObjectId(sid) || !isValidObjectId(user)) return false;
+
+  const { matchedCount } = await this.updateOne(
+    {
+      _id: sid,
+      user,
+      revoked_at: { $exists: false },
+      expires_at: { $gt: new Date() },
+    },
+    { last_seen_at: new Date() },
+  );
+
+  return matchedCount === 1;
+}
+
+/**
+ * Revoca una sesión concreta o todas las sesiones activas de un usuario.
+ *
+ * @remarks
+ * Además de marcarlas en la base de datos, las sesiones se registran como revocadas
+ * en `cacheManager` durante la vigencia del token de acceso, para que `authMiddleware`
+ * las rechace aunque el usuario siga en caché.
+ *
+ * @param filter - `sid` de la sesión o `{ user }` para revocarlas todas; `except`
+ * excluye una sesión (por ejemplo, la que hace la solicitud).
+ * @returns Los `_id` de las sesiones revocadas.
+ *
+ * @example
+ * ```ts
+ * const revoked = await SessionModel.revoke({ user: user._id });
+ * console.log("Sesiones cerradas:", revoked.length);
+ *
+ * // Cerrar las demás sesiones del usuario
+ * await SessionModel.revoke({ user: user._id, except: get("session") });
+ * ```
+ */
+export async function revoke(
+  this: SessionModel,
+  filter: string | {
+    user: Types.ObjectId | string;
+    except?: Types.ObjectId | string;
+  },
+): Promise<string[]> {
+  if (typeof filter === "string" && !isValidObjectId(filter)) return [];
+
+  const query = typeof filter === "string"
+    ? { _id: filter }
+    : filter.except
+    ? { user: filter.user, _id: { $ne: filter.except } }
+    : { user: filter.user };
+  const sessions = await this.find({
+    ...query,
+    revoked_at: { $exists: false },
+  }).select("_id");
+  if (!sessions.length) return [];
+
+  const ids = sessions.map(({ _id }) => _id);
+  await this.updateMany({ _id: { $in: ids } }, { revoked_at: new Date() });
+
+  const sids = ids.map((id) => id.toString());
+  for (const sid of sids) cacheManager.revokeSession(sid, setup.TOKEN.ACCESS);
+  return sids;
+}
@@ -0,0 +1,43 @@
+import type { SettingModel } from "@interfaces/setting.interface.ts";
+
+/**
+ * Lee el valor de un ajuste.
+ *
+ * @param key - Nombre del ajuste.
+ * @param fallback - Valor que se retorna si el ajuste no existe.
+ * @returns El valor guardado o `fallback`.
+ *
+ * @example
+ * ```ts
+ * const required = await SettingModel.read("totp.required", 0);
+ * ```
+ */
+export async function read<T>(
+  this: SettingModel,
+  key: string,
+  fallback: T,
+): Promise<T> {
+  const setting = await this.findOne({ key }).lean();
+  return setting ? setting.value as T : fallback;
+}
+
+/**
+ * Guarda el valor de un ajuste, creándolo si no existe.
+ *
+ * @param key - Nombre del ajuste.
+ * @param value - Nuevo valor.
+ * @returns El valor guardado.
+ *
+ * @example
+ * ```ts
+ * await SettingModel.write("totp.required", intoRole(["ADMIN", "GRANT"]));
+ * ```
+ */
+export async function write<T>(
+  this: SettingModel,
+  key: string,
+  value: T,
+): Promise<T> {
+  await this.updateOne({ key }, { value }, { upsert: true });
+  return value;
+}
@@ -1,10 +1,28 @@
-import type { UserDocument } from "@interfaces/user.interface.ts";
+import type {
+  SessionDevice,
+  SessionTokens,
+} from "@interfaces/session.interface.ts";
+import type {
+  ScopeEntity,
+  UserDocument,
+  UserModel,
+} from "@interfaces/user.interface.ts";
 import { setup } from 'config';
+import { isValidObjectId } from 'deps';
+import { UnauthorizedError } from 'errors';
 import { SignJWT } from 'jose';
-import { CallbackWithoutResultAndOptionalError } from 'mongoose';
+import { ItemModel, KeyModel, RoleModel, SessionModel, SettingModel } from 'models';
+import { CallbackWithoutResultAndOptionalError, Types } from 'mongoose';
 
-import { compareHash, hashPassword } from '@utils/hash.ts';
+import { cacheManager } from '@utils/cache_manager.ts';
+import { compareHash, hashPassword, hashToken } from '@utils/hash.ts';
+import { signingKey } from '@utils/jwt_keys.ts';
+import { grants, intoPermissions } from '@utils/permissions.ts';
 import { hasValidRoles } from '@utils/roles.ts';
+import {
+    decryptSecret, encryptSecret, generateRecoveryCodes, generateSecret, matchCode,
+    normalizeRecoveryCode, otpauthUri
+} from '@utils/totp.ts';
 
 /**
  * Hook que se ejecuta antes de guardar un documento de usuario.
@@ -52,28 +70,54 @@ export async function comparePassword(
 }
 
 /**
- * Crea un JWT con duración de 30 días usando la información del usuario.
- * Se incluyen claims como el `sub` (ID de usuario), `nickname` y `role`, además
- * de las marcas de tiempo de creación (iat) y expiración (exp).
+ * Crea un JWT de acceso de corta duración (`setup.TOKEN.ACCESS`) usando la información del usuario.
+ * Se incluyen claims como el `sub` (ID de usuario), `sid` (ID de la sesión), `nickname`, `role` y `ver`,
+ * además de las marcas de tiempo de creación (iat) y expiración (exp). El encabezado lleva el
+ * `kid` de la llave vigente para poder verificarlo tras una rotación.
  *
  * @param {UserDocument} this - El documento actual de usuario.
+ * @param {string} sid - El `_id` de la sesión a la que pertenece el token.
  * @returns {Promise<string>} Promesa que resuelve en el token JWT.
  * @example
- * const token = await user.createToken();
+ * const token = await user.createToken(session._id.toString());
  * console.log("Token generado:", token);
  */
-export async function createToken(this: UserDocument): Promise<string> {
+export async function createToken(
+  this: UserDocument,
+  sid: string,
+): Promise<string> {
   const payload = {
     sub: this._id.toString(),
+    sid,
     nickname: this.nickname,
     role: this.role!,
+    ver: this.token_version ?? 0,
   };
 
   return await new SignJWT(payload)
-    .setProtectedHeader({ alg: setup.KEY.ALG })
+    .setProtectedHeader({ alg: setup.KEY.ALG, kid: setup.KEY.KID })
     .setIssuedAt()
-    .setExpirationTime("1d")
-    .sign(new TextEncoder().encode(setup.KEY.SECRET));
+    .setExpirationTime(`${setup.TOKEN.ACCESS}s`)
+    .sign(await signingKey());
+}
+
+/**
+ * Abre una nueva sesión para el usuario y emite su par de tokens:
+ * el JWT de acceso y el token opaco de refresco.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @param {SessionDevice} [device] - Equipo desde el que se inicia la sesión.
+ * @returns {Promise<SessionTokens>} Promesa que resuelve con `{ token, refresh }`.
+ * @example
+ * const { token, refresh } = await user.createSession(deviceInfo(c));
+ */
+export async function createSession(
+  this: UserDocument,
+  device?: SessionDevice,
+): Promise<SessionTokens> {
+  const { session, refresh } = await SessionModel.open(this._id, device);
+  const token = await this.createToken(session._id.toString());
+  return { token, refresh };
 }
 
 /**
@@ -101,3 +145,295 @@ export function roleIncludes(
   }
   return roles.some((r) => !!(this.role! & setup.AUTH[r]));
 }
+
+/**
+ * Obtiene los permisos efectivos del usuario, combinando los de sus roles
+ * predefinidos con los de sus roles personalizados.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @returns {Promise<string[]>} Los permisos sin duplicados; pueden incluir comodines.
+ * @example
+ * const permissions = await user.permissions();
+ * console.log(permissions); // ["item.read", "key.read", "item.image.*"]
+ */
+export async function permissions(this: UserDocument): Promise<string[]> {
+  const custom = await RoleModel.permissionsOf(this.custom_roles);
+  return [...new Set([...intoPermissions(this.role), ...custom])];
+}
+
+/**
+ * Verifica si el usuario tiene todos los permisos indicados.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @param {...string[]} required - Permisos requeridos.
+ * @returns {Promise<boolean>} true si cada permiso está concedido.
+ * @example
+ * if (await user.can("key.delete")) {
+ *   console.log("El usuario puede eliminar claves");
+ * }
+ */
+export async function can(
+  this: UserDocument,
+  ...required: string[]
+): Promise<boolean> {
+  const granted = await this.permissions();
+  return required.every((permission) => grants(granted, permission));
+}
+
+/**
+ * Incrementa la versión de tokens del usuario y lo elimina de la caché, para que
+ * `authMiddleware` rechace cualquier token emitido con la versión anterior.
+ *
+ * @param {UserModel} this - El modelo de usuario.
+ * @param {Types.ObjectId | string} user - El `_id` del usuario.
+ * @returns {Promise<void>} Una promesa que se resuelve al guardar la nueva versión.
+ * @example
+ * // Tras cambiar los roles de un usuario:
+ * await UserModel.bumpTokenVersion(user._id);
+ */
+export async function bumpTokenVersion(
+  this: UserModel,
+  user: Types.ObjectId | string,
+): Promise<void> {
+  await this.updateOne({ _id: user }, { $inc: { token_version: 1 } });
+  cacheManager.deleteUser(user.toString());
+}
+
+/**
+ * Indica si el usuario está limitado a ciertas líneas o marcas.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @returns {boolean} true si alguna de las listas de `scope` tiene elementos.
+ * @example
+ * if (user.isScoped()) {
+ *   console.log("El usuario solo ve parte del catálogo");
+ * }
+ */
+export function isScoped(this: UserDocument): boolean {
+  return !!(this.scope?.lines?.length || this.scope?.brands?.length);
+}
+
+/**
+ * Construye el filtro que limita un agregado a las líneas y marcas del usuario.
+ * Debe aplicarse después de poblar la línea y la marca.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @param {{ line?: string; brand?: string }} paths - Rutas de los `_id` de línea y marca.
+ * @returns {Record<string, unknown>} El filtro, vacío si el usuario no tiene alcance.
+ * @example
+ * const [data] = await ItemModel.aggregate()
+ *   .lookup(pipeline.LOOKUP.KEY).unwind("$key")
+ *   .lookup(pipeline.LOOKUP.KEY_LINE).unwind("$key.line")
+ *   .lookup(pipeline.LOOKUP.KEY_BRAND).unwind("$key.brand")
+ *   .match(user.scopeMatch());
+ */
+export function scopeMatch(
+  this: UserDocument,
+  paths: { line?: string; brand?: string } = {
+    line: "key.line._id",
+    brand: "key.brand._id",
+  },
+): Record<string, unknown> {
+  const match: Record<string, unknown> = {};
+  const { lines, brands } = this.scope ?? {};
+  if (paths.line && lines?.length) match[paths.line] = { $in: lines };
+  if (paths.brand && brands?.length) match[paths.brand] = { $in: brands };
+  return match;
+}
+
+/**
+ * Verifica que la línea y la marca del documento indicado estén dentro del
+ * alcance del usuario. Para ítems y claves se consulta la clave a la que pertenecen.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @param {ScopeEntity} entity - Tipo de documento.
+ * @param {Types.ObjectId | string | null} [id] - `_id` del documento; en claves también se acepta el código.
+ * @returns {Promise<void>} Se resuelve si el documento está en el alcance o no existe.
+ * @throws {UnauthorizedError} Si el documento está fuera del alcance del usuario.
+ * @example
+ * await user.assertScope("item", req.query("id"));
+ */
+export async function assertScope(
+  this: UserDocument,
+  entity: ScopeEntity,
+  id?: Types.ObjectId | string | null,
+): Promise<void> {
+  if (!this.isScoped() || !id) return;
+
+  let refs: { line?: Types.ObjectId; brand?: Types.ObjectId } | null = null;
+  if (entity === "line" || entity === "brand") {
+    if (!isValidObjectId(id)) return;
+    refs = { [entity]: new Types.ObjectId(id) };
+  } else {
+    const key = entity === "item"
+      ? (await ItemModel.findById(id).select("key").lean())?.key
+      : await KeyModel.findByCode(id);
+    if (!key) return;
+    refs = await KeyModel.findById(key).select("line brand")
+      .lean<{ line: Types.ObjectId; brand: Types.ObjectId }>();
+  }
+  if (!refs) return;
+
+  const { lines, brands } = this.scope!;
+  const allowed = (list: Types.ObjectId[], ref?: Types.ObjectId) =>
+    !ref || !list?.length || list.some((_id) => _id.equals(ref));
+  if (!allowed(lines, refs.line) || !allowed(brands, refs.brand)) {
+    throw new UnauthorizedError(
+      "Acceso denegado: el documento está fuera de tu alcance",
+    );
+  }
+}
+
+/**
+ * Indica si el usuario debe usar TOTP según los roles guardados en el ajuste
+ * `"totp.required"` (máscara de bits de `setup.AUTH`).
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @returns {Promise<boolean>} true si alguno de sus roles está obligado a usar TOTP.
+ * @example
+ * if (!user.totp_enabled && await user.requiresTotp()) {
+ *   console.log("El usuario debe inscribirse en TOTP");
+ * }
+ */
+export async function requiresTotp(this: UserDocument): Promise<boolean> {
+  const required = await SettingModel.read("totp.required", 0);
+  return !!(this.role! & required);
+}
+
+/**
+ * Genera un secreto TOTP nuevo y lo guarda cifrado sin activarlo. Si el usuario
+ * repite la inscripción, el secreto anterior se reemplaza.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @returns {Promise<{ secret: string; uri: string }>} El secreto en base32 y su URI `otpauth://`.
+ * @example
+ * const { secret, uri } = await user.startTotp();
+ */
+export async function startTotp(
+  this: UserDocument,
+): Promise<{ secret: string; uri: string }> {
+  const secret = generateSecret();
+  await this.$model<UserModel>().updateOne(
+    { _id: this._id },
+    { totp_secret: await encryptSecret(secret), $unset: { totp_step: 1 } },
+  );
+  return { secret, uri: otpauthUri(secret, this.nickname) };
+}
+
+/**
+ * Verifica un código TOTP. El periodo aceptado se guarda de forma atómica, de
+ * modo que el mismo código no sirve en dos solicitudes simultáneas.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @param {string} [code] - Código de la aplicación autenticadora.
+ * @returns {Promise<boolean>} true si el código es válido y no se había usado.
+ * @example
+ * if (!await user.checkTotp(body.code)) {
+ *   throw new UnauthorizedError("El código no es válido");
+ * }
+ */
+export async function checkTotp(
+  this: UserDocument,
+  code?: string,
+): Promise<boolean> {
+  if (!code) return false;
+  const data = await this.$model<UserModel>().findById(this._id)
+    .select("+totp_secret +totp_step")
+    .lean();
+  if (!data?.totp_secret) return false;
+
+  const secret = await decryptSecret(data.totp_secret);
+  const step = await matchCode(secret, code, data.totp_step);
+  if (step === null) return false;
+
+  const { modifiedCount } = await this.$model<UserModel>().updateOne(
+    {
+      _id: this._id,
+      $or: [{ totp_step: { $exists: false } }, { totp_step: { $lt: step } }],
+    },
+    { totp_step: step },
+  );
+  return modifiedCount === 1;
+}
+
+/**
+ * Consume un código de recuperación, retirando su hash de la lista.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @param {string} [code] - Código de recuperación en texto plano.
+ * @returns {Promise<boolean>} true si el código existía.
+ * @example
+ * const valid = await user.useRecoveryCode("ABCDE-FGHIJ");
+ */
+export async function useRecoveryCode(
+  this: UserDocument,
+  code?: string,
+): Promise<boolean> {
+  if (!code) return false;
+  const hash = await hashToken(normalizeRecoveryCode(code));
+  const { modifiedCount } = await this.$model<UserModel>().updateOne(
+    { _id: this._id, recovery_codes: hash },
+    { $pull: { recovery_codes: hash } },
+  );
+  return modifiedCount === 1;
+}
+
+/**
+ * Genera códigos de recuperación nuevos y guarda sus hashes, invalidando los anteriores.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @returns {Promise<string[]>} Los códigos en texto plano.
+ * @example
+ * const recovery_codes = await user.issueRecoveryCodes();
+ */
+export async function issueRecoveryCodes(
+  this: UserDocument,
+): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  const recovery_codes = await Promise.all(
+    codes.map((code) => hashToken(normalizeRecoveryCode(code))),
+  );
+  await this.$model<UserModel>().updateOne(
+    { _id: this._id },
+    { recovery_codes },
+  );
+  return codes;
+}
+
+/**
+ * Activa TOTP con el secreto pendiente y emite los códigos de recuperación.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @returns {Promise<string[]>} Los códigos de recuperación en texto plano.
+ * @example
+ * const recovery_codes = await user.enableTotp();
+ */
+export async function enableTotp(this: UserDocument): Promise<string[]> {
+  await this.$model<UserModel>().updateOne(
+    { _id: this._id },
+    { totp_enabled: true },
+  );
+  this.totp_enabled = true;
+  cacheManager.deleteUser(this._id.toString());
+  return await this.issueRecoveryCodes();
+}
+
+/**
+ * Desactiva TOTP y elimina el secreto, el último periodo aceptado y los códigos de recuperación.
+ *
+ * @param {UserDocument} this - El documento actual de usuario.
+ * @returns {Promise<void>} Una promesa que se resuelve al guardar los cambios.
+ * @example
+ * await user.disableTotp();
+ */
+export async function disableTotp(this: UserDocument): Promise<void> {
+  await this.$model<UserModel>().updateOne(
+    { _id: this._id },
+    {
+      totp_enabled: false,
+      $unset: { totp_secret: 1, totp_step: 1, recovery_codes: 1 },
+    },
+  );
+  this.totp_enabled = false;
+  cacheManager.deleteUser(this._id.toString());
+}
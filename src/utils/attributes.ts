@@ -0,0 +1,197 @@
+/**
+ * @module utils
+ * @description Validación de las definiciones de atributos de una línea y de los valores
+ * de los atributos de sus ítems.
+ */
+
+import type { AttributeValue } from "@interfaces/item.interface.ts";
+import type {
+  AttributeDefinition,
+  AttributeType,
+} from "@interfaces/line.interface.ts";
+import { BadRequestError } from "errors";
+
+const TYPES: readonly AttributeType[] = ["string", "enum", "number", "boolean"];
+
+/**
+ * Nombre de un atributo: minúsculas, dígitos y guion bajo, empezando por una letra.
+ */
+const NAME = /^[a-z][a-z0-9_]{0,31}$/;
+
+/**
+ * Textos que se aceptan como valores de un atributo `boolean`.
+ */
+const BOOLEANS: Record<string, boolean> = {
+  true: true,
+  false: false,
+  "1": true,
+  "0": false,
+  si: true,
+  sí: true,
+  no: false,
+};
+
+/**
+ * Valida las definiciones de atributos enviadas para una línea.
+ *
+ * @param input - Arreglo de definiciones enviado por el cliente.
+ * @returns Las definiciones con los nombres en minúsculas y sin campos ajenos.
+ * @throws {BadRequestError} Si el arreglo no es válido; `details` lista los errores por
+ *   atributo.
+ *
+ * @example
+ * ```ts
+ * const attributes = parseDefinitions([
+ *   { name: "lado", type: "enum", options: ["izquierdo", "derecho"] },
+ *   { name: "oem", type: "string" },
+ * ]);
+ * ```
+ */
+export function parseDefinitions(input: unknown): AttributeDefinition[] {
+  if (!Array.isArray(input)) {
+    throw new BadRequestError("Los atributos deben enviarse en un arreglo");
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+  const definitions: AttributeDefinition[] = [];
+  input.forEach((raw, index) => {
+    const { name, type, options, required } = raw ?? {};
+    const label = typeof name === "string" ? name : `#${index + 1}`;
+    const normalized = String(name ?? "").trim().toLowerCase();
+    if (!NAME.test(normalized)) {
+      errors.push(
+        `${label}: el nombre debe empezar con una letra y usar a-z, 0-9 o _`,
+      );
+      return;
+    }
+    if (names.has(normalized)) {
+      errors.push(`${label}: el nombre está repetido`);
+      return;
+    }
+    names.add(normalized);
+    if (!TYPES.includes(type)) {
+      errors.push(`${label}: el tipo debe ser ${TYPES.join(", ")}`);
+      return;
+    }
+
+    const definition: AttributeDefinition = {
+      name: normalized,
+      type,
+      ...(required === true ? { required } : {}),
+    };
+    if (type !== "enum") {
+      definitions.push(definition);
+      return;
+    }
+
+    const values = Array.isArray(options)
+      ? [...new Set(options.map((option) => String(option).trim()))]
+        .filter(Boolean)
+      : [];
+    if (!values.length) {
+      errors.push(`${label}: un atributo enum necesita al menos una opción`);
+      return;
+    }
+    definitions.push({ ...definition, options: values });
+  });
+
+  if (errors.length) {
+    throw new BadRequestError("Las definiciones de atributos no son válidas", {
+      errors,
+    });
+  }
+  return definitions;
+}
+
+/**
+ * Convierte un valor al tipo de su definición.
+ *
+ * @returns El valor convertido, o `undefined` si no corresponde al tipo.
+ */
+function parseValue(
+  { type, options }: AttributeDefinition,
+  value: unknown,
+): AttributeValue | undefined {
+  switch (type) {
+    case "string": {
+      const text = typeof value === "string" || typeof value === "number"
+        ? String(value).trim()
+        : "";
+      return text || undefined;
+    }
+    case "enum":
+      return options?.find((option) =>
+        option.toLowerCase() === String(value).trim().toLowerCase()
+      );
+    case "number": {
+      const number = typeof value === "string" && value.trim()
+        ? Number(value)
+        : value;
+      return typeof number === "number" && Number.isFinite(number)
+        ? number
+        : undefined;
+    }
+    case "boolean":
+      return typeof value === "boolean"
+        ? value
+        : BOOLEANS[String(value).trim().toLowerCase()];
+  }
+}
+
+/**
+ * Valida los atributos de un ítem contra las definiciones de su línea.
+ *
+ * @param definitions - Atributos definidos en la línea.
+ * @param values - Valores enviados por el cliente; `null` o `undefined` omiten el
+ *   atributo.
+ * @returns Los valores convertidos al tipo de cada definición.
+ * @throws {BadRequestError} Si hay atributos no definidos, valores que no corresponden
+ *   a su tipo u obligatorios sin valor; `details` lista los errores.
+ *
+ * @example
+ * ```ts
+ * parseValues(line.attributes, { lado: "DERECHO", piezas: "2" });
+ * // { lado: "derecho", piezas: 2 }
+ * ```
+ */
+export function parseValues(
+  definitions: AttributeDefinition[],
+  values: unknown,
+): Record<string, AttributeValue> {
+  if (typeof values !== "object" || values === null || Array.isArray(values)) {
+    throw new BadRequestError("Los atributos deben enviarse en un objeto");
+  }
+
+  const errors: string[] = [];
+  const byName = new Map(definitions.map((d) => [d.name, d]));
+  const parsed: Record<string, AttributeValue> = {};
+  for (const [name, value] of Object.entries(values)) {
+    if (value === null || value === undefined) continue;
+    const definition = byName.get(name.toLowerCase());
+    if (!definition) {
+      errors.push(`${name}: la línea no define este atributo`);
+      continue;
+    }
+
+    const result = parseValue(definition, value);
+    if (result === undefined) {
+      errors.push(
+        definition.type === "enum"
+          ? `${name}: debe ser ${definition.options?.join(", ")}`
+          : `${name}: debe ser de tipo ${definition.type}`,
+      );
+      continue;
+    }
+    parsed[definition.name] = result;
+  }
+
+  for (const { name, required } of definitions) {
+    if (required && !(name in parsed)) errors.push(`${name}: es obligatorio`);
+  }
+
+  if (errors.length) {
+    throw new BadRequestError("Los atributos no son válidos", { errors });
+  }
+  return parsed;
+}
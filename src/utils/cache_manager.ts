@@ -8,6 +8,11 @@ interface CacheEntry {
 class CacheManager {
   private static instance: CacheManager;
   private user_map: Map<string, CacheEntry> = new Map();
+  private revoked_map: Map<string, number> = new Map();
+  private seen_map: Map<string, number> = new Map();
+  private last_sweep = 0;
+  // Intervalo mínimo entre barridos de entradas vencidas, en segundos
+  private static readonly SWEEP_INTERVAL = 60;
 
   static getInstance(): CacheManager {
     if (!CacheManager.instance) {
@@ -20,6 +25,7 @@ class CacheManager {
     const now = Date.now() / 1000; // segundos
     const exp = now + expires_in_seconds;
     this.user_map.set(user_id, { data, exp });
+    this.sweep(now);
   }
   // Recupera la data si sigue vigente
   getUser(user_id?: string): UserDocument | null {
@@ -38,6 +44,55 @@ class CacheManager {
   deleteUser(user_id: string): void {
     this.user_map.delete(user_id);
   }
+  // Marca una sesión como revocada mientras sus tokens de acceso sigan vigentes
+  revokeSession(session_id: string, expires_in_seconds: number): void {
+    const now = Date.now() / 1000;
+    this.revoked_map.set(session_id, now + expires_in_seconds);
+    this.seen_map.delete(session_id);
+    this.sweep(now);
+  }
+  // Indica si la sesión fue revocada (aunque el usuario siga en caché)
+  isRevoked(session_id?: string): boolean {
+    if (!session_id) return false;
+    const exp = this.revoked_map.get(session_id);
+    if (exp === undefined) return false;
+    if (exp < Date.now() / 1000) {
+      this.revoked_map.delete(session_id);
+      return false;
+    }
+    return true;
+  }
+  // Registra que la sesión se verificó en la base de datos hace poco
+  markSessionSeen(session_id: string, expires_in_seconds: number): void {
+    const now = Date.now() / 1000;
+    this.seen_map.set(session_id, now + expires_in_seconds);
+    this.sweep(now);
+  }
+  // Indica si la sesión se verificó dentro del intervalo indicado al registrarla
+  wasSessionSeen(session_id: string): boolean {
+    const exp = this.seen_map.get(session_id);
+    if (exp === undefined) return false;
+    if (exp < Date.now() / 1000) {
+      this.seen_map.delete(session_id);
+      return false;
+    }
+    return true;
+  }
+  // Elimina las entradas cuya expiración ya pasó (la de los tokens, en las sesiones), a lo
+  // más una vez por intervalo; sin esto, las sesiones que no se vuelven a consultar se
+  // quedarían en memoria
+  private sweep(now: number): void {
+    if (now - this.last_sweep < CacheManager.SWEEP_INTERVAL) return;
+    this.last_sweep = now;
+    for (const [user_id, { exp }] of this.user_map) {
+      if (exp < now) this.user_map.delete(user_id);
+    }
+    for (const map of [this.revoked_map, this.seen_map]) {
+      for (const [session_id, exp] of map) {
+        if (exp < now) map.delete(session_id);
+      }
+    }
+  }
 }
 
 export const cacheManager = CacheManager.getInstance();
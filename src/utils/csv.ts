@@ -0,0 +1,100 @@
+/**
+ * @module utils
+ * @description Lectura y escritura de archivos CSV (RFC 4180): campos entre comillas dobles,
+ * comillas escapadas (`""`), saltos de línea dentro de un campo y finales de línea `\n` o `\r\n`.
+ */
+
+import { BadRequestError } from "errors";
+
+/**
+ * Separa un texto CSV en filas y campos.
+ *
+ * @param text - Contenido del archivo.
+ * @param delimiter - Separador de campos.
+ * @returns Las filas, sin las que están vacías.
+ * @throws {BadRequestError} Si una comilla queda sin cerrar.
+ */
+export function parseCsv(text: string, delimiter: string = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  // Se descarta la marca BOM que agregan algunas hojas de cálculo
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (input[i + 1] === '"') field += input[++i];
+      else quoted = false;
+    } else if (char === '"' && !field) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new BadRequestError("El archivo CSV tiene comillas sin cerrar");
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/**
+ * Convierte un texto CSV con encabezados en objetos, usando la primera fila como nombres de
+ * columna (en minúsculas y sin espacios).
+ *
+ * @param text - Contenido del archivo.
+ * @returns Un objeto por fila; las columnas vacías se omiten.
+ * @example
+ * const rows = parseCsvRecords("code,desc\nGRAPVH0001,Bomba de agua");
+ * // [{ code: "GRAPVH0001", desc: "Bomba de agua" }]
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  // Las hojas de cálculo en español suelen exportar con punto y coma
+  const delimiter = firstLine.split(";").length > firstLine.split(",").length
+    ? ";"
+    : ",";
+  const [header = [], ...rows] = parseCsv(text, delimiter);
+  const columns = header.map((column) => column.trim().toLowerCase());
+
+  return rows.map((fields) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      const value = fields[i]?.trim();
+      if (column && value) record[column] = value;
+    });
+    return record;
+  });
+}
+
+/**
+ * Convierte una fila en una línea CSV terminada en `\r\n`. Los campos con separadores,
+ * comillas o saltos de línea se encierran entre comillas.
+ *
+ * @param values - Valores de la fila; `null` y `undefined` se escriben vacíos.
+ * @example
+ * formatCsvRow(["GRAPVH0001", 'Bomba "grande"', 5]);
+ * // 'GRAPVH0001,"Bomba ""grande""",5\r\n'
+ */
+export function formatCsvRow(values: unknown[]): string {
+  return values.map((value) => {
+    const field = String(value ?? "");
+    return /[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field;
+  }).join(",") + "\r\n";
+}
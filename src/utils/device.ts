@@ -0,0 +1,34 @@
+/**
+ * @module utils
+ * @description Datos del equipo que se guardan con cada sesión: nombre elegido por el
+ * usuario, dirección IP y `User-Agent`.
+ */
+
+import type { SessionDevice } from "@interfaces/session.interface.ts";
+import { type Context, getConnInfo } from "deps";
+
+/**
+ * Longitud máxima que se guarda de cada dato, para no almacenar encabezados arbitrariamente largos.
+ */
+const MAX_LENGTH = 256;
+
+/**
+ * Obtiene los datos del equipo a partir de la solicitud.
+ *
+ * @param c - Contexto de la solicitud.
+ * @param device - Nombre del equipo enviado por el cliente; se ignora si no es texto.
+ * @returns Nombre del equipo, dirección IP y `User-Agent`, sin los que falten.
+ * @example
+ * const { token, refresh } = await user.createSession(deviceInfo(c, body.device));
+ */
+export function deviceInfo(c: Context, device?: unknown): SessionDevice {
+  const info: SessionDevice = {};
+  if (typeof device === "string" && device.trim()) {
+    info.device = device.trim().slice(0, MAX_LENGTH);
+  }
+  const ip = getConnInfo(c).remote.address;
+  if (ip) info.ip = ip;
+  const user_agent = c.req.header("User-Agent");
+  if (user_agent) info.user_agent = user_agent.slice(0, MAX_LENGTH);
+  return info;
+}
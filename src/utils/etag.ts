@@ -0,0 +1,98 @@
+/**
+ * @module utils
+ * @description Control de concurrencia optimista de las líneas, marcas, llaves e ítems:
+ * `ETag` en las respuestas y `If-Match` en las actualizaciones.
+ */
+
+import type { Versioned } from "@interfaces/etag.interface.ts";
+import { BadRequestError, PreconditionFailedError } from "errors";
+
+/**
+ * @apiDefine IfMatchHeader
+ *
+ * @apiHeader {String} [If-Match] `ETag` del documento obtenido en la última consulta. Si
+ * otra solicitud lo modificó desde entonces, no se aplica el cambio.
+ *
+ * @apiHeaderExample {json} Header-Example:
+ *     {
+ *       "If-Match": "\"3\""
+ *     }
+ *
+ * @apiError (412) PreconditionFailed El documento cambió desde la consulta; `details.data`
+ * trae la copia vigente y `details.etag` su `ETag`.
+ */
+
+/**
+ * Genera el `ETag` de un documento a partir de su versión.
+ *
+ * @example
+ * ```ts
+ * header("ETag", etag(data.version)); // "3"
+ * ```
+ */
+export function etag(version: number = 0): string {
+  return `"${version}"`;
+}
+
+/**
+ * Obtiene la versión que el cliente espera modificar a partir del encabezado `If-Match`.
+ *
+ * @param value - Valor del encabezado.
+ * @returns La versión esperada, o `undefined` si no se envió el encabezado o es `*`.
+ * @throws {BadRequestError} Si el valor no es un `ETag` generado por `etag`.
+ *
+ * @example
+ * ```ts
+ * const expected = ifMatch(req.header("If-Match"));
+ * ```
+ */
+export function ifMatch(value?: string): number | undefined {
+  const header = value?.trim();
+  if (!header || header === "*") return undefined;
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header);
+  if (!match) throw new BadRequestError("El encabezado If-Match no es válido");
+  return Number(match[1]);
+}
+
+/**
+ * Filtro que solo coincide con el documento si sigue en la versión esperada, para que
+ * la actualización no aplique si otra solicitud lo modificó después de validarlo.
+ *
+ * @param expected - Versión obtenida con `ifMatch`.
+ */
+export function matchVersion(expected?: number): Record<string, unknown> {
+  if (expected === undefined) return {};
+  // Los documentos anteriores al campo `version` cuentan como versión 0
+  return { version: expected === 0 ? { $in: [0, null] } : expected };
+}
+
+/**
+ * Agrega a una actualización el incremento de `version`, descartando el valor que el
+ * cliente haya enviado en el cuerpo.
+ *
+ * @example
+ * ```ts
+ * await LineModel.updateOne({ _id }, nextVersion(body));
+ * ```
+ */
+export function nextVersion<T extends object>(update: T) {
+  const { version: _, ...fields } = update as T & Versioned;
+  return { ...fields, $inc: { version: 1 } };
+}
+
+/**
+ * Verifica que el documento siga en la versión que espera el cliente.
+ *
+ * @param current - Copia vigente del documento.
+ * @param expected - Versión obtenida con `ifMatch`; si es `undefined` no se valida.
+ * @throws {PreconditionFailedError} Si las versiones no coinciden; `details` incluye la
+ *   copia vigente (`data`) y su `etag`.
+ */
+export function assertVersion(current: Versioned, expected?: number): void {
+  if (expected === undefined || (current.version ?? 0) === expected) return;
+  throw new PreconditionFailedError(
+    "El documento cambió desde la última vez que se consultó",
+    { data: current, etag: etag(current.version) },
+  );
+}
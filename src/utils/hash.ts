@@ -4,36 +4,89 @@
  * en servicios relacionados con la autenticación, como `user.service`.
  */
 
+import { timingSafeEqual } from "@std/crypto";
+
+/**
+ * Algoritmo vigente para las contraseñas. Se guarda como prefijo del hash
+ * para poder reconocer (y migrar) los hashes de versiones anteriores.
+ */
+const PASSWORD_ALGORITHM = "pbkdf2-sha256";
+
+/**
+ * Iteraciones de PBKDF2 para los hashes nuevos. Cada hash almacena las
+ * iteraciones con las que fue creado, por lo que este valor puede subirse
+ * sin invalidar contraseñas existentes.
+ */
+const PASSWORD_ITERATIONS = 310_000;
+
+/**
+ * Convierte un buffer en su representación hexadecimal.
+ */
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Deriva la clave PBKDF2 (SHA-256, 256 bits) de una contraseña y su sal.
+ */
+async function pbkdf2(
+  password: string,
+  salt: string,
+  iterations: number,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations },
+    key,
+    256,
+  );
+  return toHex(bits);
+}
+
 /**
- * Genera un hash de una contraseña utilizando un algoritmo SHA-256 y una sal.
- * Se usa comúnmente en servicios de usuarios para almacenar contraseñas de forma segura.
+ * Hash heredado: un único SHA-256 de contraseña + sal. Solo se conserva para
+ * verificar las cuentas que aún no se han migrado a PBKDF2.
+ */
+async function legacyHash(password: string, salt: string): Promise<string> {
+  const data = new TextEncoder().encode(password + salt);
+  return toHex(await crypto.subtle.digest("SHA-256", data));
+}
+
+/**
+ * Genera un hash de una contraseña utilizando PBKDF2 (SHA-256) y una sal.
+ * El resultado es una cadena versionada `algoritmo$iteraciones$hash`, de modo que
+ * el algoritmo y su costo queden registrados junto al hash.
  *
  * @param {string} password - La contraseña en texto plano que se desea hashear.
  * @param {string} salt - La sal que se añade a la contraseña antes de hashear.
- * @returns {Promise<string>} Una promesa que resuelve con el hash hexadecimal de la contraseña y la sal combinadas.
+ * @returns {Promise<string>} Una promesa que resuelve con el hash versionado.
  * @example
  * const password = "securepassword";
  * const salt = "randomsalt123";
  * const hashedPassword = await hashPassword(password, salt);
- * console.log(hashedPassword);
+ * console.log(hashedPassword); // "pbkdf2-sha256$310000$9f86d081..."
  */
 export async function hashPassword(
   password: string,
   salt: string,
 ): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password + salt);
-  const hash_buffer = await crypto.subtle.digest("SHA-256", data);
-  const hash_array = Array.from(new Uint8Array(hash_buffer));
-  const hash_hex = hash_array
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-  return hash_hex;
+  const hash = await pbkdf2(password, salt, PASSWORD_ITERATIONS);
+  return `${PASSWORD_ALGORITHM}$${PASSWORD_ITERATIONS}$${hash}`;
 }
 
 /**
  * Compara una contraseña con un hash almacenado utilizando la misma sal.
- * Internamente, genera un hash de la contraseña proporcionada y lo compara con el hash almacenado.
+ * Reconoce tanto los hashes versionados de PBKDF2 como los hashes heredados
+ * de SHA-256, y la comparación final se hace en tiempo constante.
  * Se utiliza para validar contraseñas en servicios de autenticación.
  *
  * @param {string} password - La contraseña en texto plano que se desea verificar.
@@ -43,7 +96,7 @@ export async function hashPassword(
  * @example
  * const password = "securepassword";
  * const salt = "randomsalt123";
- * const storedHash = "a1b2c3d4e5f6...";
+ * const storedHash = "pbkdf2-sha256$310000$a1b2c3d4e5f6...";
  * const isMatch = await compareHash(password, salt, storedHash);
  * if (isMatch) {
  *   console.log("La contraseña es correcta");
@@ -56,5 +109,90 @@ export async function compareHash(
   salt: string,
   hash: string,
 ): Promise<boolean> {
-  return hash === (await hashPassword(password, salt));
+  const [algorithm, iterations, stored] = hash.split("$");
+  let candidate: string;
+  let expected: string;
+  if (algorithm === PASSWORD_ALGORITHM && stored) {
+    const rounds = Number(iterations);
+    if (!Number.isInteger(rounds) || rounds < 1) return false;
+    candidate = await pbkdf2(password, salt, rounds);
+    expected = stored;
+  } else {
+    candidate = await legacyHash(password, salt);
+    expected = hash;
+  }
+
+  const encoder = new TextEncoder();
+  const a = encoder.encode(candidate);
+  const b = encoder.encode(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Ejecuta una comparación con el mismo costo que `compareHash` contra un hash
+ * ficticio. Se usa cuando el usuario no existe para que el tiempo de respuesta
+ * no revele qué cuentas están registradas.
+ *
+ * @param {string} [password] - La contraseña en texto plano recibida.
+ * @returns {Promise<boolean>} Siempre resuelve en `false`.
+ * @example
+ * if (!user) {
+ *   await fakeCompare(body.password);
+ *   throw new UnauthorizedError("Credenciales incorrectas, acceso denegado");
+ * }
+ */
+export async function fakeCompare(password: string = ""): Promise<boolean> {
+  const hash = `${PASSWORD_ALGORITHM}$${PASSWORD_ITERATIONS}$${"0".repeat(64)}`;
+  await compareHash(password, "", hash);
+  return false;
+}
+
+/**
+ * Indica si un hash almacenado debe regenerarse: porque es un hash heredado
+ * de SHA-256 o porque se creó con menos iteraciones que las vigentes.
+ *
+ * @param {string} hash - El hash almacenado.
+ * @returns {boolean} `true` si conviene volver a hashear la contraseña.
+ * @example
+ * if (needsRehash(user.password!)) {
+ *   user.password = plain_password;
+ *   await user.save();
+ * }
+ */
+export function needsRehash(hash: string): boolean {
+  const [algorithm, iterations] = hash.split("$");
+  return algorithm !== PASSWORD_ALGORITHM ||
+    Number(iterations) < PASSWORD_ITERATIONS;
+}
+
+/**
+ * Genera un token opaco y aleatorio (32 bytes) codificado en base64url.
+ * Se utiliza para los tokens de refresco, que nunca se guardan en texto plano.
+ *
+ * @returns {string} El token generado.
+ * @example
+ * const refresh = generateToken();
+ * console.log(refresh); // "pZ2c0v9W..."
+ */
+export function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Calcula el hash SHA-256 (hexadecimal) de un token opaco para poder
+ * almacenarlo y buscarlo sin guardar el valor original.
+ *
+ * @param {string} token - El token en texto plano.
+ * @returns {Promise<string>} Una promesa que resuelve con el hash hexadecimal.
+ * @example
+ * const hash = await hashToken(refresh);
+ * const session = await SessionModel.findOne({ hash });
+ */
+export async function hashToken(token: string): Promise<string> {
+  const data = new TextEncoder().encode(token);
+  return toHex(await crypto.subtle.digest("SHA-256", data));
 }
@@ -0,0 +1,193 @@
+/**
+ * @module utils
+ * @description Renombrado de las imágenes de un ítem (y de sus variantes en `.cache`) al
+ * cambiarlo de llave o de código, y de la carpeta completa de una llave al cambiar el código
+ * de su línea o su marca.
+ */
+
+import type { Image, MovedFile } from "@interfaces/item.interface.ts";
+import type { RenameConflict } from "@interfaces/rename.interface.ts";
+import { dirname, existsSync, resolve } from "deps";
+import { BadRequestError } from "errors";
+
+/**
+ * Ubicación de las imágenes de un ítem: la carpeta de su llave y el nombre base de sus
+ * archivos (por ejemplo, `{ key: "GRAPVH", file: "GRAPVH0001" }`).
+ */
+type ItemPath = { key: string; file: string };
+
+/**
+ * Calcula los archivos que hay que renombrar para mover las imágenes de un ítem: el
+ * original de cada imagen guardada y sus variantes en `.cache`, que se nombran
+ * `<file> <idN>_<parámetros>.avif`.
+ *
+ * @param location - Ruta base donde se ubica la carpeta "assets".
+ * @param from - Ubicación actual del ítem.
+ * @param to - Ubicación nueva del ítem.
+ * @param images - Imágenes del ítem; solo se consideran las que tienen `ext`.
+ * @returns Los renombrados pendientes, con rutas relativas a `location`.
+ * @throws {BadRequestError} Si alguna imagen ya existe en la ubicación nueva.
+ *
+ * @example
+ * ```ts
+ * const moves = planItemFiles(
+ *   location,
+ *   { key: "GRAAC", file: "GRAAC0001" },
+ *   { key: "GRAPVH", file: "GRAPVH0001" },
+ *   item.images,
+ * );
+ * ```
+ */
+export function planItemFiles(
+  location: string,
+  from: ItemPath,
+  to: ItemPath,
+  images: Image[],
+): MovedFile[] {
+  const cacheDir = resolve(location, "assets", from.key, ".cache");
+  const cached = existsSync(cacheDir)
+    ? [...Deno.readDirSync(cacheDir)].map(({ name }) => name)
+    : [];
+
+  const moves: MovedFile[] = [];
+  for (const { idN, ext } of images) {
+    if (!ext) continue;
+    const fileName = `${from.file} ${idN}.${ext}`;
+    if (!existsSync(resolve(location, "assets", from.key, fileName))) continue;
+
+    const target = `assets/${to.key}/${to.file} ${idN}.${ext}`;
+    if (existsSync(resolve(location, target))) {
+      throw new BadRequestError("Ya existe una imagen en la ubicación nueva", {
+        file: target,
+      });
+    }
+    moves.push({ from: `assets/${from.key}/${fileName}`, to: target });
+
+    const prefix = `${from.file} ${idN}_`;
+    for (const name of cached.filter((name) => name.startsWith(prefix))) {
+      moves.push({
+        from: `assets/${from.key}/.cache/${name}`,
+        to: `assets/${to.key}/.cache/${to.file} ${idN}_${
+          name.slice(prefix.length)
+        }`,
+      });
+    }
+  }
+  return moves;
+}
+
+/**
+ * Renombra los archivos indicados. Si un renombrado falla, deshace los anteriores antes
+ * de propagar el error, para no dejar las imágenes repartidas entre ambas ubicaciones.
+ *
+ * @param location - Ruta base de las rutas relativas.
+ * @param files - Renombrados calculados con `planItemFiles`.
+ * @returns Los archivos renombrados.
+ */
+export function moveFiles(location: string, files: MovedFile[]): MovedFile[] {
+  const moved: MovedFile[] = [];
+  try {
+    for (const file of files) {
+      const to = resolve(location, file.to);
+      Deno.mkdirSync(dirname(to), { recursive: true });
+      Deno.renameSync(resolve(location, file.from), to);
+      moved.push(file);
+    }
+  } catch (error) {
+    undoMoveFiles(location, moved);
+    throw error;
+  }
+  return moved;
+}
+
+/**
+ * Devuelve a su ruta anterior los archivos renombrados con `moveFiles`, en orden inverso.
+ * Los que ya no están en la ruta nueva se omiten.
+ *
+ * @param location - Ruta base de las rutas relativas.
+ * @param files - Archivos devueltos por `moveFiles`.
+ *
+ * @example
+ * ```ts
+ * const moved = moveFiles(location, moves);
+ * try {
+ *   await ItemModel.updateOne({ _id }, { key, code });
+ * } catch (error) {
+ *   undoMoveFiles(location, moved);
+ *   throw error;
+ * }
+ * ```
+ */
+export function undoMoveFiles(location: string, files: MovedFile[]): void {
+  for (const file of files.toReversed()) {
+    const to = resolve(location, file.to);
+    if (!existsSync(to)) continue;
+    Deno.renameSync(to, resolve(location, file.from));
+  }
+}
+
+/**
+ * Renombra la carpeta de una llave dentro de "assets" y cada imagen cuyo nombre empieza
+ * con el código anterior. La carpeta `.cache` se elimina, porque sus variantes conservan
+ * el nombre anterior y `displayImage` las vuelve a generar.
+ *
+ * @remarks
+ * Si la carpeta nueva ya existe, los archivos se mueven dentro de ella uno por uno. Los
+ * archivos que ya existen con el nombre nuevo, o cuyo nombre no empieza con el código de
+ * la llave, se dejan en la carpeta anterior y se reportan como conflictos; la carpeta
+ * anterior solo se elimina si queda vacía.
+ *
+ * @param location - Ruta base donde se ubica la carpeta "assets".
+ * @param from - Código anterior de la llave (por ejemplo, "GRAAC").
+ * @param to - Código nuevo de la llave (por ejemplo, "GRBAC").
+ * @returns Cantidad de imágenes renombradas, de archivos de `.cache` eliminados y los
+ * conflictos encontrados.
+ *
+ * @example
+ * ```ts
+ * const { renamed, cleared, conflicts } = renameKeyFolder(location, "GRAAC", "GRBAC");
+ * ```
+ */
+export function renameKeyFolder(
+  location: string,
+  from: string,
+  to: string,
+): { renamed: number; cleared: number; conflicts: RenameConflict[] } {
+  const result = { renamed: 0, cleared: 0, conflicts: [] as RenameConflict[] };
+  const source = resolve(location, "assets", from);
+  if (!existsSync(source)) return result;
+
+  const cacheDir = resolve(source, ".cache");
+  if (existsSync(cacheDir)) {
+    result.cleared = [...Deno.readDirSync(cacheDir)].length;
+    Deno.removeSync(cacheDir, { recursive: true });
+  }
+
+  Deno.mkdirSync(resolve(location, "assets", to), { recursive: true });
+  // Se lee la carpeta completa antes de renombrar, para no iterar mientras cambia
+  for (const { name, isFile } of [...Deno.readDirSync(source)]) {
+    const path = `assets/${from}/${name}`;
+    if (!isFile || !name.startsWith(from)) {
+      result.conflicts.push({
+        from: path,
+        reason: "El nombre no corresponde al código de la llave",
+      });
+      continue;
+    }
+
+    const target = `assets/${to}/${to}${name.slice(from.length)}`;
+    if (existsSync(resolve(location, target))) {
+      result.conflicts.push({
+        from: path,
+        to: target,
+        reason: "Ya existe un archivo con el nombre nuevo",
+      });
+      continue;
+    }
+    Deno.renameSync(resolve(location, path), resolve(location, target));
+    result.renamed++;
+  }
+
+  if (![...Deno.readDirSync(source)].length) Deno.removeSync(source);
+  return result;
+}
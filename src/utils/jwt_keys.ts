@@ -0,0 +1,116 @@
+/**
+ * @module utils
+ * @description Llaves para firmar y verificar los JWT de acceso según `setup.KEY`. Con los algoritmos
+ * HMAC (HS*) se usa el secreto compartido; con los asimétricos (RS, PS, ES, EdDSA) se firma con la llave
+ * privada vigente y se verifica con la llave pública cuyo `kid` coincide con el del token, lo que
+ * permite rotar las llaves sin invalidar los tokens emitidos antes de la rotación.
+ */
+
+import { setup } from "config";
+import { UnauthorizedError } from "errors";
+import {
+  type CryptoKey,
+  exportJWK,
+  importJWK,
+  importPKCS8,
+  importSPKI,
+  type JWK,
+  type JWTHeaderParameters,
+} from "jose";
+
+const HMAC = setup.KEY.ALG.startsWith("HS");
+
+let signing: Promise<CryptoKey | Uint8Array> | undefined;
+const verifying = new Map<string, Promise<CryptoKey | Uint8Array>>();
+
+/**
+ * Importa una llave en formato PEM (PKCS#8 o SPKI) o JWK (JSON).
+ *
+ * @param key - Contenido de la llave.
+ * @param type - Si la llave es privada o pública.
+ */
+async function importKey(
+  key: string,
+  type: "private" | "public",
+): Promise<CryptoKey | Uint8Array> {
+  const { ALG } = setup.KEY;
+  const trimmed = key.trim();
+  if (trimmed.startsWith("{")) {
+    return await importJWK(JSON.parse(trimmed), ALG, { extractable: true });
+  }
+
+  return type === "private"
+    ? await importPKCS8(trimmed, ALG)
+    : await importSPKI(trimmed, ALG, { extractable: true });
+}
+
+/**
+ * Obtiene la llave con la que se firman los tokens nuevos.
+ *
+ * @example
+ * ```ts
+ * const token = await new SignJWT(payload)
+ *   .setProtectedHeader({ alg: setup.KEY.ALG, kid: setup.KEY.KID })
+ *   .sign(await signingKey());
+ * ```
+ */
+export function signingKey(): Promise<CryptoKey | Uint8Array> {
+  signing ??= HMAC
+    ? Promise.resolve(new TextEncoder().encode(setup.KEY.SECRET))
+    : importKey(setup.KEY.PRIVATE!, "private");
+  return signing;
+}
+
+/**
+ * Resuelve la llave pública con la que se verifica un token a partir de su
+ * encabezado. Se pasa directamente a `jwtVerify`.
+ *
+ * @throws {UnauthorizedError} Si el `kid` del token no corresponde a ninguna llave conocida.
+ *
+ * @example
+ * ```ts
+ * const { payload } = await jwtVerify(token, verificationKey, {
+ *   algorithms: [setup.KEY.ALG],
+ * });
+ * ```
+ */
+export function verificationKey(
+  header: JWTHeaderParameters,
+): Promise<CryptoKey | Uint8Array> {
+  if (HMAC) return signingKey();
+
+  const kid = header.kid ?? setup.KEY.KID;
+  // El `kid` viene del token: no debe resolver propiedades heredadas como `__proto__`
+  if (!Object.hasOwn(setup.KEY.PUBLIC, kid) || !setup.KEY.PUBLIC[kid]) {
+    throw new UnauthorizedError("Acceso denegado: llave desconocida");
+  }
+
+  if (!verifying.has(kid)) {
+    const key = importKey(setup.KEY.PUBLIC[kid], "public");
+    // Una llave mal configurada no debe quedar en caché como promesa rechazada
+    key.catch(() => verifying.delete(kid));
+    verifying.set(kid, key);
+  }
+  return verifying.get(kid)!;
+}
+
+/**
+ * Construye el JWKS con las llaves públicas vigentes y retiradas. Con los
+ * algoritmos HMAC el conjunto está vacío, porque el secreto no puede publicarse.
+ *
+ * @returns El conjunto de llaves en formato `{ keys: JWK[] }`.
+ */
+export async function jwks(): Promise<{ keys: JWK[] }> {
+  if (HMAC) return { keys: [] };
+
+  const keys: JWK[] = [];
+  for (const kid of Object.keys(setup.KEY.PUBLIC)) {
+    const key = await verificationKey({ kid, alg: setup.KEY.ALG });
+    // Por si una llave privada se configuró por error como pública
+    const { d: _d, p: _p, q: _q, dp: _dp, dq: _dq, qi: _qi, ...jwk } =
+      await exportJWK(key);
+    keys.push({ ...jwk, kid, alg: setup.KEY.ALG, use: "sig" });
+  }
+
+  return { keys };
+}
@@ -0,0 +1,151 @@
+/**
+ * @module utils
+ * @description Limitador de intentos de inicio de sesión. Lleva un contador de intentos fallidos por
+ * usuario y por dirección IP y, una vez superados los intentos tolerados, bloquea la clave con un
+ * retraso que se duplica en cada fallo hasta llegar al bloqueo máximo (`setup.THROTTLE`).
+ */
+
+import type { Attempt, AttemptStore } from "@interfaces/attempt.interface.ts";
+import { setup } from "config";
+import { TooManyRequestsError } from "errors";
+import { AttemptModel } from "models";
+
+/**
+ * Contadores guardados en la colección "Attempt". Se comparten entre reinicios del servidor.
+ */
+class MongoAttemptStore implements AttemptStore {
+  async get(
+    key: string,
+  ): Promise<Pick<Attempt, "count" | "locked_until"> | null> {
+    return await AttemptModel
+      .findOne({ key, expires_at: { $gt: new Date() } })
+      .select("count locked_until")
+      .lean();
+  }
+
+  async increment(key: string, expires_at: Date): Promise<number> {
+    // El índice TTL tarda hasta un minuto en eliminar los contadores caducados
+    await AttemptModel.deleteOne({ key, expires_at: { $lte: new Date() } });
+    const attempt = await AttemptModel.findOneAndUpdate(
+      { key },
+      { $inc: { count: 1 }, $set: { expires_at } },
+      { upsert: true, new: true },
+    );
+    return attempt.count;
+  }
+
+  async lock(key: string, locked_until: Date): Promise<void> {
+    await AttemptModel.updateOne({ key }, { locked_until });
+  }
+
+  async clear(key: string): Promise<void> {
+    await AttemptModel.deleteOne({ key });
+  }
+}
+
+/**
+ * Contadores guardados en memoria. Se pierden al reiniciar el servidor.
+ */
+class MemoryAttemptStore implements AttemptStore {
+  private attempt_map: Map<string, Omit<Attempt, "key">> = new Map();
+
+  get(key: string): Promise<Pick<Attempt, "count" | "locked_until"> | null> {
+    const attempt = this.attempt_map.get(key);
+    if (attempt && attempt.expires_at <= new Date()) {
+      this.attempt_map.delete(key);
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(attempt ?? null);
+  }
+
+  async increment(key: string, expires_at: Date): Promise<number> {
+    const attempt = await this.get(key);
+    const count = (attempt?.count ?? 0) + 1;
+    this.attempt_map.set(key, { ...attempt, count, expires_at });
+    return count;
+  }
+
+  lock(key: string, locked_until: Date): Promise<void> {
+    const attempt = this.attempt_map.get(key);
+    if (attempt) attempt.locked_until = locked_until;
+    return Promise.resolve();
+  }
+
+  clear(key: string): Promise<void> {
+    this.attempt_map.delete(key);
+    return Promise.resolve();
+  }
+}
+
+class LoginThrottle {
+  constructor(private store: AttemptStore) {}
+
+  /**
+   * Construye las claves con las que se cuentan los intentos de un inicio de sesión.
+   *
+   * @param nickname - Nombre de usuario enviado, exista o no; puede venir de un cuerpo
+   *   sin validar, así que se convierte a texto.
+   * @param ip - Dirección IP del cliente, si se conoce.
+   */
+  keys(nickname?: unknown, ip?: string): string[] {
+    // Igual que el esquema de usuario, el nickname no distingue mayúsculas
+    const keys = [`user:${String(nickname ?? "").trim().toLowerCase()}`];
+    if (ip) keys.push(`ip:${ip}`);
+    return keys;
+  }
+
+  /**
+   * Verifica que ninguna de las claves esté bloqueada.
+   *
+   * @throws {TooManyRequestsError} Si alguna clave sigue bloqueada; `details.retry_after`
+   * indica los segundos que faltan.
+   */
+  async assert(keys: string[]): Promise<void> {
+    const now = Date.now();
+    let retry_after = 0;
+    for (const key of keys) {
+      const attempt = await this.store.get(key);
+      const locked_until = attempt?.locked_until?.getTime() ?? 0;
+      retry_after = Math.max(
+        retry_after,
+        Math.ceil((locked_until - now) / 1000),
+      );
+    }
+    if (retry_after > 0) {
+      throw new TooManyRequestsError(
+        "Demasiados intentos fallidos, intenta de nuevo más tarde",
+        { retry_after },
+      );
+    }
+  }
+
+  /**
+   * Registra un intento fallido en cada clave y las bloquea si ya se superaron
+   * los intentos tolerados.
+   */
+  async fail(keys: string[]): Promise<void> {
+    const { FREE, DELAY, LOCKOUT, WINDOW } = setup.THROTTLE;
+    const expires_at = new Date(Date.now() + WINDOW * 1000);
+    for (const key of keys) {
+      const count = await this.store.increment(key, expires_at);
+      if (count <= FREE) continue;
+
+      const delay = Math.min(DELAY * 2 ** (count - FREE - 1), LOCKOUT);
+      await this.store.lock(key, new Date(Date.now() + delay * 1000));
+    }
+  }
+
+  /**
+   * Elimina los contadores de las claves, por ejemplo tras un inicio de sesión
+   * exitoso o cuando un administrador desbloquea la cuenta.
+   */
+  async reset(keys: string[]): Promise<void> {
+    for (const key of keys) await this.store.clear(key);
+  }
+}
+
+export const loginThrottle = new LoginThrottle(
+  setup.THROTTLE.STORE === "memory"
+    ? new MemoryAttemptStore()
+    : new MongoAttemptStore(),
+);
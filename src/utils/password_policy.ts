@@ -0,0 +1,66 @@
+/**
+ * @module utils
+ * @description Validación de contraseñas nuevas contra la política configurada en `setup.PASSWORD`:
+ * longitud, combinación de clases de caracteres y lista de contraseñas prohibidas.
+ */
+
+import { setup } from "config";
+import { BadRequestError } from "errors";
+
+/**
+ * Clases de caracteres que se cuentan para `setup.PASSWORD.CLASSES`.
+ */
+const CHARACTER_CLASSES = [/\p{Ll}/u, /\p{Lu}/u, /\p{Nd}/u, /[^\p{L}\p{Nd}]/u];
+
+/**
+ * Verifica que una contraseña nueva cumpla la política de contraseñas.
+ *
+ * @param password - Contraseña en texto plano.
+ * @param nickname - Nombre de usuario; la contraseña no puede contenerlo.
+ * @throws {BadRequestError} Si la contraseña no cumple la política; `details.violations`
+ * enumera las reglas incumplidas.
+ * @example
+ * assertPasswordPolicy(body.password, body.nickname);
+ */
+export function assertPasswordPolicy(
+  password?: string,
+  nickname?: string,
+): void {
+  const { MIN, MAX, CLASSES, BANNED } = setup.PASSWORD;
+  if (typeof password !== "string") {
+    throw new BadRequestError("La contraseña no es válida");
+  }
+
+  const violations: string[] = [];
+  if (password.length < MIN) {
+    violations.push(`Debe tener al menos ${MIN} caracteres`);
+  }
+  if (password.length > MAX) {
+    violations.push(`Debe tener como máximo ${MAX} caracteres`);
+  }
+
+  const classes = CHARACTER_CLASSES.filter((regex) => regex.test(password));
+  if (classes.length < CLASSES) {
+    violations.push(
+      `Debe combinar al menos ${CLASSES} de: minúsculas, mayúsculas, dígitos y símbolos`,
+    );
+  }
+
+  const lower = password.trim().toLowerCase();
+  if (BANNED.includes(lower)) {
+    violations.push("Es una contraseña demasiado común");
+  }
+
+  // Los nombres muy cortos coincidirían con demasiadas contraseñas
+  const name = nickname?.trim().toLowerCase();
+  if (name && name.length >= 3 && lower.includes(name)) {
+    violations.push("No puede contener el nombre de usuario");
+  }
+
+  if (violations.length) {
+    throw new BadRequestError(
+      "La contraseña no cumple la política de contraseñas",
+      { violations },
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @module utils
+ * @description Funciones utilitarias para los permisos finos: validación contra el catálogo
+ * `setup.PERMISSIONS`, traducción de los roles predefinidos y comparación con comodines.
+ */
+
+import { setup } from "config";
+
+/**
+ * Indica si un conjunto de permisos concede el permiso solicitado. Se aceptan
+ * comodines: `"*"` concede todo y `"item.*"` cualquier permiso que empiece con `"item."`.
+ *
+ * @param granted - Permisos otorgados.
+ * @param permission - Permiso solicitado.
+ * @returns `true` si alguno de los permisos otorgados lo cubre.
+ * @example
+ * grants(["item.*"], "item.image.upload"); // true
+ * grants(["item.read"], "item.update"); // false
+ */
+export function grants(
+  granted: readonly string[],
+  permission: string,
+): boolean {
+  return granted.some((entry) =>
+    entry === "*" || entry === permission ||
+    (entry.endsWith(".*") && permission.startsWith(entry.slice(0, -1)))
+  );
+}
+
+/**
+ * Verifica que todos los permisos pertenezcan al catálogo, admitiendo comodines
+ * que cubran al menos un permiso existente.
+ *
+ * @param permissions - Permisos a validar.
+ * @returns `true` si el arreglo no está vacío y todos los permisos son válidos.
+ * @example
+ * hasValidPermissions(["item.read", "key.*"]); // true
+ * hasValidPermissions(["item.fly"]); // false
+ */
+export function hasValidPermissions(permissions?: unknown): boolean {
+  if (!Array.isArray(permissions) || !permissions.length) return false;
+  return permissions.every((permission) =>
+    typeof permission === "string" &&
+    setup.PERMISSIONS.some((known) => grants([permission], known))
+  );
+}
+
+/**
+ * Obtiene los permisos que conceden los roles predefinidos incluidos en la máscara de bits.
+ *
+ * @param role - Valor numérico de roles (`setup.AUTH`).
+ * @returns Los permisos sin duplicados.
+ * @example
+ * intoPermissions(setup.AUTH.READ); // ["item.read", "key.read", "line.read", "brand.read"]
+ */
+export function intoPermissions(role?: number): string[] {
+  if (!role) return [];
+  const permissions = Object.entries(setup.AUTH)
+    .filter(([, bit]) => !!(role & bit))
+    .flatMap(([name]) => setup.ROLE_PERMISSIONS[name] ?? []);
+  return [...new Set(permissions)];
+}
@@ -1,4 +1,5 @@
 import type { PipelineStage } from "mongoose";
+import { pipeline as aggregate } from 'aggregate';
 import { InstructionModel } from 'models';
 
 import {
@@ -23,6 +24,8 @@ export class ParserPipeline {
           items: { include: [], exclude: [] },
           lines: { include: [], exclude: [] },
           brands: { include: [], exclude: [] },
+          attributes: { include: [], exclude: [] },
+          vehicles: { include: [], exclude: [] },
           desc: "",
         },
         pipeline: [],
@@ -79,10 +82,14 @@ export class ParserPipeline {
       items: { include: [], exclude: [] },
       lines: { include: [], exclude: [] },
       brands: { include: [], exclude: [] },
+      attributes: { include: [], exclude: [] },
+      vehicles: { include: [], exclude: [] },
       desc: finalDesc,
     };
 
     const pipeline: PipelineStage[] = [];
+    const fitment: PipelineStage.Match["$match"][] = [];
+    const fitmentStages: PipelineStage[] = [];
     for (const { field, type, patternData, matchStage } of parseArray) {
       const exclude = type === "exclude";
       const pat = this.patternDataToPattern(patternData);
@@ -91,7 +98,28 @@ export class ParserPipeline {
       } else {
         finalParsed[field].include.push(pat);
       }
-      pipeline.push(matchStage);
+      if (field !== "vehicles") {
+        pipeline.push(matchStage);
+      } else if (exclude) {
+        fitmentStages.push(matchStage);
+      } else {
+        // veh: y year: incluidos deben cumplirse en la misma aplicación
+        fitment.push(this.buildFitmentCondition(patternData));
+      }
+    }
+
+    // Las aplicaciones solo se consultan si la instrucción las usa, después de los demás filtros.
+    if (fitment.length) {
+      fitmentStages.push({
+        $match: { fitments: { $elemMatch: { $and: fitment } } },
+      });
+    }
+    if (fitmentStages.length) {
+      pipeline.push(
+        { $lookup: aggregate.LOOKUP.FITMENTS },
+        ...fitmentStages,
+        { $unset: "fitments" },
+      );
     }
 
     return { parseResult: finalParsed, pipeline };
@@ -105,7 +133,8 @@ export class ParserPipeline {
   ): { tokens: Array<{ tokenStr: string; exclude: boolean }>; desc: string } {
     const tokens: Array<{ tokenStr: string; exclude: boolean }> = [];
     let desc = "";
-    const parts = input.match(/\w+:"[^"]+"|\w+:'[^']+'|\S+/g) || [];
+    const parts =
+      input.match(/\w+:(?:\w+(?:[<>]=?|=))?(?:"[^"]+"|'[^']+')|\S+/g) || [];
     for (const part of parts) {
       let exclude = false;
       let val = part;
@@ -189,6 +218,36 @@ export class ParserPipeline {
   private static parseSingleToken(
     tokenStr: string,
   ): { field: PatternField; patternData: InstructionPatternData } | null {
+    // Aplicaciones del ítem: veh:"mazda 3", year:2012 (también "vehiculo:" y "año:").
+    const fitmentMatch = tokenStr.match(
+      /^(veh|veh[ií]culo|year|año|anio):(.+)$/i,
+    );
+    if (fitmentMatch) {
+      const vehicle = !/^(year|año|anio)$/i.test(fitmentMatch[1]);
+      const value = fitmentMatch[2].replace(/^"|"$/g, "").replace(/^'|'$/g, "")
+        .trim();
+      if (vehicle ? !value : !/^\d{4}$/.test(value)) return null;
+      return {
+        field: "vehicles",
+        patternData: { patternType: vehicle ? "vehicle" : "year", value },
+      };
+    }
+    // Atributos del ítem: attr:nombre=valor, attr:nombre>n (también "atributo:").
+    const attrMatch = tokenStr.match(
+      /^(?:attr|atributo):(\w+)(>=|<=|=|>|<)(.+)$/i,
+    );
+    if (attrMatch) {
+      const value = attrMatch[3].replace(/^"|"$/g, "").replace(/^'|'$/g, "");
+      return {
+        field: "attributes",
+        patternData: {
+          patternType: "attribute",
+          name: attrMatch[1].toLowerCase(),
+          operator: attrMatch[2] as ComparisonOperator,
+          value,
+        },
+      };
+    }
     let field: PatternField | undefined;
     let tokenBody = tokenStr;
     const fieldMatchQuoted = tokenStr.match(/^(\w+):["'](.+)["']$/);
@@ -342,6 +401,10 @@ export class ParserPipeline {
         return this.buildLineExpr(pd);
       case "brands":
         return this.buildBrandExpr(pd);
+      case "attributes":
+        return this.buildAttributeExpr(pd);
+      case "vehicles":
+        return { fitments: { $elemMatch: this.buildFitmentCondition(pd) } };
     }
   }
 
@@ -454,6 +517,58 @@ export class ParserPipeline {
     return this.buildSingleFieldExpr(pd, path);
   }
 
+  // Para atributos: "=" compara sin distinguir mayúsculas y acepta el valor como número
+  // o booleano; las comparaciones son numéricas si el valor es un número.
+  private static buildAttributeExpr(
+    pd: InstructionPatternData,
+  ): PipelineStage.Match["$match"] {
+    if (pd.patternType !== "attribute") return {};
+    const path = `attributes.${pd.name}`;
+    const number = Number(pd.value);
+    const numeric = pd.value.trim() !== "" && Number.isFinite(number);
+    if (pd.operator !== ComparisonOperator.EQ) {
+      return {
+        [path]: {
+          [this.mapOperator(pd.operator)]: numeric ? number : pd.value,
+        },
+      };
+    }
+    const alternatives: PipelineStage.Match["$match"][] = [
+      { [path]: { $regex: `^${this.escapeRegex(pd.value)}$`, $options: "i" } },
+    ];
+    if (numeric) alternatives.push({ [path]: number });
+    const lower = pd.value.toLowerCase();
+    if (lower === "true" || lower === "false") {
+      alternatives.push({ [path]: lower === "true" });
+    }
+    return { $or: alternatives };
+  }
+
+  // Para aplicaciones: condición sobre un elemento de `fitments` (ver LOOKUP.FITMENTS).
+  // El vehículo se compara por palabras completas de "MARCA MODELO", de modo que
+  // "mazda" coincide con "MAZDA 3" pero "mazda 3" no coincide con "MAZDA 323".
+  private static buildFitmentCondition(
+    pd: InstructionPatternData,
+  ): PipelineStage.Match["$match"] {
+    if (pd.patternType === "vehicle") {
+      return {
+        name: {
+          $regex: `(^|\\s)${this.escapeRegex(pd.value)}($|\\s)`,
+          $options: "i",
+        },
+      };
+    }
+    if (pd.patternType === "year") {
+      const year = Number(pd.value);
+      return { year_from: { $lte: year }, year_to: { $gte: year } };
+    }
+    return {};
+  }
+
+  private static escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
   private static buildExprWithoutPrefix(
     pattern: Pattern,
     isItemFull: boolean,
@@ -568,6 +683,22 @@ export class ParserPipeline {
   }
 
   private static patternDataToPattern(pd: InstructionPatternData): Pattern {
+    if (pd.patternType === "attribute") {
+      return {
+        type: PatternType.ATTRIBUTE,
+        name: pd.name,
+        operator: pd.operator,
+        value: pd.value,
+      };
+    }
+    if (pd.patternType === "vehicle" || pd.patternType === "year") {
+      return {
+        type: pd.patternType === "vehicle"
+          ? PatternType.VEHICLE
+          : PatternType.YEAR,
+        value: pd.value,
+      };
+    }
     const base = pd.keyPrefix ? { keyPrefix: pd.keyPrefix } : {};
     switch (pd.patternType) {
       case "comparison":
@@ -0,0 +1,129 @@
+/**
+ * @module utils
+ * @description Plugin de Mongoose para la eliminación lógica (papelera) de líneas, marcas,
+ * llaves e ítems.
+ */
+
+import type { SoftDeleted, SoftDeletion } from "@interfaces/trash.interface.ts";
+import type { Aggregate, FilterQuery, Model, Query } from "mongoose";
+import { Schema } from "mongoose";
+
+/**
+ * Filtro de los documentos que no están en la papelera.
+ */
+export const ACTIVE = { deleted_at: { $exists: false } } as const;
+
+/**
+ * Agrega `ACTIVE` al filtro de la consulta, salvo que ya mencione `deleted_at`.
+ */
+function excludeDeleted(this: Query<unknown, unknown>) {
+  if ("deleted_at" in this.getFilter()) return;
+  this.where(ACTIVE);
+}
+
+/**
+ * Agrega `ACTIVE` a la primera etapa `$match` de la agregación, o una etapa nueva al
+ * inicio. Se combina con el `$match` existente porque `$text` debe ir en la primera etapa.
+ */
+function excludeDeletedAggregate(this: Aggregate<unknown>) {
+  const stages = this.pipeline();
+  const [first] = stages;
+  if (first && "$match" in first) {
+    if (!("deleted_at" in first.$match)) Object.assign(first.$match, ACTIVE);
+    return;
+  }
+  stages.unshift({ $match: { ...ACTIVE } });
+}
+
+async function softDeleteMany(
+  this: Model<unknown>,
+  filter: FilterQuery<unknown>,
+  { deleted_by, deletion }: SoftDeletion,
+): Promise<number> {
+  const { modifiedCount } = await this.updateMany(
+    { ...filter, ...ACTIVE },
+    { deleted_at: new Date(), deleted_by, deletion, $inc: { version: 1 } },
+  );
+  return modifiedCount;
+}
+
+async function restore(
+  this: Model<unknown>,
+  filter: FilterQuery<unknown>,
+): Promise<number> {
+  const { modifiedCount } = await this.updateMany(
+    { ...filter, deleted_at: { $exists: true } },
+    {
+      $unset: { deleted_at: 1, deleted_by: 1, deletion: 1, trashed: 1 },
+      $inc: { version: 1 },
+    },
+  );
+  return modifiedCount;
+}
+
+async function inTrash(
+  this: Model<unknown>,
+  filter: FilterQuery<unknown>,
+): Promise<boolean> {
+  const trashed = await this.exists({
+    ...filter,
+    deleted_at: { $exists: true },
+  });
+  return trashed !== null;
+}
+
+/**
+ * Agrega los campos de `SoftDeleted` y los estáticos de `SoftDeleteStatics`, y oculta los
+ * documentos eliminados en todas las consultas y agregaciones del modelo.
+ *
+ * @remarks
+ * - Para consultar la papelera, el filtro debe mencionar `deleted_at`
+ *   (por ejemplo, `{ _id, deleted_at: { $exists: true } }`).
+ * - Las etapas `$lookup` de `pipeline.LOOKUP` filtran los documentos eliminados de las
+ *   colecciones relacionadas.
+ * - Eliminar y restaurar aumentan `version`, para que cambie el `ETag` del documento.
+ * - Los índices únicos siguen aplicando a los documentos eliminados: para volver a usar un
+ *   código hay que restaurar el documento. `inTrash` permite rechazarlo antes de insertar.
+ *
+ * @example
+ * ```ts
+ * lineSchema.plugin(softDelete);
+ * ```
+ */
+export function softDelete<T extends SoftDeleted, M>(schema: Schema<T, M>) {
+  schema.add(
+    new Schema({
+      deleted_at: { type: Date },
+      deleted_by: { type: Schema.Types.ObjectId, ref: "User" },
+      deletion: { type: Schema.Types.ObjectId, index: true },
+      trashed: {
+        type: [{ from: String, to: String, _id: false }],
+        default: undefined,
+        select: false,
+      },
+    }),
+  );
+
+  schema.pre(
+    [
+      "find",
+      "findOne",
+      "findOneAndUpdate",
+      "findOneAndDelete",
+      "countDocuments",
+      "distinct",
+      "updateOne",
+      "updateMany",
+      "deleteOne",
+      "deleteMany",
+    ],
+    excludeDeleted,
+  );
+  schema.pre("aggregate", excludeDeletedAggregate);
+
+  // Mongoose no puede relacionar el modelo genérico `M` con `Model<unknown>`;
+  // los estáticos solo usan `updateMany` y `exists`, comunes a todos los modelos.
+  schema.static("softDelete", softDeleteMany as never);
+  schema.static("restore", restore as never);
+  schema.static("inTrash", inTrash as never);
+}
@@ -0,0 +1,261 @@
+/**
+ * @module utils
+ * @description Utilidades para la autenticación de dos factores: códigos TOTP (RFC 6238) con
+ * HMAC-SHA1, cifrado de los secretos con `setup.KEY.ABSOLUTE`, códigos de recuperación y el token
+ * de reto que conecta los dos pasos del inicio de sesión.
+ */
+
+import { setup } from "config";
+import { UnauthorizedError } from "errors";
+import { base64url, jwtVerify, SignJWT } from "jose";
+
+import { timingSafeEqual } from "@std/crypto";
+import { signingKey, verificationKey } from "@utils/jwt_keys.ts";
+
+/**
+ * Alfabeto base32 (RFC 4648), el formato que esperan las aplicaciones autenticadoras.
+ */
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Audiencia de los tokens de reto; `authMiddleware` los rechaza porque no llevan `sid`.
+ */
+const CHALLENGE_AUDIENCE = "totp";
+
+let cipher_key: Promise<CryptoKey> | undefined;
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(input: string): Uint8Array<ArrayBuffer> {
+  const clean = input.toUpperCase().replace(/[\s=]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32.indexOf(char);
+    if (index < 0) throw new Error("Secreto TOTP inválido");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Calcula el código TOTP de un periodo concreto.
+ */
+async function codeAt(
+  secret: Uint8Array<ArrayBuffer>,
+  step: number,
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    secret,
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+  const hmac = new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, counter.buffer),
+  );
+
+  // Truncamiento dinámico (RFC 4226, sección 5.3)
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = ((hmac[offset] & 127) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  const { DIGITS } = setup.TOTP;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/**
+ * Llave AES-GCM derivada de `setup.KEY.ABSOLUTE` para cifrar los secretos.
+ */
+function cipherKey(): Promise<CryptoKey> {
+  cipher_key ??= crypto.subtle
+    .digest("SHA-256", new TextEncoder().encode(setup.KEY.ABSOLUTE))
+    .then((raw) =>
+      crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+        "encrypt",
+        "decrypt",
+      ])
+    );
+  return cipher_key;
+}
+
+/**
+ * Genera un secreto TOTP aleatorio de 160 bits codificado en base32.
+ *
+ * @returns El secreto en base32, tal como se muestra al usuario.
+ */
+export function generateSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * Construye el URI `otpauth://` que las aplicaciones autenticadoras leen desde un código QR.
+ *
+ * @param secret - Secreto en base32.
+ * @param account - Nombre de la cuenta (el nickname del usuario).
+ */
+export function otpauthUri(secret: string, account: string): string {
+  const { ISSUER, DIGITS, PERIOD } = setup.TOTP;
+  const label = encodeURIComponent(`${ISSUER}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(PERIOD),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+/**
+ * Busca el periodo al que corresponde un código, tolerando `setup.TOTP.DRIFT`
+ * periodos de desfase.
+ *
+ * @param secret - Secreto en base32.
+ * @param code - Código enviado por el usuario.
+ * @param last_step - Último periodo aceptado; los códigos de ese periodo o de
+ * uno anterior se rechazan para que no puedan reutilizarse.
+ * @returns El periodo del código, o `null` si no es válido.
+ * @example
+ * const step = await matchCode(secret, "123456", user.totp_step);
+ * if (step === null) throw new UnauthorizedError("Código incorrecto");
+ */
+export async function matchCode(
+  secret: string,
+  code: string,
+  last_step: number = -1,
+): Promise<number | null> {
+  const { PERIOD, DRIFT } = setup.TOTP;
+  const candidate = new TextEncoder().encode(String(code).replace(/\s/g, ""));
+  const key = base32Decode(secret);
+  const current = Math.floor(Date.now() / 1000 / PERIOD);
+  for (let step = current - DRIFT; step <= current + DRIFT; step++) {
+    if (step <= last_step) continue;
+    const expected = new TextEncoder().encode(await codeAt(key, step));
+    if (
+      candidate.length === expected.length &&
+      timingSafeEqual(candidate, expected)
+    ) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Cifra un secreto TOTP con AES-GCM para guardarlo en la base de datos.
+ *
+ * @param secret - Secreto en base32.
+ * @returns Cadena `iv.cifrado` en base64url.
+ */
+export async function encryptSecret(secret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await cipherKey(),
+    new TextEncoder().encode(secret),
+  );
+  return `${base64url.encode(iv)}.${base64url.encode(new Uint8Array(sealed))}`;
+}
+
+/**
+ * Descifra un secreto guardado con `encryptSecret`.
+ *
+ * @param sealed - Cadena `iv.cifrado` en base64url.
+ * @returns El secreto en base32.
+ */
+export async function decryptSecret(sealed: string): Promise<string> {
+  const [iv, data] = sealed.split(".");
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: new Uint8Array(base64url.decode(iv)) },
+    await cipherKey(),
+    new Uint8Array(base64url.decode(data)),
+  );
+  return new TextDecoder().decode(plain);
+}
+
+/**
+ * Genera los códigos de recuperación de un solo uso, con la forma `XXXXX-XXXXX`.
+ *
+ * @returns Los códigos en texto plano; solo se entregan una vez.
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: setup.TOTP.RECOVERY }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7)));
+    return `${code.slice(0, 5)}-${code.slice(5, 10)}`;
+  });
+}
+
+/**
+ * Normaliza un código de recuperación antes de calcular su hash, para aceptar
+ * minúsculas, espacios o el guion omitido.
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return String(code).toUpperCase().replace(/[^A-Z2-7]/g, "");
+}
+
+/**
+ * Emite el token de reto que se entrega tras validar la contraseña de un
+ * usuario con TOTP. No sirve como token de acceso.
+ *
+ * @param sub - `_id` del usuario.
+ * @param ver - Versión de tokens del usuario, para invalidar el reto si cambia.
+ */
+export async function createChallenge(
+  sub: string,
+  ver: number,
+): Promise<string> {
+  return await new SignJWT({ ver })
+    .setProtectedHeader({ alg: setup.KEY.ALG, kid: setup.KEY.KID })
+    .setSubject(sub)
+    .setAudience(CHALLENGE_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(`${setup.TOTP.CHALLENGE}s`)
+    .sign(await signingKey());
+}
+
+/**
+ * Verifica un token de reto.
+ *
+ * @param token - Token emitido por `createChallenge`.
+ * @returns El `_id` del usuario y la versión de tokens con que se emitió.
+ * @throws {UnauthorizedError} Si el token es inválido o caducó.
+ */
+export async function verifyChallenge(
+  token: string,
+): Promise<{ sub: string; ver: number }> {
+  try {
+    const { payload } = await jwtVerify(token, verificationKey, {
+      algorithms: [setup.KEY.ALG],
+      audience: CHALLENGE_AUDIENCE,
+    });
+    return { sub: payload.sub!, ver: Number(payload.ver ?? 0) };
+  } catch {
+    throw new UnauthorizedError("El reto no es válido o ha expirado");
+  }
+}
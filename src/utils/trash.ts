@@ -1,4 +1,5 @@
-import { existsSync, resolve } from "deps";
+import type { TrashedFile } from "@interfaces/audit.interface.ts";
+import { dirname, existsSync, resolve } from "deps";
 
 import { formatDateTime } from "@utils/formatDate.ts";
 
@@ -13,6 +14,7 @@ import { formatDateTime } from "@utils/formatDate.ts";
  * @param location - Ruta base donde se ubican los archivos.
  * @param key - Clave que identifica la subcarpeta dentro de "assets" de donde se moverán los archivos.
  * @param files - Uno o más nombres de archivo que se desean mover. Puede ser un string o un arreglo de strings.
+ * @returns Las rutas de origen y destino (relativas a `location`) de los archivos que sí se movieron.
  *
  * @example
  * ```ts
@@ -27,18 +29,50 @@ export function moveFilesToTrash(
   location: string,
   key: string,
   files: string | string[],
-): void {
+): TrashedFile[] {
   const files_list = Array.isArray(files) ? files : [files];
+  const trashed: TrashedFile[] = [];
   for (const file of files_list) {
     const path = resolve(location, "assets", key, file);
     if (!existsSync(path)) continue;
-    const new_path = resolve(
-      location,
-      "trash",
-      `deleted-${formatDateTime()}-${file}`,
-    );
-    Deno.renameSync(path, new_path);
+    const trash_name = `deleted-${formatDateTime()}-${file}`;
+    Deno.renameSync(path, resolve(location, "trash", trash_name));
+    trashed.push({ from: `assets/${key}/${file}`, to: `trash/${trash_name}` });
   }
+  return trashed;
+}
+
+/**
+ * Devuelve a su ubicación original los archivos que `moveFilesToTrash` envió a la papelera.
+ *
+ * @remarks
+ * Se omiten los archivos que ya no están en la papelera y aquellos cuya ruta original
+ * vuelve a estar ocupada, para no sobrescribir una imagen subida después de la eliminación.
+ * Si la carpeta de la llave ya no existe, se vuelve a crear.
+ *
+ * @param location - Ruta base donde se ubican las carpetas "assets" y "trash".
+ * @param files - Rutas registradas por `moveFilesToTrash`.
+ * @returns Los archivos que sí se restauraron.
+ *
+ * @example
+ * ```ts
+ * const restored = restoreFilesFromTrash(location, data.trashed ?? []);
+ * ```
+ */
+export function restoreFilesFromTrash(
+  location: string,
+  files: TrashedFile[],
+): TrashedFile[] {
+  const restored: TrashedFile[] = [];
+  for (const file of files) {
+    const from = resolve(location, file.from);
+    const to = resolve(location, file.to);
+    if (!existsSync(to) || existsSync(from)) continue;
+    Deno.mkdirSync(dirname(from), { recursive: true });
+    Deno.renameSync(to, from);
+    restored.push(file);
+  }
+  return restored;
 }
 
 /**
@@ -33,3 +33,14 @@ export function validateIdN() {
     return query;
   });
 }
+
+export function validateRev() {
+  return validator("query", (query) => {
+    const rev = Number(query.rev);
+    if (!query.rev || !Number.isInteger(rev) || rev < 0) {
+      throw new BadRequestError("La revisión proporcionada no es válida");
+    }
+
+    return query;
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * @module utils
+ * @description Validación de los rangos de años de los vehículos y de sus aplicaciones.
+ */
+
+import { BadRequestError } from "errors";
+
+/**
+ * Primer año que se acepta en el catálogo de vehículos.
+ */
+const FIRST_YEAR = 1900;
+
+/**
+ * Rango de años, con ambos extremos incluidos.
+ */
+interface YearRange {
+  year_from: number;
+  year_to: number;
+}
+
+/**
+ * Valida un rango de años.
+ *
+ * @param input - Años enviados por el cliente; los que falten se toman de `bounds`.
+ * @param bounds - Rango permitido. Por defecto, de 1900 al año siguiente al actual
+ *   (los modelos se venden un año antes de su año modelo).
+ * @returns El rango validado.
+ * @throws {BadRequestError} Si algún año no es un entero, está fuera de `bounds` o el
+ *   rango está invertido.
+ *
+ * @example
+ * ```ts
+ * parseYears({ year_from: "2012" }, { year_from: 2010, year_to: 2013 });
+ * // { year_from: 2012, year_to: 2013 }
+ * ```
+ */
+export function parseYears(
+  input: { year_from?: unknown; year_to?: unknown },
+  bounds: YearRange = {
+    year_from: FIRST_YEAR,
+    year_to: new Date().getFullYear() + 1,
+  },
+): YearRange {
+  const year_from = Number(input.year_from ?? bounds.year_from);
+  const year_to = Number(input.year_to ?? bounds.year_to);
+  const valid = (year: number) =>
+    Number.isInteger(year) && year >= bounds.year_from &&
+    year <= bounds.year_to;
+  if (!valid(year_from) || !valid(year_to)) {
+    throw new BadRequestError(
+      `Los años deben estar entre ${bounds.year_from} y ${bounds.year_to}`,
+    );
+  }
+  if (year_from > year_to) {
+    throw new BadRequestError("El año inicial no puede ser mayor que el final");
+  }
+  return { year_from, year_to };
+}